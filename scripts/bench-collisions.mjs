@@ -0,0 +1,28 @@
+// Runs the collision broad-phase benchmark in Node, using Vite to load the TypeScript sources.
+// Usage: npm run bench:collisions [-- <entities> <frames>]
+import { createServer } from 'vite';
+
+const entityCount = Number(process.argv[2] ?? 500);
+const frames = Number(process.argv[3] ?? 300);
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  optimizeDeps: { noDiscovery: true }, // Nothing to pre-bundle outside the browser
+});
+
+try {
+  const { runCollisionBenchmark } = await server.ssrLoadModule('/src/benchmarks/collisionBenchmark.ts');
+  const result = runCollisionBenchmark(entityCount, frames);
+
+  console.log(`Entities:   ${result.entityCount}`);
+  console.log(`Frames:     ${result.frames}`);
+  console.log(`Collisions: ${result.collisions} (identical in both)`);
+  console.log(`All pairs:  ${result.naiveMs.toFixed(1)} ms (${(result.naiveMs / result.frames).toFixed(3)} ms/frame)`);
+  console.log(`Hashed:     ${result.hashedMs.toFixed(1)} ms (${(result.hashedMs / result.frames).toFixed(3)} ms/frame)`);
+  console.log(`Speedup:    ${result.speedup.toFixed(1)}x`);
+} finally {
+  await server.close();
+}
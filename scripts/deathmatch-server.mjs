@@ -0,0 +1,197 @@
+// Hosts an online deathmatch on this machine: a WebSocket server on localhost that runs
+// the authoritative simulation (src/net/DeathmatchServer.ts) at 60 ticks per second.
+// Usage: npm run server [-- <levelIndex> <port>]
+// The WebSocket handling is a minimal RFC 6455 implementation (text frames only),
+// so the server needs nothing beyond Node and Vite.
+import { createServer as createHttpServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createServer } from 'vite';
+
+const levelIndex = Number(process.argv[2] ?? 0);
+const port = Number(process.argv[3] ?? 8787);
+const host = 'localhost';
+
+const TICK_MS = 1000 / 60; // Matches GameLoop
+const MAX_CATCH_UP_TICKS = 5; // Ticks to run at once after a stall before giving up on the backlog
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const vite = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  optimizeDeps: { noDiscovery: true }, // Nothing to pre-bundle outside the browser
+});
+
+const { DeathmatchServer } = await vite.ssrLoadModule('/src/net/DeathmatchServer.ts');
+const game = new DeathmatchServer(levelIndex);
+
+/**
+ * Build a server-to-client frame (servers never mask)
+ */
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Wrap an upgraded socket: parse incoming frames and pass complete text messages on
+ */
+function acceptSocket(socket) {
+  let buffer = Buffer.alloc(0);
+  let fragments = []; // Payloads of a fragmented message so far
+  let fragmentBytes = 0; // Their total length, capped like a single frame
+  let closed = false;
+
+  const send = (data) => {
+    if (!closed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(data)));
+  };
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    game.disconnect(id);
+  };
+  const id = game.connect(send);
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Clients must mask their frames
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        close();
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return; // Wait for the rest of the frame
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_CONTINUATION:
+          fragmentBytes += payload.length;
+          if (fragmentBytes > MAX_MESSAGE_BYTES) {
+            close();
+            return;
+          }
+          fragments.push(payload);
+          if (fin) {
+            game.receive(id, Buffer.concat(fragments).toString('utf8'));
+            fragments = [];
+            fragmentBytes = 0;
+          }
+          break;
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, payload));
+          break;
+        case OPCODE_PONG:
+          break;
+        default: // Close, or binary frames this protocol doesn't use
+          close();
+          return;
+      }
+    }
+  });
+
+  socket.on('close', () => {
+    closed = true;
+    game.disconnect(id);
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+const http = createHttpServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Deathmatch server - connect with a WebSocket\n');
+});
+
+http.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  acceptSocket(socket);
+});
+
+// Fixed-timestep loop, as GameLoop does in the browser
+let last = performance.now();
+let accumulator = 0;
+const loop = setInterval(() => {
+  const now = performance.now();
+  accumulator += now - last;
+  last = now;
+
+  let ticks = 0;
+  while (accumulator >= TICK_MS && ticks < MAX_CATCH_UP_TICKS) {
+    game.update();
+    accumulator -= TICK_MS;
+    ticks++;
+  }
+  if (ticks === MAX_CATCH_UP_TICKS) accumulator = 0;
+}, TICK_MS / 2);
+
+const shutdown = async () => {
+  clearInterval(loop);
+  http.close();
+  await vite.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+http.listen(port, host, () => {
+  console.log(`Deathmatch server on ws://${host}:${port} (level ${levelIndex + 1}) - Ctrl+C to stop`);
+});
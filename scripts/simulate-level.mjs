@@ -0,0 +1,57 @@
+// Runs a level headlessly with a scripted player and checks the run is deterministic.
+// Usage: npm run simulate [-- <levelIndex> <ticks> <seed>]
+import { createServer } from 'vite';
+
+const levelIndex = Number(process.argv[2] ?? 0);
+const ticks = Number(process.argv[3] ?? 1800);
+const seed = Number(process.argv[4] ?? 1);
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  optimizeDeps: { noDiscovery: true }, // Nothing to pre-bundle outside the browser
+});
+
+try {
+  const { HeadlessGame } = await server.ssrLoadModule('/src/engine/HeadlessGame.ts');
+  const { ScriptedInput } = await server.ssrLoadModule('/src/engine/ScriptedInput.ts');
+  const { getLevel } = await server.ssrLoadModule('/src/data/levels.ts');
+
+  const level = getLevel(levelIndex);
+  if (!level) throw new Error(`No level ${levelIndex}`);
+
+  // Walk right while firing ahead in short bursts, with a jump now and then
+  const script = () => {
+    const input = new ScriptedInput().holdKey('d', 0, ticks);
+    for (let tick = 0; tick < ticks; tick += 30) {
+      input.at(tick, { mouse: { x: 1000, y: 360 } }).holdMouseButton(0, tick, tick + 10);
+    }
+    for (let tick = 90; tick < ticks; tick += 180) {
+      input.holdAction('jump', tick, tick + 15);
+    }
+    return input;
+  };
+
+  const simulate = () => {
+    const game = new HeadlessGame({ level, levelIndex, seed, lives: 3, input: script() });
+    const summary = game.run(ticks);
+    game.destroy();
+    return summary;
+  };
+
+  const first = simulate();
+  const second = simulate();
+  console.log(JSON.stringify(first, null, 2));
+
+  if (JSON.stringify(first) !== JSON.stringify(second)) {
+    console.error('Simulation is not deterministic - second run:');
+    console.error(JSON.stringify(second, null, 2));
+    process.exitCode = 1;
+  } else {
+    console.log('Deterministic: two runs with the same seed matched');
+  }
+} finally {
+  await server.close();
+}
@@ -1,30 +1,54 @@
-import { useState } from 'react';
-import { GameCanvas } from './components/GameCanvas';
+import { useCallback, useState } from 'react';
+import { GameCanvas, HUDUpdate } from './components/GameCanvas';
 import { Menu } from './components/Menu';
 import { PauseScreen } from './components/PauseScreen';
-import { GameOverScreen } from './components/GameOverScreen';
+import { GameOverScreen, SurvivalOutcome } from './components/GameOverScreen';
 import { LevelCompleteScreen } from './components/LevelCompleteScreen';
 import { HUD } from './components/HUD';
+import { ReplayViewer } from './components/ReplayViewer';
+import { SettingsScreen } from './components/SettingsScreen';
+import { LobbyScreen } from './components/LobbyScreen';
+import { OnlineGame } from './components/OnlineGame';
+import { LevelEditorScreen } from './components/LevelEditorScreen';
+import { createBlankLevel } from './editor/LevelEditor';
 import { getLevelCount } from './data/levels';
+import { StorageManager } from './systems/StorageManager';
+import { LevelResult } from './systems/ScoreSystem';
+import { SurvivalResult } from './systems/WaveSystem';
+import { Replay } from './engine/Replay';
+import { ControlBindings, Level } from './types';
+import { NetClient } from './net/NetClient';
 
-type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'levelComplete';
+type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'levelComplete' | 'replay' | 'settings' | 'lobby' | 'online' | 'editor';
+
+const storageManager = new StorageManager();
 
 function App() {
   const [gameState, setGameState] = useState<GameState>('menu');
   const [currentLevel, setCurrentLevel] = useState(0);
   const [score, setScore] = useState(0);
   const [lives, setLives] = useState(3);
+  const [playerCount, setPlayerCount] = useState(1); // 2 for local co-op
+  const [restartCount, setRestartCount] = useState(0); // Remounts GameCanvas so a restart reloads the level
+  const [levelResult, setLevelResult] = useState<LevelResult | null>(null);
+  const [previousBest, setPreviousBest] = useState(0);
+  const [replay, setReplay] = useState<Replay | null>(null); // Last death, or a loaded replay file
+  const [replayReturnState, setReplayReturnState] = useState<GameState>('menu');
+  const [bindings, setBindings] = useState<ControlBindings>(() => storageManager.loadBindings());
+  const [settingsReturnState, setSettingsReturnState] = useState<GameState>('menu');
+  const [netClient, setNetClient] = useState<NetClient | null>(null); // Online deathmatch server connection
+  const [onlineMatch, setOnlineMatch] = useState<{ seat: number; levelIndex: number } | null>(null);
+  const [editorLevel, setEditorLevel] = useState<Level>(createBlankLevel); // Kept while play-testing or away from the editor
+  // Set while playing a level that isn't built in: an editor play-test or a level file loaded from the menu
+  const [customLevel, setCustomLevel] = useState<{ level: Level; returnTo: 'editor' | 'menu' } | null>(null);
+  const [survivalArena, setSurvivalArena] = useState<number | null>(null); // Level index while playing wave survival
+  const [survivalOutcome, setSurvivalOutcome] = useState<SurvivalOutcome | null>(null);
   
   // Real HUD data updated from game engine
-  const [hudData, setHudData] = useState({
-    health: 100,
-    maxHealth: 100,
-    weaponName: 'Pistol',
-    currentAmmo: 12,
-    magazineSize: 12,
-  });
+  const [hudData, setHudData] = useState<HUDUpdate>({ players: [], levelScore: 0, objectives: [], wave: null });
 
   const handleStart = () => {
+    setSurvivalArena(null);
     setGameState('playing');
     setCurrentLevel(0);
     setScore(0);
@@ -32,35 +56,133 @@ function App() {
   };
 
   const handleLevelSelect = (level: number) => {
+    setSurvivalArena(null);
     setGameState('playing');
     setCurrentLevel(level);
     setScore(0);
     setLives(3);
   };
 
+  const handleStartSurvival = (arena: number) => {
+    setSurvivalArena(arena);
+    setGameState('playing');
+    setCurrentLevel(arena);
+    setScore(0);
+    setLives(3);
+  };
+
   const handleResume = () => {
     setGameState('playing');
   };
 
   const handleRestart = () => {
+    setRestartCount((count) => count + 1);
     setGameState('playing');
     setScore(0);
     setLives(3);
   };
 
   const handleQuitToMenu = () => {
+    if (customLevel) {
+      setCustomLevel(null);
+      setGameState(customLevel.returnTo);
+      return;
+    }
+    setSurvivalArena(null);
     setGameState('menu');
   };
 
-  const handleGameOver = () => {
+  const handlePlayCustomLevel = (level: Level, returnTo: 'editor' | 'menu') => {
+    setSurvivalArena(null);
+    setCustomLevel({ level, returnTo });
+    setGameState('playing');
+    setScore(0);
+    setLives(3);
+  };
+
+  const handlePlaytest = (level: Level) => {
+    setEditorLevel(level);
+    handlePlayCustomLevel(level, 'editor');
+  };
+
+  // Dying or finishing a custom level goes straight back to where it was started from,
+  // without saving progress or scores
+  const customLevelReturn = customLevel?.returnTo ?? 'menu';
+  const handleCustomLevelEnd = useCallback(() => {
+    setCustomLevel(null);
+    setGameState(customLevelReturn);
+  }, [customLevelReturn]);
+
+  const handleEditorBack = (level: Level) => {
+    setEditorLevel(level);
+    setGameState('menu');
+  };
+
+  // Engine callbacks must keep a stable identity or GameCanvas reloads the level
+  const handleGameOver = useCallback((lastRun: Replay, survival: SurvivalResult | null) => {
+    setReplay(lastRun);
     setGameState('gameOver');
+
+    // Survival runs go on their arena's high-score table
+    if (survival) {
+      const place = storageManager.addSurvivalScore(survival.arena, {
+        score: survival.score,
+        wave: survival.wave,
+        kills: survival.kills,
+        players: playerCount,
+        date: new Date().toISOString(),
+      });
+      setSurvivalOutcome({ result: survival, place, scores: storageManager.getSurvivalScores(survival.arena) });
+    } else {
+      setSurvivalOutcome(null);
+    }
+  }, [playerCount]);
+
+  const handleWatchReplay = (returnTo: GameState, toWatch: Replay) => {
+    setReplay(toWatch);
+    setReplayReturnState(returnTo);
+    setGameState('replay');
   };
 
-  const handleLevelComplete = () => {
-    setGameState('levelComplete');
-    setScore(score + 1000); // Add bonus score
+  const handleOpenSettings = (returnTo: GameState) => {
+    setSettingsReturnState(returnTo);
+    setGameState('settings');
   };
 
+  const handleBindingsChange = useCallback((updated: ControlBindings) => {
+    setBindings(updated);
+    storageManager.saveBindings(updated);
+  }, []);
+
+  const handleMatchStart = useCallback((seat: number, levelIndex: number) => {
+    setOnlineMatch({ seat, levelIndex });
+    setGameState('online');
+  }, []);
+
+  const handleLeaveServer = useCallback(() => {
+    netClient?.close();
+    setNetClient(null);
+    setGameState('menu');
+  }, [netClient]);
+
+  const handleLifeLost = useCallback((livesRemaining: number) => {
+    setLives(livesRemaining);
+  }, []);
+
+  const handleLevelComplete = useCallback((result: LevelResult) => {
+    setGameState('levelComplete');
+    setLevelResult(result);
+    setScore((prev) => prev + result.total);
+    setHudData((prev) => ({ ...prev, levelScore: 0 })); // Now included in score
+    
+    // Persist progress
+    setPreviousBest(storageManager.getBestScore(result.levelIndex));
+    storageManager.updateBestScore(result.levelIndex, result.total);
+    if (result.levelIndex + 1 < getLevelCount()) {
+      storageManager.unlockLevel(result.levelIndex + 1);
+    }
+  }, []);
+
   const handleNextLevel = () => {
     const nextLevel = currentLevel + 1;
     if (nextLevel < getLevelCount()) {
@@ -75,11 +197,14 @@ function App() {
     setGameState(isPaused ? 'paused' : 'playing');
   };
 
-  const handleHUDUpdate = (data: any) => {
+  const handleHUDUpdate = (data: HUDUpdate) => {
     setHudData(data);
   };
 
   const hasNextLevel = currentLevel + 1 < getLevelCount();
+  // Settings opened from the pause menu keep the paused game underneath
+  const showGame = gameState === 'playing' || gameState === 'paused' ||
+    (gameState === 'settings' && settingsReturnState === 'paused');
 
   return (
     <div
@@ -92,33 +217,51 @@ function App() {
       }}
     >
       {/* Game Canvas */}
-      {(gameState === 'playing' || gameState === 'paused') && (
+      {showGame && (
         <GameCanvas
+          key={restartCount}
           currentLevel={currentLevel}
-          onGameOver={handleGameOver}
-          onLevelComplete={handleLevelComplete}
+          level={customLevel?.level}
+          lives={lives}
+          players={playerCount}
+          survival={survivalArena !== null}
+          onGameOver={customLevel ? handleCustomLevelEnd : handleGameOver}
+          onLevelComplete={customLevel ? handleCustomLevelEnd : handleLevelComplete}
+          onLifeLost={handleLifeLost}
           onPauseChange={handlePauseChange}
           onHUDUpdate={handleHUDUpdate}
-          isPaused={gameState === 'paused'}
+          isPaused={gameState !== 'playing'}
+          bindings={bindings}
         />
       )}
 
       {/* HUD */}
       {gameState === 'playing' && (
         <HUD
-          health={hudData.health}
-          maxHealth={hudData.maxHealth}
-          weaponName={hudData.weaponName}
-          currentAmmo={hudData.currentAmmo}
-          magazineSize={hudData.magazineSize}
-          score={score}
+          players={hudData.players}
+          score={score + hudData.levelScore}
           lives={lives}
+          objectives={hudData.objectives}
+          wave={hudData.wave}
         />
       )}
 
       {/* Menu */}
       {gameState === 'menu' && (
-        <Menu onStart={handleStart} onLevelSelect={handleLevelSelect} />
+        <Menu
+          onStart={handleStart}
+          onLevelSelect={handleLevelSelect}
+          onWatchReplay={(loaded) => handleWatchReplay('menu', loaded)}
+          onSettings={() => handleOpenSettings('menu')}
+          onOnline={() => setGameState('lobby')}
+          onEditor={() => setGameState('editor')}
+          onPlayLevel={(level) => handlePlayCustomLevel(level, 'menu')}
+          onSurvival={handleStartSurvival}
+          getSurvivalBest={(arena) => storageManager.getSurvivalScores(arena)[0]}
+          bindings={bindings}
+          playerCount={playerCount}
+          onPlayerCountChange={setPlayerCount}
+        />
       )}
 
       {/* Pause Screen */}
@@ -127,22 +270,70 @@ function App() {
           onResume={handleResume}
           onRestart={handleRestart}
           onQuit={handleQuitToMenu}
+          onSettings={() => handleOpenSettings('paused')}
+          bindings={bindings}
+        />
+      )}
+
+      {/* Settings Screen */}
+      {gameState === 'settings' && (
+        <SettingsScreen
+          bindings={bindings}
+          onChange={handleBindingsChange}
+          onBack={() => setGameState(settingsReturnState)}
         />
       )}
 
       {/* Game Over Screen */}
       {gameState === 'gameOver' && (
         <GameOverScreen
-          score={score}
+          score={score + hudData.levelScore}
           onRestart={handleRestart}
           onMenu={handleQuitToMenu}
+          onReplay={replay ? () => handleWatchReplay('gameOver', replay) : undefined}
+          survival={survivalOutcome}
+        />
+      )}
+
+      {/* Online Lobby */}
+      {gameState === 'lobby' && (
+        <LobbyScreen
+          client={netClient}
+          onConnected={setNetClient}
+          onDisconnected={() => setNetClient(null)}
+          onMatchStart={handleMatchStart}
+          onBack={handleLeaveServer}
         />
       )}
 
+      {/* Online Match */}
+      {gameState === 'online' && netClient && onlineMatch && (
+        <OnlineGame
+          client={netClient}
+          seat={onlineMatch.seat}
+          levelIndex={onlineMatch.levelIndex}
+          bindings={bindings}
+          onMatchEnd={() => setGameState('lobby')}
+          onLeave={handleLeaveServer}
+        />
+      )}
+
+      {/* Level Editor */}
+      {gameState === 'editor' && (
+        <LevelEditorScreen level={editorLevel} onPlaytest={handlePlaytest} onBack={handleEditorBack} />
+      )}
+
+      {/* Replay Viewer */}
+      {gameState === 'replay' && replay && (
+        <ReplayViewer replay={replay} onExit={() => setGameState(replayReturnState)} />
+      )}
+
       {/* Level Complete Screen */}
       {gameState === 'levelComplete' && (
         <LevelCompleteScreen
-          levelScore={score}
+          result={levelResult}
+          totalScore={score}
+          previousBest={previousBest}
           onNextLevel={handleNextLevel}
           onMenu={handleQuitToMenu}
           hasNextLevel={hasNextLevel}
@@ -0,0 +1,188 @@
+import { Entity } from '../entities/Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer } from '../types';
+import { CollisionSystem, CollisionCallback } from '../systems/CollisionSystem';
+
+/**
+ * Timings from one benchmark run
+ */
+export interface CollisionBenchmarkResult {
+  entityCount: number;
+  frames: number;
+  naiveMs: number; // Total time for the all-pairs reference
+  hashedMs: number; // Total time for CollisionSystem
+  speedup: number; // naiveMs / hashedMs
+  collisions: number; // Callback invocations per run (identical for both)
+}
+
+/**
+ * Tag pairs the scene registers callbacks for, matching the game's real pairs
+ */
+const CALLBACK_PAIRS: [string, string][] = [
+  ['projectile', 'enemy'],
+  ['projectile', 'player'],
+  ['player', 'pickup'],
+];
+
+const WORLD_WIDTH = 3000;
+const WORLD_HEIGHT = 1200;
+const DT = 1 / 60;
+
+/**
+ * Minimal entity for the scripted scene - moves in a straight line and wraps at the world edge
+ */
+class BenchEntity extends Entity {
+  update(dt: number): void {
+    this.position.x = (this.position.x + this.velocity.x * dt + WORLD_WIDTH) % WORLD_WIDTH;
+    this.position.y = (this.position.y + this.velocity.y * dt + WORLD_HEIGHT) % WORLD_HEIGHT;
+  }
+
+  render(): void {
+    // Never drawn
+  }
+}
+
+/**
+ * Small deterministic generator so every run builds the same scene
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * Build the scripted scene: mostly projectiles, plus enemies, pickups and one player
+ */
+function createScene(entityCount: number, seed: number): Entity[] {
+  const random = createRandom(seed);
+  const entities: Entity[] = [];
+  const place = () => new Vec2(random() * WORLD_WIDTH, random() * WORLD_HEIGHT);
+
+  const player = new BenchEntity(0, place(), new Vec2(32, 48));
+  player.addTag('player');
+  player.collisionLayer = CollisionLayer.PLAYER;
+  player.collisionMask = CollisionLayer.PROJECTILE | CollisionLayer.PICKUP;
+  player.velocity = new Vec2(120, 0);
+  entities.push(player);
+
+  for (let id = 1; id < entityCount; id++) {
+    const roll = id % 10;
+
+    if (roll < 7) {
+      const projectile = new BenchEntity(id, place(), new Vec2(4, 4));
+      projectile.addTag('projectile');
+      projectile.collisionLayer = CollisionLayer.PROJECTILE;
+      projectile.collisionMask = CollisionLayer.PLAYER | CollisionLayer.ENEMY | CollisionLayer.EXPLOSIVE;
+      const angle = random() * Math.PI * 2;
+      projectile.velocity = new Vec2(Math.cos(angle), Math.sin(angle)).multiply(800);
+      entities.push(projectile);
+    } else if (roll < 9) {
+      const enemy = new BenchEntity(id, place(), new Vec2(32, 48));
+      enemy.addTag('enemy');
+      enemy.collisionLayer = CollisionLayer.ENEMY;
+      enemy.collisionMask = CollisionLayer.PROJECTILE;
+      enemy.velocity = new Vec2(random() < 0.5 ? -100 : 100, 0);
+      entities.push(enemy);
+    } else {
+      const pickup = new BenchEntity(id, place(), new Vec2(20, 20));
+      pickup.addTag('pickup');
+      pickup.collisionLayer = CollisionLayer.PICKUP;
+      pickup.collisionMask = CollisionLayer.PLAYER;
+      entities.push(pickup);
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * The previous broad phase: test every pair, then look up callbacks by tag
+ */
+function detectAllPairs(entities: Entity[], callback: CollisionCallback): void {
+  for (let i = 0; i < entities.length; i++) {
+    const entityA = entities[i];
+    if (!entityA) continue;
+
+    for (let j = i + 1; j < entities.length; j++) {
+      const entityB = entities[j];
+      if (!entityB) continue;
+
+      if (!entityA.getBounds().intersects(entityB.getBounds())) continue;
+
+      for (const [tagA, tagB] of CALLBACK_PAIRS) {
+        if (entityA.hasTag(tagA) && entityB.hasTag(tagB)) callback(entityA, entityB);
+        if (entityB.hasTag(tagA) && entityA.hasTag(tagB)) callback(entityB, entityA);
+      }
+    }
+  }
+}
+
+/**
+ * Step the scene for a number of frames, returning elapsed milliseconds and every
+ * collision reported (as "frame:idA:idB")
+ */
+function runScene(
+  entityCount: number,
+  frames: number,
+  seed: number,
+  detect: (entities: Entity[], callback: CollisionCallback) => void
+): { ms: number; collisions: string[] } {
+  const entities = createScene(entityCount, seed);
+  const collisions: string[] = [];
+  let frame = 0;
+  const record: CollisionCallback = (a, b) => collisions.push(`${frame}:${a.id}:${b.id}`);
+
+  const start = performance.now();
+  for (frame = 0; frame < frames; frame++) {
+    for (const entity of entities) entity.update(DT);
+    detect(entities, record);
+  }
+  const ms = performance.now() - start;
+
+  return { ms, collisions };
+}
+
+/**
+ * Compare CollisionSystem against the all-pairs broad phase on a scripted scene.
+ * Both must report exactly the same collisions, otherwise an error is thrown.
+ * @param entityCount - Entities in the scene
+ * @param frames - Frames to simulate
+ * @param seed - Scene layout seed
+ */
+export function runCollisionBenchmark(
+  entityCount: number = 500,
+  frames: number = 300,
+  seed: number = 1
+): CollisionBenchmarkResult {
+  const collisionSystem = new CollisionSystem();
+  let hashedCallback: CollisionCallback = () => {};
+  for (const [tagA, tagB] of CALLBACK_PAIRS) {
+    collisionSystem.onCollision(tagA, tagB, (a, b) => hashedCallback(a, b));
+  }
+
+  const naive = runScene(entityCount, frames, seed, detectAllPairs);
+  const hashed = runScene(entityCount, frames, seed, (entities, callback) => {
+    hashedCallback = callback;
+    collisionSystem.detectCollisions(entities);
+  });
+
+  const expected = [...naive.collisions].sort();
+  const actual = [...hashed.collisions].sort();
+  if (expected.length !== actual.length || expected.some((key, i) => key !== actual[i])) {
+    throw new Error(
+      `[CollisionBenchmark] Results differ: all-pairs found ${expected.length} collisions, spatial hash found ${actual.length}`
+    );
+  }
+
+  return {
+    entityCount,
+    frames,
+    naiveMs: naive.ms,
+    hashedMs: hashed.ms,
+    speedup: naive.ms / hashed.ms,
+    collisions: actual.length,
+  };
+}
@@ -2,22 +2,73 @@ import { useEffect, useRef } from 'react';
 import { Engine } from '../engine/Engine';
 import { GameLoop } from '../engine/GameLoop';
 import { LevelManager } from '../systems/LevelManager';
-import { getLevel } from '../data/levels';
+import { InputRecorder } from '../engine/InputRecorder';
+import { Replay } from '../engine/Replay';
+import { getLevel, onLevelFileChanged } from '../data/levels';
+import { LevelResult } from '../systems/ScoreSystem';
+import { ControlBindings, Level } from '../types';
+import { DEFAULT_BINDINGS } from '../data/controls';
+import { GAME_MODE_COOP } from '../data/gameModes';
+import { Player } from '../entities/Player';
+import { PlayerHUDData } from './HUD';
+import { ObjectiveProgress } from '../systems/ObjectiveSystem';
+import { SurvivalResult, WaveStatus } from '../systems/WaveSystem';
 
 interface GameCanvasProps {
-  onGameOver?: () => void;
-  onLevelComplete?: () => void;
+  onGameOver?: (replay: Replay, survival: SurvivalResult | null) => void; // Receives the recording of the failed level, and how far a survival run got
+  onLevelComplete?: (result: LevelResult) => void;
   onPauseChange?: (isPaused: boolean) => void;
-  onHUDUpdate?: (data: any) => void;
+  onHUDUpdate?: (data: HUDUpdate) => void;
+  onLifeLost?: (livesRemaining: number) => void;
   currentLevel?: number;
+  level?: Level; // Played instead of currentLevel's level (play-testing from the editor)
+  lives?: number;
+  players?: number; // 2 for local co-op
+  survival?: boolean; // Play the level as a wave survival arena
   isPaused?: boolean;
+  bindings?: ControlBindings;
 }
 
-export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUpdate, currentLevel = 0, isPaused = false }: GameCanvasProps) {
+/**
+ * Per-tick HUD state sent to the app
+ */
+export interface HUDUpdate {
+  players: PlayerHUDData[];
+  levelScore: number;
+  objectives: ObjectiveProgress[];
+  wave: WaveStatus | null; // Survival only
+}
+
+/**
+ * Read one player's HUD panel state
+ */
+function getPlayerHUD(player: Player, engine: Engine, levelManager: LevelManager): PlayerHUDData {
+  const alive = player.active;
+  const weaponState = alive ? engine.weaponSystem.getWeaponState(player.id) : undefined;
+  return {
+    health: alive ? player.health : 0,
+    maxHealth: player.maxHealth,
+    armor: alive ? player.armor : 0,
+    maxArmor: player.maxArmor,
+    weaponName: weaponState?.weapon.name ?? player.getCurrentWeapon()?.name ?? '',
+    currentAmmo: weaponState?.currentAmmo ?? 0,
+    reserveAmmo: weaponState?.reserveAmmo ?? 0,
+    isReloading: weaponState?.isReloading ?? false,
+    respawnCountdown: levelManager.getRespawnCountdown(player.playerIndex),
+    eliminated: levelManager.isPlayerEliminated(player.playerIndex),
+  };
+}
+
+export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUpdate, onLifeLost, currentLevel = 0, level: levelOverride, lives = 3, players = 1, survival = false, isPaused = false, bindings = DEFAULT_BINDINGS }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Lives are only read when a level loads; changes during play come from the level manager
+  const livesRef = useRef(lives);
+  livesRef.current = lives;
   const engineRef = useRef<Engine | null>(null);
   const gameLoopRef = useRef<GameLoop | null>(null);
   const levelManagerRef = useRef<LevelManager | null>(null);
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
 
   // Sync isPaused prop with engine pause state
   useEffect(() => {
@@ -26,6 +77,11 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
     }
   }, [isPaused]);
 
+  // Apply rebound controls (e.g. changed from the pause menu) without reloading the level
+  useEffect(() => {
+    engineRef.current?.inputManager.setBindings(bindings);
+  }, [bindings]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -55,6 +111,10 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
     // Initialize engine
     const engine = new Engine(canvas);
     engineRef.current = engine;
+    engine.inputManager.setBindings(bindingsRef.current);
+    if (players > 1) {
+      engine.setGameMode(GAME_MODE_COOP);
+    }
     
     // Set initial pause state immediately
     engine.setPaused(isPaused);
@@ -63,27 +123,41 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
     const levelManager = new LevelManager(
       engine,
       engine.physicsSystem,
+      engine.navigationSystem,
       engine.weaponSystem,
       engine.inputManager
     );
     levelManagerRef.current = levelManager;
 
     // Set up callbacks
-    levelManager.setOnLevelComplete(() => {
+    levelManager.setOnLevelComplete((result) => {
       if (onLevelComplete) {
-        onLevelComplete();
+        onLevelComplete(result);
       }
     });
 
+    // Record every simulated tick so the run can be replayed
+    const recorder = new InputRecorder(currentLevel, engine.random.getSeed(), livesRef.current, players, survival);
+    engine.events.on('tickStarted', () => recorder.record(engine.inputManager, engine.camera));
+
     levelManager.setOnPlayerDeath(() => {
       if (onGameOver) {
-        onGameOver();
+        onGameOver(recorder.getReplay(), levelManager.getSurvivalResult());
+      }
+    });
+
+    levelManager.setOnLifeLost((livesRemaining) => {
+      if (onLifeLost) {
+        onLifeLost(livesRemaining);
       }
     });
 
     // Load initial level
-    const level = getLevel(currentLevel);
+    const level = levelOverride ?? getLevel(currentLevel);
     if (level) {
+      levelManager.setPlayerCount(players);
+      levelManager.setSurvival(survival);
+      levelManager.setLives(livesRef.current);
       levelManager.loadLevel(level, currentLevel);
       
       // Set camera bounds
@@ -91,8 +165,21 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
       
       // Center camera on player spawn
       engine.camera.centerOn({ x: level.playerSpawn.x, y: level.playerSpawn.y } as any);
+      engine.camera.savePreviousState(); // Start there rather than panning in
     }
 
+    // Under the dev server, edits to this level's file swap in without a restart
+    // (the run's replay no longer matches the level after that)
+    const unsubscribeLevelFile = onLevelFileChanged((index, changed) => {
+      if (levelOverride || index !== currentLevel) return;
+      try {
+        levelManager.reloadLevel(changed);
+        engine.camera.setBounds(changed.bounds.width, changed.bounds.height);
+      } catch (e) {
+        console.error(e);
+      }
+    });
+
     // Resume audio context on first user interaction
     const resumeAudio = () => {
       engine.soundManager.resumeContext();
@@ -112,33 +199,32 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
         const currentPausedState = engine.isPausedState();
         if (currentPausedState !== lastPausedState) {
           lastPausedState = currentPausedState;
+          recorder.markInputReset(); // Pausing clears held input
           if (onPauseChange) {
             onPauseChange(currentPausedState);
           }
         }
         
         // Update
+        const tick = engine.getTick();
         engine.update(dt);
-        levelManager.update(dt);
+
+        // Level logic only happens on ticks the engine simulated
+        if (engine.getTick() !== tick) {
+          levelManager.update(dt);
+        }
         
-        // Update camera to follow player
-        const player = levelManager.getPlayer();
-        if (player && player.active) {
-          engine.camera.follow(player);
-          
-          // Update HUD with real data
-          if (onHUDUpdate) {
-            const weaponState = engine.weaponSystem.getWeaponState(player.id);
-            if (weaponState) {
-              onHUDUpdate({
-                health: player.health,
-                maxHealth: player.maxHealth,
-                weaponName: weaponState.weapon.name,
-                currentAmmo: weaponState.currentAmmo,
-                magazineSize: weaponState.weapon.magazineSize,
-              });
-            }
-          }
+        // Update camera to follow the players (zooming out in co-op)
+        engine.camera.followGroup(levelManager.getActivePlayers());
+
+        // Update HUD with real data
+        if (onHUDUpdate) {
+          onHUDUpdate({
+            players: levelManager.getPlayers().map(player => getPlayerHUD(player, engine, levelManager)),
+            levelScore: levelManager.getSurvivalResult()?.score ?? engine.scoreSystem.getCurrentScore(),
+            objectives: levelManager.getObjectiveProgress(),
+            wave: levelManager.getWaveStatus(),
+          });
         }
       },
       (alpha: number) => {
@@ -155,11 +241,12 @@ export function GameCanvas({ onGameOver, onLevelComplete, onPauseChange, onHUDUp
     return () => {
       gameLoop.stop();
       engine.destroy();
+      unsubscribeLevelFile();
       window.removeEventListener('resize', resizeCanvas);
       document.removeEventListener('click', resumeAudio);
       document.removeEventListener('keydown', resumeAudio);
     };
-  }, [currentLevel, onGameOver, onLevelComplete]);
+  }, [currentLevel, levelOverride, players, survival, onGameOver, onLevelComplete, onLifeLost]);
 
   return (
     <canvas
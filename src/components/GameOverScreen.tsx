@@ -1,12 +1,32 @@
+import { useRef } from 'react';
+import { useGamepadNavigation } from './useGamepadNavigation';
+import { SurvivalResult } from '../systems/WaveSystem';
+import { SurvivalScore } from '../types';
+
+/**
+ * How a survival run ended and where it placed in its arena's high-score table
+ */
+export interface SurvivalOutcome {
+  result: SurvivalResult;
+  place: number; // Index in scores, -1 if it didn't make the table
+  scores: SurvivalScore[];
+}
+
 interface GameOverScreenProps {
   score: number;
   onRestart: () => void;
   onMenu: () => void;
+  onReplay?: () => void; // Shown when the failed run was recorded
+  survival?: SurvivalOutcome | null; // Shown after a survival run
 }
 
-export function GameOverScreen({ score, onRestart, onMenu }: GameOverScreenProps) {
+export function GameOverScreen({ score, onRestart, onMenu, onReplay, survival }: GameOverScreenProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onMenu);
+
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'absolute',
         top: 0,
@@ -24,10 +44,44 @@ export function GameOverScreen({ score, onRestart, onMenu }: GameOverScreenProps
     >
       <h1 style={{ fontSize: '48px', marginBottom: '20px', color: '#ff4444' }}>GAME OVER</h1>
 
-      <div style={{ fontSize: '24px', marginBottom: '40px', color: '#aaa' }}>
-        FINAL SCORE: <span style={{ color: 'white', fontWeight: 'bold' }}>{score}</span>
+      <div style={{ fontSize: '24px', marginBottom: survival ? '20px' : '40px', color: '#aaa' }}>
+        FINAL SCORE: <span style={{ color: 'white', fontWeight: 'bold' }}>{survival?.result.score ?? score}</span>
       </div>
 
+      {survival && (
+        <div style={{ marginBottom: '30px', minWidth: '360px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#aaa', marginBottom: '15px' }}>
+            <span>WAVE {survival.result.wave}</span>
+            <span>KILLS {survival.result.kills}</span>
+            <span>TIME {survival.result.time.toFixed(1)}s</span>
+          </div>
+
+          <div style={{ fontSize: '14px', color: '#aaa', marginBottom: '5px' }}>
+            {survival.result.arena.toUpperCase()} HIGH SCORES
+          </div>
+          {survival.scores.map((entry, index) => (
+            <div
+              key={index}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                fontSize: '14px',
+                marginBottom: '3px',
+                color: index === survival.place ? '#ffdd44' : 'white',
+              }}
+            >
+              <span>{index + 1}. WAVE {entry.wave}{entry.players > 1 ? ' (CO-OP)' : ''}</span>
+              <span>{entry.score}</span>
+            </div>
+          ))}
+          {survival.place === 0 && (
+            <div style={{ textAlign: 'right', fontSize: '14px', color: '#ffdd44', marginTop: '5px' }}>
+              NEW HIGH SCORE!
+            </div>
+          )}
+        </div>
+      )}
+
       <div style={{ display: 'flex', flexDirection: 'column', gap: '15px' }}>
         <button
           onClick={onRestart}
@@ -45,6 +99,24 @@ export function GameOverScreen({ score, onRestart, onMenu }: GameOverScreenProps
           TRY AGAIN
         </button>
 
+        {onReplay && (
+          <button
+            onClick={onReplay}
+            style={{
+              padding: '12px 35px',
+              fontSize: '18px',
+              background: '#E2A04A',
+              border: 'none',
+              color: 'white',
+              cursor: 'pointer',
+              fontFamily: 'monospace',
+              fontWeight: 'bold',
+            }}
+          >
+            REPLAY LAST DEATH
+          </button>
+        )}
+
         <button
           onClick={onMenu}
           style={{
@@ -1,40 +1,69 @@
-interface HUDProps {
+import type { ObjectiveProgress } from '../systems/ObjectiveSystem';
+import type { WaveStatus } from '../systems/WaveSystem';
+
+/**
+ * One player's panel state
+ */
+export interface PlayerHUDData {
   health: number;
   maxHealth: number;
+  armor: number;
+  maxArmor: number;
   weaponName: string;
   currentAmmo: number;
-  magazineSize: number;
+  reserveAmmo: number;
+  isReloading: boolean;
+  respawnCountdown: number; // Seconds, 0 when not respawning
+  eliminated: boolean; // Out of lives until the level ends (co-op)
+}
+
+interface HUDProps {
+  players: PlayerHUDData[];
   score: number;
-  lives: number;
+  lives: number; // Shared between co-op players
+  objectives?: ObjectiveProgress[];
+  wave?: WaveStatus | null; // Survival only
+}
+
+// Panel label colors, matching the player bodies
+export const PLAYER_LABEL_COLORS = ['#4A90E2', '#4AE290', '#E2A04A', '#B04AE2'];
+
+interface PlayerPanelProps {
+  data: PlayerHUDData;
+  label?: string; // Shown in co-op
+  labelColor?: string;
 }
 
-export function HUD({
-  health,
-  maxHealth,
-  weaponName,
-  currentAmmo,
-  magazineSize,
-  score,
-  lives,
-}: HUDProps) {
+/**
+ * Health, armor and weapon info for one player
+ */
+export function PlayerPanel({ data, label, labelColor }: PlayerPanelProps) {
+  const {
+    health,
+    maxHealth,
+    armor,
+    maxArmor,
+    weaponName,
+    currentAmmo,
+    reserveAmmo,
+    isReloading,
+    respawnCountdown,
+    eliminated,
+  } = data;
   const healthPercent = (health / maxHealth) * 100;
 
   return (
-    <div
-      style={{
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        right: 0,
-        padding: '20px',
-        color: 'white',
-        fontFamily: 'monospace',
-        fontSize: '16px',
-        pointerEvents: 'none',
-        userSelect: 'none',
-      }}
-    >
-      {/* Top left - Health and weapon info */}
+    <div>
+      {label && (
+        <div style={{ marginBottom: '5px', fontWeight: 'bold', color: labelColor }}>
+          {label}
+          {respawnCountdown > 0 && (
+            <span style={{ color: '#ff4444' }}> - RESPAWNING IN {Math.ceil(respawnCountdown)}</span>
+          )}
+          {eliminated && <span style={{ color: '#ff4444' }}> - OUT</span>}
+        </div>
+      )}
+
       <div style={{ display: 'flex', gap: '30px' }}>
         {/* Health bar */}
         <div>
@@ -68,20 +97,77 @@ export function HUD({
                 textShadow: '1px 1px 2px black',
               }}
             >
-              {health} / {maxHealth}
+              {Math.ceil(health)} / {maxHealth}
             </div>
           </div>
+
+          {/* Armor bar */}
+          {armor > 0 && (
+            <div
+              style={{
+                width: '200px',
+                height: '8px',
+                background: '#333',
+                border: '2px solid #666',
+                borderTop: 'none',
+              }}
+            >
+              <div
+                style={{
+                  width: `${(armor / maxArmor) * 100}%`,
+                  height: '100%',
+                  background: '#3498DB',
+                  transition: 'width 0.3s',
+                }}
+              />
+            </div>
+          )}
         </div>
 
         {/* Weapon info */}
         <div>
           <div style={{ marginBottom: '5px' }}>WEAPON</div>
           <div style={{ fontSize: '18px', fontWeight: 'bold' }}>{weaponName}</div>
-          <div style={{ fontSize: '14px', color: '#aaa' }}>
-            {currentAmmo} / {magazineSize}
+          <div style={{ fontSize: '14px', color: currentAmmo === 0 && reserveAmmo === 0 ? '#ff4444' : '#aaa' }}>
+            {isReloading ? 'RELOADING...' : currentAmmo} / {reserveAmmo === Infinity ? '∞' : reserveAmmo}
           </div>
         </div>
       </div>
+    </div>
+  );
+}
+
+export function HUD({ players, score, lives, objectives = [], wave = null }: HUDProps) {
+  const coop = players.length > 1;
+  // Solo players get a full-screen notice while respawning; co-op panels show their own
+  const respawnCountdown = coop ? 0 : players[0]?.respawnCountdown ?? 0;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        padding: '20px',
+        color: 'white',
+        fontFamily: 'monospace',
+        fontSize: '16px',
+        pointerEvents: 'none',
+        userSelect: 'none',
+      }}
+    >
+      {/* Top left - Health and weapon info, one panel per player */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '15px' }}>
+        {players.map((data, index) => (
+          <PlayerPanel
+            key={index}
+            data={data}
+            label={coop ? `PLAYER ${index + 1}` : undefined}
+            labelColor={PLAYER_LABEL_COLORS[index]}
+          />
+        ))}
+      </div>
 
       {/* Top right - Score and lives */}
       <div
@@ -100,7 +186,66 @@ export function HUD({
           <div style={{ fontSize: '12px', color: '#aaa' }}>LIVES</div>
           <div style={{ fontSize: '20px' }}>{'❤️ '.repeat(lives)}</div>
         </div>
+
+        {/* Objectives, with bonus ones dimmed */}
+        {objectives.length > 0 && (
+          <div style={{ marginTop: '15px', fontSize: '13px' }}>
+            <div style={{ fontSize: '12px', color: '#aaa' }}>OBJECTIVES</div>
+            {objectives.map((objective, index) => (
+              <div
+                key={index}
+                style={{
+                  opacity: objective.depth > 0 ? 0.8 : 1,
+                  color: objective.state === 'met' ? '#44ff44' : objective.state === 'failed' ? '#ff4444' : objective.bonus ? '#aaa' : 'white',
+                }}
+              >
+                {objective.depth > 0 ? '· ' : ''}{objective.bonus && objective.depth === 0 ? 'BONUS: ' : ''}{objective.label.toUpperCase()}
+                {objective.detail && ` (${objective.detail})`} {objective.state === 'met' ? '✓' : objective.state === 'failed' ? '✗' : '○'}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      {/* Top center - Survival wave */}
+      {wave && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '20px',
+            left: 0,
+            right: 0,
+            textAlign: 'center',
+            textShadow: '2px 2px 4px black',
+          }}
+        >
+          <div style={{ fontSize: '24px', fontWeight: 'bold' }}>WAVE {wave.wave}</div>
+          <div style={{ fontSize: '14px', color: '#aaa' }}>
+            {wave.phase === 'intermission'
+              ? `${wave.wavesCleared > 0 ? 'WAVE CLEARED - SUPPLIES DROPPED - ' : ''}NEXT WAVE IN ${Math.ceil(wave.intermissionTimeLeft)}`
+              : `${wave.enemiesRemaining} ENEMIES LEFT`}
+          </div>
+        </div>
+      )}
+
+      {/* Center - Respawn countdown */}
+      {respawnCountdown > 0 && (
+        <div
+          style={{
+            position: 'fixed',
+            top: '40%',
+            left: 0,
+            right: 0,
+            textAlign: 'center',
+            textShadow: '2px 2px 4px black',
+          }}
+        >
+          <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#ff4444' }}>YOU DIED</div>
+          <div style={{ fontSize: '20px', marginTop: '10px' }}>
+            RESPAWNING IN {Math.ceil(respawnCountdown)}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
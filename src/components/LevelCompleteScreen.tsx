@@ -1,18 +1,30 @@
+import { useRef } from 'react';
+import { LevelResult } from '../systems/ScoreSystem';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
 interface LevelCompleteScreenProps {
-  levelScore: number;
+  result: LevelResult | null;
+  totalScore: number;
+  previousBest: number;
   onNextLevel: () => void;
   onMenu: () => void;
   hasNextLevel: boolean;
 }
 
 export function LevelCompleteScreen({
-  levelScore,
+  result,
+  totalScore,
+  previousBest,
   onNextLevel,
   onMenu,
   hasNextLevel,
 }: LevelCompleteScreenProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onMenu);
+
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'absolute',
         top: 0,
@@ -32,8 +44,75 @@ export function LevelCompleteScreen({
         LEVEL COMPLETE!
       </h1>
 
+      {result && (
+        <div style={{ marginBottom: '30px', minWidth: '320px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', color: '#aaa', marginBottom: '15px' }}>
+            <span>KILLS {result.kills}</span>
+            <span>ACCURACY {Math.round(result.accuracy * 100)}%</span>
+            <span>TIME {result.time.toFixed(1)}s</span>
+          </div>
+
+          {result.objectives.length > 0 && (
+            <div style={{ marginBottom: '15px' }}>
+              {result.objectives.map((objective, index) => (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontSize: '14px',
+                    marginBottom: '3px',
+                    paddingLeft: `${objective.depth * 16}px`,
+                    color: objective.state === 'met' ? '#44ff44' : '#888',
+                  }}
+                >
+                  <span>
+                    {objective.state === 'met' ? '✓' : '✗'} {objective.bonus && objective.depth === 0 ? 'BONUS: ' : ''}
+                    {objective.label.toUpperCase()}
+                  </span>
+                  <span>{objective.state === 'met' ? 'ACHIEVED' : 'MISSED'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.breakdown.map((line) => (
+            <div
+              key={line.label}
+              style={{ display: 'flex', justifyContent: 'space-between', fontSize: '16px', marginBottom: '5px' }}
+            >
+              <span style={{ color: '#aaa' }}>{line.label.toUpperCase()}</span>
+              <span style={{ color: line.points < 0 ? '#ff4444' : 'white' }}>
+                {line.points > 0 ? '+' : ''}{line.points}
+              </span>
+            </div>
+          ))}
+
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              fontSize: '20px',
+              fontWeight: 'bold',
+              borderTop: '1px solid #44ff44',
+              marginTop: '10px',
+              paddingTop: '10px',
+            }}
+          >
+            <span>LEVEL SCORE</span>
+            <span>{result.total}</span>
+          </div>
+
+          {result.total > previousBest && (
+            <div style={{ textAlign: 'right', fontSize: '14px', color: '#44ff44', marginTop: '5px' }}>
+              NEW BEST!
+            </div>
+          )}
+        </div>
+      )}
+
       <div style={{ fontSize: '24px', marginBottom: '40px', color: '#aaa' }}>
-        SCORE: <span style={{ color: 'white', fontWeight: 'bold' }}>{levelScore}</span>
+        TOTAL SCORE: <span style={{ color: 'white', fontWeight: 'bold' }}>{totalScore}</span>
       </div>
 
       <div style={{ display: 'flex', flexDirection: 'column', gap: '15px' }}>
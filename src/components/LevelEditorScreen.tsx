@@ -0,0 +1,383 @@
+import { useEffect, useRef, useState } from 'react';
+import { EditorTool, LevelEditor, createBlankLevel } from '../editor/LevelEditor';
+import { parseLevel, serializeLevel } from '../data/levelFile';
+import { importTiledMap, isTiledMap } from '../data/tiled';
+import { formatLevelIssue, validateLevel } from '../data/levelValidation';
+import { ENEMY_ARCHETYPES } from '../data/enemies';
+import { getLevel, getLevelCount } from '../data/levels';
+import { Level } from '../types';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface LevelEditorScreenProps {
+  level: Level; // Level to start editing
+  onPlaytest: (level: Level) => void;
+  onBack: (level: Level) => void; // Receives the level as left, to carry on with later
+}
+
+const PANEL_WIDTH = 280;
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'select', label: 'SELECT' },
+  { tool: 'platform', label: 'PLATFORM' },
+  { tool: 'playerSpawn', label: 'PLAYER SPAWN' },
+  { tool: 'enemy', label: 'ENEMY' },
+  { tool: 'patrol', label: 'PATROL POINT' },
+];
+
+const ENEMY_TYPES = Object.keys(ENEMY_ARCHETYPES);
+
+const buttonStyle = {
+  padding: '6px 10px',
+  fontSize: '12px',
+  background: '#2E5C8A',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+} as const;
+
+const inputStyle = {
+  padding: '4px',
+  fontSize: '12px',
+  background: '#111',
+  border: '1px solid #2E5C8A',
+  color: 'white',
+  fontFamily: 'monospace',
+  width: '100%',
+  boxSizing: 'border-box',
+} as const;
+
+const headingStyle = { fontSize: '12px', color: '#aaa', margin: '14px 0 6px' } as const;
+
+/**
+ * Labelled number input that only reports valid numbers
+ */
+function NumberField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '11px', color: '#aaa', flex: 1 }}>
+      {label}
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value);
+          if (e.target.value !== '' && Number.isFinite(parsed)) onChange(parsed);
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+}
+
+export function LevelEditorScreen({ level, onPlaytest, onBack }: LevelEditorScreenProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const editorRef = useRef<LevelEditor | null>(null);
+  const [, setVersion] = useState(0); // Bumped on every edit to redraw the panel
+  const [error, setError] = useState<string | null>(null);
+
+  const back = () => {
+    const editor = editorRef.current;
+    onBack(editor ? editor.getLevel() : level);
+  };
+  useGamepadNavigation(panelRef, back);
+
+  // The starting level is only read when the editor opens
+  const levelRef = useRef(level);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const editor = new LevelEditor(canvas, levelRef.current);
+    editorRef.current = editor;
+    const unsubscribe = editor.onChange(() => setVersion(version => version + 1));
+
+    // Same canvas setup as GameCanvas
+    const resizeCanvas = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.scale(dpr, dpr);
+      }
+
+      editor.setViewportSize(rect.width, rect.height);
+    };
+
+    resizeCanvas();
+    editor.fitView();
+    setVersion(version => version + 1);
+    window.addEventListener('resize', resizeCanvas);
+
+    // Nothing is simulated while editing, so just draw every frame
+    let frame = requestAnimationFrame(function draw() {
+      editor.render();
+      frame = requestAnimationFrame(draw);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      unsubscribe();
+      editor.destroy();
+      editorRef.current = null;
+      window.removeEventListener('resize', resizeCanvas);
+    };
+  }, []);
+
+  const importLevel = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      editorRef.current?.loadLevel(isTiledMap(text)
+        ? importTiledMap(text, { name: file.name.replace(/\.\w+$/, '') })
+        : parseLevel(text));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const playtest = (edited: Level) => {
+    if (validateLevel(edited).some(issue => issue.severity === 'error')) {
+      setError('Fix the errors below before play testing');
+      return;
+    }
+    setError(null);
+    onPlaytest(edited);
+  };
+
+  const exportLevel = (edited: Level) => {
+    const blob = new Blob([serializeLevel(edited)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${edited.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const editor = editorRef.current;
+  const edited = editor?.getLevel();
+  const issues = edited ? validateLevel(edited) : []; // Re-checked on every edit
+  const selection = editor?.getSelection() ?? null;
+  const cursor = editor?.getCursor();
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, background: '#1a1a2e' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: `calc(100% - ${PANEL_WIDTH}px)`,
+          height: '100%',
+          display: 'block',
+          background: '#1a1a2e',
+          cursor: 'crosshair',
+        }}
+      />
+
+      {cursor && (
+        <div style={{ position: 'absolute', left: '10px', bottom: '10px', color: '#666', fontFamily: 'monospace', fontSize: '12px', pointerEvents: 'none' }}>
+          ({cursor.x}, {cursor.y}) - RIGHT DRAG: PAN | WHEEL: ZOOM | DEL: DELETE | ESC: DESELECT
+        </div>
+      )}
+
+      <div
+        ref={panelRef}
+        style={{
+          position: 'absolute',
+          top: 0,
+          right: 0,
+          bottom: 0,
+          width: `${PANEL_WIDTH}px`,
+          boxSizing: 'border-box',
+          padding: '15px',
+          overflowY: 'auto',
+          background: '#111122',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+        }}
+      >
+        <h2 style={{ fontSize: '20px', margin: '0 0 10px' }}>LEVEL EDITOR</h2>
+
+        {editor && edited && (
+          <>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '11px', color: '#aaa' }}>
+              NAME
+              <input value={edited.name} onChange={(e) => editor.setName(e.target.value)} style={inputStyle} />
+            </label>
+
+            <div style={headingStyle}>TOOL</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              {TOOLS.map(({ tool, label }) => (
+                <button
+                  key={tool}
+                  onClick={() => editor.setTool(tool)}
+                  style={{ ...buttonStyle, background: editor.getTool() === tool ? '#4A90E2' : '#2E5C8A' }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {editor.getTool() === 'patrol' && (
+              <div style={{ marginTop: '4px', color: '#666' }}>Click to add points to the selected enemy</div>
+            )}
+
+            <div style={headingStyle}>NEW ENEMY TYPE</div>
+            <select value={editor.getEnemyType()} onChange={(e) => editor.setEnemyType(e.target.value)} style={inputStyle}>
+              {ENEMY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+
+            <div style={headingStyle}>GRID</div>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {LevelEditor.GRID_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => editor.setGridSize(size)}
+                  style={{ ...buttonStyle, background: editor.getGridSize() === size ? '#4A90E2' : '#2E5C8A' }}
+                >
+                  {size === 1 ? 'OFF' : size}
+                </button>
+              ))}
+            </div>
+
+            <div style={headingStyle}>BOUNDS</div>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <NumberField label="WIDTH" value={edited.bounds.width} onChange={(width) => editor.setBounds(width, edited.bounds.height)} />
+              <NumberField label="HEIGHT" value={edited.bounds.height} onChange={(height) => editor.setBounds(edited.bounds.width, height)} />
+            </div>
+
+            <div style={headingStyle}>SELECTION</div>
+            {!selection && <div style={{ color: '#666' }}>Nothing selected</div>}
+
+            {selection?.kind === 'platform' && edited.platforms[selection.index] && (() => {
+              const platform = edited.platforms[selection.index]!;
+              return (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                  <div>PLATFORM {selection.index + 1}</div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <NumberField label="X" value={platform.x} onChange={(x) => editor.updatePlatform(selection.index, { x })} />
+                    <NumberField label="Y" value={platform.y} onChange={(y) => editor.updatePlatform(selection.index, { y })} />
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <NumberField label="WIDTH" value={platform.width} onChange={(width) => editor.updatePlatform(selection.index, { width })} />
+                    <NumberField label="HEIGHT" value={platform.height} onChange={(height) => editor.updatePlatform(selection.index, { height })} />
+                  </div>
+                  <label style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={!!platform.oneWay}
+                      onChange={(e) => editor.updatePlatform(selection.index, { oneWay: e.target.checked })}
+                    />
+                    ONE-WAY (jump up through it)
+                  </label>
+                </div>
+              );
+            })()}
+
+            {selection?.kind === 'playerSpawn' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                <div>PLAYER SPAWN</div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <NumberField label="X" value={edited.playerSpawn.x} onChange={(x) => editor.moveSelection(x, edited.playerSpawn.y)} />
+                  <NumberField label="Y" value={edited.playerSpawn.y} onChange={(y) => editor.moveSelection(edited.playerSpawn.x, y)} />
+                </div>
+              </div>
+            )}
+
+            {selection?.kind === 'enemy' && edited.enemySpawns[selection.index] && (() => {
+              const spawn = edited.enemySpawns[selection.index]!;
+              return (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                  <div>ENEMY {selection.index + 1}</div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <NumberField label="X" value={spawn.x} onChange={(x) => editor.moveSelection(x, spawn.y)} />
+                    <NumberField label="Y" value={spawn.y} onChange={(y) => editor.moveSelection(spawn.x, y)} />
+                  </div>
+                  <select value={spawn.type} onChange={(e) => editor.updateEnemy(selection.index, { type: e.target.value })} style={inputStyle}>
+                    {!ENEMY_TYPES.includes(spawn.type) && <option value={spawn.type}>{spawn.type} (unknown)</option>}
+                    {ENEMY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <div style={{ color: '#aaa' }}>{spawn.patrolPoints?.length ?? 0} PATROL POINTS</div>
+                  <div style={{ display: 'flex', gap: '4px' }}>
+                    <button onClick={() => editor.setTool('patrol')} style={buttonStyle}>ADD POINTS</button>
+                    <button onClick={() => editor.clearPatrol(selection.index)} style={buttonStyle}>CLEAR</button>
+                  </div>
+                </div>
+              );
+            })()}
+
+            {selection?.kind === 'patrolPoint' && (() => {
+              const point = edited.enemySpawns[selection.enemy]?.patrolPoints?.[selection.index];
+              if (!point) return null;
+              return (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                  <div>ENEMY {selection.enemy + 1} PATROL POINT {selection.index + 1}</div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <NumberField label="X" value={point.x} onChange={(x) => editor.moveSelection(x, point.y)} />
+                    <NumberField label="Y" value={point.y} onChange={(y) => editor.moveSelection(point.x, y)} />
+                  </div>
+                </div>
+              );
+            })()}
+
+            {selection && selection.kind !== 'playerSpawn' && (
+              <button onClick={() => editor.deleteSelection()} style={{ ...buttonStyle, background: '#E24A4A', marginTop: '6px' }}>
+                DELETE
+              </button>
+            )}
+
+            <div style={headingStyle}>START FROM</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              <button onClick={() => editor.loadLevel(createBlankLevel())} style={buttonStyle}>BLANK</button>
+              {Array.from({ length: getLevelCount() }, (_, index) => (
+                <button key={index} onClick={() => editor.loadLevel(getLevel(index)!)} style={buttonStyle}>
+                  LEVEL {index + 1}
+                </button>
+              ))}
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '20px' }}>
+              <button onClick={() => playtest(edited)} style={{ ...buttonStyle, padding: '10px', fontSize: '14px', background: '#4AE290', color: '#111' }}>
+                PLAY TEST
+              </button>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <button onClick={() => exportLevel(edited)} style={{ ...buttonStyle, flex: 1 }}>EXPORT JSON</button>
+                <button onClick={() => fileInputRef.current?.click()} style={{ ...buttonStyle, flex: 1 }}>IMPORT</button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.tmj,.tmx,application/json"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  void importLevel(e.target.files?.[0]);
+                  e.target.value = ''; // Allow picking the same file again
+                }}
+              />
+              {error && <div style={{ color: '#ff4444' }}>{error}</div>}
+              {issues.map((issue, index) => (
+                <div key={index} style={{ color: issue.severity === 'error' ? '#ff4444' : '#E2A04A' }}>
+                  {formatLevelIssue(issue)}
+                </div>
+              ))}
+              <button onClick={back} style={{ ...buttonStyle, padding: '10px', fontSize: '14px', background: '#E24A4A' }}>
+                BACK
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+import { NetClient, LobbyState } from '../net/NetClient';
+import { DEFAULT_SERVER_URL, MAX_NAME_LENGTH } from '../net/Protocol';
+import { getLevel } from '../data/levels';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface LobbyScreenProps {
+  client: NetClient | null; // Null until connected
+  onConnected: (client: NetClient) => void;
+  onDisconnected: () => void; // The server closed the connection
+  onMatchStart: (seat: number, levelIndex: number) => void;
+  onBack: () => void;
+}
+
+const buttonStyle = {
+  padding: '12px 35px',
+  fontSize: '18px',
+  background: '#4A90E2',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+} as const;
+
+const inputStyle = {
+  padding: '8px',
+  fontSize: '16px',
+  background: '#111',
+  border: '1px solid #2E5C8A',
+  color: 'white',
+  fontFamily: 'monospace',
+  width: '260px',
+} as const;
+
+export function LobbyScreen({ client, onConnected, onDisconnected, onMatchStart, onBack }: LobbyScreenProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [url, setUrl] = useState(DEFAULT_SERVER_URL);
+  const [name, setName] = useState('Player');
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lobby, setLobby] = useState<LobbyState>(() => client?.getLobby() ?? { players: [], inProgress: false });
+  useGamepadNavigation(containerRef, onBack);
+
+  // Keep the latest callbacks without resubscribing
+  const onMatchStartRef = useRef(onMatchStart);
+  onMatchStartRef.current = onMatchStart;
+  const onDisconnectedRef = useRef(onDisconnected);
+  onDisconnectedRef.current = onDisconnected;
+
+  useEffect(() => {
+    if (!client) return;
+
+    setLobby(client.getLobby());
+    const unsubscribe = client.onMessage((message) => {
+      if (message.type === 'lobby') {
+        setLobby({ players: message.players, inProgress: message.inProgress });
+      } else if (message.type === 'matchStart') {
+        onMatchStartRef.current(message.seat, message.levelIndex);
+      } else if (message.type === 'error') {
+        setError(message.message);
+      }
+    });
+    const unsubscribeClose = client.onClose(() => {
+      setError('Lost connection to the server');
+      onDisconnectedRef.current();
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeClose();
+    };
+  }, [client]);
+
+  const connect = async () => {
+    setConnecting(true);
+    setError(null);
+    try {
+      onConnected(await NetClient.connect(url, name));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const info = client?.getServerInfo();
+  const me = lobby.players.find(player => player.id === info?.id);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(135deg, #1a1a2e 0%, #16213e 100%)',
+        color: 'white',
+        fontFamily: 'monospace',
+      }}
+    >
+      <h2 style={{ fontSize: '36px', marginBottom: '30px' }}>ONLINE DEATHMATCH</h2>
+
+      {!client ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', alignItems: 'center' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '5px', fontSize: '14px', color: '#aaa' }}>
+            SERVER
+            <input value={url} onChange={(e) => setUrl(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '5px', fontSize: '14px', color: '#aaa' }}>
+            NAME
+            <input
+              value={name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          <button onClick={connect} disabled={connecting} style={{ ...buttonStyle, marginTop: '10px' }}>
+            {connecting ? 'CONNECTING...' : 'CONNECT'}
+          </button>
+          <div style={{ fontSize: '13px', color: '#666', maxWidth: '360px', textAlign: 'center' }}>
+            Start a local server with npm run server
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', alignItems: 'center', minWidth: '360px' }}>
+          <div style={{ fontSize: '16px', color: '#aaa' }}>
+            {getLevel(info?.levelIndex ?? 0)?.name.toUpperCase()} - FIRST TO {info?.fragLimit} FRAGS
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', width: '100%' }}>
+            {lobby.players.map((player) => (
+              <div key={player.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '16px' }}>
+                <span style={{ color: player.id === info?.id ? '#4A90E2' : 'white' }}>
+                  {player.name}
+                  {player.id === info?.id && ' (YOU)'}
+                </span>
+                <span style={{ color: player.ready || player.playing ? '#4AE290' : '#666' }}>
+                  {player.playing ? 'PLAYING' : player.ready ? 'READY' : 'NOT READY'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ fontSize: '13px', color: '#666' }}>
+            {lobby.inProgress
+              ? 'A match is in progress - ready up to join it'
+              : 'The match starts when at least 2 players are ready'}
+          </div>
+
+          <button
+            onClick={() => client.send({ type: 'ready', ready: !me?.ready })}
+            style={{ ...buttonStyle, background: me?.ready ? '#E2A04A' : '#4A90E2' }}
+          >
+            {me?.ready ? 'NOT READY' : 'READY'}
+          </button>
+        </div>
+      )}
+
+      <div style={{ height: '20px', marginTop: '15px', fontSize: '13px', color: '#ff4444' }}>{error}</div>
+
+      <button onClick={onBack} style={{ ...buttonStyle, marginTop: '15px', background: '#E24A4A' }}>
+        {client ? 'LEAVE SERVER' : 'BACK'}
+      </button>
+    </div>
+  );
+}
@@ -1,11 +1,164 @@
+import { useRef, useState } from 'react';
+import { Replay, parseReplay } from '../engine/Replay';
+import { useGamepadNavigation } from './useGamepadNavigation';
+import { ControlBindings, Level, SurvivalScore } from '../types';
+import { PLAYER_TWO_BINDINGS, describeBinding } from '../data/controls';
+import { ALL_LEVELS, getLevelCount } from '../data/levels';
+import { parseLevel } from '../data/levelFile';
+import { importTiledMap, isTiledMap } from '../data/tiled';
+import { LevelIssue, formatLevelIssue, validateLevel } from '../data/levelValidation';
+
 interface MenuProps {
   onStart: () => void;
   onLevelSelect: (level: number) => void;
+  onWatchReplay: (replay: Replay) => void;
+  onSettings: () => void;
+  onOnline: () => void;
+  onEditor: () => void;
+  onPlayLevel: (level: Level) => void;
+  onSurvival: (arena: number) => void; // Level index of the arena
+  getSurvivalBest: (arena: string) => SurvivalScore | undefined;
+  bindings: ControlBindings;
+  playerCount: number;
+  onPlayerCountChange: (count: number) => void;
+}
+
+const smallButtonStyle = {
+  padding: '6px 14px',
+  fontSize: '14px',
+  background: '#2E5C8A',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+} as const;
+
+/**
+ * Load a level file or Tiled map dropped on it or pasted into it. Levels with errors
+ * are refused; warnings are shown before playing.
+ */
+function LevelFileLoader({ onPlay }: { onPlay: (level: Level) => void }) {
+  const [text, setText] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<LevelIssue[]>([]);
+  const [checked, setChecked] = useState<Level | null>(null); // Has warnings only, waiting for PLAY ANYWAY
+
+  const load = (text: string, fileName?: string) => {
+    setError(null);
+    setIssues([]);
+    setChecked(null);
+
+    let level: Level;
+    try {
+      level = isTiledMap(text)
+        ? importTiledMap(text, { name: fileName?.replace(/\.\w+$/, '') })
+        : parseLevel(text);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    const found = validateLevel(level);
+    setIssues(found);
+    if (found.length === 0) {
+      onPlay(level);
+    } else if (!found.some(issue => issue.severity === 'error')) {
+      setChecked(level);
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setText(text);
+    load(text, file.name);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', width: '420px' }}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          void loadFile(e.dataTransfer.files[0]);
+        }}
+        placeholder="Drop a level .json file or Tiled .tmj/.tmx map here, or paste its contents"
+        rows={5}
+        style={{
+          padding: '8px',
+          fontSize: '12px',
+          background: dragging ? '#2E5C8A' : '#0f0f1e',
+          border: `1px ${dragging ? 'solid' : 'dashed'} #2E5C8A`,
+          color: 'white',
+          fontFamily: 'monospace',
+          resize: 'vertical',
+        }}
+      />
+      <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+        <button onClick={() => load(text)} disabled={!text.trim()} style={smallButtonStyle}>
+          LOAD
+        </button>
+        {checked && (
+          <button onClick={() => onPlay(checked)} style={{ ...smallButtonStyle, background: '#E2A04A' }}>
+            PLAY ANYWAY
+          </button>
+        )}
+      </div>
+      {error && <div style={{ fontSize: '12px', color: '#ff4444', textAlign: 'center' }}>{error}</div>}
+      {issues.length > 0 && (
+        <div style={{ maxHeight: '120px', overflowY: 'auto', fontSize: '12px' }}>
+          {issues.map((issue, index) => (
+            <div key={index} style={{ color: issue.severity === 'error' ? '#ff4444' : '#E2A04A' }}>
+              {formatLevelIssue(issue)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
-export function Menu({ onStart, onLevelSelect }: MenuProps) {
+export function Menu({
+  onStart,
+  onLevelSelect,
+  onWatchReplay,
+  onSettings,
+  onOnline,
+  onEditor,
+  onPlayLevel,
+  onSurvival,
+  getSurvivalBest,
+  bindings,
+  playerCount,
+  onPlayerCountChange,
+}: MenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [levelFileOpen, setLevelFileOpen] = useState(false);
+  const [survivalOpen, setSurvivalOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef);
+
+  const loadReplay = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onWatchReplay(parseReplay(await file.text()));
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'absolute',
         top: 0,
@@ -51,10 +204,30 @@ export function Menu({ onStart, onLevelSelect }: MenuProps) {
           START GAME
         </button>
 
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+          {[1, 2].map((count) => (
+            <button
+              key={count}
+              onClick={() => onPlayerCountChange(count)}
+              style={{
+                padding: '8px 16px',
+                fontSize: '14px',
+                background: count === playerCount ? '#2E5C8A' : 'transparent',
+                border: '1px solid #2E5C8A',
+                color: count === playerCount ? 'white' : '#aaa',
+                cursor: 'pointer',
+                fontFamily: 'monospace',
+              }}
+            >
+              {count === 1 ? '1 PLAYER' : '2 PLAYER CO-OP'}
+            </button>
+          ))}
+        </div>
+
         <div style={{ marginTop: '20px', textAlign: 'center' }}>
           <div style={{ marginBottom: '10px', fontSize: '14px', color: '#aaa' }}>SELECT LEVEL</div>
           <div style={{ display: 'flex', gap: '10px' }}>
-            {[1, 2, 3].map((level) => (
+            {Array.from({ length: getLevelCount() }, (_, index) => index + 1).map((level) => (
               <button
                 key={level}
                 onClick={() => onLevelSelect(level - 1)}
@@ -80,6 +253,129 @@ export function Menu({ onStart, onLevelSelect }: MenuProps) {
             ))}
           </div>
         </div>
+
+        <button
+          onClick={() => setSurvivalOpen(open => !open)}
+          style={{
+            marginTop: '20px',
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: survivalOpen ? '#1E4C7A' : '#2E5C8A',
+            border: 'none',
+            color: 'white',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          WAVE SURVIVAL
+        </button>
+        {survivalOpen && (
+          <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+            {ALL_LEVELS.map((level, index) => ({ level, index }))
+              .filter(({ level }) => level.spawnZones && level.spawnZones.length > 0)
+              .map(({ level, index }) => {
+                const best = getSurvivalBest(level.name);
+                return (
+                  <button key={index} onClick={() => onSurvival(index)} style={smallButtonStyle}>
+                    {level.name.toUpperCase()}
+                    <div style={{ fontSize: '11px', color: '#aaa', marginTop: '3px' }}>
+                      {best ? `BEST ${best.score} (WAVE ${best.wave})` : 'NO RUNS YET'}
+                    </div>
+                  </button>
+                );
+              })}
+          </div>
+        )}
+
+        <button
+          onClick={onOnline}
+          style={{
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: '#2E5C8A',
+            border: 'none',
+            color: 'white',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          ONLINE DEATHMATCH
+        </button>
+
+        <button
+          onClick={onEditor}
+          style={{
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: 'transparent',
+            border: '1px solid #2E5C8A',
+            color: '#aaa',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          LEVEL EDITOR
+        </button>
+
+        <button
+          onClick={() => setLevelFileOpen(open => !open)}
+          style={{
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: levelFileOpen ? '#2E5C8A' : 'transparent',
+            border: '1px solid #2E5C8A',
+            color: levelFileOpen ? 'white' : '#aaa',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          PLAY LEVEL FILE
+        </button>
+        {levelFileOpen && <LevelFileLoader onPlay={onPlayLevel} />}
+
+        <button
+          onClick={onSettings}
+          style={{
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: 'transparent',
+            border: '1px solid #2E5C8A',
+            color: '#aaa',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          CONTROLS
+        </button>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          style={{
+            padding: '10px 20px',
+            fontSize: '16px',
+            background: 'transparent',
+            border: '1px solid #2E5C8A',
+            color: '#aaa',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+          }}
+        >
+          WATCH REPLAY
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            setReplayError(null);
+            void loadReplay(e.target.files?.[0]);
+            e.target.value = ''; // Allow picking the same file again
+          }}
+        />
+        {replayError && (
+          <div style={{ fontSize: '12px', color: '#ff4444', textAlign: 'center' }}>{replayError}</div>
+        )}
       </div>
 
       <div
@@ -90,7 +386,19 @@ export function Menu({ onStart, onLevelSelect }: MenuProps) {
           color: '#666',
         }}
       >
-        <div>WASD - Move | SPACE - Jump | MOUSE - Aim | CLICK - Shoot | F - Swap Weapon</div>
+        <div>
+          {describeBinding(bindings.moveLeft)}/{describeBinding(bindings.moveRight)} - Move |{' '}
+          {describeBinding(bindings.jump)} - Jump | MOUSE - Aim | {describeBinding(bindings.fire)} - Shoot |{' '}
+          {describeBinding(bindings.swapWeapon)} - Swap Weapon | {describeBinding(bindings.reload)} - Reload
+        </div>
+        {playerCount > 1 && (
+          <div style={{ marginTop: '5px' }}>
+            PLAYER 2: GAMEPAD, or {describeBinding(PLAYER_TWO_BINDINGS.moveLeft)}/
+            {describeBinding(PLAYER_TWO_BINDINGS.moveRight)} - Move | {describeBinding(PLAYER_TWO_BINDINGS.jump)} - Jump |{' '}
+            {describeBinding(PLAYER_TWO_BINDINGS.fire)} - Shoot | {describeBinding(PLAYER_TWO_BINDINGS.swapWeapon)} - Swap Weapon |{' '}
+            {describeBinding(PLAYER_TWO_BINDINGS.reload)} - Reload
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameLoop } from '../engine/GameLoop';
+import { NetClient } from '../net/NetClient';
+import { MatchResult, NetGame } from '../net/NetGame';
+import { PlayerSnapshot } from '../net/Protocol';
+import { ControlBindings } from '../types';
+import { PLAYER_LABEL_COLORS, PlayerPanel } from './HUD';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface OnlineGameProps {
+  client: NetClient;
+  seat: number;
+  levelIndex: number;
+  bindings: ControlBindings;
+  onMatchEnd: () => void; // Back to the lobby
+  onLeave: () => void; // Leave the server
+}
+
+interface OnlineHUDState {
+  local: PlayerSnapshot | null;
+  scoreboard: PlayerSnapshot[];
+  result: MatchResult | null;
+}
+
+const buttonStyle = {
+  padding: '12px 35px',
+  fontSize: '18px',
+  background: '#4A90E2',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+} as const;
+
+const overlayStyle = {
+  position: 'absolute',
+  top: 0,
+  left: 0,
+  right: 0,
+  bottom: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'center',
+  justifyContent: 'center',
+  background: 'rgba(0, 0, 0, 0.8)',
+  color: 'white',
+  fontFamily: 'monospace',
+} as const;
+
+/**
+ * Leave menu shown over a running match (it can't be paused)
+ */
+function LeaveMenu({ onResume, onLeave }: { onResume: () => void; onLeave: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onResume);
+
+  return (
+    <div ref={containerRef} style={overlayStyle}>
+      <h2 style={{ fontSize: '36px', marginBottom: '10px' }}>MENU</h2>
+      <div style={{ fontSize: '14px', color: '#aaa', marginBottom: '30px' }}>The match carries on without you</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '15px' }}>
+        <button onClick={onResume} style={buttonStyle}>RESUME</button>
+        <button onClick={onLeave} style={{ ...buttonStyle, background: '#E24A4A' }}>LEAVE MATCH</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Final scores once someone reaches the frag limit
+ */
+function MatchOverScreen({ result, onContinue }: { result: MatchResult; onContinue: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onContinue);
+
+  return (
+    <div ref={containerRef} style={overlayStyle}>
+      <h2 style={{ fontSize: '36px', marginBottom: '10px' }}>MATCH OVER</h2>
+      <div style={{ fontSize: '20px', color: '#E2A04A', marginBottom: '30px' }}>{result.winner} WINS</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', minWidth: '320px', marginBottom: '30px' }}>
+        {result.scores.map((score, index) => (
+          <div key={index} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '16px' }}>
+            <span>{index + 1}. {score.name}</span>
+            <span>{score.frags} FRAGS / {score.deaths} DEATHS</span>
+          </div>
+        ))}
+      </div>
+      <button onClick={onContinue} style={buttonStyle}>BACK TO LOBBY</button>
+    </div>
+  );
+}
+
+export function OnlineGame({ client, seat, levelIndex, bindings, onMatchEnd, onLeave }: OnlineGameProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hud, setHud] = useState<OnlineHUDState>({ local: null, scoreboard: [], result: null });
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onLeaveRef = useRef(onLeave);
+  onLeaveRef.current = onLeave;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let game: NetGame;
+    try {
+      game = new NetGame(canvas, client, seat, levelIndex, bindings);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    // Same canvas setup as GameCanvas
+    const resizeCanvas = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.scale(dpr, dpr);
+      }
+
+      game.setViewportSize(rect.width, rect.height);
+    };
+
+    resizeCanvas();
+    window.addEventListener('resize', resizeCanvas);
+
+    const gameLoop = new GameLoop(
+      (dt: number) => game.update(dt),
+      (alpha: number) => {
+        game.render(alpha);
+        if (game.consumeMenuRequest()) {
+          setMenuOpen(open => !open);
+        }
+        setHud({ local: game.getLocalState(), scoreboard: game.getScoreboard(), result: game.getResult() });
+      }
+    );
+    gameLoop.start();
+
+    const unsubscribeClose = client.onClose(() => onLeaveRef.current());
+
+    return () => {
+      gameLoop.stop();
+      game.destroy();
+      unsubscribeClose();
+      window.removeEventListener('resize', resizeCanvas);
+    };
+  }, [client, seat, levelIndex, bindings]);
+
+  const { local, scoreboard, result } = hud;
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, background: '#1a1a2e' }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: '100%', display: 'block', background: '#1a1a2e', cursor: 'crosshair' }}
+      />
+
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          right: 0,
+          padding: '20px',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '16px',
+          pointerEvents: 'none',
+          userSelect: 'none',
+        }}
+      >
+        {/* Top left - own health and weapon */}
+        {local && (
+          <PlayerPanel
+            data={{
+              health: local.health,
+              maxHealth: 100,
+              armor: local.armor,
+              maxArmor: 100,
+              weaponName: local.weapon,
+              currentAmmo: local.ammo,
+              reserveAmmo: local.reserveAmmo,
+              isReloading: local.reloading,
+              respawnCountdown: 0,
+              eliminated: false,
+            }}
+          />
+        )}
+
+        {/* Top right - frags */}
+        <div style={{ position: 'absolute', top: '20px', right: '20px', textAlign: 'right' }}>
+          <div style={{ fontSize: '12px', color: '#aaa', marginBottom: '5px' }}>FRAGS</div>
+          {scoreboard.map((player) => (
+            <div key={player.seat} style={{ color: PLAYER_LABEL_COLORS[player.seat], fontWeight: player.seat === seat ? 'bold' : 'normal' }}>
+              {player.name} {player.frags}
+            </div>
+          ))}
+        </div>
+
+        {/* Center - respawn countdown */}
+        {local && !local.alive && (
+          <div style={{ position: 'fixed', top: '40%', left: 0, right: 0, textAlign: 'center', textShadow: '2px 2px 4px black' }}>
+            <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#ff4444' }}>FRAGGED</div>
+            <div style={{ fontSize: '20px', marginTop: '10px' }}>RESPAWNING IN {Math.ceil(local.respawn)}</div>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ position: 'fixed', top: '50%', left: 0, right: 0, textAlign: 'center', color: '#ff4444' }}>
+            {error}
+          </div>
+        )}
+      </div>
+
+      {menuOpen && !result && <LeaveMenu onResume={() => setMenuOpen(false)} onLeave={onLeave} />}
+      {result && <MatchOverScreen result={result} onContinue={onMatchEnd} />}
+    </div>
+  );
+}
@@ -1,12 +1,23 @@
+import { useRef } from 'react';
+import { useGamepadNavigation } from './useGamepadNavigation';
+import { ControlBindings } from '../types';
+import { describeBinding } from '../data/controls';
+
 interface PauseScreenProps {
   onResume: () => void;
   onRestart: () => void;
   onQuit: () => void;
+  onSettings: () => void;
+  bindings: ControlBindings;
 }
 
-export function PauseScreen({ onResume, onRestart, onQuit }: PauseScreenProps) {
+export function PauseScreen({ onResume, onRestart, onQuit, onSettings, bindings }: PauseScreenProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onResume);
+
   return (
     <div
+      ref={containerRef}
       style={{
         position: 'absolute',
         top: 0,
@@ -57,6 +68,22 @@ export function PauseScreen({ onResume, onRestart, onQuit }: PauseScreenProps) {
           RESTART
         </button>
 
+        <button
+          onClick={onSettings}
+          style={{
+            padding: '12px 35px',
+            fontSize: '18px',
+            background: '#2E5C8A',
+            border: 'none',
+            color: 'white',
+            cursor: 'pointer',
+            fontFamily: 'monospace',
+            fontWeight: 'bold',
+          }}
+        >
+          CONTROLS
+        </button>
+
         <button
           onClick={onQuit}
           style={{
@@ -75,7 +102,7 @@ export function PauseScreen({ onResume, onRestart, onQuit }: PauseScreenProps) {
       </div>
 
       <div style={{ marginTop: '40px', fontSize: '14px', color: '#aaa' }}>
-        Press ESC to resume
+        Press {describeBinding(bindings.pause)} to resume
       </div>
     </div>
   );
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameLoop } from '../engine/GameLoop';
+import { ReplayPlayer } from '../engine/ReplayPlayer';
+import { Replay, serializeReplay } from '../engine/Replay';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onExit: () => void;
+}
+
+const TICKS_PER_SECOND = 60;
+
+/**
+ * Format a tick count as m:ss
+ */
+function formatTime(ticks: number): string {
+  const seconds = Math.floor(ticks / TICKS_PER_SECOND);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const buttonStyle = {
+  padding: '6px 14px',
+  fontSize: '14px',
+  background: '#2E5C8A',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+} as const;
+
+export function ReplayViewer({ replay, onExit }: ReplayViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const [tick, setTick] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const controlsRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(controlsRef, onExit);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let player: ReplayPlayer;
+    try {
+      player = new ReplayPlayer(replay, canvas);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    playerRef.current = player;
+
+    // Same canvas setup as GameCanvas
+    const resizeCanvas = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.scale(dpr, dpr);
+      }
+
+      player.setViewportSize(rect.width, rect.height);
+    };
+
+    resizeCanvas();
+    window.addEventListener('resize', resizeCanvas);
+
+    const gameLoop = new GameLoop(
+      (dt: number) => player.update(dt),
+      () => {
+        player.render();
+        setTick(player.getTick());
+      }
+    );
+    gameLoop.start();
+
+    return () => {
+      gameLoop.stop();
+      player.destroy();
+      playerRef.current = null;
+      window.removeEventListener('resize', resizeCanvas);
+    };
+  }, [replay]);
+
+  const togglePaused = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    // Play from the start again once the end is reached
+    if (player.isFinished()) {
+      player.seek(0);
+    }
+    player.setPaused(!player.isPaused());
+    setPaused(player.isPaused());
+  };
+
+  const changeSpeed = (value: number) => {
+    playerRef.current?.setSpeed(value);
+    setSpeed(value);
+  };
+
+  const seek = (value: number) => {
+    playerRef.current?.seek(value);
+  };
+
+  const save = () => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay-level${replay.levelIndex + 1}-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, background: '#1a1a2e' }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: '100%', display: 'block', background: '#1a1a2e' }}
+      />
+
+      <div
+        style={{
+          position: 'absolute',
+          top: '15px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          color: '#ff4444',
+          fontFamily: 'monospace',
+          fontSize: '18px',
+          fontWeight: 'bold',
+        }}
+      >
+        REPLAY - LEVEL {replay.levelIndex + 1}
+      </div>
+
+      {error && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '50%',
+            width: '100%',
+            textAlign: 'center',
+            color: '#ff4444',
+            fontFamily: 'monospace',
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div
+        ref={controlsRef}
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          bottom: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          padding: '10px 15px',
+          background: 'rgba(0, 0, 0, 0.7)',
+          color: 'white',
+          fontFamily: 'monospace',
+        }}
+      >
+        <button onClick={togglePaused} style={{ ...buttonStyle, background: '#4A90E2', minWidth: '70px' }}>
+          {paused ? 'PLAY' : 'PAUSE'}
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={replay.tickCount}
+          value={tick}
+          onChange={(e) => seek(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+
+        <span style={{ minWidth: '90px', textAlign: 'center' }}>
+          {formatTime(tick)} / {formatTime(replay.tickCount)}
+        </span>
+
+        {ReplayPlayer.SPEEDS.map((value) => (
+          <button
+            key={value}
+            onClick={() => changeSpeed(value)}
+            style={{ ...buttonStyle, background: value === speed ? '#4A90E2' : '#2E5C8A' }}
+          >
+            {value}x
+          </button>
+        ))}
+
+        <button onClick={save} style={buttonStyle}>
+          SAVE
+        </button>
+
+        <button onClick={onExit} style={{ ...buttonStyle, background: '#E24A4A' }}>
+          EXIT
+        </button>
+      </div>
+    </div>
+  );
+}
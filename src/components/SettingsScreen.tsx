@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { ControlBindings, GameAction, InputBinding } from '../types';
+import { CONTROL_PRESETS, GAME_ACTIONS, describeBinding, rebindAction } from '../data/controls';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface SettingsScreenProps {
+  bindings: ControlBindings;
+  onChange: (bindings: ControlBindings) => void;
+  onBack: () => void;
+}
+
+// KeyboardEvent.key values that can't be bound
+const UNBINDABLE_KEYS = ['dead', 'unidentified', 'process'];
+
+const buttonStyle = {
+  padding: '8px 16px',
+  fontSize: '14px',
+  background: '#2E5C8A',
+  border: 'none',
+  color: 'white',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+} as const;
+
+function getActionLabel(action: GameAction): string {
+  return GAME_ACTIONS.find(entry => entry.action === action)?.label ?? action;
+}
+
+export function SettingsScreen({ bindings, onChange, onBack }: SettingsScreenProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [listening, setListening] = useState<GameAction | null>(null); // Action waiting for a key or button
+  const [notice, setNotice] = useState<string | null>(null);
+  useGamepadNavigation(containerRef, onBack);
+
+  // Keep the latest props for the window listeners
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const onBackRef = useRef(onBack);
+  onBackRef.current = onBack;
+
+  useEffect(() => {
+    const bind = (action: GameAction, binding: InputBinding) => {
+      const result = rebindAction(bindingsRef.current, action, binding);
+      setNotice(result.swappedWith
+        ? `${describeBinding(binding)} was used by ${getActionLabel(result.swappedWith)} - swapped`
+        : null);
+      setListening(null);
+      onChange(result.bindings);
+    };
+
+    // Capture phase on window runs before the game's own listeners, so keys
+    // pressed here never reach a paused game underneath (ESC would resume it)
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopImmediatePropagation();
+
+      const key = event.key.toLowerCase();
+      if (!listening) {
+        if (key === 'escape') onBackRef.current();
+        return;
+      }
+      event.preventDefault();
+      if (key === 'escape') {
+        setListening(null);
+        return;
+      }
+      if (!UNBINDABLE_KEYS.includes(key)) {
+        bind(listening, { type: 'key', key });
+      }
+    };
+
+    // Swallow the click that follows a captured mouse button so it doesn't press a button
+    const swallowClick = (event: MouseEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+    };
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!listening) return;
+      swallowClick(event);
+      window.addEventListener('click', swallowClick, { capture: true, once: true });
+      bind(listening, { type: 'mouse', button: event.button });
+    };
+
+    const handleContextMenu = (event: MouseEvent) => {
+      if (listening) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('contextmenu', handleContextMenu, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('contextmenu', handleContextMenu, true);
+    };
+  }, [listening, onChange]);
+
+  const applyBindings = (next: ControlBindings) => {
+    setListening(null);
+    setNotice(null);
+    onChange({ ...next });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(10, 10, 30, 0.95)',
+        color: 'white',
+        fontFamily: 'monospace',
+      }}
+    >
+      <h2 style={{ fontSize: '36px', marginBottom: '30px' }}>CONTROLS</h2>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', minWidth: '360px' }}>
+        {GAME_ACTIONS.map(({ action, label }) => (
+          <div key={action} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontSize: '16px', color: '#aaa' }}>{label.toUpperCase()}</span>
+            <button
+              onClick={() => {
+                setNotice(null);
+                setListening(action);
+              }}
+              style={{
+                ...buttonStyle,
+                minWidth: '160px',
+                background: listening === action ? '#E2A04A' : '#2E5C8A',
+              }}
+            >
+              {listening === action ? 'PRESS A KEY...' : describeBinding(bindings[action])}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ height: '20px', marginTop: '15px', fontSize: '13px', color: '#E2A04A' }}>
+        {listening ? 'Press a key or mouse button, ESC to cancel' : notice}
+      </div>
+
+      <div style={{ display: 'flex', gap: '10px', marginTop: '15px' }}>
+        {CONTROL_PRESETS.map((preset) => (
+          <button key={preset.name} onClick={() => applyBindings(preset.bindings)} style={buttonStyle}>
+            {preset.name} DEFAULTS
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onBack} style={{ ...buttonStyle, marginTop: '30px', padding: '12px 35px', fontSize: '18px', background: '#4A90E2' }}>
+        BACK
+      </button>
+
+      <div style={{ marginTop: '30px', fontSize: '14px', color: '#666' }}>
+        Gamepad controls are fixed. Mouse aiming can't be rebound.
+      </div>
+    </div>
+  );
+}
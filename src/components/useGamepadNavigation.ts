@@ -0,0 +1,108 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { GAMEPAD_BUTTONS, getActiveGamepad, isGamepadButtonDown } from '../engine/Gamepad';
+
+const REPEAT_DELAY = 400; // ms before a held direction starts repeating
+const REPEAT_INTERVAL = 150; // ms between repeats
+const STICK_THRESHOLD = 0.5; // Stick travel that counts as a direction
+const FOCUS_CLASS = 'gamepad-focus'; // Highlights the focused button (see index.css)
+
+type MenuInput = 'previous' | 'next' | 'confirm' | 'back';
+
+/**
+ * Read which menu inputs the gamepad is holding
+ */
+function readMenuInputs(pad: Gamepad): Set<MenuInput> {
+  const held = new Set<MenuInput>();
+  const stickX = pad.axes[0] ?? 0;
+  const stickY = pad.axes[1] ?? 0;
+
+  if (isGamepadButtonDown(pad, GAMEPAD_BUTTONS.DPAD_UP) || isGamepadButtonDown(pad, GAMEPAD_BUTTONS.DPAD_LEFT) ||
+      stickY < -STICK_THRESHOLD || stickX < -STICK_THRESHOLD) {
+    held.add('previous');
+  }
+  if (isGamepadButtonDown(pad, GAMEPAD_BUTTONS.DPAD_DOWN) || isGamepadButtonDown(pad, GAMEPAD_BUTTONS.DPAD_RIGHT) ||
+      stickY > STICK_THRESHOLD || stickX > STICK_THRESHOLD) {
+    held.add('next');
+  }
+  if (isGamepadButtonDown(pad, GAMEPAD_BUTTONS.A)) held.add('confirm');
+  if (isGamepadButtonDown(pad, GAMEPAD_BUTTONS.B)) held.add('back');
+  return held;
+}
+
+/**
+ * Let a gamepad move focus between an overlay's buttons and press them.
+ * D-pad or left stick moves focus, A presses the focused button, B calls onBack.
+ * @param containerRef - Element whose buttons can be navigated
+ * @param onBack - Called when B is pressed (e.g. resume or return to menu)
+ */
+export function useGamepadNavigation(containerRef: RefObject<HTMLElement | null>, onBack?: () => void): void {
+  // Keep the latest callback without restarting the polling loop
+  const onBackRef = useRef(onBack);
+  onBackRef.current = onBack;
+
+  useEffect(() => {
+    let frameId: number | null = null;
+    // Inputs held when the overlay opened (e.g. A that started the game) must be released first
+    let previous = new Set<MenuInput>(['previous', 'next', 'confirm', 'back']);
+    let repeatAt = 0;
+
+    const getButtons = (): HTMLElement[] => {
+      const container = containerRef.current;
+      if (!container) return [];
+      return Array.from(container.querySelectorAll<HTMLElement>('button:not([disabled])'));
+    };
+
+    const moveFocus = (step: number) => {
+      const buttons = getButtons();
+      if (buttons.length === 0) return;
+      const current = buttons.indexOf(document.activeElement as HTMLElement);
+      const next = current === -1 ? 0 : (current + step + buttons.length) % buttons.length;
+      const button = buttons[next];
+      if (!button) return;
+
+      // Browsers don't always show a focus ring for script focus, so mark it ourselves
+      buttons[current]?.classList.remove(FOCUS_CLASS);
+      button.classList.add(FOCUS_CLASS);
+      button.addEventListener('blur', () => button.classList.remove(FOCUS_CLASS), { once: true });
+      button.focus();
+    };
+
+    const poll = (time: number) => {
+      frameId = requestAnimationFrame(poll);
+
+      const pad = getActiveGamepad();
+      const held = pad ? readMenuInputs(pad) : new Set<MenuInput>();
+      const pressed = (input: MenuInput) => held.has(input) && !previous.has(input);
+
+      for (const [input, step] of [['previous', -1], ['next', 1]] as const) {
+        if (pressed(input)) {
+          moveFocus(step);
+          repeatAt = time + REPEAT_DELAY;
+        } else if (held.has(input) && time >= repeatAt) {
+          moveFocus(step);
+          repeatAt = time + REPEAT_INTERVAL;
+        }
+      }
+
+      if (pressed('confirm')) {
+        const focused = document.activeElement as HTMLElement | null;
+        if (focused && getButtons().includes(focused)) {
+          focused.click();
+        } else {
+          moveFocus(1);
+        }
+      }
+
+      if (pressed('back')) {
+        onBackRef.current?.();
+      }
+
+      previous = held;
+    };
+
+    frameId = requestAnimationFrame(poll);
+    return () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, [containerRef]);
+}
@@ -0,0 +1,124 @@
+import { ControlBindings, GameAction, InputBinding } from '../types';
+
+/**
+ * Rebindable actions in the order the settings screen lists them
+ */
+export const GAME_ACTIONS: { action: GameAction; label: string }[] = [
+  { action: 'moveLeft', label: 'Move Left' },
+  { action: 'moveRight', label: 'Move Right' },
+  { action: 'jump', label: 'Jump' },
+  { action: 'fire', label: 'Shoot' },
+  { action: 'swapWeapon', label: 'Swap Weapon' },
+  { action: 'reload', label: 'Reload' },
+  { action: 'pause', label: 'Pause' },
+  { action: 'toggleDebug', label: 'Debug Overlay' },
+  { action: 'toggleInterpolation', label: 'Interpolation' },
+];
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+  moveLeft: { type: 'key', key: 'a' },
+  moveRight: { type: 'key', key: 'd' },
+  jump: { type: 'key', key: ' ' },
+  fire: { type: 'mouse', button: 0 },
+  swapWeapon: { type: 'key', key: 'f' },
+  reload: { type: 'key', key: 'r' },
+  pause: { type: 'key', key: 'escape' },
+  toggleDebug: { type: 'key', key: 'g' },
+  toggleInterpolation: { type: 'key', key: 'i' },
+};
+
+/**
+ * Keyboard controls for player 2 in co-op, on the other side of the keyboard.
+ * Without a gamepad player 2 aims the way they face.
+ */
+export const PLAYER_TWO_BINDINGS: ControlBindings = {
+  moveLeft: { type: 'key', key: 'arrowleft' },
+  moveRight: { type: 'key', key: 'arrowright' },
+  jump: { type: 'key', key: 'arrowup' },
+  fire: { type: 'key', key: 'enter' },
+  swapWeapon: { type: 'key', key: 'shift' },
+  reload: { type: 'key', key: 'arrowdown' },
+  pause: { type: 'key', key: 'escape' },
+  toggleDebug: { type: 'key', key: 'g' },
+  toggleInterpolation: { type: 'key', key: 'i' },
+};
+
+/**
+ * Layout presets offered on the settings screen
+ */
+export const CONTROL_PRESETS: { name: string; bindings: ControlBindings }[] = [
+  { name: 'QWERTY', bindings: DEFAULT_BINDINGS },
+  { name: 'AZERTY', bindings: { ...DEFAULT_BINDINGS, moveLeft: { type: 'key', key: 'q' } } },
+];
+
+// Display names for keys whose KeyboardEvent.key isn't readable as-is
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'SPACE',
+  escape: 'ESC',
+  arrowleft: 'LEFT',
+  arrowright: 'RIGHT',
+  arrowup: 'UP',
+  arrowdown: 'DOWN',
+};
+
+const MOUSE_BUTTON_NAMES = ['LEFT CLICK', 'MIDDLE CLICK', 'RIGHT CLICK'];
+
+/**
+ * Get a short display name for a binding, e.g. "SPACE" or "LEFT CLICK"
+ */
+export function describeBinding(binding: InputBinding): string {
+  if (binding.type === 'mouse') {
+    return MOUSE_BUTTON_NAMES[binding.button] ?? `MOUSE ${binding.button}`;
+  }
+  return KEY_NAMES[binding.key] ?? binding.key.toUpperCase();
+}
+
+/**
+ * Check whether two bindings refer to the same key or button
+ */
+export function isSameBinding(a: InputBinding, b: InputBinding): boolean {
+  if (a.type === 'key' && b.type === 'key') return a.key === b.key;
+  if (a.type === 'mouse' && b.type === 'mouse') return a.button === b.button;
+  return false;
+}
+
+/**
+ * Find the other action already using a binding, if any
+ */
+export function findConflict(bindings: ControlBindings, action: GameAction, binding: InputBinding): GameAction | null {
+  for (const { action: other } of GAME_ACTIONS) {
+    if (other !== action && isSameBinding(bindings[other], binding)) {
+      return other;
+    }
+  }
+  return null;
+}
+
+/**
+ * Bind an action, swapping bindings with any action that already used the input
+ * so no two actions ever share one
+ * @returns The new bindings, and the action that was swapped (null if none)
+ */
+export function rebindAction(
+  bindings: ControlBindings,
+  action: GameAction,
+  binding: InputBinding
+): { bindings: ControlBindings; swappedWith: GameAction | null } {
+  const swappedWith = findConflict(bindings, action, binding);
+  const updated = { ...bindings, [action]: binding };
+  if (swappedWith) {
+    updated[swappedWith] = bindings[action];
+  }
+  return { bindings: updated, swappedWith };
+}
+
+/**
+ * Check that stored data is a usable binding
+ */
+export function isInputBinding(value: unknown): value is InputBinding {
+  const binding = value as Partial<{ type: string; key: unknown; button: unknown }> | null;
+  if (!binding || typeof binding !== 'object') return false;
+  if (binding.type === 'key') return typeof binding.key === 'string' && binding.key.length > 0;
+  if (binding.type === 'mouse') return typeof binding.button === 'number';
+  return false;
+}
@@ -0,0 +1,112 @@
+import { EnemyArchetype } from '../types';
+import { WEAPON_PISTOL, WEAPON_SHOTGUN, WEAPON_RIFLE } from './weapons';
+
+/**
+ * Enemy archetype definitions, keyed by the `type` used in level spawn data
+ */
+
+export const ENEMY_GRUNT: EnemyArchetype = {
+  name: 'Grunt',
+  health: 100,
+  size: { width: 32, height: 48 }, // Same size as player
+  moveSpeed: 150, // pixels per second
+  sightRadius: 400,
+  attackRange: 300,
+  weapon: WEAPON_PISTOL,
+  attackCooldown: 2.0, // seconds
+  colors: { body: '#E24A4A', outline: '#8A2E2E' },
+  drops: [
+    { chance: 0.3, type: 'ammo' },
+    { chance: 0.15, type: 'health' },
+  ],
+};
+
+export const ENEMY_SHOTGUNNER: EnemyArchetype = {
+  name: 'Shotgunner',
+  health: 120,
+  size: { width: 32, height: 48 },
+  moveSpeed: 170,
+  sightRadius: 350,
+  attackRange: 150, // Needs to get close
+  weapon: WEAPON_SHOTGUN,
+  attackCooldown: 1.5,
+  colors: { body: '#E27A4A', outline: '#8A4A2E' },
+  drops: [
+    { chance: 0.35, type: 'weapon', weapon: 'Shotgun' },
+    { chance: 0.3, type: 'ammo' },
+  ],
+};
+
+export const ENEMY_SNIPER: EnemyArchetype = {
+  name: 'Sniper',
+  health: 70,
+  size: { width: 28, height: 48 },
+  moveSpeed: 90,
+  sightRadius: 700, // Sees across most of the level
+  attackRange: 650,
+  weapon: WEAPON_RIFLE,
+  attackCooldown: 3.0,
+  colors: { body: '#9A4AE2', outline: '#5A2E8A' },
+  drops: [
+    { chance: 0.35, type: 'weapon', weapon: 'Rifle' },
+    { chance: 0.3, type: 'ammo' },
+  ],
+};
+
+export const ENEMY_HEAVY: EnemyArchetype = {
+  name: 'Heavy',
+  health: 300,
+  size: { width: 40, height: 56 },
+  moveSpeed: 80,
+  sightRadius: 400,
+  attackRange: 350,
+  weapon: WEAPON_RIFLE,
+  attackCooldown: 0.8, // Sustained fire
+  colors: { body: '#8A1E1E', outline: '#4A0E0E' },
+  drops: [
+    { chance: 0.6, type: 'armor' },
+    { chance: 0.5, type: 'health', amount: 50 },
+  ],
+};
+
+export const ENEMY_RUSHER: EnemyArchetype = {
+  name: 'Rusher',
+  health: 60,
+  size: { width: 28, height: 40 },
+  moveSpeed: 280, // Almost as fast as the player
+  sightRadius: 450,
+  attackRange: 100,
+  weapon: WEAPON_SHOTGUN,
+  attackCooldown: 1.0,
+  colors: { body: '#E2D24A', outline: '#8A7E2E' },
+  drops: [
+    { chance: 0.25, type: 'health' },
+  ],
+};
+
+/**
+ * Registry of all enemy archetypes by spawn type key
+ */
+export const ENEMY_ARCHETYPES: Record<string, EnemyArchetype> = {
+  grunt: ENEMY_GRUNT,
+  shotgunner: ENEMY_SHOTGUNNER,
+  sniper: ENEMY_SNIPER,
+  heavy: ENEMY_HEAVY,
+  rusher: ENEMY_RUSHER,
+};
+
+/**
+ * Older spawn type keys still found in saved levels, editor exports and Tiled maps
+ */
+const ENEMY_TYPE_ALIASES: Record<string, string> = {
+  basic: 'grunt', // The only enemy before archetypes existed
+};
+
+/**
+ * Get an enemy archetype by its spawn type key (or a legacy alias). Only the tables' own keys
+ * count, so level data naming e.g. "toString" gets undefined rather than an Object.prototype member.
+ */
+export function getEnemyArchetype(type: string): EnemyArchetype | undefined {
+  const key = Object.prototype.hasOwnProperty.call(ENEMY_TYPE_ALIASES, type) ? ENEMY_TYPE_ALIASES[type]! : type;
+  return Object.prototype.hasOwnProperty.call(ENEMY_ARCHETYPES, key) ? ENEMY_ARCHETYPES[key] : undefined;
+}
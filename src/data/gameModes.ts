@@ -0,0 +1,20 @@
+import { GameMode } from '../types';
+
+/**
+ * Game mode rule sets
+ */
+
+export const GAME_MODE_CAMPAIGN: GameMode = {
+  name: 'Campaign',
+  friendlyFire: { enabled: false, damageScale: 0, selfDamage: false },
+};
+
+export const GAME_MODE_COOP: GameMode = {
+  name: 'Co-op',
+  friendlyFire: { enabled: true, damageScale: 0.5, selfDamage: false }, // Careless shots still sting
+};
+
+export const GAME_MODE_VERSUS: GameMode = {
+  name: 'Versus',
+  friendlyFire: { enabled: false, damageScale: 0, selfDamage: true }, // Rockets hurt their owner too
+};
@@ -0,0 +1,187 @@
+import type { Level } from '../types';
+
+/**
+ * Current level file format version. Bump it when the format changes in a way
+ * older readers can't handle, and upgrade older files in readLevelData.
+ */
+export const LEVEL_FILE_VERSION = 1;
+
+const PICKUP_TYPES = ['health', 'ammo', 'weapon', 'armor', 'item'];
+
+/**
+ * Check that a value is an object with numeric x and y
+ */
+function isPoint(value: unknown): value is { x: number; y: number } {
+  const point = value as Partial<{ x: unknown; y: unknown }> | null;
+  return !!point && typeof point === 'object' && typeof point.x === 'number' && typeof point.y === 'number';
+}
+
+/**
+ * Check that a value is an object with numeric x, y, width and height
+ */
+function isZone(value: unknown): value is { x: number; y: number; width: number; height: number } {
+  const zone = value as Partial<{ width: unknown; height: unknown }> | null;
+  return isPoint(value) && typeof zone?.width === 'number' && typeof zone.height === 'number';
+}
+
+/**
+ * Check that a value is a list of level actions, each with a type, and that spawn
+ * actions list enemies like enemySpawns
+ */
+function isActionList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => {
+    const action = item as Partial<{ type: unknown; enemies: unknown }> | null;
+    if (!action || typeof action !== 'object' || typeof action.type !== 'string') return false;
+    if (action.type === 'spawnEnemies') {
+      return Array.isArray(action.enemies) && action.enemies.every(spawn => isPoint(spawn) && typeof (spawn as { type?: unknown }).type === 'string');
+    }
+    return true;
+  });
+}
+
+/**
+ * Check that a value is an objective, and so are the members of a group
+ */
+function isObjective(value: unknown): boolean {
+  const objective = value as Partial<{ type: unknown; objectives: unknown }> | null;
+  if (!objective || typeof objective !== 'object' || typeof objective.type !== 'string') return false;
+  if (objective.type === 'all' || objective.type === 'any') {
+    return Array.isArray(objective.objectives) && objective.objectives.every(isObjective);
+  }
+  return true;
+}
+
+/**
+ * Serialise a level as a level file for saving or sharing
+ */
+export function serializeLevel(level: Level): string {
+  return JSON.stringify({ version: LEVEL_FILE_VERSION, ...level }, null, 2);
+}
+
+/**
+ * Parse a level file, checking it has the shape of a Level
+ * @throws If the text isn't a level file
+ */
+export function parseLevel(json: string): Level {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`[Level] Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return readLevelData(data);
+}
+
+/**
+ * Read already-parsed level file data (e.g. an imported .json module), checking
+ * the version and that it has the shape of a Level. Whether the level makes sense
+ * is up to validateLevel.
+ * @throws If the data isn't a level
+ */
+export function readLevelData(data: unknown): Level {
+  const file = data as (Partial<Level> & { version?: unknown }) | null;
+  if (!file || typeof file !== 'object' || Array.isArray(file)) {
+    throw new Error('[Level] File does not contain a level');
+  }
+
+  // Files exported before versioning have no version and are the same as version 1
+  const version = file.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`[Level] Invalid "version" ${JSON.stringify(version)}`);
+  }
+  if (version > LEVEL_FILE_VERSION) {
+    throw new Error(`[Level] File is version ${version} but this game reads up to version ${LEVEL_FILE_VERSION} - update the game`);
+  }
+
+  const { version: _version, ...level } = file;
+
+  if (typeof level.name !== 'string') {
+    throw new Error('[Level] Missing or invalid "name"');
+  }
+  if (!level.bounds || typeof level.bounds.width !== 'number' || typeof level.bounds.height !== 'number') {
+    throw new Error('[Level] Missing or invalid "bounds" (needs numeric width and height)');
+  }
+  if (!isPoint(level.playerSpawn)) {
+    throw new Error('[Level] Missing or invalid "playerSpawn" (needs numeric x and y)');
+  }
+
+  if (!Array.isArray(level.platforms)) {
+    throw new Error('[Level] Missing or invalid "platforms"');
+  }
+  level.platforms.forEach((platform, index) => {
+    const fields = [platform?.x, platform?.y, platform?.width, platform?.height];
+    if (fields.some(field => typeof field !== 'number') ||
+        (platform.oneWay !== undefined && typeof platform.oneWay !== 'boolean')) {
+      throw new Error(`[Level] Invalid platforms[${index}] (needs numeric x, y, width and height)`);
+    }
+  });
+
+  if (!Array.isArray(level.enemySpawns)) {
+    throw new Error('[Level] Missing or invalid "enemySpawns"');
+  }
+  level.enemySpawns.forEach((spawn, index) => {
+    if (!isPoint(spawn) || typeof spawn.type !== 'string' ||
+        (spawn.patrolPoints !== undefined && (!Array.isArray(spawn.patrolPoints) || !spawn.patrolPoints.every(isPoint)))) {
+      throw new Error(`[Level] Invalid enemySpawns[${index}] (needs numeric x and y, a type and optional patrolPoints)`);
+    }
+  });
+
+  for (const field of ['pickups', 'barrels', 'deathmatchSpawns'] as const) {
+    const list = level[field];
+    if (list !== undefined && (!Array.isArray(list) || !list.every(isPoint))) {
+      throw new Error(`[Level] Invalid "${field}" (needs a list of numeric x and y)`);
+    }
+  }
+  level.pickups?.forEach((pickup, index) => {
+    if (!PICKUP_TYPES.includes(pickup.type)) {
+      throw new Error(`[Level] Invalid pickups[${index}] type ${JSON.stringify(pickup.type)} (one of ${PICKUP_TYPES.join(', ')})`);
+    }
+  });
+
+  if (level.spawnZones !== undefined && (!Array.isArray(level.spawnZones) || !level.spawnZones.every(isZone))) {
+    throw new Error('[Level] Invalid "spawnZones" (needs a list of numeric x, y, width and height)');
+  }
+
+  if (level.movers !== undefined &&
+      (!Array.isArray(level.movers) ||
+       !level.movers.every(mover => isZone(mover) && Array.isArray(mover.path) && mover.path.every(isPoint)))) {
+    throw new Error('[Level] Invalid "movers" (needs a list of numeric x, y, width and height with a path of points)');
+  }
+  if (level.doors !== undefined &&
+      (!Array.isArray(level.doors) ||
+       !level.doors.every(door => isZone(door) && typeof door.id === 'string' && (door.open === undefined || isPoint(door.open))))) {
+    throw new Error('[Level] Invalid "doors" (needs a list of numeric x, y, width and height with an id)');
+  }
+  if (level.switches !== undefined &&
+      (!Array.isArray(level.switches) ||
+       !level.switches.every(item => isPoint(item) && typeof item.kind === 'string' && isActionList(item.actions) &&
+         (item.releaseActions === undefined || isActionList(item.releaseActions))))) {
+    throw new Error('[Level] Invalid "switches" (needs a list of numeric x and y with a kind and actions, each with a "type")');
+  }
+  if (level.triggers !== undefined &&
+      (!Array.isArray(level.triggers) || !level.triggers.every(trigger => isZone(trigger) && isActionList(trigger.actions)))) {
+    throw new Error('[Level] Invalid "triggers" (needs a list of numeric x, y, width and height with actions, each with a "type")');
+  }
+
+  for (const field of ['objectives', 'bonusObjectives'] as const) {
+    const list = level[field];
+    if (list !== undefined && (!Array.isArray(list) || !list.every(isObjective))) {
+      throw new Error(`[Level] Invalid "${field}" (needs a list of objectives, each with a "type")`);
+    }
+  }
+
+  if (level.tiles !== undefined) {
+    const { tiles } = level;
+    if (!tiles || typeof tiles.tileWidth !== 'number' || typeof tiles.tileHeight !== 'number' ||
+        !Array.isArray(tiles.tilesets) || !Array.isArray(tiles.layers) ||
+        !tiles.layers.every(layer => Array.isArray(layer?.gids) && layer.gids.length === layer.width * layer.height)) {
+      throw new Error('[Level] Invalid "tiles" (needs tile sizes, tilesets and layers with width x height gids)');
+    }
+  }
+  if (level.properties !== undefined &&
+      (!level.properties || typeof level.properties !== 'object' || Array.isArray(level.properties))) {
+    throw new Error('[Level] Invalid "properties" (needs an object of names to values)');
+  }
+
+  return level as Level;
+}
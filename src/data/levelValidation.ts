@@ -0,0 +1,491 @@
+import { Level, LevelAction, ObjectiveData, PlatformData, ZoneData } from '../types';
+import { Rect } from '../types/Rect';
+import { Vec2 } from '../types/Vec2';
+import { getEnemyArchetype } from './enemies';
+import { getWeaponByName } from './weapons';
+import { WAVE_ENEMIES } from './waves';
+import { Player } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { Pickup } from '../entities/Pickup';
+import { ExplosiveBarrel } from '../entities/ExplosiveBarrel';
+import { DefendTarget } from '../entities/DefendTarget';
+import { Switch } from '../entities/Switch';
+import { NavigationSystem } from '../systems/NavigationSystem';
+import { PhysicsSystem } from '../systems/PhysicsSystem';
+
+/**
+ * A problem found in level data
+ * - error: the level can't be played (LevelManager refuses it)
+ * - warning: the level plays, but probably not as intended
+ */
+export interface LevelIssue {
+  severity: 'error' | 'warning';
+  path: string; // Where in the level data, e.g. "enemySpawns[2].patrolPoints[1]"
+  message: string; // What's wrong and how to fix it
+}
+
+// Something that spawns with a body: checked against solid platforms and each other
+interface SpawnBox {
+  path: string;
+  rect: Rect;
+  overlapChecked: boolean; // Pickups may sit on top of other things
+}
+
+/**
+ * Describe a platform for messages
+ */
+function describePlatform(platform: PlatformData, index: number): string {
+  return `platforms[${index}] (${platform.x}, ${platform.y}, ${platform.width}x${platform.height})`;
+}
+
+/**
+ * Check a level for mistakes, from fatal ones (unknown enemy types) to likely ones
+ * (spawns stuck inside walls, patrol points enemies can't get to)
+ * @returns Every issue found, errors first
+ */
+export function validateLevel(level: Level): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  const { width, height } = level.bounds;
+  if (width <= 0 || height <= 0) {
+    error('bounds', `Size ${width}x${height} must be positive`);
+  }
+
+  // Platforms must fit inside the bounds (the camera never shows outside them)
+  level.platforms.forEach((platform, index) => {
+    if (platform.width <= 0 || platform.height <= 0) {
+      error(`platforms[${index}]`, `Size ${platform.width}x${platform.height} must be positive`);
+      return;
+    }
+
+    const sides: string[] = [];
+    if (platform.x < 0) sides.push(`left edge ${platform.x} is left of 0`);
+    if (platform.y < 0) sides.push(`top edge ${platform.y} is above 0`);
+    if (platform.x + platform.width > width) sides.push(`right edge ${platform.x + platform.width} is past bounds.width ${width}`);
+    if (platform.y + platform.height > height) sides.push(`bottom edge ${platform.y + platform.height} is past bounds.height ${height}`);
+    if (sides.length > 0) {
+      error(`platforms[${index}]`, `Outside the level bounds: ${sides.join(', ')} - move or resize it, or grow bounds`);
+    }
+  });
+
+  // Everything that spawns with a body
+  const boxes: SpawnBox[] = [
+    { path: 'playerSpawn', rect: Rect.fromPositionAndSize(new Vec2(level.playerSpawn.x, level.playerSpawn.y), Player.SIZE), overlapChecked: true },
+  ];
+
+  level.enemySpawns.forEach((spawn, index) => {
+    const archetype = getEnemyArchetype(spawn.type);
+    if (!archetype) {
+      error(`enemySpawns[${index}]`, `Unknown enemy type "${spawn.type}" at (${spawn.x}, ${spawn.y}) - see data/enemies.ts for the types`);
+      return;
+    }
+    const size = new Vec2(archetype.size.width, archetype.size.height);
+    boxes.push({ path: `enemySpawns[${index}]`, rect: Rect.fromPositionAndSize(new Vec2(spawn.x, spawn.y), size), overlapChecked: true });
+  });
+
+  level.pickups?.forEach((pickup, index) => {
+    if (pickup.type === 'weapon' && !getWeaponByName(pickup.weapon ?? '')) {
+      error(`pickups[${index}]`, `Unknown weapon "${pickup.weapon}" at (${pickup.x}, ${pickup.y}) - see data/weapons.ts for the names`);
+    }
+    boxes.push({ path: `pickups[${index}]`, rect: Rect.fromPositionAndSize(new Vec2(pickup.x, pickup.y), Pickup.SIZE), overlapChecked: false });
+  });
+
+  level.barrels?.forEach((barrel, index) => {
+    boxes.push({ path: `barrels[${index}]`, rect: Rect.fromPositionAndSize(new Vec2(barrel.x, barrel.y), ExplosiveBarrel.SIZE), overlapChecked: true });
+  });
+
+  level.deathmatchSpawns?.forEach((spawn, index) => {
+    boxes.push({ path: `deathmatchSpawns[${index}]`, rect: Rect.fromPositionAndSize(new Vec2(spawn.x, spawn.y), Player.SIZE), overlapChecked: false });
+  });
+
+  issues.push(...findObjectiveIssues(level, boxes));
+  issues.push(...findSpawnZoneIssues(level));
+  issues.push(...findLevelElementIssues(level, boxes));
+
+  // Spawning inside solid geometry traps (or ejects) whatever spawns there. Feet sunk
+  // a little into the top get pushed up onto it by physics, so only warn for those.
+  for (const box of boxes) {
+    level.platforms.forEach((platform, index) => {
+      if (platform.oneWay) return;
+      if (!box.rect.overlaps(new Rect(platform.x, platform.y, platform.width, platform.height))) return;
+
+      const standOnTop = `move it to y = ${platform.y - box.rect.height} to stand on top`;
+      const sunk = box.rect.bottom - platform.y;
+      if (box.rect.top < platform.y && sunk <= box.rect.height / 2) {
+        warning(box.path, `Feet ${sunk}px into solid ${describePlatform(platform, index)} - ${standOnTop}`);
+      } else {
+        error(box.path, `Inside solid ${describePlatform(platform, index)} - ${standOnTop}`);
+      }
+    });
+  }
+
+  // Actors and barrels spawning on top of each other
+  const overlapping = boxes.filter(box => box.overlapChecked);
+  for (let i = 0; i < overlapping.length; i++) {
+    for (let j = i + 1; j < overlapping.length; j++) {
+      const a = overlapping[i]!;
+      const b = overlapping[j]!;
+      if (a.rect.overlaps(b.rect)) {
+        warning(b.path, `Overlaps ${a.path} - move one of them apart`);
+      }
+    }
+  }
+
+  issues.push(...findUnreachablePatrolPoints(level));
+
+  // Errors first
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+/**
+ * Check objectives refer to things that exist and can be met, adding defend targets to the spawn boxes
+ */
+function findObjectiveIssues(level: Level, boxes: SpawnBox[]): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+  const { width, height } = level.bounds;
+
+  const check = (objective: ObjectiveData, path: string): void => {
+    switch (objective.type) {
+      case 'killAll':
+        if (level.enemySpawns.length === 0) {
+          warning(path, 'Kill all with no enemySpawns is met as soon as the level starts');
+        }
+        break;
+      case 'reachExit': {
+        const { x, y, width: zoneWidth, height: zoneHeight } = objective.zone ?? {};
+        if ([x, y, zoneWidth, zoneHeight].some(field => typeof field !== 'number')) {
+          error(path, 'Needs a zone with numeric x, y, width and height');
+        } else if (zoneWidth! <= 0 || zoneHeight! <= 0) {
+          error(path, `Zone size ${zoneWidth}x${zoneHeight} must be positive`);
+        } else if (x! < 0 || y! < 0 || x! + zoneWidth! > width || y! + zoneHeight! > height) {
+          error(path, `Zone (${x}, ${y}, ${zoneWidth}x${zoneHeight}) is outside the level bounds - players can't reach it`);
+        }
+        break;
+      }
+      case 'survive':
+        if (typeof objective.seconds !== 'number' || objective.seconds <= 0) {
+          error(path, `Seconds ${objective.seconds} must be a positive number`);
+        }
+        break;
+      case 'defend': {
+        const { target } = objective;
+        if (!target || typeof target.x !== 'number' || typeof target.y !== 'number' ||
+            (target.health !== undefined && (typeof target.health !== 'number' || target.health <= 0))) {
+          error(path, 'Needs a target with numeric x and y, and a positive health if given');
+          break;
+        }
+        boxes.push({ path: `${path}.target`, rect: Rect.fromPositionAndSize(new Vec2(target.x, target.y), DefendTarget.SIZE), overlapChecked: true });
+        break;
+      }
+      case 'collect': {
+        if (typeof objective.count !== 'number' || objective.count <= 0) {
+          error(path, `Count ${objective.count} must be a positive number`);
+          break;
+        }
+        // Enemy drops and respawning pickups can make up the difference, so only warn
+        const placed = (level.pickups ?? []).filter(pickup => !objective.pickupType || pickup.type === objective.pickupType);
+        if (placed.length < objective.count && !placed.some(pickup => pickup.respawnTime)) {
+          warning(path, `Needs ${objective.count} ${objective.pickupType ?? ''} pickups but the level places ${placed.length} - add pickups or lower the count`);
+        }
+        break;
+      }
+      case 'killTarget':
+        if (!Number.isInteger(objective.enemy) || !level.enemySpawns[objective.enemy]) {
+          error(path, `Enemy ${objective.enemy} is not an index into enemySpawns (0 to ${level.enemySpawns.length - 1})`);
+        }
+        break;
+      case 'all':
+      case 'any':
+        if (objective.objectives.length === 0) {
+          error(path, `Empty "${objective.type}" group - add objectives to it or remove it`);
+        }
+        objective.objectives.forEach((child, index) => check(child, `${path}.objectives[${index}]`));
+        break;
+      default:
+        error(path, `Unknown objective type "${(objective as { type: string }).type}" - one of killAll, reachExit, survive, defend, collect, killTarget, all, any`);
+    }
+  };
+
+  level.objectives?.forEach((objective, index) => check(objective, `objectives[${index}]`));
+  level.bonusObjectives?.forEach((objective, index) => check(objective, `bonusObjectives[${index}]`));
+
+  // With no objectives the level needs enemies to kill, and defending alone is met from the start
+  if (!level.objectives?.length) {
+    if (level.enemySpawns.length === 0) {
+      warning('objectives', 'No objectives and no enemySpawns - the level completes as soon as it starts');
+    }
+  } else if (level.objectives.every(objective => objective.type === 'defend')) {
+    warning('objectives', 'Only defend objectives, which are met from the start - pair them with survive or killAll');
+  }
+
+  return issues;
+}
+
+/**
+ * Check wave survival spawn zones fit the biggest wave enemy inside the bounds, clear of solid platforms
+ */
+function findSpawnZoneIssues(level: Level): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const { width, height } = level.bounds;
+
+  let biggest = { width: 0, height: 0 };
+  for (const entry of WAVE_ENEMIES) {
+    const size = getEnemyArchetype(entry.type)?.size;
+    if (size) {
+      biggest = { width: Math.max(biggest.width, size.width), height: Math.max(biggest.height, size.height) };
+    }
+  }
+
+  level.spawnZones?.forEach((zone, index) => {
+    const path = `spawnZones[${index}]`;
+    if (zone.width < biggest.width || zone.height < biggest.height) {
+      issues.push({ severity: 'error', path, message: `Size ${zone.width}x${zone.height} is too small for every wave enemy - make it at least ${biggest.width}x${biggest.height}` });
+      return;
+    }
+    if (zone.x < 0 || zone.y < 0 || zone.x + zone.width > width || zone.y + zone.height > height) {
+      issues.push({ severity: 'error', path, message: `Zone (${zone.x}, ${zone.y}, ${zone.width}x${zone.height}) is outside the level bounds` });
+      return;
+    }
+
+    // Enemies stand on the zone's bottom edge, so only its lowest enemy height matters
+    const standing = new Rect(zone.x, zone.y + zone.height - biggest.height, zone.width, biggest.height);
+    level.platforms.forEach((platform, platformIndex) => {
+      if (!platform.oneWay && standing.overlaps(new Rect(platform.x, platform.y, platform.width, platform.height))) {
+        issues.push({ severity: 'warning', path, message: `Enemies can spawn inside solid ${describePlatform(platform, platformIndex)} - put the zone's bottom edge on its top (y + height = ${platform.y})` });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Check movers, doors, switches and triggers fit in the level, and that their actions
+ * refer to movers and doors that exist, adding enemies spawned by actions to the spawn boxes
+ */
+function findLevelElementIssues(level: Level, boxes: SpawnBox[]): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+  const { width, height } = level.bounds;
+
+  const outside = (zone: ZoneData): boolean =>
+    zone.x < 0 || zone.y < 0 || zone.x + zone.width > width || zone.y + zone.height > height;
+  const checkSize = (zone: ZoneData, path: string): boolean => {
+    if (zone.width > 0 && zone.height > 0) return true;
+    error(path, `Size ${zone.width}x${zone.height} must be positive`);
+    return false;
+  };
+
+  // Movers and doors share one set of ids so actions can't be ambiguous
+  const moverIds = new Set<string>();
+  const doorIds = new Set<string>();
+  const addId = (id: string, path: string, ids: Set<string>): void => {
+    if (moverIds.has(id) || doorIds.has(id)) {
+      error(path, `Id "${id}" is already used by another mover or door`);
+    }
+    ids.add(id);
+  };
+
+  level.movers?.forEach((mover, index) => {
+    const path = `movers[${index}]`;
+    if (mover.id !== undefined) addId(mover.id, path, moverIds);
+    if (!checkSize(mover, path)) return;
+
+    if (mover.path.length === 0) {
+      warning(path, 'Empty path - it never moves; add stops or make it a platform');
+    }
+    [mover, ...mover.path].forEach((stop, stopIndex) => {
+      if (outside({ ...stop, width: mover.width, height: mover.height })) {
+        error(stopIndex === 0 ? path : `${path}.path[${stopIndex - 1}]`, `Stop (${stop.x}, ${stop.y}) puts it outside the level bounds`);
+      }
+    });
+    if (mover.speed !== undefined && mover.speed <= 0) {
+      error(path, `Speed ${mover.speed} must be positive`);
+    }
+    if (mover.wait !== undefined && mover.wait < 0) {
+      error(path, `Wait ${mover.wait} can't be negative`);
+    }
+    if (mover.activation !== undefined && !['auto', 'ride', 'trigger'].includes(mover.activation)) {
+      error(path, `Unknown activation "${mover.activation}" - one of auto, ride, trigger`);
+    }
+  });
+
+  level.doors?.forEach((door, index) => {
+    const path = `doors[${index}]`;
+    addId(door.id, path, doorIds);
+    if (!checkSize(door, path)) return;
+
+    const open = door.open ?? { x: door.x, y: door.y - door.height };
+    if (outside(door)) {
+      error(path, `Closed at (${door.x}, ${door.y}, ${door.width}x${door.height}), outside the level bounds`);
+    }
+    if (outside({ ...open, width: door.width, height: door.height })) {
+      error(`${path}.open`, `Open at (${open.x}, ${open.y}), outside the level bounds - set "open" to somewhere inside`);
+    }
+    if (door.speed !== undefined && door.speed <= 0) {
+      error(path, `Speed ${door.speed} must be positive`);
+    }
+  });
+
+  // Triggered movers only leave a stop on a start action
+  const started = new Set<string>();
+
+  const checkActions = (actions: LevelAction[], path: string): void => {
+    actions.forEach((action, index) => {
+      const actionPath = `${path}[${index}]`;
+      switch (action.type) {
+        case 'open':
+        case 'close':
+        case 'toggle':
+          if (!doorIds.has(action.target)) {
+            error(actionPath, `No door with id "${action.target}" to ${action.type}`);
+          }
+          break;
+        case 'start':
+        case 'stop':
+          if (!moverIds.has(action.target)) {
+            error(actionPath, `No mover with id "${action.target}" to ${action.type}`);
+          }
+          if (action.type === 'start') started.add(action.target);
+          break;
+        case 'spawnEnemies':
+          action.enemies.forEach((spawn, enemyIndex) => {
+            const enemyPath = `${actionPath}.enemies[${enemyIndex}]`;
+            const archetype = getEnemyArchetype(spawn.type);
+            if (!archetype) {
+              error(enemyPath, `Unknown enemy type "${spawn.type}" at (${spawn.x}, ${spawn.y}) - see data/enemies.ts for the types`);
+              return;
+            }
+            const size = new Vec2(archetype.size.width, archetype.size.height);
+            boxes.push({ path: enemyPath, rect: Rect.fromPositionAndSize(new Vec2(spawn.x, spawn.y), size), overlapChecked: false });
+          });
+          break;
+        case 'cameraPan':
+          if (typeof action.x !== 'number' || typeof action.y !== 'number') {
+            error(actionPath, 'Needs numeric x and y to pan to');
+          } else if (action.x < 0 || action.y < 0 || action.x > width || action.y > height) {
+            warning(actionPath, `Pans to (${action.x}, ${action.y}), outside the level bounds - the camera stops at the edge`);
+          }
+          if ((action.duration !== undefined && action.duration <= 0) || (action.hold !== undefined && action.hold < 0)) {
+            error(actionPath, 'Duration must be positive and hold can\'t be negative');
+          }
+          break;
+        default:
+          error(actionPath, `Unknown action type "${(action as { type: string }).type}" - one of open, close, toggle, start, stop, spawnEnemies, cameraPan`);
+      }
+    });
+  };
+
+  level.switches?.forEach((item, index) => {
+    const path = `switches[${index}]`;
+    if (item.kind !== 'plate' && item.kind !== 'lever') {
+      error(path, `Unknown kind "${item.kind}" - one of plate, lever`);
+      return;
+    }
+    const size = item.kind === 'plate' ? Switch.PLATE_SIZE : Switch.LEVER_SIZE;
+    if (outside({ x: item.x, y: item.y, width: size.x, height: size.y })) {
+      error(path, `At (${item.x}, ${item.y}), outside the level bounds`);
+    }
+    if (item.actions.length === 0 && !item.releaseActions?.length) {
+      warning(path, 'No actions - it does nothing');
+    }
+    checkActions(item.actions, `${path}.actions`);
+    checkActions(item.releaseActions ?? [], `${path}.releaseActions`);
+  });
+
+  level.triggers?.forEach((trigger, index) => {
+    const path = `triggers[${index}]`;
+    if (!checkSize(trigger, path)) return;
+    if (outside(trigger)) {
+      warning(path, `Zone (${trigger.x}, ${trigger.y}, ${trigger.width}x${trigger.height}) reaches outside the level bounds`);
+    }
+    if (trigger.by !== undefined && !['player', 'enemy', 'any'].includes(trigger.by)) {
+      error(path, `Unknown "by" ${JSON.stringify(trigger.by)} - one of player, enemy, any`);
+    }
+    if (trigger.actions.length === 0) {
+      warning(path, 'No actions - it does nothing');
+    }
+    checkActions(trigger.actions, `${path}.actions`);
+  });
+
+  level.movers?.forEach((mover, index) => {
+    if (mover.activation === 'trigger' && (mover.id === undefined || !started.has(mover.id))) {
+      warning(`movers[${index}]`, 'Triggered mover that no switch or trigger starts - it never moves');
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check each patrol route can be walked: spawn to the first point, then point to point
+ * and back round to the first, using the same navigation graph enemies path on
+ */
+function findUnreachablePatrolPoints(level: Level): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const navigation = new NavigationSystem();
+  navigation.build(level.platforms, Enemy.JUMP, new PhysicsSystem().getGravity());
+
+  level.enemySpawns.forEach((spawn, enemyIndex) => {
+    const archetype = getEnemyArchetype(spawn.type);
+    const points = spawn.patrolPoints ?? [];
+    if (!archetype || points.length === 0) return;
+
+    // Enemies fall (or get pushed up) onto the surface below the middle of their body
+    const start = navigation.findNodeBelow(spawn.x + archetype.size.width / 2, spawn.y + archetype.size.height / 2);
+    if (!start) {
+      issues.push({
+        severity: 'warning',
+        path: `enemySpawns[${enemyIndex}]`,
+        message: `No platform below (${spawn.x}, ${spawn.y}) to patrol from - it falls out of the level`,
+      });
+      return;
+    }
+
+    const surfaces = points.map(point => navigation.findNodeBelow(point.x, point.y));
+    surfaces.forEach((surface, index) => {
+      const path = `enemySpawns[${enemyIndex}].patrolPoints[${index}]`;
+      const point = points[index]!;
+      if (!surface) {
+        issues.push({ severity: 'warning', path, message: `No platform below (${point.x}, ${point.y}) - move it above a platform` });
+        return;
+      }
+
+      const from = index === 0 ? start : surfaces[index - 1];
+      if (!from) return; // Already reported
+      if (from !== surface && navigation.findPath(from, surface, archetype.moveSpeed).length === 0) {
+        const previous = index === 0 ? 'its spawn' : `patrolPoints[${index - 1}]`;
+        issues.push({
+          severity: 'warning',
+          path,
+          message: `A ${spawn.type} can't get to (${point.x}, ${point.y}) from ${previous} - lower it or add a platform to jump from`,
+        });
+      }
+    });
+
+    // The route loops back to the first point
+    const first = surfaces[0];
+    const last = surfaces[surfaces.length - 1];
+    if (points.length > 1 && first && last && first !== last && navigation.findPath(last, first, archetype.moveSpeed).length === 0) {
+      issues.push({
+        severity: 'warning',
+        path: `enemySpawns[${enemyIndex}].patrolPoints[0]`,
+        message: `A ${spawn.type} can't get back to it from patrolPoints[${points.length - 1}] - the route is one-way`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Format an issue as one line, e.g. for a list of problems
+ */
+export function formatLevelIssue(issue: LevelIssue): string {
+  return `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.path}: ${issue.message}`;
+}
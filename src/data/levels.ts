@@ -1,284 +1,101 @@
 import { Level } from '../types';
+import { readLevelData } from './levelFile';
+import { formatLevelIssue, validateLevel } from './levelValidation';
+import { importTiledMap } from './tiled';
 
 /**
- * Level 1: Tutorial/Easy level with basic platforms and few enemies
+ * Called when a level file changes during development, with the level's index
  */
-export const LEVEL_1: Level = {
-  name: 'Warehouse District',
-  bounds: { width: 1600, height: 900 },
-  playerSpawn: { x: 100, y: 700 },
-  platforms: [
-    // Ground
-    { x: 0, y: 800, width: 1600, height: 100, oneWay: false },
-    
-    // Lower platforms
-    { x: 300, y: 650, width: 200, height: 20, oneWay: true },
-    { x: 700, y: 650, width: 200, height: 20, oneWay: true },
-    { x: 1100, y: 650, width: 200, height: 20, oneWay: true },
-    
-    // Mid platforms
-    { x: 150, y: 500, width: 150, height: 20, oneWay: true },
-    { x: 500, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 900, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 1300, y: 500, width: 150, height: 20, oneWay: true },
-    
-    // High platforms
-    { x: 400, y: 350, width: 150, height: 20, oneWay: true },
-    { x: 800, y: 300, width: 200, height: 20, oneWay: true },
-    { x: 1200, y: 350, width: 150, height: 20, oneWay: true },
-    
-    // Walls
-    { x: 0, y: 0, width: 20, height: 800, oneWay: false },
-    { x: 1580, y: 0, width: 20, height: 800, oneWay: false },
-  ],
-  enemySpawns: [
-    {
-      x: 800,
-      y: 750,
-      type: 'basic',
-      patrolPoints: [
-        { x: 600, y: 750 },
-        { x: 1000, y: 750 },
-      ],
-    },
-    {
-      x: 500,
-      y: 450,
-      type: 'basic',
-      patrolPoints: [
-        { x: 500, y: 450 },
-        { x: 700, y: 450 },
-      ],
-    },
-    {
-      x: 1300,
-      y: 450,
-      type: 'basic',
-      patrolPoints: [
-        { x: 1100, y: 450 },
-        { x: 1400, y: 450 },
-      ],
-    },
-  ],
-};
+export type LevelFileListener = (index: number, level: Level) => void;
 
-/**
- * Level 2: Medium difficulty with more complex layout
- */
-export const LEVEL_2: Level = {
-  name: 'Industrial Complex',
-  bounds: { width: 2000, height: 900 },
-  playerSpawn: { x: 100, y: 700 },
-  platforms: [
-    // Ground with gaps
-    { x: 0, y: 800, width: 600, height: 100, oneWay: false },
-    { x: 800, y: 800, width: 400, height: 100, oneWay: false },
-    { x: 1400, y: 800, width: 600, height: 100, oneWay: false },
-    
-    // Lower platforms
-    { x: 200, y: 650, width: 150, height: 20, oneWay: true },
-    { x: 450, y: 650, width: 150, height: 20, oneWay: true },
-    { x: 900, y: 650, width: 200, height: 20, oneWay: true },
-    { x: 1250, y: 650, width: 150, height: 20, oneWay: true },
-    { x: 1600, y: 650, width: 150, height: 20, oneWay: true },
-    
-    // Mid platforms
-    { x: 100, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 400, y: 450, width: 150, height: 20, oneWay: true },
-    { x: 700, y: 500, width: 250, height: 20, oneWay: true },
-    { x: 1100, y: 450, width: 150, height: 20, oneWay: true },
-    { x: 1400, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 1750, y: 500, width: 150, height: 20, oneWay: true },
-    
-    // High platforms
-    { x: 250, y: 350, width: 150, height: 20, oneWay: true },
-    { x: 600, y: 300, width: 200, height: 20, oneWay: true },
-    { x: 1000, y: 300, width: 200, height: 20, oneWay: true },
-    { x: 1400, y: 350, width: 150, height: 20, oneWay: true },
-    { x: 1700, y: 300, width: 150, height: 20, oneWay: true },
-    
-    // Walls
-    { x: 0, y: 0, width: 20, height: 800, oneWay: false },
-    { x: 1980, y: 0, width: 20, height: 800, oneWay: false },
-  ],
-  enemySpawns: [
-    {
-      x: 400,
-      y: 750,
-      type: 'basic',
-      patrolPoints: [
-        { x: 200, y: 750 },
-        { x: 500, y: 750 },
-      ],
-    },
-    {
-      x: 1000,
-      y: 750,
-      type: 'basic',
-      patrolPoints: [
-        { x: 900, y: 750 },
-        { x: 1100, y: 750 },
-      ],
-    },
-    {
-      x: 1700,
-      y: 750,
-      type: 'basic',
-      patrolPoints: [
-        { x: 1500, y: 750 },
-        { x: 1900, y: 750 },
-      ],
-    },
-    {
-      x: 700,
-      y: 450,
-      type: 'basic',
-      patrolPoints: [
-        { x: 700, y: 450 },
-        { x: 950, y: 450 },
-      ],
-    },
-    {
-      x: 1500,
-      y: 450,
-      type: 'basic',
-      patrolPoints: [
-        { x: 1400, y: 450 },
-        { x: 1600, y: 450 },
-      ],
-    },
-  ],
+// Shared across hot updates of this module so existing importers see new levels
+interface LevelFileState {
+  levels: Level[];
+  sources: string[]; // Last loaded file contents, to tell which files changed
+  listeners: Set<LevelFileListener>;
+}
+
+// Built-in levels, played in file name order (data/levels/01-*.json, 02-*.json, ...):
+// level files, and Tiled maps with the tileset images next to them
+const levelFiles: Record<string, unknown> = {
+  ...import.meta.glob<unknown>('./levels/*.json', { eager: true, import: 'default' }),
+  ...import.meta.glob<string>('./levels/*.tmj', { eager: true, query: '?raw', import: 'default' }),
 };
+const imageUrls = import.meta.glob<string>('./levels/**/*.{png,jpg,jpeg,gif,webp}', { eager: true, query: '?url', import: 'default' });
 
 /**
- * Level 3: Hard difficulty with vertical layout and many enemies
+ * Read a level file, or import a Tiled map with its images resolved to bundled URLs
  */
-export const LEVEL_3: Level = {
-  name: 'Tower Assault',
-  bounds: { width: 1400, height: 1200 },
-  playerSpawn: { x: 100, y: 1050 },
-  platforms: [
-    // Ground
-    { x: 0, y: 1100, width: 1400, height: 100, oneWay: false },
-    
-    // Floor 1
-    { x: 100, y: 950, width: 300, height: 20, oneWay: true },
-    { x: 600, y: 950, width: 300, height: 20, oneWay: true },
-    { x: 1000, y: 950, width: 300, height: 20, oneWay: true },
-    
-    // Floor 2
-    { x: 200, y: 800, width: 250, height: 20, oneWay: true },
-    { x: 650, y: 800, width: 300, height: 20, oneWay: true },
-    { x: 1100, y: 800, width: 200, height: 20, oneWay: true },
-    
-    // Floor 3
-    { x: 100, y: 650, width: 300, height: 20, oneWay: true },
-    { x: 550, y: 650, width: 300, height: 20, oneWay: true },
-    { x: 1000, y: 650, width: 300, height: 20, oneWay: true },
-    
-    // Floor 4
-    { x: 250, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 600, y: 500, width: 200, height: 20, oneWay: true },
-    { x: 950, y: 500, width: 200, height: 20, oneWay: true },
-    
-    // Floor 5
-    { x: 150, y: 350, width: 250, height: 20, oneWay: true },
-    { x: 550, y: 350, width: 300, height: 20, oneWay: true },
-    { x: 1000, y: 350, width: 250, height: 20, oneWay: true },
-    
-    // Top floor
-    { x: 400, y: 200, width: 600, height: 20, oneWay: true },
-    
-    // Walls
-    { x: 0, y: 0, width: 20, height: 1100, oneWay: false },
-    { x: 1380, y: 0, width: 20, height: 1100, oneWay: false },
-  ],
-  enemySpawns: [
-    // Ground floor
-    {
-      x: 700,
-      y: 1050,
-      type: 'basic',
-      patrolPoints: [
-        { x: 500, y: 1050 },
-        { x: 900, y: 1050 },
-      ],
-    },
-    // Floor 1
-    {
-      x: 250,
-      y: 900,
-      type: 'basic',
-      patrolPoints: [
-        { x: 150, y: 900 },
-        { x: 350, y: 900 },
-      ],
-    },
-    {
-      x: 1150,
-      y: 900,
-      type: 'basic',
-      patrolPoints: [
-        { x: 1050, y: 900 },
-        { x: 1250, y: 900 },
-      ],
-    },
-    // Floor 2
-    {
-      x: 800,
-      y: 750,
-      type: 'basic',
-      patrolPoints: [
-        { x: 700, y: 750 },
-        { x: 900, y: 750 },
-      ],
-    },
-    // Floor 3
-    {
-      x: 250,
-      y: 600,
-      type: 'basic',
-      patrolPoints: [
-        { x: 150, y: 600 },
-        { x: 350, y: 600 },
-      ],
-    },
-    {
-      x: 1150,
-      y: 600,
-      type: 'basic',
-      patrolPoints: [
-        { x: 1050, y: 600 },
-        { x: 1250, y: 600 },
-      ],
-    },
-    // Floor 4
-    {
-      x: 700,
-      y: 450,
-      type: 'basic',
-      patrolPoints: [
-        { x: 650, y: 450 },
-        { x: 750, y: 450 },
-      ],
-    },
-    // Floor 5
-    {
-      x: 700,
-      y: 300,
-      type: 'basic',
-      patrolPoints: [
-        { x: 600, y: 300 },
-        { x: 800, y: 300 },
-      ],
-    },
-  ],
-};
+function readLevelSource(path: string, data: unknown): Level {
+  if (typeof data !== 'string') {
+    return readLevelData(data);
+  }
+
+  const folder = path.slice(0, path.lastIndexOf('/') + 1);
+  return importTiledMap(data, {
+    name: path.slice(folder.length, -'.tmj'.length),
+    resolveImage: (image) => imageUrls[resolvePath(folder + image)] ?? image,
+  });
+}
 
 /**
- * Array of all levels
+ * Collapse "." and ".." in a relative path
  */
-export const ALL_LEVELS: Level[] = [LEVEL_1, LEVEL_2, LEVEL_3];
+function resolvePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..' && parts.length > 1) parts.pop();
+    else if (part !== '.' || parts.length === 0) parts.push(part);
+  }
+  return parts.join('/');
+}
+
+const state: LevelFileState = import.meta.hot?.data.levelFiles ?? { levels: [], sources: [], listeners: new Set() };
+const isHotUpdate = state.sources.length > 0;
+
+Object.keys(levelFiles).sort().forEach((path, index) => {
+  const data = levelFiles[path];
+  const source = typeof data === 'string' ? data : JSON.stringify(data);
+  if (source === state.sources[index]) return;
+
+  if (!isHotUpdate) {
+    try {
+      state.levels[index] = readLevelSource(path, data);
+    } catch (e) {
+      throw new Error(`[Levels] ${path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    state.sources[index] = source;
+    return;
+  }
+
+  // Edited while the game runs - keep playing the old version until the file is fixed
+  let level: Level;
+  try {
+    level = readLevelSource(path, data);
+  } catch (e) {
+    console.error(`[Levels] ${path} not reloaded: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  const issues = validateLevel(level);
+  if (issues.some(issue => issue.severity === 'error')) {
+    console.error(`[Levels] ${path} not reloaded:\n  ${issues.map(formatLevelIssue).join('\n  ')}`);
+    return;
+  }
+  if (issues.length > 0) {
+    console.warn(`[Levels] ${path}:\n  ${issues.map(formatLevelIssue).join('\n  ')}`);
+  }
+
+  state.levels[index] = level;
+  state.sources[index] = source;
+  state.listeners.forEach(listener => listener(index, level));
+});
+
+if (import.meta.hot) {
+  import.meta.hot.data.levelFiles = state;
+  import.meta.hot.accept();
+}
+
+export const ALL_LEVELS: Level[] = state.levels;
 
 /**
  * Get a level by index
@@ -293,3 +110,12 @@ export function getLevel(index: number): Level | undefined {
 export function getLevelCount(): number {
   return ALL_LEVELS.length;
 }
+
+/**
+ * Subscribe to level file edits (only happens under the dev server)
+ * @returns Unsubscribe function
+ */
+export function onLevelFileChanged(listener: LevelFileListener): () => void {
+  state.listeners.add(listener);
+  return () => state.listeners.delete(listener);
+}
@@ -0,0 +1,626 @@
+import type { Level, LevelPropertyValue, PickupType, PlatformData, TileLayerData, TilesetData } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { getEnemyArchetype } from './enemies';
+import { Player } from '../entities/Player';
+import { Pickup } from '../entities/Pickup';
+import { ExplosiveBarrel } from '../entities/ExplosiveBarrel';
+
+/**
+ * Tiled map import. Converts an orthogonal, fixed-size Tiled map (.tmj JSON or .tmx XML)
+ * into a Level:
+ * - Tile layers become collision, merged into as few rectangles as possible. Layer
+ *   properties: `collision` (bool, default true) and `oneWay` (bool, default false)
+ * - Untyped rectangle objects become platforms; `oneWay` on the object or its layer
+ * - Objects with class (or type) player, enemy, pickup, barrel or deathmatch become spawns.
+ *   Points mark where the spawn stands (bottom centre), rectangles its top-left corner.
+ *   Enemies take a `type` property (enemy archetype) and an optional `patrol` object
+ *   property pointing at a polyline; pickups take `type`, `amount`, `weapon` and `respawnTime`
+ * - The map's `name` property names the level; other map properties go to Level.properties
+ * - Tile layers are kept for drawing, with tileset images resolved through resolveImage
+ */
+
+// The parts of the Tiled JSON map format read here (TMX is converted to the same shape)
+interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+interface TiledPoint {
+  x: number;
+  y: number;
+}
+
+interface TiledObject {
+  id: number;
+  name?: string;
+  type?: string; // Class before Tiled 1.9
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  gid?: number; // Tile object (positioned by its bottom-left corner)
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: TiledPoint[];
+  polyline?: TiledPoint[];
+  text?: unknown;
+  properties?: TiledProperty[];
+}
+
+interface TiledLayer {
+  type: string; // tilelayer, objectgroup, imagelayer or group
+  name?: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  encoding?: string;
+  compression?: string;
+  offsetx?: number;
+  offsety?: number;
+  opacity?: number;
+  visible?: boolean;
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  properties?: TiledProperty[];
+}
+
+interface TiledTileset {
+  firstgid: number;
+  source?: string; // External tileset
+  name?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  columns?: number;
+  tilecount?: number;
+  margin?: number;
+  spacing?: number;
+}
+
+interface TiledMap {
+  orientation: string;
+  infinite?: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  layers: TiledLayer[];
+  tilesets?: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledImportOptions {
+  name?: string; // Level name when the map has no `name` property (e.g. the file name)
+  resolveImage?: (path: string) => string; // Tileset image path (relative to the map) to URL
+}
+
+// Tiled stores flips in the top bits of each tile ID
+const GID_MASK = 0x0fffffff;
+
+const SPAWN_CLASSES = ['player', 'enemy', 'pickup', 'barrel', 'deathmatch'];
+const PICKUP_TYPES = ['health', 'ammo', 'weapon', 'armor', 'item'];
+
+// An object with its position in map space (layer offsets applied)
+interface PlacedObject {
+  object: TiledObject;
+  x: number;
+  y: number;
+  layerOneWay: boolean;
+}
+
+/**
+ * Check whether text is a Tiled map rather than a level file
+ */
+export function isTiledMap(text: string): boolean {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) return true;
+  try {
+    const data = JSON.parse(trimmed) as Partial<TiledMap> | null;
+    return !!data && typeof data.orientation === 'string' && Array.isArray(data.layers);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import a Tiled map from .tmj or .tmx text
+ * @throws If the map can't be read or uses features the importer doesn't support
+ */
+export function importTiledMap(text: string, options: TiledImportOptions = {}): Level {
+  if (text.trimStart().startsWith('<')) {
+    return readTiledMap(parseTmx(text), options);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`[Tiled] Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return readTiledMap(data, options);
+}
+
+/**
+ * Import an already parsed .tmj map
+ * @throws If the data isn't a supported Tiled map
+ */
+export function readTiledMap(data: unknown, options: TiledImportOptions = {}): Level {
+  const map = data as Partial<TiledMap> | null;
+  if (!map || typeof map !== 'object' || typeof map.orientation !== 'string' || !Array.isArray(map.layers)) {
+    throw new Error('[Tiled] File is not a Tiled map');
+  }
+  if (map.orientation !== 'orthogonal') {
+    throw new Error(`[Tiled] Only orthogonal maps are supported, not ${map.orientation}`);
+  }
+  if (map.infinite) {
+    throw new Error('[Tiled] Infinite maps are not supported - untick Infinite in the map properties');
+  }
+  if (typeof map.width !== 'number' || typeof map.height !== 'number' ||
+      typeof map.tilewidth !== 'number' || typeof map.tileheight !== 'number') {
+    throw new Error('[Tiled] Map is missing its size or tile size');
+  }
+
+  const tileWidth = map.tilewidth;
+  const tileHeight = map.tileheight;
+  const resolveImage = options.resolveImage ?? ((path: string) => path);
+  const tilesets = (map.tilesets ?? []).map(tileset => readTileset(tileset, resolveImage));
+
+  const platforms: PlatformData[] = [];
+  const tileLayers: TileLayerData[] = [];
+  const objects: PlacedObject[] = [];
+
+  // Flatten groups, adding up their offsets
+  const visit = (layers: TiledLayer[], offsetX: number, offsetY: number, visible: boolean, opacity: number) => {
+    for (const layer of layers) {
+      const x = offsetX + (layer.offsetx ?? 0);
+      const y = offsetY + (layer.offsety ?? 0);
+      const layerVisible = visible && layer.visible !== false;
+      const layerOpacity = opacity * (layer.opacity ?? 1);
+      const properties = readProperties(layer.properties);
+      const oneWay = properties.oneWay === true;
+
+      if (layer.type === 'group') {
+        visit(layer.layers ?? [], x, y, layerVisible, layerOpacity);
+      } else if (layer.type === 'tilelayer') {
+        const name = layer.name ?? 'tiles';
+        const width = layer.width ?? map.width!;
+        const height = layer.height ?? map.height!;
+        const gids = readTileData(layer, name, width * height);
+
+        if (properties.collision !== false) {
+          const filled = gids.map(gid => (gid & GID_MASK) !== 0);
+          for (const rect of mergeTiles(filled, width, height, oneWay)) {
+            platforms.push({
+              x: x + rect.x * tileWidth,
+              y: y + rect.y * tileHeight,
+              width: rect.width * tileWidth,
+              height: rect.height * tileHeight,
+              oneWay,
+            });
+          }
+        }
+
+        if (layerVisible && tilesets.length > 0 && gids.some(gid => (gid & GID_MASK) !== 0)) {
+          tileLayers.push({ name, width, height, offsetX: x, offsetY: y, opacity: layerOpacity, gids });
+        }
+      } else if (layer.type === 'objectgroup') {
+        for (const object of layer.objects ?? []) {
+          objects.push({ object, x: x + object.x, y: y + object.y, layerOneWay: oneWay });
+        }
+      }
+      // Image layers are decoration only
+    }
+  };
+  visit(map.layers, 0, 0, true, 1);
+
+  const properties = readProperties(map.properties);
+  const { name: mapName, ...customProperties } = properties;
+
+  const level: Level = {
+    name: typeof mapName === 'string' ? mapName : options.name ?? 'Tiled Map',
+    bounds: { width: map.width * tileWidth, height: map.height * tileHeight },
+    playerSpawn: { x: 0, y: 0 },
+    platforms,
+    enemySpawns: [],
+  };
+  if (Object.keys(customProperties).length > 0) {
+    level.properties = customProperties;
+  }
+  if (tileLayers.length > 0) {
+    level.tiles = { tileWidth, tileHeight, tilesets, layers: tileLayers };
+  }
+
+  readObjects(level, objects);
+  return level;
+}
+
+/**
+ * Turn objects into platforms and spawns
+ */
+function readObjects(level: Level, objects: PlacedObject[]): void {
+  const byId = new Map(objects.map(placed => [placed.object.id, placed]));
+  let playerSpawns = 0;
+
+  for (const placed of objects) {
+    const { object } = placed;
+    const objectClass = (object.class || object.type || '').toLowerCase();
+    const properties = readProperties(object.properties);
+    const label = `Object ${object.id}${object.name ? ` "${object.name}"` : ''}`;
+    const isRectangle = !object.point && !object.ellipse && !object.polygon && !object.polyline &&
+      object.text === undefined && object.gid === undefined;
+
+    if (objectClass === 'platform' || (!objectClass && isRectangle)) {
+      if (!isRectangle) {
+        throw new Error(`[Tiled] ${label} is a platform but not a rectangle`);
+      }
+      if (object.rotation) {
+        throw new Error(`[Tiled] ${label} is a rotated platform - only unrotated rectangles are supported`);
+      }
+      level.platforms.push({
+        x: placed.x,
+        y: placed.y,
+        width: object.width ?? 0,
+        height: object.height ?? 0,
+        oneWay: typeof properties.oneWay === 'boolean' ? properties.oneWay : placed.layerOneWay,
+      });
+      continue;
+    }
+
+    if (objectClass === 'spawnzone') {
+      if (!isRectangle || object.rotation) {
+        throw new Error(`[Tiled] ${label} is a spawn zone but not an unrotated rectangle`);
+      }
+      level.spawnZones = level.spawnZones ?? [];
+      level.spawnZones.push({ x: placed.x, y: placed.y, width: object.width ?? 0, height: object.height ?? 0 });
+      continue;
+    }
+
+    if (!SPAWN_CLASSES.includes(objectClass)) continue; // Decoration, patrol routes, or classes for other tools
+
+    switch (objectClass) {
+      case 'player':
+        level.playerSpawn = spawnPosition(placed, Player.SIZE);
+        playerSpawns++;
+        break;
+
+      case 'enemy': {
+        const type = properties.type;
+        if (typeof type !== 'string') {
+          throw new Error(`[Tiled] ${label} is an enemy without a "type" property (an enemy type from data/enemies.ts)`);
+        }
+        // Unknown types are left for the level validator to report
+        const archetype = getEnemyArchetype(type);
+        const size = archetype ? new Vec2(archetype.size.width, archetype.size.height) : Player.SIZE;
+        level.enemySpawns.push({
+          ...spawnPosition(placed, size),
+          type,
+          ...(properties.patrol !== undefined && { patrolPoints: readPatrol(properties.patrol, byId, label) }),
+        });
+        break;
+      }
+
+      case 'pickup': {
+        const type = properties.type;
+        if (typeof type !== 'string' || !PICKUP_TYPES.includes(type)) {
+          throw new Error(`[Tiled] ${label} is a pickup without a valid "type" property (${PICKUP_TYPES.join(', ')})`);
+        }
+        level.pickups = level.pickups ?? [];
+        level.pickups.push({
+          ...spawnPosition(placed, Pickup.SIZE),
+          type: type as PickupType,
+          ...(typeof properties.amount === 'number' && { amount: properties.amount }),
+          ...(typeof properties.weapon === 'string' && { weapon: properties.weapon }),
+          ...(typeof properties.respawnTime === 'number' && { respawnTime: properties.respawnTime }),
+        });
+        break;
+      }
+
+      case 'barrel':
+        level.barrels = level.barrels ?? [];
+        level.barrels.push(spawnPosition(placed, ExplosiveBarrel.SIZE));
+        break;
+
+      case 'deathmatch':
+        level.deathmatchSpawns = level.deathmatchSpawns ?? [];
+        level.deathmatchSpawns.push(spawnPosition(placed, Player.SIZE));
+        break;
+    }
+  }
+
+  if (playerSpawns !== 1) {
+    throw new Error(`[Tiled] Map needs exactly one object of class "player" for the player spawn, found ${playerSpawns}`);
+  }
+}
+
+/**
+ * Top-left spawn position for something of the given size placed by an object
+ */
+function spawnPosition(placed: PlacedObject, size: Vec2): { x: number; y: number } {
+  const { object } = placed;
+  const width = object.width ?? 0;
+  const height = object.height ?? 0;
+
+  // Points (and zero-size rectangles) mark where it stands
+  if (object.point || (width === 0 && height === 0)) {
+    return { x: Math.round(placed.x - size.x / 2), y: Math.round(placed.y - size.y) };
+  }
+  // Tile objects hang up from their bottom-left corner
+  if (object.gid !== undefined) {
+    return { x: placed.x, y: placed.y - height };
+  }
+  return { x: placed.x, y: placed.y };
+}
+
+/**
+ * Read an enemy's patrol route from the polyline (or polygon) its `patrol` property points at
+ */
+function readPatrol(reference: LevelPropertyValue, byId: Map<number, PlacedObject>, label: string): { x: number; y: number }[] {
+  const route = typeof reference === 'number' ? byId.get(reference) : undefined;
+  const points = route?.object.polyline ?? route?.object.polygon;
+  if (!route || !points) {
+    throw new Error(`[Tiled] ${label} has a "patrol" property that doesn't point at a polyline object`);
+  }
+  return points.map(point => ({ x: route.x + point.x, y: route.y + point.y }));
+}
+
+/**
+ * Check a tileset can be drawn and convert it
+ */
+function readTileset(tileset: TiledTileset, resolveImage: (path: string) => string): TilesetData {
+  if (tileset.source) {
+    throw new Error(`[Tiled] Tileset "${tileset.source}" is external - embed it in the map (Embed Tileset in the Tilesets view)`);
+  }
+  if (!tileset.image || !tileset.tilewidth || !tileset.tileheight || !tileset.columns) {
+    throw new Error(`[Tiled] Tileset "${tileset.name ?? tileset.firstgid}" is not a single image - image collection tilesets are not supported`);
+  }
+  return {
+    firstGid: tileset.firstgid,
+    image: resolveImage(tileset.image),
+    imageWidth: tileset.imagewidth ?? 0,
+    imageHeight: tileset.imageheight ?? 0,
+    tileWidth: tileset.tilewidth,
+    tileHeight: tileset.tileheight,
+    columns: tileset.columns,
+    tileCount: tileset.tilecount ?? 0,
+    margin: tileset.margin ?? 0,
+    spacing: tileset.spacing ?? 0,
+  };
+}
+
+/**
+ * Read a tile layer's tile IDs, from an array or uncompressed base64
+ */
+function readTileData(layer: TiledLayer, name: string, count: number): number[] {
+  let gids: number[];
+  if (Array.isArray(layer.data)) {
+    gids = layer.data;
+  } else if (typeof layer.data === 'string' && layer.encoding === 'base64') {
+    if (layer.compression) {
+      throw new Error(`[Tiled] Layer "${name}" is ${layer.compression} compressed - save tile layers as CSV or uncompressed base64`);
+    }
+    const bytes = atob(layer.data.trim());
+    gids = [];
+    for (let i = 0; i + 3 < bytes.length; i += 4) {
+      gids.push((bytes.charCodeAt(i) | (bytes.charCodeAt(i + 1) << 8) | (bytes.charCodeAt(i + 2) << 16) | (bytes.charCodeAt(i + 3) << 24)) >>> 0);
+    }
+  } else {
+    throw new Error(`[Tiled] Layer "${name}" has no tile data`);
+  }
+
+  if (gids.length !== count) {
+    throw new Error(`[Tiled] Layer "${name}" has ${gids.length} tiles but its size needs ${count}`);
+  }
+  return gids;
+}
+
+/**
+ * Read custom properties into a plain object. Object references keep their ID and
+ * class properties are stored as JSON.
+ */
+function readProperties(properties: TiledProperty[] | undefined): Record<string, LevelPropertyValue> {
+  const result: Record<string, LevelPropertyValue> = {};
+  for (const property of properties ?? []) {
+    const { value } = property;
+    result[property.name] = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+      ? value
+      : JSON.stringify(value);
+  }
+  return result;
+}
+
+/**
+ * Merge filled cells of a grid into rectangles (in cells). Greedy: each rectangle takes
+ * the longest run along its row, then grows down while the rows below match. One-way
+ * tiles only merge along rows so every row keeps its own walkable top.
+ */
+function mergeTiles(filled: boolean[], width: number, height: number, rowsOnly: boolean): { x: number; y: number; width: number; height: number }[] {
+  const used = new Array<boolean>(filled.length).fill(false);
+  const free = (x: number, y: number) => filled[y * width + x] === true && !used[y * width + x];
+  const rects: { x: number; y: number; width: number; height: number }[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!free(x, y)) continue;
+
+      let runWidth = 1;
+      while (x + runWidth < width && free(x + runWidth, y)) runWidth++;
+
+      let runHeight = 1;
+      if (!rowsOnly) {
+        const rowFree = (row: number) => {
+          for (let i = 0; i < runWidth; i++) {
+            if (!free(x + i, row)) return false;
+          }
+          return true;
+        };
+        while (y + runHeight < height && rowFree(y + runHeight)) runHeight++;
+      }
+
+      for (let row = y; row < y + runHeight; row++) {
+        for (let i = 0; i < runWidth; i++) {
+          used[row * width + x + i] = true;
+        }
+      }
+      rects.push({ x, y, width: runWidth, height: runHeight });
+    }
+  }
+
+  return rects;
+}
+
+/**
+ * Convert TMX (XML) to the JSON map shape. Needs the browser's DOMParser.
+ */
+function parseTmx(text: string): TiledMap {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('[Tiled] Reading .tmx needs a browser - export the map as .tmj (JSON) instead');
+  }
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('[Tiled] Not valid XML');
+  }
+  const root = doc.documentElement;
+  if (root.tagName !== 'map') {
+    throw new Error('[Tiled] File is not a Tiled map');
+  }
+
+  return {
+    orientation: root.getAttribute('orientation') ?? '',
+    infinite: root.getAttribute('infinite') === '1',
+    width: numberAttribute(root, 'width'),
+    height: numberAttribute(root, 'height'),
+    tilewidth: numberAttribute(root, 'tilewidth'),
+    tileheight: numberAttribute(root, 'tileheight'),
+    tilesets: childElements(root, 'tileset').map(readTmxTileset),
+    layers: readTmxLayers(root),
+    properties: readTmxProperties(root),
+  };
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.tagName === tagName);
+}
+
+function numberAttribute(element: Element, name: string, fallback: number = 0): number {
+  const value = element.getAttribute(name);
+  return value === null ? fallback : Number(value);
+}
+
+function readTmxTileset(element: Element): TiledTileset {
+  const image = childElements(element, 'image')[0];
+  return {
+    firstgid: numberAttribute(element, 'firstgid', 1),
+    source: element.getAttribute('source') ?? undefined,
+    name: element.getAttribute('name') ?? undefined,
+    image: image?.getAttribute('source') ?? undefined,
+    imagewidth: image ? numberAttribute(image, 'width') : undefined,
+    imageheight: image ? numberAttribute(image, 'height') : undefined,
+    tilewidth: numberAttribute(element, 'tilewidth'),
+    tileheight: numberAttribute(element, 'tileheight'),
+    columns: numberAttribute(element, 'columns'),
+    tilecount: numberAttribute(element, 'tilecount'),
+    margin: numberAttribute(element, 'margin'),
+    spacing: numberAttribute(element, 'spacing'),
+  };
+}
+
+function readTmxLayers(parent: Element): TiledLayer[] {
+  const layers: TiledLayer[] = [];
+  for (const element of Array.from(parent.children)) {
+    const common = {
+      name: element.getAttribute('name') ?? undefined,
+      offsetx: numberAttribute(element, 'offsetx'),
+      offsety: numberAttribute(element, 'offsety'),
+      opacity: numberAttribute(element, 'opacity', 1),
+      visible: element.getAttribute('visible') !== '0',
+      properties: readTmxProperties(element),
+    };
+
+    if (element.tagName === 'layer') {
+      const data = childElements(element, 'data')[0];
+      const encoding = data?.getAttribute('encoding') ?? undefined;
+      if (data && childElements(data, 'chunk').length > 0) {
+        throw new Error('[Tiled] Infinite maps are not supported - untick Infinite in the map properties');
+      }
+      let tiles: number[] | string | undefined;
+      if (encoding === 'csv') {
+        tiles = (data?.textContent ?? '').split(',').map(value => Number(value.trim()));
+      } else if (encoding === 'base64') {
+        tiles = data?.textContent ?? '';
+      } else if (data) {
+        tiles = childElements(data, 'tile').map(tile => numberAttribute(tile, 'gid'));
+      }
+      layers.push({
+        ...common,
+        type: 'tilelayer',
+        width: numberAttribute(element, 'width'),
+        height: numberAttribute(element, 'height'),
+        data: tiles,
+        encoding,
+        compression: data?.getAttribute('compression') ?? undefined,
+      });
+    } else if (element.tagName === 'objectgroup') {
+      layers.push({ ...common, type: 'objectgroup', objects: childElements(element, 'object').map(readTmxObject) });
+    } else if (element.tagName === 'group') {
+      layers.push({ ...common, type: 'group', layers: readTmxLayers(element) });
+    } else if (element.tagName === 'imagelayer') {
+      layers.push({ ...common, type: 'imagelayer' });
+    }
+  }
+  return layers;
+}
+
+function readTmxObject(element: Element): TiledObject {
+  const points = (shape: string | undefined): TiledPoint[] | undefined => {
+    const value = shape && childElements(element, shape)[0]?.getAttribute('points');
+    if (!value) return undefined;
+    return value.trim().split(/\s+/).map(pair => {
+      const [x, y] = pair.split(',').map(Number);
+      return { x: x ?? 0, y: y ?? 0 };
+    });
+  };
+  const gid = element.getAttribute('gid');
+
+  return {
+    id: numberAttribute(element, 'id'),
+    name: element.getAttribute('name') ?? undefined,
+    type: element.getAttribute('type') ?? undefined,
+    class: element.getAttribute('class') ?? undefined,
+    x: numberAttribute(element, 'x'),
+    y: numberAttribute(element, 'y'),
+    width: numberAttribute(element, 'width'),
+    height: numberAttribute(element, 'height'),
+    rotation: numberAttribute(element, 'rotation'),
+    gid: gid === null ? undefined : Number(gid),
+    point: childElements(element, 'point').length > 0,
+    ellipse: childElements(element, 'ellipse').length > 0,
+    polygon: points('polygon'),
+    polyline: points('polyline'),
+    text: childElements(element, 'text')[0]?.textContent ?? undefined,
+    properties: readTmxProperties(element),
+  };
+}
+
+function readTmxProperties(element: Element): TiledProperty[] {
+  const container = childElements(element, 'properties')[0];
+  if (!container) return [];
+
+  return childElements(container, 'property').map(property => {
+    const type = property.getAttribute('type') ?? 'string';
+    const raw = property.getAttribute('value') ?? property.textContent ?? '';
+    let value: unknown = raw;
+    if (type === 'int' || type === 'float' || type === 'object') {
+      value = Number(raw);
+    } else if (type === 'bool') {
+      value = raw === 'true';
+    } else if (type === 'class') {
+      value = Object.fromEntries(readTmxProperties(property).map(member => [member.name, member.value]));
+    }
+    return { name: property.getAttribute('name') ?? '', type, value };
+  });
+}
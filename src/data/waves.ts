@@ -0,0 +1,64 @@
+import { PickupSpawnData } from '../types';
+
+/**
+ * Wave survival data: which enemies waves are made of and what is dropped between them
+ */
+
+/**
+ * An enemy type's share of each wave once it has started appearing
+ */
+export interface WaveEnemyEntry {
+  type: string; // Key into ENEMY_ARCHETYPES
+  firstWave: number; // First wave it can appear in
+  weight: number; // Relative chance of each spawn being this type
+}
+
+export const WAVE_ENEMIES: WaveEnemyEntry[] = [
+  { type: 'grunt', firstWave: 1, weight: 5 },
+  { type: 'rusher', firstWave: 2, weight: 3 },
+  { type: 'shotgunner', firstWave: 3, weight: 3 },
+  { type: 'sniper', firstWave: 4, weight: 2 },
+  { type: 'heavy', firstWave: 6, weight: 1 },
+];
+
+// Every BOSS_WAVE_INTERVAL waves, one heavy per interval passed leads the wave
+export const BOSS_WAVE_INTERVAL = 5;
+export const BOSS_TYPE = 'heavy';
+
+/**
+ * A pickup dropped at the start of an intermission, on every `every`-th wave cleared
+ */
+export interface SupplyDropEntry {
+  every: number;
+  pickup: Omit<PickupSpawnData, 'x' | 'y'>;
+}
+
+export const SUPPLY_DROPS: SupplyDropEntry[] = [
+  { every: 1, pickup: { type: 'health' } },
+  { every: 1, pickup: { type: 'ammo' } },
+  { every: 2, pickup: { type: 'armor' } },
+];
+
+// Weapons dropped every WEAPON_DROP_INTERVAL waves, in order, then repeating
+export const WEAPON_DROP_INTERVAL = 3;
+export const WEAPON_DROPS: string[] = [
+  'Shotgun',
+  'Burst Rifle',
+  'Grenade Launcher',
+  'Rifle',
+  'Rocket Launcher',
+  'Railgun',
+  'Beam',
+];
+
+/**
+ * Get the pickups dropped after clearing a wave
+ */
+export function getSupplyDrop(wave: number): Omit<PickupSpawnData, 'x' | 'y'>[] {
+  const drop = SUPPLY_DROPS.filter(entry => wave % entry.every === 0).map(entry => entry.pickup);
+  if (wave % WEAPON_DROP_INTERVAL === 0) {
+    const weapon = WEAPON_DROPS[(wave / WEAPON_DROP_INTERVAL - 1) % WEAPON_DROPS.length];
+    drop.push({ type: 'weapon', weapon });
+  }
+  return drop;
+}
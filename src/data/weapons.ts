@@ -9,10 +9,15 @@ export const WEAPON_PISTOL: WeaponDef = {
   damage: 25,
   fireRate: 3, // 3 shots per second
   magazineSize: 12,
+  startingReserveAmmo: 36,
+  maxReserveAmmo: 96,
   reloadTime: 1.5, // 1.5 seconds
   projectileSpeed: 800, // pixels per second
   spread: 2, // degrees
   projectileCount: 1,
+  fireMode: 'semi',
+  projectileKind: 'bullet',
+  falloff: { start: 400, end: 900, minMultiplier: 0.6 },
 };
 
 export const WEAPON_SHOTGUN: WeaponDef = {
@@ -20,10 +25,16 @@ export const WEAPON_SHOTGUN: WeaponDef = {
   damage: 15, // per pellet
   fireRate: 1, // 1 shot per second
   magazineSize: 6,
+  startingReserveAmmo: 12,
+  maxReserveAmmo: 36,
   reloadTime: 2.5, // 2.5 seconds
   projectileSpeed: 600, // pixels per second
   spread: 15, // degrees (wide spread)
   projectileCount: 6, // 6 pellets per shot
+  fireMode: 'semi',
+  projectileKind: 'bullet',
+  falloff: { start: 100, end: 350, minMultiplier: 0.2 }, // Devastating up close only
+  knockback: 60, // per pellet
 };
 
 export const WEAPON_RIFLE: WeaponDef = {
@@ -31,10 +42,103 @@ export const WEAPON_RIFLE: WeaponDef = {
   damage: 20,
   fireRate: 8, // 8 shots per second (automatic)
   magazineSize: 30,
+  startingReserveAmmo: 60,
+  maxReserveAmmo: 180,
   reloadTime: 2.0, // 2 seconds
   projectileSpeed: 1000, // pixels per second (fast)
   spread: 3, // degrees
   projectileCount: 1,
+  fireMode: 'auto',
+  projectileKind: 'bullet',
+  falloff: { start: 500, end: 1200, minMultiplier: 0.5 },
+};
+
+export const WEAPON_BURST_RIFLE: WeaponDef = {
+  name: 'Burst Rifle',
+  damage: 22,
+  fireRate: 2.5, // 2.5 bursts per second
+  magazineSize: 24,
+  startingReserveAmmo: 48,
+  maxReserveAmmo: 144,
+  reloadTime: 2.0,
+  projectileSpeed: 1100,
+  spread: 1.5,
+  projectileCount: 1,
+  fireMode: 'burst',
+  projectileKind: 'bullet',
+  burst: { count: 3, interval: 0.07 },
+  falloff: { start: 600, end: 1200, minMultiplier: 0.6 },
+};
+
+export const WEAPON_GRENADE_LAUNCHER: WeaponDef = {
+  name: 'Grenade Launcher',
+  damage: 20, // direct hit, on top of the explosion
+  fireRate: 1.2,
+  magazineSize: 4,
+  startingReserveAmmo: 8,
+  maxReserveAmmo: 16,
+  reloadTime: 2.5,
+  projectileSpeed: 550,
+  spread: 0,
+  projectileCount: 1,
+  fireMode: 'semi',
+  projectileKind: 'grenade',
+  gravityScale: 1,
+  bounciness: 0.5,
+  fuseTime: 1.8,
+  splash: { radius: 110, damage: 90 },
+  knockback: 350,
+};
+
+export const WEAPON_ROCKET_LAUNCHER: WeaponDef = {
+  name: 'Rocket Launcher',
+  damage: 40, // direct hit, on top of the explosion
+  fireRate: 0.8,
+  magazineSize: 1,
+  startingReserveAmmo: 5,
+  maxReserveAmmo: 10,
+  reloadTime: 1.6,
+  projectileSpeed: 650,
+  spread: 0,
+  projectileCount: 1,
+  fireMode: 'semi',
+  projectileKind: 'rocket',
+  splash: { radius: 130, damage: 110 },
+  knockback: 450,
+};
+
+export const WEAPON_RAILGUN: WeaponDef = {
+  name: 'Railgun',
+  damage: 120, // at full charge
+  fireRate: 1,
+  magazineSize: 5,
+  startingReserveAmmo: 10,
+  maxReserveAmmo: 20,
+  reloadTime: 2.5,
+  projectileSpeed: 2500,
+  spread: 0,
+  projectileCount: 1,
+  fireMode: 'charge',
+  projectileKind: 'rail',
+  charge: { time: 1.0, minMultiplier: 0.25 },
+  pierce: 3,
+  knockback: 200,
+};
+
+export const WEAPON_BEAM: WeaponDef = {
+  name: 'Beam',
+  damage: 4, // per tick
+  fireRate: 20, // damage ticks per second
+  magazineSize: 100,
+  startingReserveAmmo: 100,
+  maxReserveAmmo: 300,
+  reloadTime: 2.0,
+  projectileSpeed: 0, // Instant
+  spread: 0,
+  projectileCount: 1,
+  fireMode: 'auto',
+  projectileKind: 'beam',
+  range: 450,
 };
 
 /**
@@ -44,8 +148,18 @@ export const ALL_WEAPONS: WeaponDef[] = [
   WEAPON_PISTOL,
   WEAPON_SHOTGUN,
   WEAPON_RIFLE,
+  WEAPON_BURST_RIFLE,
+  WEAPON_GRENADE_LAUNCHER,
+  WEAPON_ROCKET_LAUNCHER,
+  WEAPON_RAILGUN,
+  WEAPON_BEAM,
 ];
 
+/**
+ * Weapons the player starts each life with (more are found as pickups)
+ */
+export const PLAYER_STARTING_WEAPONS: WeaponDef[] = [WEAPON_PISTOL];
+
 /**
  * Get a weapon definition by name
  */
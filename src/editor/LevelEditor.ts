@@ -0,0 +1,701 @@
+import { Engine } from '../engine/Engine';
+import { Vec2 } from '../types/Vec2';
+import { EnemySpawnData, Level, PlatformData } from '../types';
+import { getEnemyArchetype } from '../data/enemies';
+import { Player } from '../entities/Player';
+
+/**
+ * What a left click does in the editor
+ * - select: pick, drag and resize things
+ * - platform: drag out a new platform
+ * - playerSpawn: move the player spawn
+ * - enemy: place an enemy spawn of the current type
+ * - patrol: add a patrol point to the selected enemy
+ */
+export type EditorTool = 'select' | 'platform' | 'playerSpawn' | 'enemy' | 'patrol';
+
+/**
+ * The thing being edited
+ */
+export type EditorSelection =
+  | { kind: 'platform'; index: number }
+  | { kind: 'playerSpawn' }
+  | { kind: 'enemy'; index: number }
+  | { kind: 'patrolPoint'; enemy: number; index: number };
+
+// What the mouse is doing between press and release
+type Drag =
+  | { kind: 'move'; offset: Vec2 } // Moving the selection, grabbed this far from its origin
+  | { kind: 'resize' } // Dragging the selected platform's bottom-right corner
+  | { kind: 'draw'; start: Vec2 } // Dragging out a new platform
+  | { kind: 'pan'; last: Vec2 }; // Screen position last frame
+
+/**
+ * A level to start from: just a floor and a player spawn
+ */
+export function createBlankLevel(): Level {
+  return {
+    name: 'New Level',
+    bounds: { width: 1600, height: 900 },
+    playerSpawn: { x: 100, y: 700 },
+    platforms: [{ x: 0, y: 800, width: 1600, height: 100, oneWay: false }],
+    enemySpawns: [],
+  };
+}
+
+/**
+ * LevelEditor edits a Level in place on a canvas. Platforms are drawn by an Engine
+ * (so they look as they will in play) seen through its Camera; spawns, patrol routes,
+ * the bounds and the grid are drawn over the top.
+ * Right or middle drag pans, the wheel zooms, and Delete removes the selection.
+ */
+export class LevelEditor {
+  static readonly GRID_SIZES = [1, 10, 20, 40, 80]; // 1 is no snapping
+
+  private engine: Engine;
+  private canvas: HTMLCanvasElement;
+  private level: Level;
+  private tool: EditorTool = 'select';
+  private selection: EditorSelection | null = null;
+  private gridSize: number = 20;
+  private enemyType: string = 'grunt';
+  private drag: Drag | null = null;
+  private mouseWorld: Vec2 = new Vec2(0, 0);
+  private listeners: Set<() => void> = new Set();
+
+  private readonly MIN_ZOOM = 0.2;
+  private readonly MAX_ZOOM = 3;
+  private readonly ZOOM_STEP = 1.1; // Per wheel notch
+  private readonly HANDLE_SIZE = 10; // Screen pixels
+  private readonly POINT_RADIUS = 6; // Screen pixels
+
+  constructor(canvas: HTMLCanvasElement, level: Level) {
+    this.canvas = canvas;
+    this.engine = new Engine(canvas, { pausable: false });
+    this.level = structuredClone(level);
+    this.syncPlatforms();
+
+    canvas.addEventListener('mousedown', this.handleMouseDown);
+    canvas.addEventListener('mousemove', this.handleMouseMove);
+    canvas.addEventListener('wheel', this.handleWheel, { passive: false });
+    window.addEventListener('mouseup', this.handleMouseUp);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Listen for edits, tool changes and selection changes
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  /**
+   * Get a copy of the level as edited so far
+   */
+  getLevel(): Level {
+    return structuredClone(this.level);
+  }
+
+  /**
+   * Replace the level being edited (e.g. with an imported one)
+   */
+  loadLevel(level: Level): void {
+    this.level = structuredClone(level);
+    this.selection = null;
+    this.drag = null;
+    this.syncPlatforms();
+    this.fitView();
+    this.notify();
+  }
+
+  /**
+   * Update the viewport size (for window resize)
+   */
+  setViewportSize(width: number, height: number): void {
+    this.engine.camera.setViewportSize(width, height);
+  }
+
+  /**
+   * Zoom and centre the camera on the whole level
+   */
+  fitView(): void {
+    const camera = this.engine.camera;
+    const viewport = camera.getViewportSize();
+    const { width, height } = this.level.bounds;
+    const zoom = Math.min(viewport.width / width, viewport.height / height) * 0.9;
+    camera.setZoom(Math.max(this.MIN_ZOOM, Math.min(this.MAX_ZOOM, zoom)));
+    camera.centerOn(new Vec2(width / 2, height / 2));
+    camera.savePreviousState();
+  }
+
+  getTool(): EditorTool {
+    return this.tool;
+  }
+
+  setTool(tool: EditorTool): void {
+    this.tool = tool;
+    this.notify();
+  }
+
+  getSelection(): EditorSelection | null {
+    return this.selection;
+  }
+
+  getGridSize(): number {
+    return this.gridSize;
+  }
+
+  setGridSize(size: number): void {
+    this.gridSize = size;
+    this.notify();
+  }
+
+  /**
+   * Get the enemy type the enemy tool places
+   */
+  getEnemyType(): string {
+    return this.enemyType;
+  }
+
+  setEnemyType(type: string): void {
+    this.enemyType = type;
+    this.notify();
+  }
+
+  /**
+   * Get the world position under the mouse, snapped to the grid
+   */
+  getCursor(): Vec2 {
+    return this.snapPoint(this.mouseWorld);
+  }
+
+  setName(name: string): void {
+    this.level.name = name;
+    this.notify();
+  }
+
+  setBounds(width: number, height: number): void {
+    this.level.bounds = { width: Math.max(1, width), height: Math.max(1, height) };
+    this.notify();
+  }
+
+  /**
+   * Change a platform's position, size or one-way flag
+   */
+  updatePlatform(index: number, changes: Partial<PlatformData>): void {
+    const platform = this.level.platforms[index];
+    if (!platform) return;
+
+    Object.assign(platform, changes);
+    platform.width = Math.max(1, platform.width);
+    platform.height = Math.max(1, platform.height);
+    this.syncPlatforms();
+    this.notify();
+  }
+
+  /**
+   * Change an enemy spawn's position or type
+   */
+  updateEnemy(index: number, changes: Partial<Pick<EnemySpawnData, 'x' | 'y' | 'type'>>): void {
+    const spawn = this.level.enemySpawns[index];
+    if (!spawn) return;
+
+    Object.assign(spawn, changes);
+    this.notify();
+  }
+
+  /**
+   * Remove all of an enemy's patrol points
+   */
+  clearPatrol(index: number): void {
+    const spawn = this.level.enemySpawns[index];
+    if (!spawn) return;
+
+    delete spawn.patrolPoints;
+    if (this.selection?.kind === 'patrolPoint' && this.selection.enemy === index) {
+      this.selection = { kind: 'enemy', index };
+    }
+    this.notify();
+  }
+
+  /**
+   * Move the selected thing to a position
+   */
+  moveSelection(x: number, y: number): void {
+    if (!this.selection) return;
+    this.setOrigin(this.selection, new Vec2(x, y));
+    this.notify();
+  }
+
+  /**
+   * Delete the selected thing. The player spawn can only be moved.
+   */
+  deleteSelection(): void {
+    const selection = this.selection;
+    if (!selection) return;
+
+    if (selection.kind === 'platform') {
+      this.level.platforms.splice(selection.index, 1);
+      this.syncPlatforms();
+    } else if (selection.kind === 'enemy') {
+      this.level.enemySpawns.splice(selection.index, 1);
+    } else if (selection.kind === 'patrolPoint') {
+      const spawn = this.level.enemySpawns[selection.enemy];
+      spawn?.patrolPoints?.splice(selection.index, 1);
+      if (spawn?.patrolPoints?.length === 0) {
+        delete spawn.patrolPoints;
+      }
+    } else {
+      return;
+    }
+
+    this.selection = null;
+    this.notify();
+  }
+
+  /**
+   * Draw the level and the editor's overlays
+   */
+  render(): void {
+    const ctx = this.engine.getContext();
+    if (!ctx) return;
+
+    this.engine.render(1);
+
+    const camera = this.engine.camera;
+    ctx.save();
+    camera.applyTransform(ctx);
+    const lineWidth = 1 / camera.getZoom(); // One screen pixel
+
+    this.renderGrid(ctx, lineWidth);
+
+    // Bounds
+    const { width, height } = this.level.bounds;
+    ctx.strokeStyle = '#E2C04A';
+    ctx.lineWidth = 2 * lineWidth;
+    ctx.setLineDash([10 * lineWidth, 6 * lineWidth]);
+    ctx.strokeRect(0, 0, width, height);
+    ctx.setLineDash([]);
+
+    // Platform being dragged out
+    if (this.drag?.kind === 'draw') {
+      const rect = this.getDrawRect(this.drag.start);
+      ctx.fillStyle = 'rgba(74, 144, 226, 0.3)';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = '#4A90E2';
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    this.renderSpawns(ctx, lineWidth);
+    this.renderSelection(ctx, lineWidth);
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw the snapping grid over the visible area
+   */
+  private renderGrid(ctx: CanvasRenderingContext2D, lineWidth: number): void {
+    const camera = this.engine.camera;
+    if (this.gridSize * camera.getZoom() < 6) return; // Too dense to be useful
+
+    const view = camera.getViewSize();
+    const left = Math.floor(camera.position.x / this.gridSize) * this.gridSize;
+    const top = Math.floor(camera.position.y / this.gridSize) * this.gridSize;
+    const right = camera.position.x + view.width;
+    const bottom = camera.position.y + view.height;
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    for (let x = left; x <= right; x += this.gridSize) {
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, bottom);
+    }
+    for (let y = top; y <= bottom; y += this.gridSize) {
+      ctx.moveTo(left, y);
+      ctx.lineTo(right, y);
+    }
+    ctx.stroke();
+  }
+
+  /**
+   * Draw the player spawn, enemy spawns and patrol routes
+   */
+  private renderSpawns(ctx: CanvasRenderingContext2D, lineWidth: number): void {
+    ctx.font = `${12 * lineWidth}px monospace`;
+    ctx.textAlign = 'left';
+
+    const { x, y } = this.level.playerSpawn;
+    ctx.fillStyle = 'rgba(74, 144, 226, 0.5)';
+    ctx.fillRect(x, y, Player.SIZE.x, Player.SIZE.y);
+    ctx.strokeStyle = '#2E5C8A';
+    ctx.lineWidth = 2 * lineWidth;
+    ctx.strokeRect(x, y, Player.SIZE.x, Player.SIZE.y);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText('PLAYER', x, y - 4 * lineWidth);
+
+    for (const spawn of this.level.enemySpawns) {
+      const size = this.getEnemySize(spawn);
+      const colors = getEnemyArchetype(spawn.type)?.colors ?? { body: '#FF00FF', outline: '#880088' };
+
+      // Patrol route
+      const points = spawn.patrolPoints ?? [];
+      if (points.length > 0) {
+        ctx.strokeStyle = colors.body;
+        ctx.lineWidth = lineWidth;
+        ctx.setLineDash([4 * lineWidth, 4 * lineWidth]);
+        ctx.beginPath();
+        ctx.moveTo(spawn.x + size.x / 2, spawn.y + size.y / 2);
+        for (const point of points) {
+          ctx.lineTo(point.x, point.y);
+        }
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = colors.body;
+        for (const point of points) {
+          ctx.beginPath();
+          ctx.arc(point.x, point.y, this.POINT_RADIUS * lineWidth, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+
+      ctx.globalAlpha = 0.6;
+      ctx.fillStyle = colors.body;
+      ctx.fillRect(spawn.x, spawn.y, size.x, size.y);
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = colors.outline;
+      ctx.lineWidth = 2 * lineWidth;
+      ctx.strokeRect(spawn.x, spawn.y, size.x, size.y);
+      ctx.fillStyle = getEnemyArchetype(spawn.type) ? '#FFFFFF' : '#FF4444';
+      ctx.fillText(spawn.type.toUpperCase(), spawn.x, spawn.y - 4 * lineWidth);
+    }
+  }
+
+  /**
+   * Outline the selection, with a resize handle on platforms
+   */
+  private renderSelection(ctx: CanvasRenderingContext2D, lineWidth: number): void {
+    const selection = this.selection;
+    if (!selection) return;
+
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2 * lineWidth;
+
+    if (selection.kind === 'patrolPoint') {
+      const point = this.level.enemySpawns[selection.enemy]?.patrolPoints?.[selection.index];
+      if (!point) return;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, (this.POINT_RADIUS + 3) * lineWidth, 0, Math.PI * 2);
+      ctx.stroke();
+      return;
+    }
+
+    const rect = this.getSelectionRect(selection);
+    if (!rect) return;
+    ctx.strokeRect(rect.x - 3 * lineWidth, rect.y - 3 * lineWidth, rect.width + 6 * lineWidth, rect.height + 6 * lineWidth);
+
+    if (selection.kind === 'platform') {
+      const handle = this.HANDLE_SIZE * lineWidth;
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(rect.x + rect.width - handle / 2, rect.y + rect.height - handle / 2, handle, handle);
+    }
+  }
+
+  /**
+   * Get the area a selected platform or spawn covers
+   */
+  private getSelectionRect(selection: EditorSelection): PlatformData | null {
+    if (selection.kind === 'platform') {
+      return this.level.platforms[selection.index] ?? null;
+    }
+    if (selection.kind === 'playerSpawn') {
+      const { x, y } = this.level.playerSpawn;
+      return { x, y, width: Player.SIZE.x, height: Player.SIZE.y };
+    }
+    if (selection.kind === 'enemy') {
+      const spawn = this.level.enemySpawns[selection.index];
+      if (!spawn) return null;
+      const size = this.getEnemySize(spawn);
+      return { x: spawn.x, y: spawn.y, width: size.x, height: size.y };
+    }
+    return null;
+  }
+
+  /**
+   * Get the size an enemy spawn will have in play
+   */
+  private getEnemySize(spawn: EnemySpawnData): Vec2 {
+    const size = getEnemyArchetype(spawn.type)?.size;
+    return size ? new Vec2(size.width, size.height) : Player.SIZE;
+  }
+
+  /**
+   * Get the top-left of a selected thing (the point itself for patrol points)
+   */
+  private getOrigin(selection: EditorSelection): Vec2 | null {
+    if (selection.kind === 'patrolPoint') {
+      const point = this.level.enemySpawns[selection.enemy]?.patrolPoints?.[selection.index];
+      return point ? new Vec2(point.x, point.y) : null;
+    }
+    const rect = this.getSelectionRect(selection);
+    return rect ? new Vec2(rect.x, rect.y) : null;
+  }
+
+  /**
+   * Move a selected thing. Moving an enemy spawn carries its patrol route with it.
+   */
+  private setOrigin(selection: EditorSelection, position: Vec2): void {
+    if (selection.kind === 'platform') {
+      const platform = this.level.platforms[selection.index];
+      if (!platform) return;
+      platform.x = position.x;
+      platform.y = position.y;
+      this.syncPlatforms();
+    } else if (selection.kind === 'playerSpawn') {
+      this.level.playerSpawn = { x: position.x, y: position.y };
+    } else if (selection.kind === 'enemy') {
+      const spawn = this.level.enemySpawns[selection.index];
+      if (!spawn) return;
+      const dx = position.x - spawn.x;
+      const dy = position.y - spawn.y;
+      spawn.x = position.x;
+      spawn.y = position.y;
+      spawn.patrolPoints = spawn.patrolPoints?.map(point => ({ x: point.x + dx, y: point.y + dy }));
+      if (!spawn.patrolPoints) delete spawn.patrolPoints;
+    } else {
+      const point = this.level.enemySpawns[selection.enemy]?.patrolPoints?.[selection.index];
+      if (!point) return;
+      point.x = position.x;
+      point.y = position.y;
+    }
+  }
+
+  /**
+   * Find what's under a world position: patrol points first, then spawns, then the
+   * topmost platform
+   */
+  private hitTest(world: Vec2): EditorSelection | null {
+    const radius = this.POINT_RADIUS / this.engine.camera.getZoom();
+    const contains = (rect: PlatformData | null) =>
+      !!rect && world.x >= rect.x && world.x <= rect.x + rect.width && world.y >= rect.y && world.y <= rect.y + rect.height;
+
+    for (let enemy = this.level.enemySpawns.length - 1; enemy >= 0; enemy--) {
+      const points = this.level.enemySpawns[enemy]!.patrolPoints ?? [];
+      for (let index = points.length - 1; index >= 0; index--) {
+        if (world.distance(new Vec2(points[index]!.x, points[index]!.y)) <= radius) {
+          return { kind: 'patrolPoint', enemy, index };
+        }
+      }
+    }
+
+    for (let index = this.level.enemySpawns.length - 1; index >= 0; index--) {
+      if (contains(this.getSelectionRect({ kind: 'enemy', index }))) {
+        return { kind: 'enemy', index };
+      }
+    }
+
+    if (contains(this.getSelectionRect({ kind: 'playerSpawn' }))) {
+      return { kind: 'playerSpawn' };
+    }
+
+    for (let index = this.level.platforms.length - 1; index >= 0; index--) {
+      if (contains(this.level.platforms[index]!)) {
+        return { kind: 'platform', index };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether a world position is on the selected platform's resize handle
+   */
+  private isOnResizeHandle(world: Vec2): boolean {
+    if (this.selection?.kind !== 'platform') return false;
+    const platform = this.level.platforms[this.selection.index];
+    if (!platform) return false;
+
+    const reach = this.HANDLE_SIZE / this.engine.camera.getZoom();
+    return Math.abs(world.x - (platform.x + platform.width)) <= reach &&
+      Math.abs(world.y - (platform.y + platform.height)) <= reach;
+  }
+
+  private snap(value: number): number {
+    return Math.round(value / this.gridSize) * this.gridSize;
+  }
+
+  private snapPoint(point: Vec2): Vec2 {
+    return new Vec2(this.snap(point.x), this.snap(point.y));
+  }
+
+  /**
+   * Get the platform being dragged out from a start corner to the cursor, at least one grid cell
+   */
+  private getDrawRect(start: Vec2): PlatformData {
+    const end = this.getCursor();
+    const minSize = Math.max(this.gridSize, 1);
+    return {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.max(minSize, Math.abs(end.x - start.x)),
+      height: Math.max(minSize, Math.abs(end.y - start.y)),
+    };
+  }
+
+  /**
+   * Hand the platforms to the physics system, which the engine draws them from
+   */
+  private syncPlatforms(): void {
+    this.engine.physicsSystem.setPlatforms(this.level.platforms.map(platform => ({ ...platform })));
+  }
+
+  /**
+   * Convert a mouse event to canvas (screen) coordinates
+   */
+  private getScreenPosition(event: MouseEvent): Vec2 {
+    const rect = this.canvas.getBoundingClientRect();
+    return new Vec2(event.clientX - rect.left, event.clientY - rect.top);
+  }
+
+  private handleMouseDown = (event: MouseEvent): void => {
+    const screen = this.getScreenPosition(event);
+    const world = this.engine.camera.screenToWorld(screen);
+    this.mouseWorld = world;
+
+    if (event.button !== 0) {
+      this.drag = { kind: 'pan', last: screen };
+      return;
+    }
+
+    const cursor = this.getCursor();
+    switch (this.tool) {
+      case 'select': {
+        if (this.isOnResizeHandle(world)) {
+          this.drag = { kind: 'resize' };
+          break;
+        }
+        this.selection = this.hitTest(world);
+        const origin = this.selection && this.getOrigin(this.selection);
+        this.drag = origin ? { kind: 'move', offset: world.subtract(origin) } : null;
+        break;
+      }
+      case 'platform':
+        this.drag = { kind: 'draw', start: cursor };
+        break;
+      case 'playerSpawn':
+        this.selection = { kind: 'playerSpawn' };
+        this.setOrigin(this.selection, cursor);
+        this.drag = { kind: 'move', offset: new Vec2(0, 0) };
+        break;
+      case 'enemy':
+        this.level.enemySpawns.push({ x: cursor.x, y: cursor.y, type: this.enemyType });
+        this.selection = { kind: 'enemy', index: this.level.enemySpawns.length - 1 };
+        this.drag = { kind: 'move', offset: new Vec2(0, 0) };
+        break;
+      case 'patrol': {
+        const selection = this.selection;
+        const enemy = selection?.kind === 'enemy' ? selection.index : selection?.kind === 'patrolPoint' ? selection.enemy : -1;
+        const spawn = this.level.enemySpawns[enemy];
+        if (!spawn) break; // Select an enemy first
+
+        spawn.patrolPoints = [...(spawn.patrolPoints ?? []), { x: cursor.x, y: cursor.y }];
+        this.selection = { kind: 'patrolPoint', enemy, index: spawn.patrolPoints.length - 1 };
+        this.drag = { kind: 'move', offset: new Vec2(0, 0) };
+        break;
+      }
+    }
+    this.notify();
+  };
+
+  private handleMouseMove = (event: MouseEvent): void => {
+    const screen = this.getScreenPosition(event);
+    const camera = this.engine.camera;
+    this.mouseWorld = camera.screenToWorld(screen);
+
+    const drag = this.drag;
+    if (!drag) {
+      this.notify(); // Cursor position
+      return;
+    }
+
+    if (drag.kind === 'pan') {
+      camera.position = camera.position.subtract(screen.subtract(drag.last).multiply(1 / camera.getZoom()));
+      camera.savePreviousState();
+      drag.last = screen;
+    } else if (drag.kind === 'move' && this.selection) {
+      this.setOrigin(this.selection, this.snapPoint(this.mouseWorld.subtract(drag.offset)));
+    } else if (drag.kind === 'resize' && this.selection?.kind === 'platform') {
+      const platform = this.level.platforms[this.selection.index];
+      if (platform) {
+        const minSize = Math.max(this.gridSize, 1);
+        platform.width = Math.max(minSize, this.snap(this.mouseWorld.x) - platform.x);
+        platform.height = Math.max(minSize, this.snap(this.mouseWorld.y) - platform.y);
+        this.syncPlatforms();
+      }
+    }
+    this.notify();
+  };
+
+  private handleMouseUp = (): void => {
+    const drag = this.drag;
+    this.drag = null;
+    if (drag?.kind !== 'draw') return;
+
+    this.level.platforms.push({ ...this.getDrawRect(drag.start), oneWay: false });
+    this.selection = { kind: 'platform', index: this.level.platforms.length - 1 };
+    this.syncPlatforms();
+    this.notify();
+  };
+
+  /**
+   * Zoom about the point under the mouse
+   */
+  private handleWheel = (event: WheelEvent): void => {
+    event.preventDefault();
+
+    const camera = this.engine.camera;
+    const screen = this.getScreenPosition(event);
+    const before = camera.screenToWorld(screen);
+    const zoom = camera.getZoom() * (event.deltaY < 0 ? this.ZOOM_STEP : 1 / this.ZOOM_STEP);
+    camera.setZoom(Math.max(this.MIN_ZOOM, Math.min(this.MAX_ZOOM, zoom)));
+    camera.position = camera.position.add(before.subtract(camera.screenToWorld(screen)));
+    camera.savePreviousState();
+    this.notify();
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const target = event.target;
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+      return; // Typing in the side panel
+    }
+
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      this.deleteSelection();
+    } else if (event.key === 'Escape') {
+      this.selection = null;
+      this.notify();
+    }
+  };
+
+  /**
+   * Remove listeners and shut down the engine
+   */
+  destroy(): void {
+    this.canvas.removeEventListener('mousedown', this.handleMouseDown);
+    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+    this.canvas.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('mouseup', this.handleMouseUp);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.listeners.clear();
+    this.engine.destroy();
+  }
+}
@@ -1,19 +1,49 @@
 import { Vec2 } from '../types/Vec2';
+import { Rect } from '../types/Rect';
 import { Entity } from '../entities/Entity';
+import { Random } from './Random';
+
+/**
+ * A trip away from the followed targets and back
+ */
+interface CameraPan {
+  target: Vec2; // World point to centre on
+  duration: number; // seconds travelling each way
+  hold: number; // seconds spent at the target
+  timer: number;
+  home: Vec2; // Where following would have put the view, to return to
+}
 
 /**
  * Camera handles viewport positioning and world-to-screen coordinate transformation.
- * Follows a target entity with deadzone and boundary constraints.
+ * Follows a target entity with deadzone and boundary constraints, or a group of
+ * targets (co-op), zooming out so everyone stays on screen. Levels can pan it away
+ * to show something and back again.
+ * Rendering interpolates between the view before and after the last fixed update.
  */
 export class Camera {
-  position: Vec2;
+  position: Vec2; // Top-left of the view in world coordinates
+  private previousPosition: Vec2; // View before the last fixed update, for render interpolation
   private viewportWidth: number;
   private viewportHeight: number;
   private deadzone: { x: number; y: number };
-  private bounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+  private bounds: { width: number; height: number } | null = null; // Level size
+  private zoom: number = 1; // Screen pixels per world pixel
+  private previousZoom: number = 1;
+  private readonly MIN_ZOOM = 0.5;
+  private readonly GROUP_MARGIN = 150; // Screen pixels kept between grouped targets and the screen edge
+  private readonly ZOOM_SMOOTHING = 0.08; // Fraction of the remaining zoom change applied per follow
+  private shakeIntensity: number = 0; // pixels
+  private shakeDuration: number = 0; // seconds
+  private shakeTimer: number = 0;
+  private shakeOffset: Vec2 = new Vec2(0, 0);
+  private random: Random;
+  private pan: CameraPan | null = null;
 
-  constructor(viewportWidth: number, viewportHeight: number) {
+  constructor(viewportWidth: number, viewportHeight: number, random: Random = new Random()) {
+    this.random = random;
     this.position = new Vec2(0, 0);
+    this.previousPosition = new Vec2(0, 0);
     this.viewportWidth = viewportWidth;
     this.viewportHeight = viewportHeight;
     
@@ -28,12 +58,7 @@ export class Camera {
    * Set the level bounds to constrain camera movement
    */
   setBounds(width: number, height: number): void {
-    this.bounds = {
-      minX: 0,
-      minY: 0,
-      maxX: Math.max(0, width - this.viewportWidth),
-      maxY: Math.max(0, height - this.viewportHeight),
-    };
+    this.bounds = { width, height };
   }
 
   /**
@@ -43,19 +68,33 @@ export class Camera {
     this.bounds = null;
   }
 
+  /**
+   * Keep the view inside the level bounds
+   */
+  private clampToBounds(): void {
+    if (!this.bounds) return;
+
+    const view = this.getViewSize();
+    this.position.x = Math.max(0, Math.min(Math.max(0, this.bounds.width - view.width), this.position.x));
+    this.position.y = Math.max(0, Math.min(Math.max(0, this.bounds.height - view.height), this.position.y));
+  }
+
   /**
    * Update camera to follow a target entity
    */
   follow(target: Entity): void {
-    // Calculate target position in screen space
+    // Calculate target position relative to the view (world units)
     const targetScreenX = target.position.x - this.position.x;
     const targetScreenY = target.position.y - this.position.y;
 
     // Calculate deadzone boundaries
-    const deadzoneLeft = this.viewportWidth / 2 - this.deadzone.x / 2;
-    const deadzoneRight = this.viewportWidth / 2 + this.deadzone.x / 2;
-    const deadzoneTop = this.viewportHeight / 2 - this.deadzone.y / 2;
-    const deadzoneBottom = this.viewportHeight / 2 + this.deadzone.y / 2;
+    const view = this.getViewSize();
+    const deadzoneWidth = this.deadzone.x / this.zoom;
+    const deadzoneHeight = this.deadzone.y / this.zoom;
+    const deadzoneLeft = view.width / 2 - deadzoneWidth / 2;
+    const deadzoneRight = view.width / 2 + deadzoneWidth / 2;
+    const deadzoneTop = view.height / 2 - deadzoneHeight / 2;
+    const deadzoneBottom = view.height / 2 + deadzoneHeight / 2;
 
     // Move camera if target is outside deadzone
     if (targetScreenX < deadzoneLeft) {
@@ -71,19 +110,192 @@ export class Camera {
     }
 
     // Apply bounds constraints
+    this.clampToBounds();
+  }
+
+  /**
+   * Follow several targets (co-op): zoom out as they spread apart, down to MIN_ZOOM,
+   * and keep their midpoint centred. With a single target this eases back to normal
+   * zoom and behaves like follow().
+   */
+  followGroup(targets: Entity[]): void {
+    // Follow from where the view would be without the pan, so the deadzone doesn't drift
+    if (this.pan) {
+      this.position = this.pan.home.clone();
+    }
+
+    this.followTargets(targets);
+
+    if (this.pan) {
+      this.pan.home = this.position.clone();
+      const view = this.getViewSize();
+      const homeCenter = new Vec2(this.position.x + view.width / 2, this.position.y + view.height / 2);
+      this.centerOn(homeCenter.lerp(this.pan.target, this.getPanWeight(this.pan)));
+    }
+  }
+
+  /**
+   * Follow the targets as followGroup describes, ignoring any pan
+   */
+  private followTargets(targets: Entity[]): void {
+    const [first] = targets;
+    if (!first) return;
+
+    if (targets.length === 1) {
+      this.easeZoom(1);
+      this.follow(first);
+      return;
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const target of targets) {
+      const center = target.getBounds().center;
+      minX = Math.min(minX, center.x);
+      minY = Math.min(minY, center.y);
+      maxX = Math.max(maxX, center.x);
+      maxY = Math.max(maxY, center.y);
+    }
+
+    // Zoom that fits the group inside the margins, but never shows more than the level
+    const fitX = (this.viewportWidth - this.GROUP_MARGIN * 2) / Math.max(1, maxX - minX);
+    const fitY = (this.viewportHeight - this.GROUP_MARGIN * 2) / Math.max(1, maxY - minY);
+    let zoom = Math.max(this.MIN_ZOOM, Math.min(1, fitX, fitY));
     if (this.bounds) {
-      this.position.x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, this.position.x));
-      this.position.y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, this.position.y));
+      zoom = Math.max(zoom, Math.min(1, this.viewportWidth / this.bounds.width, this.viewportHeight / this.bounds.height));
+    }
+    this.easeZoom(zoom);
+
+    this.centerOn(new Vec2((minX + maxX) / 2, (minY + maxY) / 2));
+  }
+
+  /**
+   * Move the zoom part of the way toward a target, snapping once close
+   */
+  private easeZoom(target: number): void {
+    this.zoom += (target - this.zoom) * this.ZOOM_SMOOTHING;
+    if (Math.abs(target - this.zoom) < 0.001) {
+      this.zoom = target;
     }
   }
 
+  /**
+   * Set the zoom straight away (the level editor zooms freely)
+   */
+  setZoom(zoom: number): void {
+    this.zoom = zoom;
+  }
+
+  /**
+   * Get the current zoom
+   */
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  /**
+   * Get the size of the visible world area at the current zoom
+   */
+  getViewSize(): { width: number; height: number } {
+    return {
+      width: this.viewportWidth / this.zoom,
+      height: this.viewportHeight / this.zoom,
+    };
+  }
+
+  /**
+   * Get the visible world area at the current position and zoom
+   */
+  getViewBounds(): Rect {
+    const { width, height } = this.getViewSize();
+    return new Rect(this.position.x, this.position.y, width, height);
+  }
+
+  /**
+   * Shake the camera. A stronger shake replaces a weaker one in progress.
+   * @param intensity - Maximum offset in pixels
+   * @param duration - Seconds for the shake to die out
+   */
+  shake(intensity: number, duration: number): void {
+    const remaining = this.shakeDuration > 0 ? this.shakeIntensity * (this.shakeTimer / this.shakeDuration) : 0;
+    if (intensity < remaining) return;
+
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeTimer = duration;
+  }
+
+  /**
+   * Pan over to a point of the level, stay a while, then pan back to the followed targets
+   * (only applied while following with followGroup). Replaces a pan in progress.
+   * @param target - World point to centre on
+   * @param duration - Seconds travelling each way
+   * @param hold - Seconds to stay
+   */
+  panTo(target: Vec2, duration: number, hold: number): void {
+    this.pan = { target: target.clone(), duration, hold, timer: 0, home: this.position.clone() };
+  }
+
+  /**
+   * Drop any pan in progress, snapping back to the followed targets
+   */
+  stopPan(): void {
+    if (!this.pan) return;
+    this.position = this.pan.home.clone();
+    this.pan = null;
+  }
+
+  /**
+   * How far along a pan's trip the view is: 0 at home, 1 at the target, eased in and out
+   */
+  private getPanWeight(pan: CameraPan): number {
+    let t: number;
+    if (pan.timer < pan.duration) {
+      t = pan.timer / pan.duration;
+    } else if (pan.timer < pan.duration + pan.hold) {
+      t = 1;
+    } else {
+      t = 1 - (pan.timer - pan.duration - pan.hold) / Math.max(pan.duration, 0.001);
+    }
+    t = Math.max(0, Math.min(1, t));
+    return t * t * (3 - 2 * t);
+  }
+
+  /**
+   * Advance camera effects
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    if (this.pan) {
+      this.pan.timer += dt;
+      if (this.pan.timer >= this.pan.duration * 2 + this.pan.hold) {
+        this.position = this.pan.home.clone();
+        this.pan = null;
+      }
+    }
+
+    if (this.shakeTimer <= 0) {
+      this.shakeOffset.set(0, 0);
+      return;
+    }
+
+    this.shakeTimer = Math.max(0, this.shakeTimer - dt);
+    const strength = this.shakeIntensity * (this.shakeTimer / this.shakeDuration);
+    this.shakeOffset.set(
+      (this.random.next() * 2 - 1) * strength,
+      (this.random.next() * 2 - 1) * strength
+    );
+  }
+
   /**
    * Convert world coordinates to screen coordinates
    */
   worldToScreen(worldPos: Vec2): Vec2 {
     return new Vec2(
-      worldPos.x - this.position.x,
-      worldPos.y - this.position.y
+      (worldPos.x - this.position.x) * this.zoom,
+      (worldPos.y - this.position.y) * this.zoom
     );
   }
 
@@ -92,16 +304,32 @@ export class Camera {
    */
   screenToWorld(screenPos: Vec2): Vec2 {
     return new Vec2(
-      screenPos.x + this.position.x,
-      screenPos.y + this.position.y
+      screenPos.x / this.zoom + this.position.x,
+      screenPos.y / this.zoom + this.position.y
     );
   }
 
+  /**
+   * Remember the current view as the one before the next fixed update.
+   * Call it after cutting to a new position too, so rendering doesn't pan across.
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+    this.previousZoom = this.zoom;
+  }
+
   /**
    * Apply camera transformation to rendering context
+   * @param alpha - How far between the previous and current view to draw (1 for the current view)
    */
-  applyTransform(ctx: CanvasRenderingContext2D): void {
-    ctx.translate(-this.position.x, -this.position.y);
+  applyTransform(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const zoom = this.previousZoom + (this.zoom - this.previousZoom) * alpha;
+    const position = this.previousPosition.lerp(this.position, alpha);
+    ctx.scale(zoom, zoom);
+    ctx.translate(
+      -(position.x + this.shakeOffset.x),
+      -(position.y + this.shakeOffset.y)
+    );
   }
 
   /**
@@ -152,13 +380,11 @@ export class Camera {
    * Center camera on a position
    */
   centerOn(worldPos: Vec2): void {
-    this.position.x = worldPos.x - this.viewportWidth / 2;
-    this.position.y = worldPos.y - this.viewportHeight / 2;
+    const view = this.getViewSize();
+    this.position.x = worldPos.x - view.width / 2;
+    this.position.y = worldPos.y - view.height / 2;
 
     // Apply bounds constraints
-    if (this.bounds) {
-      this.position.x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, this.position.x));
-      this.position.y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, this.position.y));
-    }
+    this.clampToBounds();
   }
 }
@@ -1,28 +1,57 @@
 import { Entity } from '../entities/Entity';
 import { Projectile } from '../entities/Projectile';
-import { EntityID, GameState } from '../types';
+import type { Player } from '../entities/Player';
+import type { Enemy } from '../entities/Enemy';
+import type { Pickup } from '../entities/Pickup';
+import { ExplosiveBarrel } from '../entities/ExplosiveBarrel';
+import { DefendTarget } from '../entities/DefendTarget';
+import { Switch } from '../entities/Switch';
+import { DamageSource, EntityID, GameMode, GameState, WeaponDef } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { Rect } from '../types/Rect';
 import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { NavigationSystem } from '../systems/NavigationSystem';
 import { CollisionSystem } from '../systems/CollisionSystem';
-import { WeaponSystem } from '../systems/WeaponSystem';
+import { WeaponSystem, ProjectileSpawnData } from '../systems/WeaponSystem';
 import { ParticleSystem } from '../systems/ParticleSystem';
 import { ProjectilePool } from '../systems/ProjectilePool';
 import { SoundManager } from '../systems/SoundManager';
 import { DebugRenderer } from '../systems/DebugRenderer';
+import { TileMapRenderer } from '../systems/TileMapRenderer';
+import { ScoreSystem } from '../systems/ScoreSystem';
+import { ExplosionSystem } from '../systems/ExplosionSystem';
 import { Camera } from './Camera';
 import { InputManager } from './InputManager';
+import { Random } from './Random';
+import { GAME_MODE_CAMPAIGN } from '../data/gameModes';
+import { EventBus } from './EventBus';
+
+/**
+ * Options for creating an Engine
+ */
+export interface EngineOptions {
+  seed?: number; // Seed for all gameplay randomness (random if omitted)
+  domInput?: boolean; // Listen to the keyboard and mouse (default: when there is a canvas)
+  pausable?: boolean; // The pause action pauses the simulation (default true; online matches can't pause)
+  viewportWidth?: number; // Camera viewport when headless (defaults to 1280x720)
+  viewportHeight?: number;
+}
 
 /**
  * Engine is the central coordinator for all game systems and entities.
  * It manages the entity registry, system updates, and rendering.
+ * Created without a canvas it runs headless: no rendering, audio or DOM input,
+ * so levels can be simulated in Node (see HeadlessGame).
  */
 export class Engine {
   private entities: Map<EntityID, Entity> = new Map();
   private nextEntityId: EntityID = 1;
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: HTMLCanvasElement | null;
+  private ctx: CanvasRenderingContext2D | null = null;
   
   // Systems
   public physicsSystem: PhysicsSystem;
+  public navigationSystem: NavigationSystem;
   public collisionSystem: CollisionSystem;
   public weaponSystem: WeaponSystem;
   public particleSystem: ParticleSystem;
@@ -31,35 +60,65 @@ export class Engine {
   public camera: Camera;
   public inputManager: InputManager;
   public debugRenderer: DebugRenderer;
+  public tileMapRenderer: TileMapRenderer;
+  public events: EventBus;
+  public scoreSystem: ScoreSystem;
+  public explosionSystem: ExplosionSystem;
+  public random: Random;
 
   // Game state
   private gameState: GameState = GameState.PLAYING;
+  private gameMode: GameMode = GAME_MODE_CAMPAIGN;
   private isPaused: boolean = false;
+  private pausable: boolean;
+  private interpolation: boolean = true; // Draw between fixed updates (off shows the raw simulated state)
+  private tick: number = 0; // Simulated (unpaused) ticks so far
+  private readonly SWEPT_PROJECTILE_STEP = 24; // pixels per tick beyond which a projectile could skip past a character (the narrowest is 28px) between overlap tests
   private lastFrameTime: number = 0;
   private frameCount: number = 0;
   private fps: number = 0;
 
-  constructor(canvas: HTMLCanvasElement) {
+  /**
+   * @param canvas - Canvas to render to, or null for a headless engine
+   */
+  constructor(canvas: HTMLCanvasElement | null, options: EngineOptions = {}) {
     this.canvas = canvas;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Failed to get 2D rendering context');
+    this.pausable = options.pausable ?? true;
+    if (canvas) {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get 2D rendering context');
+      }
+      this.ctx = ctx;
     }
-    this.ctx = ctx;
     
     // Initialize systems
+    this.random = new Random(options.seed);
+    this.events = new EventBus();
     this.physicsSystem = new PhysicsSystem();
+    this.navigationSystem = new NavigationSystem();
     this.collisionSystem = new CollisionSystem();
-    this.weaponSystem = new WeaponSystem();
-    this.particleSystem = new ParticleSystem();
+    this.weaponSystem = new WeaponSystem(this.random);
+    this.particleSystem = new ParticleSystem(this.random);
     this.projectilePool = new ProjectilePool();
-    this.soundManager = new SoundManager();
-    this.camera = new Camera(canvas.width, canvas.height);
+    this.soundManager = new SoundManager(canvas !== null);
+    // Whether shake happens depends on the viewport, so the camera gets its own stream
+    // and screen size can't change the gameplay sequence
+    this.camera = new Camera(
+      canvas?.width ?? options.viewportWidth ?? 1280,
+      canvas?.height ?? options.viewportHeight ?? 720,
+      new Random(this.random.getSeed())
+    );
     this.inputManager = new InputManager();
     this.debugRenderer = new DebugRenderer();
+    this.tileMapRenderer = new TileMapRenderer();
+    this.scoreSystem = new ScoreSystem(this.events);
+    this.explosionSystem = new ExplosionSystem(this);
     
-    // Initialize input manager
-    this.inputManager.initialize(canvas);
+    // Initialize input manager (otherwise input is set directly, e.g. by ScriptedInput)
+    if (canvas && (options.domInput ?? true)) {
+      this.inputManager.initialize(canvas);
+    }
     
     // Set up collision callbacks
     this.setupCollisionCallbacks();
@@ -126,50 +185,213 @@ export class Engine {
   private setupCollisionCallbacks(): void {
     // Projectile hits player
     this.collisionSystem.onCollision('projectile', 'player', (projectile, player) => {
-      const proj = projectile as Projectile;
-      if (proj.owner !== player.id) {
-        (player as any).takeDamage(proj.damage);
-        proj.deactivate();
-        this.particleSystem.spawnHitSparks(proj.position, proj.velocity.normalize());
-        this.soundManager.playPlaceholder('hit');
-      }
+      this.handleProjectileHit(projectile as Projectile, player);
     });
     
     // Projectile hits enemy
     this.collisionSystem.onCollision('projectile', 'enemy', (projectile, enemy) => {
-      const proj = projectile as Projectile;
-      if (proj.owner !== enemy.id) {
-        (enemy as any).takeDamage(proj.damage);
-        proj.deactivate();
-        this.particleSystem.spawnHitSparks(proj.position, proj.velocity.normalize());
-        this.soundManager.playPlaceholder('hit');
+      this.handleProjectileHit(projectile as Projectile, enemy);
+    });
+    
+    // Projectile hits explosive barrel
+    this.collisionSystem.onCollision('projectile', 'explosive', (projectile, barrel) => {
+      this.handleProjectileHit(projectile as Projectile, barrel);
+    });
+
+    // Projectile hits something the players defend
+    this.collisionSystem.onCollision('projectile', 'objective', (projectile, target) => {
+      this.handleProjectileHit(projectile as Projectile, target);
+    });
+
+    // Projectile flips a lever
+    this.collisionSystem.onCollision('projectile', 'switch', (projectile, lever) => {
+      this.handleProjectileHit(projectile as Projectile, lever);
+    });
+    
+    // Player touches pickup
+    this.collisionSystem.onCollision('pickup', 'player', (pickup, player) => {
+      if ((pickup as Pickup).collect(player as Player, this.weaponSystem)) {
+        this.particleSystem.spawnDust(pickup.getBounds().center);
+        this.soundManager.playPlaceholder('pickup');
+        this.events.emit('pickupCollected', { pickup, player });
       }
     });
   }
 
+  /**
+   * Apply a projectile's hit to a character, detonating explosives on contact
+   * @param hitPoint - Where it struck (defaults to the projectile's centre)
+   */
+  private handleProjectileHit(projectile: Projectile, target: Entity, hitPoint: Vec2 = projectile.getBounds().center): void {
+    // Beams deal their damage when fired - the pooled entity is only the visual
+    if (!projectile.active || projectile.kind === 'beam') return;
+
+    // Shots pass through characters they aren't allowed to hurt
+    const source: DamageSource = { ownerId: projectile.owner, team: projectile.team };
+    if (this.getDamageScale(source, target) === 0) return;
+
+    const direction = projectile.velocity.normalize();
+    const damage = projectile.getDamage();
+    if (!projectile.onHit(target)) return;
+
+    this.damageEntity(
+      target,
+      source,
+      damage,
+      direction,
+      projectile.weapon?.knockback ?? 0,
+      this.isHeadshot(hitPoint, target),
+      projectile.id
+    );
+    this.particleSystem.spawnHitSparks(hitPoint, direction);
+    this.soundManager.playPlaceholder('hit');
+
+    if (projectile.isExplosive()) {
+      this.detonate(projectile, target);
+    }
+  }
+
+  /**
+   * Get how much of a source's damage a target takes under the current friendly-fire rules
+   * @returns Damage multiplier, 0 if the target can't be hurt by the source
+   */
+  getDamageScale(source: DamageSource, target: Entity): number {
+    const policy = this.gameMode.friendlyFire;
+
+    // Neutral hazards (barrels) hurt everyone, and everyone can hurt neutral objects
+    if (source.team === 'neutral' || target.team === 'neutral') return 1;
+
+    if (target.id === source.ownerId) return policy.selfDamage ? 1 : 0;
+    if (target.team === source.team) return policy.enabled ? policy.damageScale : 0;
+    return 1;
+  }
+
+  /**
+   * Damage a player, enemy, explosive barrel or defend target (or flip a lever) and report it on the event bus
+   * @param source - Who dealt the damage (for friendly fire and kill credit)
+   * @param direction - Direction the hit travelled in, used for knockback
+   * @param knockback - Knockback impulse (0 for none)
+   * @param projectileId - The shot that struck the target directly (none for splash damage)
+   */
+  damageEntity(
+    target: Entity,
+    source: DamageSource,
+    damage: number,
+    direction: Vec2,
+    knockback: number,
+    headshot: boolean,
+    projectileId?: EntityID
+  ): void {
+    if (!target.active) return;
+
+    const scale = this.getDamageScale(source, target);
+    if (scale === 0) return;
+    damage *= scale;
+    knockback *= scale;
+
+    const shooter = this.getEntity(source.ownerId);
+    const knockbackDir = knockback > 0 ? direction : undefined;
+
+    if (target.hasTag('player')) {
+      const player = target as Player;
+      const invulnerable = player.isInvulnerable();
+      player.takeDamage(damage, knockbackDir, knockback);
+      if (!invulnerable) {
+        this.events.emit('playerDamaged', { player, amount: damage });
+      }
+      if (!player.active) {
+        this.events.emit('playerKilled', { player, source });
+      }
+    } else if (target.hasTag('enemy')) {
+      (target as Enemy).takeDamage(damage, knockbackDir, knockback);
+      if (projectileId !== undefined) {
+        this.events.emit('projectileHit', { shooter, target, damage, headshot, projectileId });
+      }
+      if (!target.active) {
+        this.events.emit('enemyKilled', { enemy: target, killer: shooter, headshot });
+      }
+    } else if (target instanceof ExplosiveBarrel) {
+      target.takeDamage(damage);
+      if (!target.active) {
+        // Whoever set the barrel off gets credit for what it kills
+        this.explosionSystem.explode({
+          position: target.getBounds().center,
+          ...ExplosiveBarrel.EXPLOSION,
+          source: { ownerId: source.ownerId, team: 'neutral' },
+        });
+      }
+    } else if (target instanceof DefendTarget) {
+      target.takeDamage(damage);
+    } else if (target instanceof Switch) {
+      target.hit();
+    }
+  }
+
+  /**
+   * Explode a projectile, damaging everything in its splash radius.
+   * Whether the shooter is caught in their own blast depends on the game mode.
+   * @param directTarget - Entity already damaged by a direct hit
+   */
+  private detonate(projectile: Projectile, directTarget?: Entity): void {
+    projectile.deactivate();
+
+    const splash = projectile.weapon?.splash;
+    if (!splash) return;
+
+    this.explosionSystem.explode({
+      position: projectile.getBounds().center,
+      radius: splash.radius,
+      damage: splash.damage,
+      knockback: projectile.weapon?.knockback ?? 0,
+      source: { ownerId: projectile.owner, team: projectile.team },
+      ignore: directTarget ? [directTarget] : [],
+    });
+  }
+
+  /**
+   * Check whether a hit point is in the top quarter of a target
+   */
+  private isHeadshot(hitPoint: Vec2, target: Entity): boolean {
+    const bounds = target.getBounds();
+    return hitPoint.y < bounds.top + bounds.height * 0.25;
+  }
+
   /**
    * Update all entities and systems for one fixed timestep
    * @param dt - Delta time in seconds (fixed timestep)
    */
   update(dt: number): void {
-    // Handle pause input (check before paused state so we can unpause)
-    if (this.inputManager.isKeyPressed('escape')) {
+    this.inputManager.pollGamepad();
+
+    // Handle pause input (check before paused state so we can unpause); any player can pause
+    if (this.pausable && this.inputManager.isActionPressedByAnyPlayer('pause')) {
       this.togglePause();
       // Update key states immediately after toggle to prevent re-triggering
       this.inputManager.updateKeyStates();
       return;
     }
 
-    // Handle debug toggle
-    if (this.inputManager.isKeyPressed('g')) {
+    // Handle debug toggles
+    if (this.inputManager.isActionPressedByAnyPlayer('toggleDebug')) {
       this.debugRenderer.toggle();
     }
+    if (this.inputManager.isActionPressedByAnyPlayer('toggleInterpolation')) {
+      this.setInterpolation(!this.interpolation);
+    }
 
     if (this.isPaused) {
+      // Nothing moves, so nothing should be drawn moving
+      this.resetInterpolation();
       // Update input states even when paused to detect unpause
       this.inputManager.updateKeyStates();
       return;
     }
+
+    this.tick++;
+    this.events.emit('tickStarted', { tick: this.tick });
+
+    // Remember where everything was, for render() to interpolate from
+    this.resetInterpolation();
     
     // Update all active entities
     for (const entity of this.entities.values()) {
@@ -181,9 +403,12 @@ export class Engine {
     // Update systems
     const activeEntities = this.getAllEntities();
     this.physicsSystem.update(activeEntities, dt);
+    this.updateProjectileMovement(dt, activeEntities);
     this.weaponSystem.update(dt);
     this.particleSystem.update(dt);
     this.projectilePool.update();
+    this.scoreSystem.update(dt);
+    this.camera.update(dt);
     
     // Handle weapon firing and projectile spawning
     this.handleProjectileSpawning();
@@ -202,6 +427,86 @@ export class Engine {
     this.inputManager.updateKeyStates();
   }
   
+  /**
+   * Move projectiles, bounce or stop them against level geometry, and detonate expired fuses.
+   * Fast projectiles (rails) are swept against characters along the way, since they
+   * travel further in a tick than the collision system's overlap test can catch.
+   */
+  private updateProjectileMovement(dt: number, entities: Entity[]): void {
+    const sweptStarts = new Map<Projectile, Vec2>();
+    for (const entity of entities) {
+      if (entity instanceof Projectile && entity.active && entity.kind !== 'beam' &&
+          entity.velocity.length() * dt > this.SWEPT_PROJECTILE_STEP) {
+        sweptStarts.set(entity, entity.getBounds().center);
+      }
+    }
+
+    const impacts = this.physicsSystem.updateProjectiles(entities, dt);
+
+    // Movement already stopped at any wall, so only characters in front of it are hit
+    for (const [projectile, start] of sweptStarts) {
+      this.sweepProjectileHits(projectile, start);
+    }
+
+    for (const impact of impacts) {
+      const projectile = impact.entity as Projectile;
+      if (!projectile.active) continue; // Stopped by a character it was swept through
+
+      if (projectile.isBouncy()) {
+        projectile.bounce(impact.normal);
+        continue;
+      }
+
+      this.particleSystem.spawnHitSparks(impact.point, projectile.velocity.normalize());
+      if (projectile.isExplosive()) {
+        this.detonate(projectile);
+      } else {
+        projectile.deactivate();
+      }
+    }
+
+    // Grenade fuses (and rockets that flew out of range)
+    for (const entity of entities) {
+      if (entity instanceof Projectile && entity.active && entity.isExplosive() && entity.isExpired()) {
+        this.detonate(entity);
+      }
+    }
+  }
+
+  /**
+   * Hit everything a projectile passed through this tick, nearest first, until it stops
+   * @param start - Centre of the projectile before it moved
+   */
+  private sweepProjectileHits(projectile: Projectile, start: Vec2): void {
+    const delta = projectile.getBounds().center.subtract(start);
+    const halfSize = projectile.size.multiply(0.5);
+
+    const hits: { entity: Entity; time: number }[] = [];
+    for (const entity of this.queryEntities(e => this.isShootable(e) && e.id !== projectile.owner)) {
+      // Inflate the target by the projectile's size so grazing hits count, as with overlap tests
+      const bounds = entity.getBounds();
+      const padded = new Rect(bounds.x - halfSize.x, bounds.y - halfSize.y, bounds.width + projectile.size.x, bounds.height + projectile.size.y);
+      const time = this.physicsSystem.intersectSegment(start, delta, padded);
+      if (time !== null) {
+        hits.push({ entity, time });
+      }
+    }
+    hits.sort((a, b) => a.time - b.time);
+
+    for (const { entity, time } of hits) {
+      if (!projectile.active) break;
+      this.handleProjectileHit(projectile, entity, start.add(delta.multiply(time)));
+    }
+  }
+
+  /**
+   * Check whether projectiles and beams can hit an entity
+   */
+  private isShootable(entity: Entity): boolean {
+    return entity.hasTag('player') || entity.hasTag('enemy') || entity.hasTag('explosive') ||
+      entity.hasTag('objective') || entity.hasTag('switch');
+  }
+
   /**
    * Handle projectile spawning from weapon system
    */
@@ -211,53 +516,93 @@ export class Engine {
   }
 
   /**
-   * Render all entities to the canvas
-   * @param _alpha - Interpolation alpha for smooth rendering (0-1) - reserved for future use
+   * Make every entity and the camera's current state its previous one, so the next
+   * render draws exactly the current state (after a jump such as a replay seek)
    */
-  render(_alpha: number): void {
+  resetInterpolation(): void {
+    for (const entity of this.entities.values()) {
+      entity.savePreviousState();
+    }
+    this.camera.savePreviousState();
+  }
+
+  /**
+   * Turn render interpolation on or off. Off draws the raw state of the last fixed
+   * update, to compare against when looking for stutter.
+   */
+  setInterpolation(enabled: boolean): void {
+    this.interpolation = enabled;
+    console.log(`[Engine] Render interpolation ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Check whether rendering interpolates between fixed updates
+   */
+  isInterpolationEnabled(): boolean {
+    return this.interpolation;
+  }
+
+  /**
+   * Render all entities to the canvas, each drawn between its previous and current
+   * fixed-update state
+   * @param alpha - Interpolation alpha between fixed updates (0-1)
+   */
+  render(alpha: number): void {
+    const { canvas, ctx } = this;
+    if (!canvas || !ctx) return; // Headless
+
+    const renderAlpha = this.interpolation ? alpha : 1;
+
     // Clear canvas
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
     
     // Apply camera transformation
-    this.ctx.save();
-    this.camera.applyTransform(this.ctx);
+    ctx.save();
+    this.camera.applyTransform(ctx, renderAlpha);
 
     // Render platforms
-    this.renderPlatforms();
+    this.renderPlatforms(ctx);
 
     // Render all active entities (with culling)
     for (const entity of this.entities.values()) {
       if (entity.active) {
         // Simple culling: only render if roughly on screen
         if (this.camera.isVisible(entity.position, 100)) {
-          entity.render(this.ctx);
+          // Draw at the interpolated position, then put the simulated one back
+          const position = entity.position;
+          entity.position = entity.getRenderPosition(renderAlpha);
+          entity.render(ctx, renderAlpha);
+          entity.position = position;
         }
       }
     }
     
     // Render particles
-    this.particleSystem.render(this.ctx);
+    this.particleSystem.render(ctx);
 
-    // Render debug overlays (in world space)
+    // Render debug overlays (in world space, at the raw simulated positions)
     if (this.debugRenderer.isEnabled()) {
-      this.debugRenderer.renderEntityDebug(this.ctx, Array.from(this.entities.values()));
-      this.debugRenderer.renderPhysicsDebug(this.ctx, this.physicsSystem);
+      this.debugRenderer.renderEntityDebug(ctx, Array.from(this.entities.values()));
+      this.debugRenderer.renderPhysicsDebug(ctx, this.physicsSystem);
+      this.debugRenderer.renderNavigationDebug(ctx, this.navigationSystem);
     }
 
     // Reset camera transformation
-    this.ctx.restore();
+    ctx.restore();
 
     // Render debug info (in screen space)
     if (this.debugRenderer.isEnabled()) {
       const player = this.queryEntities(e => e.hasTag('player'))[0];
-      this.debugRenderer.renderDebugInfo(this.ctx, {
+      this.debugRenderer.renderDebugInfo(ctx, {
         fps: this.fps,
         entityCount: this.entities.size,
         playerX: player?.position.x,
         playerY: player?.position.y,
         playerVelX: player?.velocity.x,
         playerVelY: player?.velocity.y,
-        playerGrounded: player?.hasTag('grounded')
+        playerGrounded: player?.hasTag('grounded'),
+        interpolation: this.interpolation,
+        alpha: renderAlpha,
       });
     }
 
@@ -272,47 +617,68 @@ export class Engine {
   }
 
   /**
-   * Render all platforms
+   * Render the level's tile layers, or the platforms as flat rectangles if it has none
    */
-  private renderPlatforms(): void {
+  private renderPlatforms(ctx: CanvasRenderingContext2D): void {
+    if (this.tileMapRenderer.hasTileMap()) {
+      // Pad the view for shake and interpolation, which move it after the camera update
+      const view = this.camera.getViewBounds();
+      this.tileMapRenderer.render(ctx, new Rect(view.x - 64, view.y - 64, view.width + 128, view.height + 128));
+      return;
+    }
+
     const platforms = this.physicsSystem.getPlatforms();
     
     for (const platform of platforms) {
       // Different colors for one-way vs solid platforms
       if (platform.oneWay) {
-        this.ctx.fillStyle = '#3A3A5A'; // Darker purple for one-way platforms
-        this.ctx.strokeStyle = '#5A5A8A'; // Lighter purple border
+        ctx.fillStyle = '#3A3A5A'; // Darker purple for one-way platforms
+        ctx.strokeStyle = '#5A5A8A'; // Lighter purple border
       } else {
-        this.ctx.fillStyle = '#2A2A4A'; // Dark blue for solid platforms
-        this.ctx.strokeStyle = '#4A4A6A'; // Lighter blue border
+        ctx.fillStyle = '#2A2A4A'; // Dark blue for solid platforms
+        ctx.strokeStyle = '#4A4A6A'; // Lighter blue border
       }
       
       // Draw platform
-      this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
-      this.ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
+      ctx.fillRect(platform.x, platform.y, platform.width, platform.height);
+      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height);
       
       // Add a subtle gradient effect for one-way platforms to show direction
       if (platform.oneWay) {
-        this.ctx.fillStyle = 'rgba(90, 90, 138, 0.3)';
-        this.ctx.fillRect(platform.x, platform.y, platform.width, 3);
+        ctx.fillStyle = 'rgba(90, 90, 138, 0.3)';
+        ctx.fillRect(platform.x, platform.y, platform.width, 3);
       }
     }
   }
 
   /**
-   * Get the canvas element
+   * Get the canvas element (null when headless)
    */
-  getCanvas(): HTMLCanvasElement {
+  getCanvas(): HTMLCanvasElement | null {
     return this.canvas;
   }
 
   /**
-   * Get the rendering context
+   * Get the rendering context (null when headless)
    */
-  getContext(): CanvasRenderingContext2D {
+  getContext(): CanvasRenderingContext2D | null {
     return this.ctx;
   }
 
+  /**
+   * Get the number of ticks simulated so far (paused ticks don't count)
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Check whether the engine runs without rendering, audio or DOM input
+   */
+  isHeadless(): boolean {
+    return this.canvas === null;
+  }
+
   /**
    * Clear all entities from the engine
    */
@@ -331,20 +697,81 @@ export class Engine {
    * Spawn a projectile from the pool
    */
   spawnProjectile(projectileData: any): void {
+    const weapon: WeaponDef | null = projectileData.weapon ?? null;
+    if (weapon?.projectileKind === 'beam') {
+      this.fireBeam(projectileData, weapon);
+      return;
+    }
+
+    const shooter = this.getEntity(projectileData.owner || 0);
     const projectile = this.projectilePool.acquire(
       projectileData.position,
       projectileData.direction,
       projectileData.owner || 0,
       projectileData.damage,
-      projectileData.speed
+      projectileData.speed,
+      weapon?.fuseTime ?? 3.0,
+      weapon,
+      shooter?.team ?? 'neutral'
     );
     
     if (projectile) {
+      projectile.gravity = this.physicsSystem.getGravity() * (weapon?.gravityScale ?? 0);
       this.spawn(projectile);
+      this.events.emit('shotFired', { shooter, projectileCount: 1 });
       this.particleSystem.spawnMuzzleFlash(projectileData.position, projectileData.direction);
       this.soundManager.playPlaceholder('shoot');
     }
   }
+
+  /**
+   * Fire an instant beam: damage the first character along it and show it until the next tick
+   */
+  private fireBeam(projectileData: ProjectileSpawnData & { owner?: EntityID }, weapon: WeaponDef): void {
+    const start = projectileData.position;
+    const direction = projectileData.direction.normalize();
+    const owner = projectileData.owner || 0;
+    const shooter = this.getEntity(owner);
+    const source: DamageSource = { ownerId: owner, team: shooter?.team ?? 'neutral' };
+
+    // Stop at the first platform in range
+    let delta = direction.multiply(weapon.range ?? 500);
+    const wallHit = this.physicsSystem.sweepSegment(start, delta);
+    if (wallHit) {
+      delta = delta.multiply(wallHit.time);
+    }
+
+    // Find the nearest character along the beam that it's allowed to hurt
+    let target: Entity | null = null;
+    let nearest = 1;
+    const candidates = this.queryEntities(
+      e => this.isShootable(e) && e.id !== owner && this.getDamageScale(source, e) > 0
+    );
+    for (const entity of candidates) {
+      const time = this.physicsSystem.intersectSegment(start, delta, entity.getBounds());
+      if (time !== null && time <= nearest) {
+        nearest = time;
+        target = entity;
+      }
+    }
+
+    const end = start.add(delta.multiply(target ? nearest : 1));
+
+    const projectile = this.projectilePool.acquire(start, direction, owner, projectileData.damage, 0, 1 / weapon.fireRate, weapon, source.team);
+    if (projectile) {
+      projectile.beamEnd = end;
+      this.spawn(projectile);
+    }
+
+    this.events.emit('shotFired', { shooter, projectileCount: 1 });
+
+    if (target) {
+      this.damageEntity(target, source, projectileData.damage, direction, weapon.knockback ?? 0, this.isHeadshot(end, target), projectile?.id);
+      this.particleSystem.spawnHitSparks(end, direction);
+    } else if (wallHit) {
+      this.particleSystem.spawnHitSparks(end, direction);
+    }
+  }
   
   /**
    * Toggle pause state
@@ -382,6 +809,20 @@ export class Engine {
     this.gameState = state;
   }
   
+  /**
+   * Set the game mode, which decides friendly-fire rules
+   */
+  setGameMode(mode: GameMode): void {
+    this.gameMode = mode;
+  }
+
+  /**
+   * Get the current game mode
+   */
+  getGameMode(): GameMode {
+    return this.gameMode;
+  }
+  
   /**
    * Get game state
    */
@@ -394,6 +835,7 @@ export class Engine {
    */
   destroy(): void {
     this.inputManager.cleanup();
+    this.soundManager.close();
     this.clear();
   }
 }
@@ -0,0 +1,64 @@
+import { Entity } from '../entities/Entity';
+import type { DamageSource, EntityID } from '../types';
+
+/**
+ * Gameplay events and their payloads
+ */
+export interface GameEventMap {
+  shotFired: { shooter: Entity | undefined; projectileCount: number };
+  projectileHit: { shooter: Entity | undefined; target: Entity; damage: number; headshot: boolean; projectileId: EntityID }; // Direct hits only, not splash
+  enemyKilled: { enemy: Entity; killer: Entity | undefined; headshot: boolean };
+  playerDamaged: { player: Entity; amount: number };
+  playerKilled: { player: Entity; source: DamageSource }; // Source credits the kill even if the killer is gone
+  pickupCollected: { pickup: Entity; player: Entity };
+  tickStarted: { tick: number }; // Input is final and nothing has moved yet
+}
+
+/**
+ * Event listener function type
+ */
+export type GameEventListener<K extends keyof GameEventMap> = (event: GameEventMap[K]) => void;
+
+/**
+ * EventBus lets systems react to gameplay events without the engine knowing about them.
+ */
+export class EventBus {
+  private listeners: { [K in keyof GameEventMap]?: GameEventListener<K>[] } = {};
+
+  /**
+   * Register a listener for an event type
+   * @param type - The event to listen for
+   * @param listener - Function to call when the event is emitted
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof GameEventMap>(type: K, listener: GameEventListener<K>): () => void {
+    const list = (this.listeners[type] ??= []) as GameEventListener<K>[];
+    list.push(listener);
+
+    return () => {
+      const index = list.indexOf(listener);
+      if (index !== -1) list.splice(index, 1);
+    };
+  }
+
+  /**
+   * Notify all listeners of an event
+   * @param type - The event type
+   * @param event - The event payload
+   */
+  emit<K extends keyof GameEventMap>(type: K, event: GameEventMap[K]): void {
+    const list = this.listeners[type] as GameEventListener<K>[] | undefined;
+    if (!list) return;
+
+    for (const listener of [...list]) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  clear(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,63 @@
+import { Vec2 } from '../types/Vec2';
+
+/**
+ * Button indices of the W3C "standard" gamepad mapping (Xbox names)
+ */
+export const GAMEPAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  BACK: 8,
+  START: 9,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15,
+} as const;
+
+export const MOVE_DEADZONE = 0.25; // Left stick
+export const AIM_DEADZONE = 0.3; // Right stick
+export const BUTTON_THRESHOLD = 0.5; // Analog triggers count as pressed past this
+
+/**
+ * Get all connected gamepads in slot order (empty without the Gamepad API)
+ */
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+
+  return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+}
+
+/**
+ * Get the first connected gamepad, or null if there is none (or no Gamepad API)
+ */
+export function getActiveGamepad(): Gamepad | null {
+  return getConnectedGamepads()[0] ?? null;
+}
+
+/**
+ * Check whether a button is held (analog triggers use BUTTON_THRESHOLD)
+ */
+export function isGamepadButtonDown(pad: Gamepad, index: number): boolean {
+  const button = pad.buttons[index];
+  return button !== undefined && (button.pressed || button.value > BUTTON_THRESHOLD);
+}
+
+/**
+ * Read a stick with a radial deadzone, rescaled so output starts at 0 at the deadzone edge
+ * @param xAxis - Index of the stick's horizontal axis
+ * @returns Stick position with length 0-1
+ */
+export function readStick(pad: Gamepad, xAxis: number, deadzone: number): Vec2 {
+  const raw = new Vec2(pad.axes[xAxis] ?? 0, pad.axes[xAxis + 1] ?? 0);
+  const length = raw.length();
+  if (length <= deadzone) return new Vec2(0, 0);
+
+  const scaled = Math.min(1, (length - deadzone) / (1 - deadzone));
+  return raw.normalize().multiply(scaled);
+}
@@ -0,0 +1,162 @@
+import { Engine } from './Engine';
+import { ScriptedInput } from './ScriptedInput';
+import { LevelManager } from '../systems/LevelManager';
+import { Level, GameMode } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { GAME_MODE_COOP } from '../data/gameModes';
+
+/**
+ * Options for a headless simulation
+ */
+export interface HeadlessGameOptions {
+  level: Level;
+  levelIndex?: number;
+  seed?: number; // Defaults to 1 so runs are reproducible unless asked otherwise
+  lives?: number;
+  players?: number; // Local players, 2 for co-op (defaults to 1)
+  gameMode?: GameMode; // Defaults to co-op rules with 2 players
+  survival?: boolean; // Play the level as a wave survival arena (runs until the players are out)
+  input?: ScriptedInput; // Player input timeline (no input if omitted)
+  canvas?: HTMLCanvasElement; // Also render to this canvas (replay playback)
+}
+
+/**
+ * How a simulation has ended so far
+ */
+export type SimulationOutcome = 'playing' | 'levelComplete' | 'gameOver';
+
+/**
+ * Snapshot of a simulation's state, for assertions
+ */
+export interface SimulationSummary {
+  seed: number;
+  tick: number;
+  outcome: SimulationOutcome;
+  playerHealth: number; // Player 1, 0 while dead
+  playerPosition: { x: number; y: number } | null;
+  livesRemaining: number;
+  enemiesRemaining: number;
+  score: number;
+}
+
+/**
+ * HeadlessGame runs a level without a canvas, audio or DOM input, stepping the same
+ * fixed-timestep update GameCanvas uses. With the same seed and input it always
+ * produces the same result, so it can drive automated tests.
+ * Given a canvas it can also be rendered, which is how replays are played back.
+ */
+export class HeadlessGame {
+  static readonly FIXED_TIMESTEP = 1 / 60; // Matches GameLoop
+
+  readonly engine: Engine;
+  readonly levelManager: LevelManager;
+  readonly input: ScriptedInput;
+
+  private tick: number = 0;
+  private outcome: SimulationOutcome = 'playing';
+
+  constructor(options: HeadlessGameOptions) {
+    const { level, levelIndex = 0, seed = 1, lives = 1 } = options;
+
+    this.engine = new Engine(options.canvas ?? null, { seed, domInput: false });
+    this.input = options.input ?? new ScriptedInput();
+    const players = options.players ?? 1;
+    const gameMode = options.gameMode ?? (players > 1 ? GAME_MODE_COOP : undefined);
+    if (gameMode) {
+      this.engine.setGameMode(gameMode);
+    }
+
+    this.levelManager = new LevelManager(
+      this.engine,
+      this.engine.physicsSystem,
+      this.engine.navigationSystem,
+      this.engine.weaponSystem,
+      this.engine.inputManager
+    );
+    this.levelManager.setOnLevelComplete(() => {
+      this.outcome = 'levelComplete';
+    });
+    this.levelManager.setOnPlayerDeath(() => {
+      this.outcome = 'gameOver';
+    });
+
+    this.levelManager.setPlayerCount(players);
+    this.levelManager.setSurvival(options.survival ?? false);
+    this.levelManager.setLives(lives);
+    this.levelManager.loadLevel(level, levelIndex);
+    this.engine.camera.setBounds(level.bounds.width, level.bounds.height);
+    this.engine.camera.centerOn(new Vec2(level.playerSpawn.x, level.playerSpawn.y));
+    this.engine.camera.savePreviousState();
+  }
+
+  /**
+   * Advance the simulation by one fixed tick
+   */
+  step(): void {
+    this.input.apply(this.tick, this.engine.inputManager);
+
+    const dt = HeadlessGame.FIXED_TIMESTEP;
+    const engineTick = this.engine.getTick();
+    this.engine.update(dt);
+
+    // Level logic only runs on ticks the engine simulated, as in GameCanvas
+    if (this.engine.getTick() !== engineTick) {
+      this.levelManager.update(dt);
+    }
+
+    this.engine.camera.followGroup(this.levelManager.getActivePlayers());
+
+    this.tick++;
+  }
+
+  /**
+   * Run for a number of ticks, stopping early if the level ends
+   * @returns The state after the last tick
+   */
+  run(ticks: number): SimulationSummary {
+    for (let i = 0; i < ticks && this.outcome === 'playing'; i++) {
+      this.step();
+    }
+    return this.getSummary();
+  }
+
+  /**
+   * Get the number of ticks simulated so far
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get how the level has ended ('playing' if it hasn't)
+   */
+  getOutcome(): SimulationOutcome {
+    return this.outcome;
+  }
+
+  /**
+   * Summarise the current state
+   */
+  getSummary(): SimulationSummary {
+    const player = this.levelManager.getPlayer();
+    const alive = player !== null && player.active;
+
+    return {
+      seed: this.engine.random.getSeed(),
+      tick: this.tick,
+      outcome: this.outcome,
+      playerHealth: alive ? player.health : 0,
+      playerPosition: alive ? { x: player.position.x, y: player.position.y } : null,
+      livesRemaining: this.levelManager.getLives(),
+      enemiesRemaining: this.levelManager.getRemainingEnemyCount(),
+      score: this.engine.scoreSystem.getCurrentScore(),
+    };
+  }
+
+  /**
+   * Release the engine
+   */
+  destroy(): void {
+    this.engine.destroy();
+  }
+}
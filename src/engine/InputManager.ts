@@ -1,15 +1,87 @@
 import { Vec2 } from '../types/Vec2';
+import { ControlBindings, GameAction, InputBinding } from '../types';
+import { DEFAULT_BINDINGS, PLAYER_TWO_BINDINGS } from '../data/controls';
 import type { Camera } from './Camera';
+import {
+  GAMEPAD_BUTTONS,
+  MOVE_DEADZONE,
+  AIM_DEADZONE,
+  getConnectedGamepads,
+  isGamepadButtonDown,
+  readStick,
+} from './Gamepad';
 
 /**
- * InputManager handles all keyboard and mouse input for the game.
- * It tracks key states, mouse position, and mouse button states.
+ * Gamepad buttons and the actions they trigger
+ */
+const GAMEPAD_ACTION_BINDINGS: [number, GameAction][] = [
+  [GAMEPAD_BUTTONS.A, 'jump'],
+  [GAMEPAD_BUTTONS.RT, 'fire'],
+  [GAMEPAD_BUTTONS.RB, 'fire'],
+  [GAMEPAD_BUTTONS.Y, 'swapWeapon'],
+  [GAMEPAD_BUTTONS.LB, 'swapWeapon'],
+  [GAMEPAD_BUTTONS.X, 'reload'],
+  [GAMEPAD_BUTTONS.START, 'pause'],
+  [GAMEPAD_BUTTONS.DPAD_LEFT, 'moveLeft'],
+  [GAMEPAD_BUTTONS.DPAD_RIGHT, 'moveRight'],
+];
+
+/**
+ * Device the player last aimed with
+ */
+export type AimDevice = 'mouse' | 'gamepad';
+
+/**
+ * Action state of one local player
+ */
+interface PlayerSlot {
+  bindings: ControlBindings;
+  gamepadActions: Set<GameAction>; // Actions currently held via the player's gamepad
+  scriptedActions: Set<GameAction>; // Actions held by scripts and replays
+  previousActions: Set<GameAction>;
+  stickAim: Vec2; // Last right-stick direction
+  aimDevice: AimDevice; // Only player 1 aims with the mouse
+}
+
+function createSlot(bindings: ControlBindings): PlayerSlot {
+  return {
+    bindings: { ...bindings },
+    gamepadActions: new Set(),
+    scriptedActions: new Set(),
+    previousActions: new Set(),
+    stickAim: new Vec2(1, 0),
+    aimDevice: 'mouse',
+  };
+}
+
+/**
+ * Check whether a key event is aimed at a form field that takes typing
+ */
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
+
+/**
+ * InputManager handles all keyboard, mouse and gamepad input for the game.
+ * It tracks key states, mouse position, and mouse button states, and maps them
+ * to game actions through rebindable ControlBindings; gameplay code queries actions.
+ * Each local player (two in co-op) has their own bindings and action state; the
+ * player index defaults to 0 everywhere. The mouse always belongs to player 1.
+ * Gamepads are polled once per tick and trigger actions directly
+ * (left stick and d-pad move, triggers fire), plus a right-stick aim direction.
+ * With one player the first gamepad is theirs; in co-op the first goes to player 2
+ * and a second one to player 1.
+ * Without a canvas (headless) no devices are read; state is set through setActionState,
+ * setKeyState, setMouseButtonState, setMousePosition and setStickAim instead (see ScriptedInput).
  */
 export class InputManager {
   private keys: Map<string, boolean> = new Map();
+  private slots: PlayerSlot[] = [createSlot(DEFAULT_BINDINGS)];
   private previousKeys: Map<string, boolean> = new Map();
   private mousePos: Vec2 = new Vec2(0, 0);
   private mouseButtons: Map<number, boolean> = new Map();
+  private previousMouseButtons: Map<number, boolean> = new Map();
+  private worldAim: Vec2 | null = null; // Overrides the mouse for aiming (replays, scripts)
   private canvas: HTMLCanvasElement | null = null;
 
   /**
@@ -43,10 +115,10 @@ export class InputManager {
    * Remove all event listeners (cleanup)
    */
   cleanup(): void {
-    window.removeEventListener('keydown', this.handleKeyDown);
-    window.removeEventListener('keyup', this.handleKeyUp);
-
+    // Listeners are only attached once initialized with a canvas
     if (this.canvas) {
+      window.removeEventListener('keydown', this.handleKeyDown);
+      window.removeEventListener('keyup', this.handleKeyUp);
       this.canvas.removeEventListener('mousemove', this.handleMouseMove);
       this.canvas.removeEventListener('mousedown', this.handleMouseDown);
       this.canvas.removeEventListener('mouseup', this.handleMouseUp);
@@ -60,10 +132,17 @@ export class InputManager {
    * Handle keydown events
    */
   private handleKeyDown = (event: KeyboardEvent): void => {
-    this.keys.set(event.key.toLowerCase(), true);
+    // Typing into a text field (e.g. in the level editor) isn't game input
+    if (isTextField(event.target)) return;
+
+    this.setKeyState(event.key, true);
     
-    // Prevent default behavior for game keys
-    if (['w', 'a', 's', 'd', ' ', 'f', 'escape'].includes(event.key.toLowerCase())) {
+    // Prevent default behavior (scrolling etc.) for bound keys
+    const key = event.key.toLowerCase();
+    const bound = this.slots.some(slot =>
+      Object.values(slot.bindings).some(binding => binding.type === 'key' && binding.key === key)
+    );
+    if (bound) {
       event.preventDefault();
     }
   };
@@ -72,7 +151,7 @@ export class InputManager {
    * Handle keyup events
    */
   private handleKeyUp = (event: KeyboardEvent): void => {
-    this.keys.set(event.key.toLowerCase(), false);
+    this.setKeyState(event.key, false);
   };
 
   /**
@@ -82,17 +161,18 @@ export class InputManager {
     if (!this.canvas) return;
 
     const rect = this.canvas.getBoundingClientRect();
-    this.mousePos.set(
+    this.setMousePosition(new Vec2(
       event.clientX - rect.left,
       event.clientY - rect.top
-    );
+    ));
+    this.getSlot(0).aimDevice = 'mouse'; // Moving the mouse takes aim back from the stick
   };
 
   /**
    * Handle mouse button down events
    */
   private handleMouseDown = (event: MouseEvent): void => {
-    this.mouseButtons.set(event.button, true);
+    this.setMouseButtonState(event.button, true);
     event.preventDefault();
   };
 
@@ -100,9 +180,136 @@ export class InputManager {
    * Handle mouse button up events
    */
   private handleMouseUp = (event: MouseEvent): void => {
-    this.mouseButtons.set(event.button, false);
+    this.setMouseButtonState(event.button, false);
   };
 
+  /**
+   * Set whether a key is held
+   * @param key - The key (case-insensitive)
+   */
+  setKeyState(key: string, down: boolean): void {
+    this.keys.set(key.toLowerCase(), down);
+  }
+
+  /**
+   * Set whether a mouse button is held
+   * @param button - The mouse button (0 = left, 1 = middle, 2 = right)
+   */
+  setMouseButtonState(button: number, down: boolean): void {
+    this.mouseButtons.set(button, down);
+  }
+
+  /**
+   * Set the mouse position relative to the canvas (screen coordinates)
+   */
+  setMousePosition(position: Vec2): void {
+    this.mousePos.set(position.x, position.y);
+  }
+
+  /**
+   * Set the number of local players. New players start with the player 2 key set.
+   */
+  setPlayerCount(count: number): void {
+    if (count < 1) {
+      throw new Error(`[InputManager] Player count must be at least 1, got ${count}`);
+    }
+    while (this.slots.length < count) {
+      this.slots.push(createSlot(PLAYER_TWO_BINDINGS));
+    }
+    this.slots.length = count;
+  }
+
+  /**
+   * Get the number of local players
+   */
+  getPlayerCount(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Get a player's input state
+   * @throws If there is no such player
+   */
+  private getSlot(player: number): PlayerSlot {
+    const slot = this.slots[player];
+    if (!slot) {
+      throw new Error(`[InputManager] No input for player ${player}`);
+    }
+    return slot;
+  }
+
+  /**
+   * Replace a player's control bindings
+   */
+  setBindings(bindings: ControlBindings, player: number = 0): void {
+    this.getSlot(player).bindings = { ...bindings };
+  }
+
+  /**
+   * Get a player's control bindings
+   */
+  getBindings(player: number = 0): ControlBindings {
+    return { ...this.getSlot(player).bindings };
+  }
+
+  /**
+   * Hold or release an action directly, regardless of bindings (scripts and replays)
+   */
+  setActionState(action: GameAction, down: boolean, player: number = 0): void {
+    const slot = this.getSlot(player);
+    if (down) {
+      slot.scriptedActions.add(action);
+    } else {
+      slot.scriptedActions.delete(action);
+    }
+  }
+
+  /**
+   * Check if the key or button bound to an input is held
+   */
+  private isBindingDown(binding: InputBinding): boolean {
+    return binding.type === 'key' ? this.isKeyDown(binding.key) : this.isMouseButtonDown(binding.button);
+  }
+
+  /**
+   * Check if an action is currently held (by its binding, the gamepad or a script)
+   */
+  isActionDown(action: GameAction, player: number = 0): boolean {
+    const slot = this.getSlot(player);
+    return this.isBindingDown(slot.bindings[action]) ||
+      slot.gamepadActions.has(action) ||
+      slot.scriptedActions.has(action);
+  }
+
+  /**
+   * Check if an action was just pressed this frame (not held)
+   */
+  isActionPressed(action: GameAction, player: number = 0): boolean {
+    return this.isActionDown(action, player) && !this.getSlot(player).previousActions.has(action);
+  }
+
+  /**
+   * Check if an action was just released this frame
+   */
+  isActionReleased(action: GameAction, player: number = 0): boolean {
+    return !this.isActionDown(action, player) && this.getSlot(player).previousActions.has(action);
+  }
+
+  /**
+   * Check if any player just pressed an action (for shared actions like pause)
+   */
+  isActionPressedByAnyPlayer(action: GameAction): boolean {
+    return this.slots.some((_, player) => this.isActionPressed(action, player));
+  }
+
+  /**
+   * Get the actions a player currently holds
+   */
+  getHeldActions(player: number = 0): GameAction[] {
+    const slot = this.getSlot(player);
+    return (Object.keys(slot.bindings) as GameAction[]).filter(action => this.isActionDown(action, player));
+  }
+
   /**
    * Check if a key is currently pressed
    * @param key - The key to check (case-insensitive)
@@ -117,7 +324,7 @@ export class InputManager {
    */
   isKeyPressed(key: string): boolean {
     const keyLower = key.toLowerCase();
-    const current = this.keys.get(keyLower) || false;
+    const current = this.isKeyDown(keyLower);
     const previous = this.previousKeys.get(keyLower) || false;
     return current && !previous;
   }
@@ -127,8 +334,62 @@ export class InputManager {
    */
   updateKeyStates(): void {
     this.previousKeys.clear();
-    for (const [key, value] of this.keys.entries()) {
-      this.previousKeys.set(key, value);
+    for (const key of this.getHeldKeys()) {
+      this.previousKeys.set(key, true);
+    }
+
+    this.previousMouseButtons.clear();
+    for (const button of this.getHeldMouseButtons()) {
+      this.previousMouseButtons.set(button, true);
+    }
+
+    this.slots.forEach((slot, player) => {
+      slot.previousActions = new Set(this.getHeldActions(player));
+    });
+  }
+
+  /**
+   * Read the gamepads into the input state (call at the start of each update cycle).
+   * Does nothing unless initialized with a canvas, so scripted input isn't overridden.
+   */
+  pollGamepad(): void {
+    if (!this.canvas) return;
+
+    // Player 1 has the mouse and keyboard, so in co-op the first pad goes to player 2
+    const owners = this.slots.length > 1 ? [1, 0] : [0];
+    const pads = getConnectedGamepads();
+
+    owners.forEach((player, padIndex) => {
+      const slot = this.getSlot(player);
+      slot.gamepadActions.clear();
+
+      const pad = pads[padIndex];
+      if (pad) {
+        this.readGamepad(pad, slot);
+      }
+    });
+  }
+
+  /**
+   * Read one gamepad into a player's input state
+   */
+  private readGamepad(pad: Gamepad, slot: PlayerSlot): void {
+    for (const [button, action] of GAMEPAD_ACTION_BINDINGS) {
+      if (isGamepadButtonDown(pad, button)) {
+        slot.gamepadActions.add(action);
+      }
+    }
+
+    // Left stick moves
+    const move = readStick(pad, 0, MOVE_DEADZONE);
+    if (move.x < 0) slot.gamepadActions.add('moveLeft');
+    if (move.x > 0) slot.gamepadActions.add('moveRight');
+
+    // Right stick aims; pushing it takes aim from the mouse
+    const aim = readStick(pad, 2, AIM_DEADZONE);
+    if (aim.length() > 0) {
+      slot.stickAim = aim.normalize();
+      slot.aimDevice = 'gamepad';
     }
   }
 
@@ -144,9 +405,72 @@ export class InputManager {
    * @param camera - The camera to use for coordinate conversion
    */
   getWorldMousePosition(camera: Camera): Vec2 {
+    if (this.worldAim) {
+      return this.worldAim.clone();
+    }
     return camera.screenToWorld(this.mousePos);
   }
 
+  /**
+   * Get a player's right-stick aim direction, or null when the mouse is aiming
+   * (or, for players without a mouse, when they haven't aimed with a stick)
+   */
+  getStickAim(player: number = 0): Vec2 | null {
+    const slot = this.getSlot(player);
+    return slot.aimDevice === 'gamepad' ? slot.stickAim.clone() : null;
+  }
+
+  /**
+   * Aim with a stick direction (scripts and replays)
+   * @param direction - Aim direction, or null to aim with the mouse
+   */
+  setStickAim(direction: Vec2 | null, player: number = 0): void {
+    const slot = this.getSlot(player);
+    if (direction) {
+      slot.stickAim = direction.normalize();
+      slot.aimDevice = 'gamepad';
+    } else {
+      slot.aimDevice = 'mouse';
+    }
+  }
+
+  /**
+   * Get the device a player last aimed with
+   */
+  getAimDevice(player: number = 0): AimDevice {
+    return this.getSlot(player).aimDevice;
+  }
+
+  /**
+   * Aim at a fixed world position instead of following the mouse
+   * @param position - World position, or null to follow the mouse again
+   */
+  setWorldAim(position: Vec2 | null): void {
+    this.worldAim = position ? position.clone() : null;
+  }
+
+  /**
+   * Get the keys currently held down
+   */
+  getHeldKeys(): string[] {
+    const held = new Set<string>();
+    for (const [key, down] of this.keys) {
+      if (down) held.add(key);
+    }
+    return [...held];
+  }
+
+  /**
+   * Get the mouse buttons currently held down
+   */
+  getHeldMouseButtons(): number[] {
+    const held = new Set<number>();
+    for (const [button, down] of this.mouseButtons) {
+      if (down) held.add(button);
+    }
+    return [...held];
+  }
+
   /**
    * Check if a mouse button is currently pressed
    * @param button - The mouse button (0 = left, 1 = middle, 2 = right)
@@ -156,10 +480,31 @@ export class InputManager {
   }
 
   /**
-   * Reset all input states (useful for pause/unpause)
+   * Check if a mouse button was just pressed this frame (not held)
+   * @param button - The mouse button (0 = left, 1 = middle, 2 = right)
+   */
+  isMouseButtonPressed(button: number): boolean {
+    return this.isMouseButtonDown(button) && !(this.previousMouseButtons.get(button) || false);
+  }
+
+  /**
+   * Check if a mouse button was just released this frame
+   * @param button - The mouse button (0 = left, 1 = middle, 2 = right)
+   */
+  isMouseButtonReleased(button: number): boolean {
+    return !this.isMouseButtonDown(button) && (this.previousMouseButtons.get(button) || false);
+  }
+
+  /**
+   * Reset keyboard, mouse and scripted action states (useful for pause/unpause)
    */
   reset(): void {
     this.keys.clear();
     this.mouseButtons.clear();
+    for (const slot of this.slots) {
+      slot.scriptedActions.clear();
+    }
+    // Gamepad state is re-read every tick, so it is kept - otherwise a held
+    // Start button would count as pressed again right after pausing
   }
 }
@@ -0,0 +1,133 @@
+import type { InputManager } from './InputManager';
+import type { Camera } from './Camera';
+import type { GameAction } from '../types';
+import { PlayerReplayFrame, Replay, ReplayFrame, REPLAY_VERSION } from './Replay';
+
+/**
+ * Actions that control the game shell rather than the simulation
+ */
+const IGNORED_ACTIONS: GameAction[] = ['pause', 'toggleDebug', 'toggleInterpolation'];
+
+/**
+ * InputRecorder captures the input seen by each simulated tick into a Replay.
+ * Only changes are stored, so idle stretches cost nothing. In co-op player 2's
+ * actions and stick aim go in each frame's p2 entry.
+ */
+export class InputRecorder {
+  private levelIndex: number;
+  private seed: number;
+  private lives: number;
+  private players: number;
+  private survival: boolean;
+  private frames: ReplayFrame[] = [];
+  private tick: number = 0;
+  private pendingReset: boolean = false;
+
+  // Last recorded state, for change detection
+  private lastActions: string[]; // Per player
+  private lastAim: [number, number] | null = null;
+  private lastStickAim: string[]; // Per player
+
+  /**
+   * @param levelIndex - Level being played
+   * @param seed - The engine's RNG seed
+   * @param lives - Lives at the start of the level
+   * @param players - Local players (2 for co-op)
+   * @param survival - Whether the level is played as a wave survival arena
+   */
+  constructor(levelIndex: number, seed: number, lives: number, players: number = 1, survival: boolean = false) {
+    this.levelIndex = levelIndex;
+    this.seed = seed;
+    this.lives = lives;
+    this.players = players;
+    this.survival = survival;
+    this.lastActions = new Array<string>(players).fill('');
+    this.lastStickAim = new Array<string>(players).fill('mouse');
+  }
+
+  /**
+   * Record the input used by the tick about to run.
+   * Call on the engine's tickStarted event, so mouse aim is converted with the camera the tick sees.
+   */
+  record(input: InputManager, camera: Camera): void {
+    const frame: ReplayFrame = { t: this.tick };
+
+    // A reset clears held input on playback, so store the full state after one
+    const reset = this.pendingReset;
+    this.pendingReset = false;
+    if (reset) {
+      frame.r = 1;
+    }
+
+    this.recordPlayer(input, 0, reset, frame);
+
+    const aim = input.getWorldMousePosition(camera);
+    if (!this.lastAim || this.lastAim[0] !== aim.x || this.lastAim[1] !== aim.y) {
+      frame.a = [aim.x, aim.y];
+      this.lastAim = frame.a;
+    }
+
+    if (this.players > 1) {
+      const p2: PlayerReplayFrame = {};
+      this.recordPlayer(input, 1, reset, p2);
+      if (Object.keys(p2).length > 0) {
+        frame.p2 = p2;
+      }
+    }
+
+    // Ticks where nothing changed aren't stored
+    if (Object.keys(frame).length > 1) {
+      this.frames.push(frame);
+    }
+    this.tick++;
+  }
+
+  /**
+   * Record one player's held actions and stick aim where they changed
+   */
+  private recordPlayer(input: InputManager, player: number, reset: boolean, frame: PlayerReplayFrame): void {
+    const actions = input.getHeldActions(player).filter(action => !IGNORED_ACTIONS.includes(action)).sort();
+    const actionsId = actions.join(',');
+    if (reset || actionsId !== this.lastActions[player]) {
+      frame.h = actions;
+      this.lastActions[player] = actionsId;
+    }
+
+    const stickAim = input.getStickAim(player);
+    const stickAimId = stickAim ? `${stickAim.x},${stickAim.y}` : 'mouse';
+    if (stickAimId !== this.lastStickAim[player]) {
+      frame.s = stickAim ? [stickAim.x, stickAim.y] : null;
+      this.lastStickAim[player] = stickAimId;
+    }
+  }
+
+  /**
+   * Note that input was reset (the game was paused or resumed) before the next tick
+   */
+  markInputReset(): void {
+    this.pendingReset = true;
+  }
+
+  /**
+   * Get the number of ticks recorded so far
+   */
+  getTickCount(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get the recording so far
+   */
+  getReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      levelIndex: this.levelIndex,
+      seed: this.seed,
+      lives: this.lives,
+      players: this.players,
+      ...(this.survival ? { survival: true } : {}),
+      tickCount: this.tick,
+      frames: [...this.frames],
+    };
+  }
+}
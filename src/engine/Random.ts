@@ -0,0 +1,79 @@
+/**
+ * Random is a small seeded pseudo-random number generator (mulberry32).
+ * All gameplay randomness goes through one instance owned by the Engine,
+ * so the same seed and inputs always play out the same way.
+ */
+export class Random {
+  private seed: number;
+  private state: number;
+
+  /**
+   * Create a generator
+   * @param seed - 32-bit seed; a random one is picked if omitted
+   */
+  constructor(seed: number = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Pick a seed for runs that don't need to be reproducible
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Get the next number in [0, 1), like Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Get a number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Pick a random element of an array (undefined if empty)
+   */
+  pick<T>(items: readonly T[]): T | undefined {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Restart the sequence from a new seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed the current sequence started from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get the generator's position in its sequence, for snapshots
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore a position saved with getState
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
@@ -0,0 +1,87 @@
+import type { GameAction } from '../types';
+
+/**
+ * Input at the start of one tick, stored only for ticks where something changed
+ */
+export interface ReplayFrame {
+  t: number; // Tick index
+  h?: GameAction[]; // Actions held (full set, present when it changed)
+  a?: [number, number]; // World-space aim (present when it changed)
+  s?: [number, number] | null; // Right-stick aim direction, null when the mouse aims (present when it changed)
+  r?: 1; // Input was reset before this tick (pause/unpause)
+  p2?: PlayerReplayFrame; // Player 2's changes (co-op only)
+}
+
+/**
+ * Changes to another co-op player's input at the start of a tick (they have no mouse)
+ */
+export interface PlayerReplayFrame {
+  h?: GameAction[]; // Actions held (full set, present when it changed)
+  s?: [number, number] | null; // Right-stick aim direction, null when not stick-aiming (present when it changed)
+}
+
+/**
+ * A recorded run: everything needed to reproduce it with the deterministic engine
+ */
+export interface Replay {
+  version: number;
+  levelIndex: number;
+  seed: number;
+  lives: number; // Lives at the start of the level
+  players?: number; // Local players (2 for co-op, 1 if omitted)
+  survival?: boolean; // Played as a wave survival arena
+  tickCount: number; // Ticks simulated
+  frames: ReplayFrame[];
+}
+
+// 2: held actions instead of raw keys and mouse buttons, so replays don't depend on bindings
+export const REPLAY_VERSION = 2;
+
+/**
+ * Serialise a replay for saving or sharing
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay file, checking it can be played back
+ * @throws If the data isn't a replay this version understands
+ */
+export function parseReplay(json: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('[Replay] File is not valid JSON');
+  }
+
+  const replay = data as Partial<Replay> | null;
+  if (!replay || typeof replay !== 'object') {
+    throw new Error('[Replay] File does not contain a replay');
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`[Replay] Unsupported version ${String(replay.version)} (expected ${REPLAY_VERSION})`);
+  }
+
+  const numbers: (keyof Replay)[] = ['levelIndex', 'seed', 'lives', 'tickCount'];
+  for (const field of numbers) {
+    if (typeof replay[field] !== 'number') {
+      throw new Error(`[Replay] Missing or invalid "${field}"`);
+    }
+  }
+
+  if (replay.players !== undefined && replay.players !== 1 && replay.players !== 2) {
+    throw new Error('[Replay] Invalid "players" (expected 1 or 2)');
+  }
+
+  if (replay.survival !== undefined && typeof replay.survival !== 'boolean') {
+    throw new Error('[Replay] Invalid "survival" (expected true or false)');
+  }
+
+  if (!Array.isArray(replay.frames) || replay.frames.some(frame => typeof frame?.t !== 'number')) {
+    throw new Error('[Replay] Missing or invalid "frames"');
+  }
+
+  return replay as Replay;
+}
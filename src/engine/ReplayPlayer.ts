@@ -0,0 +1,167 @@
+import { HeadlessGame } from './HeadlessGame';
+import { ScriptedInput } from './ScriptedInput';
+import { Replay } from './Replay';
+import { getLevel } from '../data/levels';
+
+/**
+ * ReplayPlayer plays a recorded run back on a canvas by feeding its inputs through
+ * a fresh engine with the same seed. Supports pause, playback speed and seeking;
+ * seeking backwards re-simulates from the start, since the engine is deterministic.
+ */
+export class ReplayPlayer {
+  static readonly SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+  private replay: Replay;
+  private canvas: HTMLCanvasElement;
+  private input: ScriptedInput;
+  private game: HeadlessGame;
+  private paused: boolean = false;
+  private speed: number = 1;
+  private accumulator: number = 0; // Replay time not yet simulated, in seconds
+  private viewport: { width: number; height: number } | null = null;
+
+  constructor(replay: Replay, canvas: HTMLCanvasElement) {
+    this.replay = replay;
+    this.canvas = canvas;
+    this.input = ScriptedInput.fromReplay(replay);
+    this.game = this.createGame();
+  }
+
+  /**
+   * Start a new simulation of the replay at tick 0
+   */
+  private createGame(): HeadlessGame {
+    const level = getLevel(this.replay.levelIndex);
+    if (!level) {
+      throw new Error(`[ReplayPlayer] Replay is for unknown level ${this.replay.levelIndex}`);
+    }
+
+    const game = new HeadlessGame({
+      level,
+      levelIndex: this.replay.levelIndex,
+      seed: this.replay.seed,
+      lives: this.replay.lives,
+      players: this.replay.players,
+      survival: this.replay.survival,
+      input: this.input,
+      canvas: this.canvas,
+    });
+
+    if (this.viewport) {
+      game.engine.camera.setViewportSize(this.viewport.width, this.viewport.height);
+    }
+    return game;
+  }
+
+  /**
+   * Advance playback by one fixed timestep of real time, scaled by the playback speed
+   * @param dt - Real time elapsed in seconds
+   */
+  update(dt: number): void {
+    if (this.paused || this.isFinished()) return;
+
+    this.accumulator += dt * this.speed;
+    while (this.accumulator >= HeadlessGame.FIXED_TIMESTEP && !this.isFinished()) {
+      this.game.step();
+      this.accumulator -= HeadlessGame.FIXED_TIMESTEP;
+    }
+  }
+
+  /**
+   * Render the current tick. Playback runs on its own clock (it can be paused or
+   * sped up), so the interpolation alpha comes from that rather than the game loop.
+   */
+  render(): void {
+    const alpha = this.paused || this.isFinished() ? 1 : this.accumulator / HeadlessGame.FIXED_TIMESTEP;
+    this.game.engine.render(Math.min(1, alpha));
+  }
+
+  /**
+   * Jump to a tick, re-simulating from the start if it is in the past
+   */
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.replay.tickCount));
+
+    if (target < this.game.getTick()) {
+      this.game.destroy();
+      this.game = this.createGame();
+    }
+
+    // Fast-forward silently
+    const sound = this.game.engine.soundManager;
+    sound.setMuted(true);
+    while (this.game.getTick() < target) {
+      this.game.step();
+    }
+    sound.setMuted(false);
+    this.accumulator = 0;
+    this.game.engine.resetInterpolation();
+  }
+
+  /**
+   * Pause or resume playback
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /**
+   * Check whether playback is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Set the playback speed multiplier (1 = real time)
+   */
+  setSpeed(speed: number): void {
+    if (speed <= 0) {
+      throw new Error(`[ReplayPlayer] Speed must be positive, got ${speed}`);
+    }
+    this.speed = speed;
+  }
+
+  /**
+   * Get the playback speed multiplier
+   */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Get the current tick
+   */
+  getTick(): number {
+    return this.game.getTick();
+  }
+
+  /**
+   * Get the length of the replay in ticks
+   */
+  getTickCount(): number {
+    return this.replay.tickCount;
+  }
+
+  /**
+   * Check whether playback has reached the end of the recording
+   */
+  isFinished(): boolean {
+    return this.game.getTick() >= this.replay.tickCount;
+  }
+
+  /**
+   * Update the camera viewport (for window resize)
+   */
+  setViewportSize(width: number, height: number): void {
+    this.viewport = { width, height };
+    this.game.engine.camera.setViewportSize(width, height);
+  }
+
+  /**
+   * Release the engine
+   */
+  destroy(): void {
+    this.game.destroy();
+  }
+}
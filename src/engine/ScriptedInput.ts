@@ -0,0 +1,175 @@
+import { Vec2 } from '../types/Vec2';
+import type { InputManager } from './InputManager';
+import type { Replay } from './Replay';
+import type { GameAction } from '../types';
+
+/**
+ * Input changes to apply at the start of one tick.
+ * Anything not listed keeps its previous state.
+ */
+export interface InputFrame {
+  reset?: boolean; // Release everything (and forget the previous tick's state) first
+  player?: number; // Local player that actions and stickAim apply to (default 0)
+  actions?: Partial<Record<GameAction, boolean>>; // Action -> held, whatever it is bound to
+  keys?: Record<string, boolean>; // Key name -> held
+  mouseButtons?: Record<number, boolean>; // Button -> held
+  mouse?: { x: number; y: number }; // Screen coordinates, aim follows the mouse
+  aim?: { x: number; y: number }; // World coordinates, aim stays fixed while the camera moves
+  stickAim?: { x: number; y: number } | null; // Right-stick direction, null to aim with the mouse again
+}
+
+/**
+ * ScriptedInput replays a fixed timeline of input changes into an InputManager,
+ * standing in for the keyboard and mouse in headless simulations and replays.
+ * Raw keys and buttons go through the InputManager's bindings (the defaults when headless);
+ * actions are held directly, so replays play back the same under any bindings.
+ */
+export class ScriptedInput {
+  private frames: Map<number, InputFrame[]> = new Map();
+
+  /**
+   * Build the input timeline of a recorded replay
+   */
+  static fromReplay(replay: Replay): ScriptedInput {
+    const script = new ScriptedInput();
+    let heldActions: GameAction[] = [];
+    let heldActionsP2: GameAction[] = [];
+
+    for (const recorded of replay.frames) {
+      const frame: InputFrame = {};
+
+      if (recorded.r) {
+        frame.reset = true;
+        heldActions = [];
+        heldActionsP2 = [];
+      }
+
+      if (recorded.h) {
+        frame.actions = ScriptedInput.diff(heldActions, recorded.h);
+        heldActions = recorded.h;
+      }
+
+      if (recorded.a) {
+        frame.aim = { x: recorded.a[0], y: recorded.a[1] };
+      }
+
+      if (recorded.s !== undefined) {
+        frame.stickAim = recorded.s ? { x: recorded.s[0], y: recorded.s[1] } : null;
+      }
+
+      script.at(recorded.t, frame);
+
+      // Co-op partner, applied after any reset above
+      if (recorded.p2) {
+        const partner: InputFrame = { player: 1 };
+        if (recorded.p2.h) {
+          partner.actions = ScriptedInput.diff(heldActionsP2, recorded.p2.h);
+          heldActionsP2 = recorded.p2.h;
+        }
+        if (recorded.p2.s !== undefined) {
+          partner.stickAim = recorded.p2.s ? { x: recorded.p2.s[0], y: recorded.p2.s[1] } : null;
+        }
+        script.at(recorded.t, partner);
+      }
+    }
+
+    return script;
+  }
+
+  /**
+   * Changes needed to go from one set of held inputs to another
+   */
+  private static diff<T extends string | number>(before: T[], after: T[]): Record<T, boolean> {
+    const changes = {} as Record<T, boolean>;
+    for (const item of before) {
+      if (!after.includes(item)) changes[item] = false;
+    }
+    for (const item of after) {
+      if (!before.includes(item)) changes[item] = true;
+    }
+    return changes;
+  }
+
+  /**
+   * Schedule input changes for a tick
+   * @param tick - Tick the changes take effect on (0 = first update)
+   * @returns This script, for chaining
+   */
+  at(tick: number, frame: InputFrame): this {
+    const frames = this.frames.get(tick);
+    if (frames) {
+      frames.push(frame);
+    } else {
+      this.frames.set(tick, [frame]);
+    }
+    return this;
+  }
+
+  /**
+   * Hold a key down for a range of ticks
+   * @param fromTick - First tick the key is held
+   * @param toTick - Tick the key is released on
+   */
+  holdKey(key: string, fromTick: number, toTick: number): this {
+    return this.at(fromTick, { keys: { [key]: true } }).at(toTick, { keys: { [key]: false } });
+  }
+
+  /**
+   * Hold an action for a range of ticks
+   * @param fromTick - First tick the action is held
+   * @param toTick - Tick the action is released on
+   * @param player - Local player holding it
+   */
+  holdAction(action: GameAction, fromTick: number, toTick: number, player: number = 0): this {
+    return this.at(fromTick, { player, actions: { [action]: true } })
+      .at(toTick, { player, actions: { [action]: false } });
+  }
+
+  /**
+   * Hold a mouse button down for a range of ticks
+   * @param fromTick - First tick the button is held
+   * @param toTick - Tick the button is released on
+   */
+  holdMouseButton(button: number, fromTick: number, toTick: number): this {
+    return this.at(fromTick, { mouseButtons: { [button]: true } }).at(toTick, { mouseButtons: { [button]: false } });
+  }
+
+  /**
+   * Apply the changes scheduled for a tick
+   */
+  apply(tick: number, input: InputManager): void {
+    for (const frame of this.frames.get(tick) ?? []) {
+      if (frame.reset) {
+        input.reset();
+        input.updateKeyStates();
+      }
+      const player = frame.player ?? 0;
+      for (const [action, down] of Object.entries(frame.actions ?? {})) {
+        input.setActionState(action as GameAction, down, player);
+      }
+      for (const [key, down] of Object.entries(frame.keys ?? {})) {
+        input.setKeyState(key, down);
+      }
+      for (const [button, down] of Object.entries(frame.mouseButtons ?? {})) {
+        input.setMouseButtonState(Number(button), down);
+      }
+      if (frame.mouse) {
+        input.setMousePosition(new Vec2(frame.mouse.x, frame.mouse.y));
+        input.setWorldAim(null);
+      }
+      if (frame.aim) {
+        input.setWorldAim(new Vec2(frame.aim.x, frame.aim.y));
+      }
+      if (frame.stickAim !== undefined) {
+        input.setStickAim(frame.stickAim ? new Vec2(frame.stickAim.x, frame.stickAim.y) : null, player);
+      }
+    }
+  }
+
+  /**
+   * Get the last tick with scheduled input (-1 if empty)
+   */
+  getLastTick(): number {
+    return this.frames.size > 0 ? Math.max(...this.frames.keys()) : -1;
+  }
+}
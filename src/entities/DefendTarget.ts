@@ -0,0 +1,76 @@
+import { Entity } from './Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID } from '../types';
+
+/**
+ * Generator the players must protect for a defend objective. Enemies attack it like
+ * a player; it sits on the players' team, so their shots only hurt it with friendly fire on.
+ */
+export class DefendTarget extends Entity {
+  static readonly SIZE = new Vec2(48, 48);
+  static readonly DEFAULT_HEALTH = 300;
+
+  health: number;
+  readonly maxHealth: number;
+  private flashTimer: number = 0;
+  private readonly FLASH_TIME = 0.1; // seconds the target flashes after being hit
+
+  constructor(id: EntityID, position: Vec2, health: number = DefendTarget.DEFAULT_HEALTH) {
+    super(id, position, DefendTarget.SIZE.clone());
+    this.health = health;
+    this.maxHealth = health;
+    this.team = 'player';
+
+    // Add tags
+    this.addTag('objective');
+    this.addTag('physics'); // Sits on platforms
+    this.collisionLayer = CollisionLayer.OBJECTIVE;
+    this.collisionMask = CollisionLayer.PROJECTILE;
+  }
+
+  /**
+   * Update hit flash
+   */
+  update(dt: number): void {
+    if (this.flashTimer > 0) {
+      this.flashTimer -= dt;
+    }
+  }
+
+  /**
+   * Take damage, deactivating once destroyed
+   */
+  takeDamage(amount: number): void {
+    this.health -= amount;
+    this.flashTimer = this.FLASH_TIME;
+
+    if (this.health <= 0) {
+      this.health = 0;
+      this.deactivate();
+    }
+  }
+
+  /**
+   * Render the generator with a health bar above it
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+
+    ctx.fillStyle = this.flashTimer > 0 ? '#FFFFFF' : '#2C3E50';
+    ctx.fillRect(x, y, this.size.x, this.size.y);
+    ctx.strokeStyle = '#4AE290';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, this.size.x, this.size.y);
+
+    // Core
+    ctx.fillStyle = '#4AE290';
+    ctx.fillRect(x + this.size.x / 2 - 8, y + this.size.y / 2 - 8, 16, 16);
+
+    // Health bar
+    const fraction = this.health / this.maxHealth;
+    ctx.fillStyle = '#333';
+    ctx.fillRect(x, y - 10, this.size.x, 5);
+    ctx.fillStyle = fraction > 0.5 ? '#00ff00' : fraction > 0.25 ? '#ffaa00' : '#ff0000';
+    ctx.fillRect(x, y - 10, this.size.x * fraction, 5);
+  }
+}
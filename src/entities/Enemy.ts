@@ -1,14 +1,27 @@
 import { Entity } from './Entity';
-import { Player } from './Player';
 import { Vec2 } from '../types/Vec2';
-import { EntityID, AIState, WeaponDef } from '../types';
-import { WeaponSystem } from '../systems/WeaponSystem';
+import { CollisionLayer, EntityID, AIState, EnemyArchetype } from '../types';
+import { WeaponSystem, TriggerState } from '../systems/WeaponSystem';
+import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { NavigationSystem, NavEdge, JumpProfile } from '../systems/NavigationSystem';
 
 /**
  * Enemy entity with AI behavior.
- * Patrols, chases player when detected, and attacks when in range.
+ * Patrols, chases player when seen, attacks when in range, and searches
+ * the player's last known position after losing line of sight.
+ * With several players it engages the nearest one it can see.
+ * Moves between platforms by following paths on the level navigation graph.
  */
 export class Enemy extends Entity {
+  /**
+   * Jump physics for all enemies (same as the player's variable-height jump)
+   */
+  static readonly JUMP: JumpProfile = {
+    jumpForce: 600,
+    holdAcceleration: 300,
+    holdTime: 0.3,
+  };
+
   health: number;
   maxHealth: number;
   aiState: AIState;
@@ -17,40 +30,66 @@ export class Enemy extends Entity {
   patrolPoints: Vec2[];
   currentPatrolIndex: number;
   attackCooldown: number;
+  archetype: EnemyArchetype;
+  lastKnownPlayerPosition: Vec2 | null = null;
   
   private weaponSystem: WeaponSystem;
+  private physicsSystem: PhysicsSystem;
+  private navigationSystem: NavigationSystem;
   private onShootCallback?: (projectiles: any[]) => void;
-  private readonly MOVE_SPEED = 150; // pixels per second
-  private readonly ATTACK_COOLDOWN_TIME = 2.0; // seconds between attacks
+  private readonly moveSpeed: number; // pixels per second
+  private readonly attackCooldownTime: number; // seconds between attacks
   private readonly PATROL_WAIT_TIME = 1.0; // seconds to wait at patrol points
+  private readonly SEARCH_WAIT_TIME = 3.0; // seconds to look around at the last known position
+  private readonly SEARCH_GIVE_UP_TIME = 8.0; // seconds before abandoning an unreachable search
   private patrolWaitTimer: number = 0;
+  private searchWaitTimer: number = 0;
+  private searchTimer: number = 0;
+  
+  // Navigation state
+  private activeEdge: NavEdge | null = null; // Edge currently being traversed
+  private jumpHoldTimer: number = 0;
+  private dropThroughTimer: number = 0;
+  private readonly DROP_THROUGH_TIME = 0.25; // seconds one-way platforms are ignored when dropping
+  private readonly TAKEOFF_TOLERANCE = 6; // pixels from a takeoff point to start traversing
+  private readonly ARRIVE_DISTANCE = 10; // pixels to consider a target reached
+  private readonly STAGGER_TIME = 0.25; // seconds AI movement is suspended after knockback
+  private staggerTimer: number = 0;
 
   constructor(
     id: EntityID,
     position: Vec2,
     weaponSystem: WeaponSystem,
-    weapon: WeaponDef,
+    physicsSystem: PhysicsSystem,
+    navigationSystem: NavigationSystem,
+    archetype: EnemyArchetype,
     patrolPoints: Vec2[] = []
   ) {
-    super(id, position, new Vec2(32, 48)); // Same size as player
+    super(id, position, new Vec2(archetype.size.width, archetype.size.height));
     
-    this.health = 100;
-    this.maxHealth = 100;
+    this.archetype = archetype;
+    this.health = archetype.health;
+    this.maxHealth = archetype.health;
     this.aiState = AIState.IDLE;
-    this.sightRadius = 400; // Can see player within 400 pixels
-    this.attackRange = 300; // Attack when player within 300 pixels
+    this.sightRadius = archetype.sightRadius; // Can see player within this radius
+    this.attackRange = archetype.attackRange; // Attack when player within this range
+    this.moveSpeed = archetype.moveSpeed;
+    this.attackCooldownTime = archetype.attackCooldown;
     this.patrolPoints = patrolPoints.length > 0 ? patrolPoints : [position.clone()];
     this.currentPatrolIndex = 0;
     this.attackCooldown = 0;
     
     this.weaponSystem = weaponSystem;
+    this.physicsSystem = physicsSystem;
+    this.navigationSystem = navigationSystem;
     
     // Add tags
     this.addTag('enemy');
     this.addTag('physics'); // Enable physics
-    
-    // Register weapon
-    weaponSystem.registerWeapon(this.id, weapon);
+    this.team = 'enemy';
+    this.collisionLayer = CollisionLayer.ENEMY;
+    this.collisionMask = CollisionLayer.PROJECTILE;
+    // The spawner registers our weapon once the engine assigns our ID
     
     // Start with patrol if we have patrol points
     if (patrolPoints.length > 1) {
@@ -67,21 +106,49 @@ export class Enemy extends Entity {
       this.attackCooldown -= dt;
     }
     
+    if (this.staggerTimer > 0) {
+      this.staggerTimer -= dt;
+    }
+    
+    // Hold jump for extra height, matching the player's variable jump
+    if (this.jumpHoldTimer > 0) {
+      this.jumpHoldTimer -= dt;
+      this.velocity.y -= Enemy.JUMP.holdAcceleration * dt;
+    }
+    
+    // Stop ignoring one-way platforms once we've fallen through
+    if (this.dropThroughTimer > 0) {
+      this.dropThroughTimer -= dt;
+      if (this.dropThroughTimer <= 0) {
+        this.removeTag('dropThrough');
+      }
+    }
+    
     // AI behavior is updated externally by passing player reference
     // This is just for internal state management
   }
 
   /**
-   * Update AI behavior based on player position
-   * This should be called by the game engine with player reference
+   * Update AI behavior based on player positions
+   * This should be called by the game engine with the active players (and anything
+   * else enemies should go after, like a defend objective's target)
    */
-  updateAI(dt: number, player: Player): void {
-    const distanceToPlayer = this.position.distance(player.position);
+  updateAI(dt: number, players: Entity[]): void {
+    // Knocked back - let the impulse play out before steering again
+    if (this.staggerTimer > 0) return;
+    
+    const target = this.chooseTarget(players);
+    if (!target) return;
+    const { player, distance: distanceToPlayer, visible: canSeePlayer } = target;
+    
+    if (canSeePlayer) {
+      this.lastKnownPlayerPosition = player.getBounds().center;
+    }
     
     // State transitions
     switch (this.aiState) {
       case AIState.IDLE:
-        if (distanceToPlayer <= this.sightRadius) {
+        if (canSeePlayer) {
           this.aiState = AIState.CHASE;
         } else if (this.patrolPoints.length > 1) {
           this.aiState = AIState.PATROL;
@@ -89,7 +156,7 @@ export class Enemy extends Entity {
         break;
         
       case AIState.PATROL:
-        if (distanceToPlayer <= this.sightRadius) {
+        if (canSeePlayer) {
           this.aiState = AIState.CHASE;
         } else {
           this.doPatrol(dt);
@@ -97,9 +164,9 @@ export class Enemy extends Entity {
         break;
         
       case AIState.CHASE:
-        if (distanceToPlayer > this.sightRadius * 1.5) {
-          // Lost sight of player
-          this.aiState = AIState.PATROL;
+        if (!canSeePlayer) {
+          // Lost sight of player - go look where they were
+          this.startSearch();
         } else if (distanceToPlayer <= this.attackRange) {
           this.aiState = AIState.ATTACK;
         } else {
@@ -108,12 +175,105 @@ export class Enemy extends Entity {
         break;
         
       case AIState.ATTACK:
-        if (distanceToPlayer > this.attackRange) {
+        if (!canSeePlayer) {
+          this.startSearch();
+        } else if (distanceToPlayer > this.attackRange) {
           this.aiState = AIState.CHASE;
         } else {
           this.doAttack(player);
         }
         break;
+        
+      case AIState.SEARCH:
+        if (canSeePlayer) {
+          this.aiState = AIState.CHASE;
+        } else {
+          this.doSearch(dt);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Pick the player to react to: the nearest visible one, or the nearest one if none can be seen
+   */
+  private chooseTarget(players: Entity[]): { player: Entity; distance: number; visible: boolean } | null {
+    // Keep tracking a chased player a little further than initial detection range
+    const isEngaged = this.aiState === AIState.CHASE || this.aiState === AIState.ATTACK;
+    const sightRange = isEngaged ? this.sightRadius * 1.5 : this.sightRadius;
+    
+    let best: { player: Entity; distance: number; visible: boolean } | null = null;
+    for (const player of players) {
+      if (!player.active) continue;
+      
+      const distance = this.position.distance(player.position);
+      const visible = distance <= sightRange && this.canSee(player);
+      const better = !best ||
+        (visible && !best.visible) ||
+        (visible === best.visible && distance < best.distance);
+      if (better) {
+        best = { player, distance, visible };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Forget an engaged target (e.g. after the player respawns) and go search instead
+   */
+  loseTrackOfPlayer(): void {
+    if (this.aiState === AIState.CHASE || this.aiState === AIState.ATTACK) {
+      this.startSearch();
+    }
+  }
+
+  /**
+   * Go and look at a position as if a player was last seen there (e.g. wave enemies
+   * homing in on the players). Ignored while already engaged or searching.
+   */
+  investigate(position: Vec2): void {
+    if (this.aiState !== AIState.IDLE && this.aiState !== AIState.PATROL) return;
+    this.lastKnownPlayerPosition = position.clone();
+    this.startSearch();
+  }
+
+  /**
+   * Check for a clear line of sight to the player, blocked by platforms the same way shots are
+   */
+  private canSee(player: Entity): boolean {
+    return this.physicsSystem.hasLineOfSight(
+      this.getBounds().center,
+      player.getBounds().center
+    );
+  }
+
+  /**
+   * Enter the search state at the player's last known position
+   */
+  private startSearch(): void {
+    this.aiState = AIState.SEARCH;
+    this.searchTimer = 0;
+    this.searchWaitTimer = 0;
+  }
+
+  /**
+   * Search behavior: walk to the last known position, look around, then give up
+   */
+  private doSearch(dt: number): void {
+    this.searchTimer += dt;
+    
+    const target = this.lastKnownPlayerPosition;
+    const reached = !target || this.moveToward(target);
+    
+    if (reached) {
+      this.velocity.x = 0;
+      this.searchWaitTimer += dt;
+    }
+    
+    if (this.searchWaitTimer >= this.SEARCH_WAIT_TIME || this.searchTimer >= this.SEARCH_GIVE_UP_TIME) {
+      // Give up and return to normal duties
+      this.lastKnownPlayerPosition = null;
+      this.aiState = this.patrolPoints.length > 1 ? AIState.PATROL : AIState.IDLE;
     }
   }
 
@@ -126,9 +286,7 @@ export class Enemy extends Entity {
     const targetPoint = this.patrolPoints[this.currentPatrolIndex];
     if (!targetPoint) return;
     
-    const distance = this.position.distance(targetPoint);
-    
-    if (distance < 10) {
+    if (this.moveToward(targetPoint)) {
       // Reached patrol point - wait before moving to next
       this.patrolWaitTimer += dt;
       this.velocity.x = 0; // Stop moving
@@ -138,41 +296,131 @@ export class Enemy extends Entity {
         this.currentPatrolIndex = (this.currentPatrolIndex + 1) % this.patrolPoints.length;
         this.patrolWaitTimer = 0;
       }
-    } else {
-      // Move toward patrol point
-      const direction = targetPoint.subtract(this.position).normalize();
-      this.velocity.x = direction.x * this.MOVE_SPEED;
-      // Y velocity is handled by physics (gravity)
     }
   }
 
   /**
    * Chase behavior: move toward player
    */
-  private doChase(player: Player): void {
-    const direction = player.position.subtract(this.position).normalize();
-    this.velocity.x = direction.x * this.MOVE_SPEED;
-    // Y velocity is handled by physics (gravity/jumping would be added here)
+  private doChase(player: Entity): void {
+    this.moveToward(player.getBounds().center);
+  }
+
+  /**
+   * Move toward a world point, pathfinding across platforms when needed.
+   * Never walks off a ledge unless the path calls for it.
+   * @returns True once standing on the target's surface within arrival distance
+   */
+  private moveToward(target: Vec2): boolean {
+    const center = this.getBounds().center;
+    
+    // While airborne, steer toward the landing point of the current traversal
+    if (!this.hasTag('grounded')) {
+      if (this.activeEdge) {
+        this.walkTowardX(this.activeEdge.landingX, center.x);
+      }
+      return false;
+    }
+    this.activeEdge = null;
+    
+    const nav = this.navigationSystem;
+    const current = nav.findNodeAt(center.x, this.position.y + this.size.y);
+    const goal = nav.findNodeBelow(target.x, target.y);
+    
+    if (!current || !goal || current === goal) {
+      // Same surface (or off the graph) - walk directly, stopping at ledges
+      const targetX = current ? this.clampToNode(target.x, current.left, current.right) : target.x;
+      this.walkTowardX(targetX, center.x);
+      return current === goal && Math.abs(target.x - center.x) < this.ARRIVE_DISTANCE;
+    }
+    
+    const edge = nav.findPath(current, goal, this.moveSpeed)[0];
+    if (!edge) {
+      // Unreachable - get as close as this surface allows
+      this.walkTowardX(this.clampToNode(target.x, current.left, current.right), center.x);
+      return false;
+    }
+    
+    // Walk to the takeoff point first
+    if (Math.abs(edge.takeoffX - center.x) > this.TAKEOFF_TOLERANCE) {
+      this.walkTowardX(edge.takeoffX, center.x);
+      return false;
+    }
+    
+    this.traverseEdge(edge, center.x);
+    return false;
+  }
+
+  /**
+   * Start traversing a navigation edge from its takeoff point
+   */
+  private traverseEdge(edge: NavEdge, centerX: number): void {
+    this.activeEdge = edge;
+    
+    switch (edge.type) {
+      case 'walk':
+      case 'drop':
+        // Keep walking - gravity does the rest
+        this.walkTowardX(edge.landingX, centerX);
+        break;
+        
+      case 'dropThrough':
+        this.velocity.x = 0;
+        this.addTag('dropThrough');
+        this.dropThroughTimer = this.DROP_THROUGH_TIME;
+        break;
+        
+      case 'jump':
+        this.velocity.y = -Enemy.JUMP.jumpForce;
+        this.jumpHoldTimer = Enemy.JUMP.holdTime;
+        this.removeTag('grounded');
+        this.walkTowardX(edge.landingX, centerX);
+        break;
+    }
+  }
+
+  /**
+   * Set horizontal velocity toward an x coordinate, stopping when close
+   */
+  private walkTowardX(targetX: number, centerX: number): void {
+    const dx = targetX - centerX;
+    this.velocity.x = Math.abs(dx) < 2 ? 0 : Math.sign(dx) * this.moveSpeed;
+  }
+
+  /**
+   * Clamp an x coordinate so our body stays on a surface
+   */
+  private clampToNode(x: number, left: number, right: number): number {
+    const halfWidth = this.size.x / 2;
+    return Math.max(left + halfWidth, Math.min(right - halfWidth, x));
   }
 
   /**
    * Attack behavior: shoot at player
    */
-  private doAttack(player: Player): void {
+  private doAttack(player: Entity): void {
     // Stop moving while attacking
     this.velocity.x = 0;
     
+    // Hold a charge shot until it is full - sending 'up' would cancel it
+    if (this.weaponSystem.getWeaponState(this.id)?.isCharging) {
+      this.shoot(player, this.weaponSystem.getChargeRatio(this.id) >= 1 ? 'released' : 'held');
+      return;
+    }
+
     // Attack if cooldown is ready
     if (this.attackCooldown <= 0) {
-      this.shoot(player);
-      this.attackCooldown = this.ATTACK_COOLDOWN_TIME;
+      this.shoot(player, 'pressed');
+      this.attackCooldown = this.attackCooldownTime;
+    } else {
+      this.shoot(player, 'up'); // Lets a burst in progress finish
     }
   }
 
   /**
    * Shoot at the player
    */
-  private shoot(player: Player): void {
+  private shoot(player: Entity, trigger: TriggerState): void {
     const enemyCenter = new Vec2(
       this.position.x + this.size.x / 2,
       this.position.y + this.size.y / 2
@@ -186,7 +434,7 @@ export class Enemy extends Entity {
     const direction = playerCenter.subtract(enemyCenter).normalize();
     
     // Fire weapon through weapon system
-    const projectiles = this.weaponSystem.fire(this.id, enemyCenter, direction);
+    const projectiles = this.weaponSystem.fire(this.id, enemyCenter, direction, trigger);
     
     // Notify callback if projectiles were spawned
     if (projectiles.length > 0 && this.onShootCallback) {
@@ -202,11 +450,17 @@ export class Enemy extends Entity {
   }
 
   /**
-   * Take damage
+   * Take damage and apply knockback
+   * @param knockbackForce - Impulse along knockbackDir in pixels per second
    */
-  takeDamage(amount: number): void {
+  takeDamage(amount: number, knockbackDir?: Vec2, knockbackForce: number = 300): void {
     this.health -= amount;
     
+    if (knockbackDir) {
+      this.velocity = this.velocity.add(knockbackDir.normalize().multiply(knockbackForce));
+      this.staggerTimer = this.STAGGER_TIME;
+    }
+    
     if (this.health <= 0) {
       this.health = 0;
       this.deactivate(); // Enemy dies
@@ -218,11 +472,11 @@ export class Enemy extends Entity {
    */
   render(ctx: CanvasRenderingContext2D): void {
     // Draw enemy body as rectangle
-    ctx.fillStyle = '#E24A4A'; // Red color
+    ctx.fillStyle = this.archetype.colors.body;
     ctx.fillRect(this.position.x, this.position.y, this.size.x, this.size.y);
     
     // Draw enemy outline
-    ctx.strokeStyle = '#8A2E2E';
+    ctx.strokeStyle = this.archetype.colors.outline;
     ctx.lineWidth = 2;
     ctx.strokeRect(this.position.x, this.position.y, this.size.x, this.size.y);
     
@@ -292,6 +546,9 @@ export class Enemy extends Entity {
       case AIState.ATTACK:
         color = '#FF0000';
         break;
+      case AIState.SEARCH:
+        color = '#FFFF00';
+        break;
     }
     
     ctx.fillStyle = color;
@@ -1,6 +1,6 @@
 import { Vec2 } from '../types/Vec2';
 import { Rect } from '../types/Rect';
-import { EntityID } from '../types';
+import { CollisionLayer, EntityID, Team } from '../types';
 
 /**
  * Abstract base class for all game entities.
@@ -9,18 +9,26 @@ import { EntityID } from '../types';
 export abstract class Entity {
   id: EntityID;
   position: Vec2;
+  previousPosition: Vec2; // Position before the last fixed update, for render interpolation
   velocity: Vec2;
   size: Vec2;
   active: boolean;
   tags: Set<string>;
+  team: Team; // Faction used for friendly-fire rules
+  collisionLayer: CollisionLayer; // Layer this entity is on
+  collisionMask: number; // Layers this entity collides with
 
   constructor(id: EntityID, position: Vec2, size: Vec2) {
     this.id = id;
     this.position = position;
+    this.previousPosition = position.clone();
     this.velocity = new Vec2(0, 0);
     this.size = size;
     this.active = true;
     this.tags = new Set<string>();
+    this.team = 'neutral';
+    this.collisionLayer = CollisionLayer.DEFAULT;
+    this.collisionMask = CollisionLayer.ALL;
   }
 
   /**
@@ -30,10 +38,28 @@ export abstract class Entity {
   abstract update(dt: number): void;
 
   /**
-   * Render the entity to the canvas
+   * Remember the current state as the one before the next fixed update.
+   * Also called after teleporting an entity so it doesn't slide across the jump.
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
+  /**
+   * Get the position to draw at between the last two fixed updates
+   * @param alpha - 0 for the previous update's position, 1 for the latest
+   */
+  getRenderPosition(alpha: number): Vec2 {
+    return this.previousPosition.lerp(this.position, alpha);
+  }
+
+  /**
+   * Render the entity to the canvas.
+   * The engine moves the entity to its render position while this runs.
    * @param ctx - Canvas rendering context
+   * @param alpha - How far this frame is between the last fixed update and the next (0-1)
    */
-  abstract render(ctx: CanvasRenderingContext2D): void;
+  abstract render(ctx: CanvasRenderingContext2D, alpha: number): void;
 
   /**
    * Get the axis-aligned bounding box for this entity
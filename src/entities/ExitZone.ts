@@ -0,0 +1,45 @@
+import { Entity } from './Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID } from '../types';
+
+/**
+ * Marker for a reach-exit objective's zone. It doesn't collide with anything;
+ * ObjectiveSystem checks whether a player overlaps it.
+ */
+export class ExitZone extends Entity {
+  private pulseTimer: number = 0;
+
+  constructor(id: EntityID, position: Vec2, size: Vec2) {
+    super(id, position, size);
+    this.addTag('exit');
+    this.collisionLayer = CollisionLayer.NONE;
+    this.collisionMask = CollisionLayer.NONE;
+  }
+
+  /**
+   * Advance the pulse animation
+   */
+  update(dt: number): void {
+    this.pulseTimer += dt;
+  }
+
+  /**
+   * Render the zone as a pulsing outline
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+    const pulse = 0.5 + Math.sin(this.pulseTimer * 3) * 0.2;
+
+    ctx.fillStyle = `rgba(74, 226, 144, ${pulse * 0.3})`;
+    ctx.fillRect(x, y, this.size.x, this.size.y);
+    ctx.strokeStyle = `rgba(74, 226, 144, ${pulse})`;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, this.size.x, this.size.y);
+
+    ctx.fillStyle = '#4AE290';
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText('EXIT', x + this.size.x / 2, y - 6);
+    ctx.textAlign = 'start';
+  }
+}
@@ -0,0 +1,75 @@
+import { Entity } from './Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID } from '../types';
+
+/**
+ * Explosive barrel that blows up when shot enough, damaging everything nearby.
+ * Barrels caught in a blast can set each other off.
+ */
+export class ExplosiveBarrel extends Entity {
+  static readonly EXPLOSION = { radius: 140, damage: 100, knockback: 500 };
+  static readonly SIZE = new Vec2(24, 32);
+
+  health: number = 30;
+  private readonly maxHealth: number = 30;
+  private flashTimer: number = 0;
+  private readonly FLASH_TIME = 0.1; // seconds the barrel flashes after being hit
+
+  constructor(id: EntityID, position: Vec2) {
+    super(id, position, ExplosiveBarrel.SIZE.clone());
+
+    // Add tags
+    this.addTag('explosive');
+    this.addTag('physics'); // Sits on platforms
+    this.collisionLayer = CollisionLayer.EXPLOSIVE;
+    this.collisionMask = CollisionLayer.PROJECTILE;
+  }
+
+  /**
+   * Update hit flash
+   */
+  update(dt: number): void {
+    if (this.flashTimer > 0) {
+      this.flashTimer -= dt;
+    }
+  }
+
+  /**
+   * Take damage, deactivating once destroyed (the engine detonates it)
+   */
+  takeDamage(amount: number): void {
+    this.health -= amount;
+    this.flashTimer = this.FLASH_TIME;
+
+    if (this.health <= 0) {
+      this.health = 0;
+      this.deactivate();
+    }
+  }
+
+  /**
+   * Render the barrel, glowing hotter as it takes damage
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+    const damage = 1 - this.health / this.maxHealth;
+
+    ctx.fillStyle = this.flashTimer > 0 ? '#FFFFFF' : '#B03A2E';
+    ctx.fillRect(x, y, this.size.x, this.size.y);
+
+    // Hazard bands
+    ctx.fillStyle = '#F1C40F';
+    ctx.fillRect(x, y + 6, this.size.x, 4);
+    ctx.fillRect(x, y + this.size.y - 10, this.size.x, 4);
+
+    // Heat glow as the barrel nears bursting
+    if (damage > 0) {
+      ctx.fillStyle = `rgba(255, 120, 0, ${damage * 0.5})`;
+      ctx.fillRect(x, y, this.size.x, this.size.y);
+    }
+
+    ctx.strokeStyle = '#641E16';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, this.size.x, this.size.y);
+  }
+}
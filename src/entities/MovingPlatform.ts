@@ -0,0 +1,209 @@
+import { Entity } from './Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID } from '../types';
+import { Platform } from '../systems/PhysicsSystem';
+
+export type MoverActivation = 'auto' | 'ride' | 'trigger';
+
+/**
+ * How a moving platform travels between its stops
+ */
+export interface MoverOptions {
+  stops: Vec2[]; // Top-left corner at each stop
+  startAt: number; // Index of the stop it starts at
+  speed: number; // pixels per second
+  wait: number; // seconds paused at each stop
+  loop: boolean; // Carry on from the last stop to the first, instead of turning back
+  activation: MoverActivation;
+  oneWay: boolean;
+  door: boolean; // Drawn as a gate; only moves when told to open or close
+}
+
+/**
+ * Platform that moves between stops: lifts, elevators and doors. The physics platform it
+ * owns is registered as a moving platform; TriggerSystem advances it each tick and moves
+ * the platform (carrying riders) by the returned displacement.
+ */
+export class MovingPlatform extends Entity {
+  readonly platform: Platform;
+  readonly door: boolean;
+  private stops: Vec2[];
+  private speed: number;
+  private wait: number;
+  private loop: boolean;
+  private activation: MoverActivation;
+  private stopIndex: number = 0; // Stop it is at, or last left
+  private destination: number | null = null; // Stop it is heading to, null while parked
+  private direction: number = 1; // Through the stops, when turning back at the ends
+  private waitTimer: number = 0;
+  private called: boolean = false; // A triggered mover was started while parked
+  private halted: boolean = false; // Stopped by an action, wherever it is
+
+  constructor(id: EntityID, size: Vec2, options: MoverOptions) {
+    const start = options.stops[options.startAt] ?? new Vec2(0, 0);
+    super(id, start.clone(), size);
+    this.stops = options.stops;
+    this.stopIndex = options.startAt;
+    this.speed = options.speed;
+    this.wait = options.wait;
+    this.loop = options.loop;
+    this.activation = options.activation;
+    this.door = options.door;
+    this.platform = { x: start.x, y: start.y, width: size.x, height: size.y, oneWay: options.oneWay };
+
+    // Solid through the physics platform, not the collision system
+    this.addTag(options.door ? 'door' : 'mover');
+    this.collisionLayer = CollisionLayer.NONE;
+    this.collisionMask = CollisionLayer.NONE;
+  }
+
+  /**
+   * Nothing to do here: TriggerSystem moves it after physics, so riders are carried
+   */
+  update(): void {}
+
+  /**
+   * Work out how far to move this tick, departing from stops as its activation allows
+   * @param ridden - Whether a player is standing on it
+   * @returns Displacement for PhysicsSystem.movePlatform
+   */
+  advance(dt: number, ridden: boolean): Vec2 {
+    if (this.halted) return new Vec2(0, 0);
+
+    if (this.destination === null) {
+      if (!this.door && this.stops.length > 1 && this.readyToDepart(ridden)) {
+        this.waitTimer += dt;
+        if (this.waitTimer >= this.wait) {
+          this.destination = this.nextStop();
+          this.called = false;
+        }
+      }
+      return new Vec2(0, 0);
+    }
+
+    const target = this.stops[this.destination]!;
+    const offset = target.subtract(this.position);
+    const distance = offset.length();
+    const step = this.speed * dt;
+
+    if (distance <= step) {
+      this.stopIndex = this.destination;
+      this.destination = null;
+      this.waitTimer = 0;
+      return offset;
+    }
+    return offset.multiply(step / distance);
+  }
+
+  /**
+   * Check whether a parked mover should count down to leaving its stop
+   */
+  private readyToDepart(ridden: boolean): boolean {
+    switch (this.activation) {
+      case 'auto':
+        return true;
+      case 'ride':
+        return ridden;
+      case 'trigger':
+        return this.called;
+    }
+  }
+
+  /**
+   * Follow the platform after PhysicsSystem has moved it
+   */
+  syncPosition(): void {
+    this.position.set(this.platform.x, this.platform.y);
+  }
+
+  /**
+   * Pick the stop after the current one, turning back at the ends unless looping
+   */
+  private nextStop(): number {
+    const count = this.stops.length;
+    if (this.loop) {
+      return (this.stopIndex + 1) % count;
+    }
+    if (this.stopIndex + this.direction < 0 || this.stopIndex + this.direction >= count) {
+      this.direction = -this.direction;
+    }
+    return this.stopIndex + this.direction;
+  }
+
+  /**
+   * Set a stopped mover going again; a parked triggered mover leaves for its next stop
+   */
+  start(): void {
+    this.halted = false;
+    if (this.activation === 'trigger' && this.destination === null) {
+      this.called = true;
+      this.waitTimer = this.wait;
+    }
+  }
+
+  /**
+   * Stop a mover where it is, until it's started again
+   */
+  stop(): void {
+    this.halted = true;
+  }
+
+  /**
+   * Open a door (slide to its open stop)
+   */
+  open(): void {
+    this.destination = 1;
+  }
+
+  /**
+   * Close a door (slide back to where it started)
+   */
+  close(): void {
+    this.destination = 0;
+  }
+
+  /**
+   * Check whether a door is open or on its way open
+   */
+  isOpen(): boolean {
+    return (this.destination ?? this.stopIndex) === 1;
+  }
+
+  /**
+   * Render as a striped gate or a lift with its direction lights
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+    const { x: width, y: height } = this.size;
+
+    if (this.door) {
+      ctx.fillStyle = '#5D6D7E';
+      ctx.fillRect(x, y, width, height);
+      ctx.strokeStyle = '#F1C40F';
+      ctx.lineWidth = 3;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, width, height);
+      ctx.clip();
+      for (let offset = -height; offset < width; offset += 20) {
+        ctx.beginPath();
+        ctx.moveTo(x + offset, y + height);
+        ctx.lineTo(x + offset + height, y);
+        ctx.stroke();
+      }
+      ctx.restore();
+      ctx.strokeStyle = '#2C3E50';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, width, height);
+      return;
+    }
+
+    ctx.fillStyle = '#7F8C8D';
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = this.destination !== null ? '#4AE290' : '#E67E22';
+    ctx.fillRect(x, y, width, 3);
+    ctx.strokeStyle = '#2C3E50';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, width, height);
+  }
+}
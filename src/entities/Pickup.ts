@@ -0,0 +1,158 @@
+import { Entity } from './Entity';
+import type { Player } from './Player';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID, PickupType } from '../types';
+import { WeaponSystem } from '../systems/WeaponSystem';
+import { getWeaponByName } from '../data/weapons';
+
+/**
+ * Default amount granted by each pickup type when the level data doesn't specify one
+ */
+const DEFAULT_AMOUNTS: Record<PickupType, number> = {
+  health: 30,
+  ammo: 30, // rounds
+  weapon: 0,
+  armor: 50,
+  item: 1,
+};
+
+/**
+ * Display colors for each pickup type
+ */
+const PICKUP_COLORS: Record<PickupType, { fill: string; stroke: string; label: string }> = {
+  health: { fill: '#2ECC71', stroke: '#1E8449', label: '+' },
+  ammo: { fill: '#F1C40F', stroke: '#9A7D0A', label: 'A' },
+  weapon: { fill: '#E67E22', stroke: '#935116', label: 'W' },
+  armor: { fill: '#3498DB', stroke: '#1F618D', label: 'S' },
+  item: { fill: '#9B59B6', stroke: '#6C3483', label: '*' },
+};
+
+/**
+ * Pickup entity for health packs, ammo crates, armor, weapon drops and collectible items.
+ * Collected by touching the player; can optionally respawn after a delay.
+ */
+export class Pickup extends Entity {
+  static readonly SIZE = new Vec2(20, 20);
+
+  type: PickupType;
+  amount: number;
+  weaponName?: string;
+  respawnTime: number; // 0 = never respawns
+  available: boolean;
+
+  private respawnTimer: number = 0;
+  private bobTimer: number = 0;
+
+  constructor(
+    id: EntityID,
+    position: Vec2,
+    type: PickupType,
+    amount?: number,
+    weaponName?: string,
+    respawnTime: number = 0
+  ) {
+    super(id, position, Pickup.SIZE.clone());
+
+    this.type = type;
+    this.amount = amount ?? DEFAULT_AMOUNTS[type];
+    this.weaponName = weaponName;
+    this.respawnTime = respawnTime;
+    this.available = true;
+
+    // Add tags
+    this.addTag('pickup');
+    this.addTag('physics'); // Falls onto platforms when dropped
+    this.collisionLayer = CollisionLayer.PICKUP;
+    this.collisionMask = CollisionLayer.PLAYER;
+  }
+
+  /**
+   * Update respawn timer and bobbing animation
+   */
+  update(dt: number): void {
+    this.bobTimer += dt;
+
+    if (!this.available) {
+      this.respawnTimer -= dt;
+      if (this.respawnTimer <= 0) {
+        this.available = true;
+      }
+    }
+  }
+
+  /**
+   * Try to apply this pickup to the player
+   * @returns True if the pickup was used (and should disappear)
+   */
+  collect(player: Player, weaponSystem: WeaponSystem): boolean {
+    if (!this.available) return false;
+
+    if (!this.applyTo(player, weaponSystem)) {
+      return false; // Not needed right now - leave it for later
+    }
+
+    if (this.respawnTime > 0) {
+      this.available = false;
+      this.respawnTimer = this.respawnTime;
+    } else {
+      this.deactivate();
+    }
+    return true;
+  }
+
+  /**
+   * Apply the pickup's effect
+   */
+  private applyTo(player: Player, weaponSystem: WeaponSystem): boolean {
+    switch (this.type) {
+      case 'health':
+        if (player.health >= player.maxHealth) return false;
+        player.heal(this.amount);
+        return true;
+
+      case 'armor':
+        if (player.armor >= player.maxArmor) return false;
+        player.addArmor(this.amount);
+        return true;
+
+      case 'ammo':
+        return weaponSystem.addAmmo(player.id, this.amount) > 0;
+
+      case 'weapon': {
+        const weapon = this.weaponName ? getWeaponByName(this.weaponName) : undefined;
+        if (!weapon) return false;
+        return player.giveWeapon(weapon);
+      }
+
+      case 'item':
+        return true; // Counted by collect objectives
+    }
+  }
+
+  /**
+   * Render the pickup as a bobbing labelled box
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.available) return;
+
+    const colors = PICKUP_COLORS[this.type];
+    const bob = Math.sin(this.bobTimer * 4) * 3;
+    const x = this.position.x;
+    const y = this.position.y + bob;
+
+    ctx.fillStyle = colors.fill;
+    ctx.fillRect(x, y, this.size.x, this.size.y);
+
+    ctx.strokeStyle = colors.stroke;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, this.size.x, this.size.y);
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(colors.label, x + this.size.x / 2, y + this.size.y / 2);
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+  }
+}
@@ -1,22 +1,50 @@
 import { Entity } from './Entity';
 import { Vec2 } from '../types/Vec2';
-import { EntityID, WeaponDef } from '../types';
+import { CollisionLayer, EntityID, WeaponDef } from '../types';
 import { InputManager } from '../engine/InputManager';
-import { WeaponSystem } from '../systems/WeaponSystem';
+import { WeaponSystem, TriggerState } from '../systems/WeaponSystem';
 import type { Camera } from '../engine/Camera';
 
+/**
+ * Body colors per player slot (blue, then green for player 2; online matches use all four)
+ */
+export const PLAYER_COLORS = [
+  { body: '#4A90E2', outline: '#2E5C8A' },
+  { body: '#4AE290', outline: '#2E8A5C' },
+  { body: '#E2A04A', outline: '#8A5C2E' },
+  { body: '#B04AE2', outline: '#6A2E8A' },
+];
+
+/**
+ * Interpolate between two angles the short way round
+ */
+export function lerpAngle(from: number, to: number, t: number): number {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta <= -Math.PI) delta += Math.PI * 2;
+  return from + delta * t;
+}
+
 /**
  * Player entity controlled by keyboard and mouse input.
  * Handles movement, jumping, aiming, shooting, and weapon management.
+ * In co-op each player reads the actions of their own input slot (playerIndex);
+ * only player 1 can aim with the mouse.
  */
 export class Player extends Entity {
+  static readonly SIZE = new Vec2(32, 48);
+
   health: number;
   maxHealth: number;
+  armor: number;
+  maxArmor: number;
   moveSpeed: number;
   jumpForce: number;
   currentWeaponIndex: number;
   weapons: WeaponDef[];
   aimAngle: number;
+  previousAimAngle: number; // Aim before the last fixed update, for render interpolation
+  readonly playerIndex: number; // Local player number, 0-based
   
   // Input and systems
   private inputManager: InputManager;
@@ -27,8 +55,16 @@ export class Player extends Entity {
   // Jump mechanics
   private jumpKeyPressed: boolean = false;
   private jumpTimer: number = 0;
+  private facing: number = 1; // 1 = right, -1 = left
   private readonly MAX_JUMP_TIME = 0.3; // Maximum time to hold jump for variable height
   
+  // Fraction of incoming damage absorbed by armor
+  private readonly ARMOR_ABSORPTION = 2 / 3;
+  
+  // Respawn protection
+  private invulnerableTimer: number = 0;
+  private readonly FLICKER_INTERVAL = 0.1; // seconds between flicker toggles
+  
   // Movement acceleration
   private readonly ACCELERATION = 2000; // pixels per second squared
   private readonly MAX_MOVE_SPEED = 300; // pixels per second
@@ -38,17 +74,22 @@ export class Player extends Entity {
     position: Vec2,
     inputManager: InputManager,
     weaponSystem: WeaponSystem,
-    weapons: WeaponDef[]
+    weapons: WeaponDef[],
+    playerIndex: number = 0
   ) {
-    super(id, position, new Vec2(32, 48)); // 32x48 player size
+    super(id, position, Player.SIZE.clone());
     
     this.health = 100;
     this.maxHealth = 100;
+    this.armor = 0;
+    this.maxArmor = 100;
     this.moveSpeed = 300;
     this.jumpForce = 600;
     this.currentWeaponIndex = 0;
     this.weapons = weapons;
     this.aimAngle = 0;
+    this.previousAimAngle = 0;
+    this.playerIndex = playerIndex;
     
     this.inputManager = inputManager;
     this.weaponSystem = weaponSystem;
@@ -56,38 +97,44 @@ export class Player extends Entity {
     // Add tags
     this.addTag('player');
     this.addTag('physics'); // Enable physics
-    
-    // Register initial weapon
-    if (weapons.length > 0 && weapons[0]) {
-      weaponSystem.registerWeapon(this.id, weapons[0]);
-    }
+    this.team = 'player';
+    this.collisionLayer = CollisionLayer.PLAYER;
+    this.collisionMask = CollisionLayer.PROJECTILE | CollisionLayer.PICKUP;
+    // The spawner registers the starting weapon once the engine assigns our ID
   }
 
   /**
    * Update player state based on input
    */
   update(dt: number): void {
+    if (this.invulnerableTimer > 0) {
+      this.invulnerableTimer -= dt;
+    }
+    
     this.handleMovement(dt);
     this.handleJump(dt);
     this.handleAiming();
     this.handleShooting();
     this.handleWeaponSwap();
+    this.handleReload();
   }
 
   /**
    * Handle horizontal movement with smooth acceleration
    */
   private handleMovement(dt: number): void {
-    const moveLeft = this.inputManager.isKeyDown('a');
-    const moveRight = this.inputManager.isKeyDown('d');
+    const moveLeft = this.inputManager.isActionDown('moveLeft', this.playerIndex);
+    const moveRight = this.inputManager.isActionDown('moveRight', this.playerIndex);
     
     if (moveLeft && !moveRight) {
+      this.facing = -1;
       // Accelerate left
       this.velocity.x -= this.ACCELERATION * dt;
       if (this.velocity.x < -this.MAX_MOVE_SPEED) {
         this.velocity.x = -this.MAX_MOVE_SPEED;
       }
     } else if (moveRight && !moveLeft) {
+      this.facing = 1;
       // Accelerate right
       this.velocity.x += this.ACCELERATION * dt;
       if (this.velocity.x > this.MAX_MOVE_SPEED) {
@@ -101,7 +148,7 @@ export class Player extends Entity {
    * Handle jumping with variable height based on key hold duration
    */
   private handleJump(dt: number): void {
-    const jumpKey = this.inputManager.isKeyDown(' '); // Space key
+    const jumpKey = this.inputManager.isActionDown('jump', this.playerIndex);
     const isGrounded = this.hasTag('grounded');
     
     if (jumpKey && !this.jumpKeyPressed && isGrounded) {
@@ -130,9 +177,21 @@ export class Player extends Entity {
   }
 
   /**
-   * Handle aiming toward mouse cursor
+   * Handle aiming toward the mouse cursor, or along the right stick when the gamepad aimed last.
+   * Players without a mouse aim the way they face until they use a stick.
    */
   private handleAiming(): void {
+    const stickAim = this.inputManager.getStickAim(this.playerIndex);
+    if (stickAim) {
+      this.aimAngle = Math.atan2(stickAim.y, stickAim.x);
+      return;
+    }
+
+    if (this.playerIndex > 0) {
+      this.aimAngle = this.facing > 0 ? 0 : Math.PI;
+      return;
+    }
+
     // Always require camera for proper world coordinate conversion
     if (!this.camera) {
       console.warn('[Player] Camera not set, aiming disabled');
@@ -160,27 +219,43 @@ export class Player extends Entity {
     // Don't fire if camera isn't set (aiming won't work)
     if (!this.camera) return;
 
-    const fireButton = this.inputManager.isMouseButtonDown(0); // Left mouse button
-
-    if (fireButton) {
-      this.shoot();
+    // The weapon's fire mode decides what each trigger state does
+    let trigger: TriggerState = 'up';
+    if (this.inputManager.isActionPressed('fire', this.playerIndex)) {
+      trigger = 'pressed';
+    } else if (this.inputManager.isActionDown('fire', this.playerIndex)) {
+      trigger = 'held';
+    } else if (this.inputManager.isActionReleased('fire', this.playerIndex)) {
+      trigger = 'released';
     }
+
+    this.shoot(trigger);
   }
 
   /**
    * Handle weapon swapping
    */
   private handleWeaponSwap(): void {
-    // Use isKeyPressed to only swap on initial key press, not while held
-    if (this.inputManager.isKeyPressed('f')) {
+    // Use isActionPressed to only swap on initial press, not while held
+    if (this.inputManager.isActionPressed('swapWeapon', this.playerIndex)) {
       this.swapWeapon();
     }
   }
 
+  /**
+   * Handle manual reloading
+   */
+  private handleReload(): void {
+    if (this.inputManager.isActionPressed('reload', this.playerIndex)) {
+      this.weaponSystem.startReload(this.id);
+    }
+  }
+
   /**
    * Fire the current weapon
+   * @param trigger - Trigger input this update
    */
-  shoot(): void {
+  shoot(trigger: TriggerState = 'pressed'): void {
     const weaponPos = new Vec2(
       this.position.x + this.size.x / 2,
       this.position.y + this.size.y / 2
@@ -192,7 +267,7 @@ export class Player extends Entity {
     );
     
     // WeaponSystem will handle fire rate, ammo, and projectile spawning
-    const projectiles = this.weaponSystem.fire(this.id, weaponPos, direction);
+    const projectiles = this.weaponSystem.fire(this.id, weaponPos, direction, trigger);
     
     // Notify callback if projectiles were spawned
     if (projectiles.length > 0 && this.onShootCallback) {
@@ -220,10 +295,36 @@ export class Player extends Entity {
     }
   }
 
+  /**
+   * Add a weapon to the inventory and switch to it.
+   * A weapon that's already carried gives a magazine's worth of reserve ammo instead.
+   * @returns True if the weapon or its ammo was taken
+   */
+  giveWeapon(weapon: WeaponDef): boolean {
+    if (this.weapons.some(w => w.name === weapon.name)) {
+      return this.weaponSystem.addAmmo(this.id, weapon.magazineSize, weapon.name) > 0;
+    }
+    
+    this.weapons.push(weapon);
+    this.currentWeaponIndex = this.weapons.length - 1;
+    this.weaponSystem.switchWeapon(this.id, weapon);
+    return true;
+  }
+
   /**
    * Take damage and apply knockback
+   * @param knockbackForce - Impulse along knockbackDir in pixels per second
    */
-  takeDamage(amount: number, knockbackDir?: Vec2): void {
+  takeDamage(amount: number, knockbackDir?: Vec2, knockbackForce: number = 300): void {
+    if (this.isInvulnerable()) return;
+    
+    // Armor soaks up part of the damage until depleted
+    if (this.armor > 0) {
+      const absorbed = Math.min(this.armor, amount * this.ARMOR_ABSORPTION);
+      this.armor -= absorbed;
+      amount -= absorbed;
+    }
+    
     this.health -= amount;
     
     if (this.health <= 0) {
@@ -233,21 +334,50 @@ export class Player extends Entity {
     
     // Apply knockback if direction provided
     if (knockbackDir) {
-      const knockbackForce = 300;
       this.velocity = this.velocity.add(knockbackDir.normalize().multiply(knockbackForce));
     }
   }
 
   /**
-   * Render the player
+   * Ignore all damage for a duration (e.g. after respawning)
+   */
+  makeInvulnerable(duration: number): void {
+    this.invulnerableTimer = duration;
+  }
+
+  /**
+   * Check if the player is currently ignoring damage
+   */
+  isInvulnerable(): boolean {
+    return this.invulnerableTimer > 0;
+  }
+
+  /**
+   * Remember position and aim before the next fixed update
    */
-  render(ctx: CanvasRenderingContext2D): void {
+  savePreviousState(): void {
+    super.savePreviousState();
+    this.previousAimAngle = this.aimAngle;
+  }
+
+  /**
+   * Render the player, aiming between the last two fixed updates
+   */
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    ctx.save();
+    
+    // Flicker while invulnerable
+    if (this.isInvulnerable() && Math.floor(this.invulnerableTimer / this.FLICKER_INTERVAL) % 2 === 0) {
+      ctx.globalAlpha = 0.3;
+    }
+    
     // Draw player body as rectangle
-    ctx.fillStyle = '#4A90E2'; // Blue color
+    const colors = PLAYER_COLORS[this.playerIndex] ?? PLAYER_COLORS[0]!;
+    ctx.fillStyle = colors.body;
     ctx.fillRect(this.position.x, this.position.y, this.size.x, this.size.y);
     
     // Draw player outline
-    ctx.strokeStyle = '#2E5C8A';
+    ctx.strokeStyle = colors.outline;
     ctx.lineWidth = 2;
     ctx.strokeRect(this.position.x, this.position.y, this.size.x, this.size.y);
     
@@ -255,8 +385,9 @@ export class Player extends Entity {
     const centerX = this.position.x + this.size.x / 2;
     const centerY = this.position.y + this.size.y / 2;
     const weaponLength = 30;
-    const weaponEndX = centerX + Math.cos(this.aimAngle) * weaponLength;
-    const weaponEndY = centerY + Math.sin(this.aimAngle) * weaponLength;
+    const aim = lerpAngle(this.previousAimAngle, this.aimAngle, alpha);
+    const weaponEndX = centerX + Math.cos(aim) * weaponLength;
+    const weaponEndY = centerY + Math.sin(aim) * weaponLength;
     
     ctx.strokeStyle = '#333333';
     ctx.lineWidth = 3;
@@ -267,6 +398,15 @@ export class Player extends Entity {
     
     // Draw health bar above player
     this.drawHealthBar(ctx);
+    
+    // Draw charge meter while charging a shot
+    const charge = this.weaponSystem.getChargeRatio(this.id);
+    if (charge > 0) {
+      ctx.fillStyle = charge >= 1 ? '#66FFFF' : '#3A8A8A';
+      ctx.fillRect(this.position.x, this.position.y - 16, this.size.x * charge, 3);
+    }
+    
+    ctx.restore();
   }
 
   /**
@@ -309,4 +449,11 @@ export class Player extends Entity {
       this.health = this.maxHealth;
     }
   }
+
+  /**
+   * Add armor, up to the maximum
+   */
+  addArmor(amount: number): void {
+    this.armor = Math.min(this.maxArmor, this.armor + amount);
+  }
 }
@@ -1,10 +1,22 @@
 import { Entity } from './Entity';
 import { Vec2 } from '../types/Vec2';
-import { EntityID } from '../types';
+import { CollisionLayer, EntityID, ProjectileKind, Team, WeaponDef } from '../types';
 
 /**
- * Projectile entity representing bullets and pellets fired from weapons.
- * Moves in a straight line and despawns after hitting something or timing out.
+ * Size of each projectile kind in pixels
+ */
+const PROJECTILE_SIZES: Record<ProjectileKind, number> = {
+  bullet: 4,
+  grenade: 8,
+  rocket: 8,
+  rail: 4,
+  beam: 4,
+};
+
+/**
+ * Projectile entity representing bullets, pellets, explosives and beams fired from weapons.
+ * Behaviour (gravity, bouncing, piercing, falloff) comes from the weapon that fired it.
+ * Despawns after hitting an entity, a platform, or timing out.
  */
 export class Projectile extends Entity {
   owner: EntityID; // Entity that fired this projectile
@@ -12,6 +24,13 @@ export class Projectile extends Entity {
   lifetime: number; // Remaining lifetime in seconds
   maxLifetime: number; // Maximum lifetime for fade calculation
   speed: number;
+  weapon: WeaponDef | null; // Weapon that fired this projectile
+  kind: ProjectileKind;
+  origin: Vec2; // Where the projectile was fired from, for damage falloff
+  gravity: number = 0; // Downward acceleration in pixels per second squared
+  beamEnd: Vec2 | null = null; // End point of a beam segment
+
+  private hitEntities: Set<EntityID> = new Set();
 
   constructor(
     id: EntityID,
@@ -20,81 +39,200 @@ export class Projectile extends Entity {
     owner: EntityID,
     damage: number,
     speed: number,
-    lifetime: number = 3.0 // Default 3 seconds
+    lifetime: number = 3.0, // Default 3 seconds
+    weapon: WeaponDef | null = null
   ) {
     super(id, position, new Vec2(4, 4)); // Small 4x4 projectile
-    
+
     this.owner = owner;
     this.damage = damage;
     this.speed = speed;
     this.lifetime = lifetime;
     this.maxLifetime = lifetime;
-    
+    this.weapon = weapon;
+    this.kind = weapon?.projectileKind ?? 'bullet';
+    this.origin = position.clone();
+
     // Set velocity based on direction and speed
     this.velocity = direction.normalize().multiply(speed);
-    
-    // Add projectile tag for collision detection
+
+    // Add projectile tag for collision detection - projectiles never test against each other
     this.addTag('projectile');
+    this.collisionLayer = CollisionLayer.PROJECTILE;
+    this.collisionMask = CollisionLayer.PLAYER | CollisionLayer.ENEMY | CollisionLayer.EXPLOSIVE | CollisionLayer.OBJECTIVE | CollisionLayer.SWITCH;
   }
 
   /**
-   * Update projectile position and lifetime
+   * Update projectile velocity and lifetime
    */
   update(dt: number): void {
     // Decrease lifetime
     this.lifetime -= dt;
-    
-    // Despawn if lifetime expired
-    if (this.lifetime <= 0) {
+
+    // Despawn if lifetime expired - explosives are left for the engine to detonate
+    if (this.isExpired() && !this.isExplosive()) {
       this.deactivate();
       return;
     }
-    
+
+    // Arc under gravity (grenades)
+    this.velocity.y += this.gravity * dt;
+
     // Movement is handled by velocity (no need to manually update position)
-    // Physics system will integrate velocity into position
+    // PhysicsSystem.updateProjectiles sweeps velocity into position against platforms
+  }
+
+  /**
+   * Check whether the projectile's lifetime (or grenade fuse) has run out
+   */
+  isExpired(): boolean {
+    return this.lifetime <= 0;
+  }
+
+  /**
+   * Check whether the projectile explodes when it stops
+   */
+  isExplosive(): boolean {
+    return this.weapon?.splash !== undefined;
+  }
+
+  /**
+   * Check whether the projectile bounces off platforms instead of stopping
+   */
+  isBouncy(): boolean {
+    return (this.weapon?.bounciness ?? 0) > 0;
+  }
+
+  /**
+   * Get damage at the current distance from the muzzle, after falloff
+   */
+  getDamage(): number {
+    const falloff = this.weapon?.falloff;
+    if (!falloff) return this.damage;
+
+    const distance = this.getBounds().center.distance(this.origin);
+    if (distance <= falloff.start) return this.damage;
+    if (distance >= falloff.end) return this.damage * falloff.minMultiplier;
+
+    const t = (distance - falloff.start) / (falloff.end - falloff.start);
+    return this.damage * (1 - t * (1 - falloff.minMultiplier));
   }
 
   /**
-   * Render the projectile as a small circle
+   * Bounce off a surface, keeping part of the velocity
+   * @param normal - Surface normal at the contact point
+   */
+  bounce(normal: Vec2): void {
+    const bounciness = this.weapon?.bounciness ?? 0;
+    const dot = this.velocity.x * normal.x + this.velocity.y * normal.y;
+    this.velocity = this.velocity.subtract(normal.multiply(2 * dot)).multiply(bounciness);
+
+    // Step off the surface so the next sweep doesn't start inside it
+    this.position = this.position.add(normal.multiply(0.5));
+  }
+
+  /**
+   * Render the projectile according to its kind
    */
   render(ctx: CanvasRenderingContext2D): void {
     const centerX = this.position.x + this.size.x / 2;
     const centerY = this.position.y + this.size.y / 2;
     const radius = this.size.x / 2;
-    
+
     // Calculate alpha based on remaining lifetime (fade out near end)
     const lifetimeRatio = this.lifetime / this.maxLifetime;
-    const alpha = Math.min(1, lifetimeRatio * 2); // Fade in last 50% of lifetime
-    
+    const alpha = this.kind === 'grenade' ? 1 : Math.min(1, lifetimeRatio * 2); // Fade in last 50% of lifetime
+
     ctx.save();
     ctx.globalAlpha = alpha;
-    
-    // Draw projectile as yellow circle
-    ctx.fillStyle = '#FFD700'; // Gold color
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-    ctx.fill();
-    
-    // Add glow effect
-    ctx.strokeStyle = '#FFA500'; // Orange glow
-    ctx.lineWidth = 1;
-    ctx.stroke();
-    
+
+    switch (this.kind) {
+      case 'beam':
+        if (this.beamEnd) {
+          ctx.strokeStyle = '#FF3366';
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(centerX, centerY);
+          ctx.lineTo(this.beamEnd.x, this.beamEnd.y);
+          ctx.stroke();
+          ctx.strokeStyle = '#FFFFFF';
+          ctx.lineWidth = 1;
+          ctx.stroke();
+        }
+        break;
+
+      case 'rail': {
+        // Long streak behind the slug
+        const tail = this.velocity.normalize().multiply(-40);
+        ctx.strokeStyle = '#66FFFF';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        ctx.lineTo(centerX + tail.x, centerY + tail.y);
+        ctx.stroke();
+        break;
+      }
+
+      case 'grenade':
+        ctx.fillStyle = '#4A7A3A';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = '#2A4A1A';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        break;
+
+      case 'rocket': {
+        // Body pointing along the flight direction, with an exhaust flame
+        const forward = this.velocity.normalize();
+        ctx.strokeStyle = '#CCCCCC';
+        ctx.lineWidth = 4;
+        ctx.beginPath();
+        ctx.moveTo(centerX - forward.x * 6, centerY - forward.y * 6);
+        ctx.lineTo(centerX + forward.x * 6, centerY + forward.y * 6);
+        ctx.stroke();
+        ctx.fillStyle = '#FF6600';
+        ctx.beginPath();
+        ctx.arc(centerX - forward.x * 8, centerY - forward.y * 8, 3, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      }
+
+      default:
+        // Draw projectile as yellow circle
+        ctx.fillStyle = '#FFD700'; // Gold color
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Add glow effect
+        ctx.strokeStyle = '#FFA500'; // Orange glow
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    }
+
     ctx.restore();
   }
 
   /**
    * Handle collision with another entity
    * @param target - The entity that was hit
+   * @returns True if the target should take damage (not the owner, not already pierced)
    */
-  onHit(target: Entity): void {
-    // Don't hit the owner
-    if (target.id === this.owner) return;
-    
-    // Deactivate projectile on hit
-    this.deactivate();
-    
+  onHit(target: Entity): boolean {
+    // Don't hit the owner or the same target twice
+    if (target.id === this.owner || this.hitEntities.has(target.id)) return false;
+
+    this.hitEntities.add(target.id);
+
+    // Rails keep going until they've passed through enough targets
+    if (this.hitEntities.size > (this.weapon?.pierce ?? 0)) {
+      this.deactivate();
+    }
+
     // Damage will be applied by the collision system callback
+    return true;
   }
 
   /**
@@ -106,15 +244,30 @@ export class Projectile extends Entity {
     owner: EntityID,
     damage: number,
     speed: number,
-    lifetime: number = 3.0
+    lifetime: number = 3.0,
+    weapon: WeaponDef | null = null,
+    team: Team = 'neutral'
   ): void {
-    this.position = position.clone();
+    this.weapon = weapon;
+    this.team = team; // Shooter's team, kept even if the shooter dies
+    this.kind = weapon?.projectileKind ?? 'bullet';
+
+    const size = PROJECTILE_SIZES[this.kind];
+    this.size = new Vec2(size, size);
+
+    // Position is the projectile's center when fired
+    this.position = position.subtract(this.size.multiply(0.5));
+    this.savePreviousState(); // Pooled projectiles shouldn't slide from where they last were
+    this.origin = position.clone();
     this.owner = owner;
     this.damage = damage;
     this.speed = speed;
     this.lifetime = lifetime;
     this.maxLifetime = lifetime;
     this.velocity = direction.normalize().multiply(speed);
+    this.gravity = 0;
+    this.beamEnd = null;
+    this.hitEntities.clear();
     this.activate();
   }
 }
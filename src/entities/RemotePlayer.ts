@@ -0,0 +1,167 @@
+import { Entity } from './Entity';
+import { PLAYER_COLORS, Player, lerpAngle } from './Player';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer } from '../types';
+import type { PlayerSnapshot } from '../net/Protocol';
+
+/**
+ * A remote player's position and aim at one server tick
+ */
+interface RemoteState {
+  tick: number;
+  position: Vec2;
+  aim: number;
+}
+
+/**
+ * Another player in an online match, drawn from server snapshots.
+ * Snapshots arrive every few ticks, so the player is shown a little in the past,
+ * between the two snapshots either side of the playback tick. The playback tick
+ * advances with each fixed update; between updates the player is interpolated
+ * like any other entity.
+ */
+export class RemotePlayer extends Entity {
+  readonly seat: number;
+  name: string;
+  health: number = 100;
+  maxHealth: number = 100;
+  aimAngle: number = 0;
+  previousAimAngle: number = 0;
+  invulnerable: boolean = false;
+
+  private states: RemoteState[] = []; // Oldest first
+  private playbackTick: number = 0;
+  private readonly MAX_STATES = 30; // Half a second of snapshots at 60 ticks per second
+  private readonly FLICKER_INTERVAL = 6; // ticks between flicker toggles
+
+  constructor(seat: number, name: string) {
+    super(0, new Vec2(0, 0), Player.SIZE.clone());
+
+    this.seat = seat;
+    this.name = name;
+    this.team = `player${seat + 1}`;
+    this.collisionLayer = CollisionLayer.NONE; // The server decides what hits it
+    this.collisionMask = CollisionLayer.NONE;
+  }
+
+  /**
+   * Add the player's state from a snapshot
+   */
+  pushState(tick: number, snapshot: PlayerSnapshot): void {
+    const last = this.states[this.states.length - 1];
+    if (last && tick <= last.tick) return; // Out of order
+
+    this.states.push({ tick, position: new Vec2(snapshot.x, snapshot.y), aim: snapshot.aim });
+    if (this.states.length > this.MAX_STATES) {
+      this.states.shift();
+    }
+
+    this.name = snapshot.name;
+    this.health = snapshot.health;
+    this.invulnerable = snapshot.invulnerable;
+
+    // First state: show it straight away
+    if (this.states.length === 1) {
+      this.position = this.states[0]!.position.clone();
+      this.aimAngle = snapshot.aim;
+      this.savePreviousState();
+    }
+  }
+
+  /**
+   * Set the server tick being shown
+   */
+  setPlaybackTick(tick: number): void {
+    this.playbackTick = tick;
+  }
+
+  /**
+   * Move to the interpolated state at the playback tick
+   */
+  update(_dt: number): void {
+    const state = this.sample(this.playbackTick);
+    if (state) {
+      this.position = state.position;
+      this.aimAngle = state.aim;
+    }
+  }
+
+  /**
+   * Interpolate between the snapshots either side of a (fractional) tick,
+   * holding the nearest one outside the buffered range
+   */
+  private sample(tick: number): { position: Vec2; aim: number } | null {
+    const first = this.states[0];
+    const last = this.states[this.states.length - 1];
+    if (!first || !last) return null;
+    if (tick <= first.tick) return { position: first.position.clone(), aim: first.aim };
+    if (tick >= last.tick) return { position: last.position.clone(), aim: last.aim };
+
+    for (let i = 1; i < this.states.length; i++) {
+      const to = this.states[i]!;
+      if (to.tick < tick) continue;
+
+      const from = this.states[i - 1]!;
+      const t = (tick - from.tick) / (to.tick - from.tick);
+      return {
+        position: from.position.add(to.position.subtract(from.position).multiply(t)),
+        aim: lerpAngle(from.aim, to.aim, t),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Remember position and aim before the next fixed update
+   */
+  savePreviousState(): void {
+    super.savePreviousState();
+    this.previousAimAngle = this.aimAngle;
+  }
+
+  /**
+   * Render the player, aiming between the last two fixed updates
+   */
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    const position = this.position;
+    const aim = lerpAngle(this.previousAimAngle, this.aimAngle, alpha);
+
+    ctx.save();
+
+    // Flicker while protected after respawning
+    if (this.invulnerable && Math.floor(this.playbackTick / this.FLICKER_INTERVAL) % 2 === 0) {
+      ctx.globalAlpha = 0.3;
+    }
+
+    const colors = PLAYER_COLORS[this.seat] ?? PLAYER_COLORS[0]!;
+    ctx.fillStyle = colors.body;
+    ctx.fillRect(position.x, position.y, this.size.x, this.size.y);
+    ctx.strokeStyle = colors.outline;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(position.x, position.y, this.size.x, this.size.y);
+
+    // Aim indicator
+    const centerX = position.x + this.size.x / 2;
+    const centerY = position.y + this.size.y / 2;
+    ctx.strokeStyle = '#333333';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(centerX, centerY);
+    ctx.lineTo(centerX + Math.cos(aim) * 30, centerY + Math.sin(aim) * 30);
+    ctx.stroke();
+
+    // Health bar and name above the player
+    ctx.fillStyle = '#FF0000';
+    ctx.fillRect(position.x, position.y - 10, this.size.x, 4);
+    ctx.fillStyle = '#00FF00';
+    ctx.fillRect(position.x, position.y - 10, this.size.x * (this.health / this.maxHealth), 4);
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(this.name, centerX, position.y - 16);
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,41 @@
+import { Projectile } from './Projectile';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer } from '../types';
+import { getWeaponByName } from '../data/weapons';
+import type { ProjectileSnapshot } from '../net/Protocol';
+
+/**
+ * A projectile in an online match, drawn from server snapshots.
+ * It only looks like a Projectile: it never hits anything (the server decides that)
+ * and flies straight on between snapshots, which correct it.
+ */
+export class RemoteProjectile extends Projectile {
+  constructor(snapshot: ProjectileSnapshot) {
+    super(0, new Vec2(0, 0), new Vec2(1, 0), 0, 0, 0);
+
+    const velocity = new Vec2(snapshot.vx, snapshot.vy);
+    this.reset(new Vec2(0, 0), velocity, 0, 0, velocity.length(), 1, getWeaponByName(snapshot.weapon) ?? null);
+    this.sync(snapshot);
+    this.savePreviousState();
+
+    this.removeTag('projectile'); // Keeps the client's physics and collisions away from it
+    this.collisionLayer = CollisionLayer.NONE;
+    this.collisionMask = CollisionLayer.NONE;
+  }
+
+  /**
+   * Take the server's position and velocity
+   */
+  sync(snapshot: ProjectileSnapshot): void {
+    this.position = new Vec2(snapshot.x, snapshot.y);
+    this.velocity = new Vec2(snapshot.vx, snapshot.vy);
+    this.beamEnd = snapshot.end ? new Vec2(snapshot.end[0], snapshot.end[1]) : null;
+  }
+
+  /**
+   * Fly on at the last known velocity
+   */
+  update(dt: number): void {
+    this.position = this.position.add(this.velocity.multiply(dt));
+  }
+}
@@ -0,0 +1,109 @@
+import { Entity } from './Entity';
+import { Vec2 } from '../types/Vec2';
+import { CollisionLayer, EntityID } from '../types';
+
+export type SwitchKind = 'plate' | 'lever';
+
+/**
+ * Pressure plate or lever. Plates are pressed while something stands on them
+ * (TriggerSystem checks); levers flip on and off when shot, by anyone.
+ */
+export class Switch extends Entity {
+  static readonly PLATE_SIZE = new Vec2(40, 8);
+  static readonly LEVER_SIZE = new Vec2(16, 32);
+
+  readonly kind: SwitchKind;
+  readonly once: boolean; // Stays on after the first time
+  on: boolean = false;
+  private hitCooldown: number = 0;
+  private readonly HIT_COOLDOWN = 0.5; // seconds before a lever can flip again, so one volley flips it once
+  private onChange: ((on: boolean) => void) | null = null;
+
+  constructor(id: EntityID, position: Vec2, kind: SwitchKind, once: boolean = false) {
+    super(id, position, (kind === 'plate' ? Switch.PLATE_SIZE : Switch.LEVER_SIZE).clone());
+    this.kind = kind;
+    this.once = once;
+    this.team = 'neutral';
+
+    if (kind === 'lever') {
+      this.addTag('switch');
+      this.collisionLayer = CollisionLayer.SWITCH;
+      this.collisionMask = CollisionLayer.PROJECTILE;
+    } else {
+      this.addTag('plate');
+      this.collisionLayer = CollisionLayer.NONE;
+      this.collisionMask = CollisionLayer.NONE;
+    }
+  }
+
+  /**
+   * Set the callback for the switch turning on or off
+   */
+  setOnChange(callback: (on: boolean) => void): void {
+    this.onChange = callback;
+  }
+
+  /**
+   * Update the lever's hit cooldown
+   */
+  update(dt: number): void {
+    if (this.hitCooldown > 0) {
+      this.hitCooldown -= dt;
+    }
+  }
+
+  /**
+   * Press or release a plate
+   */
+  setPressed(pressed: boolean): void {
+    if (pressed === this.on || (this.once && this.on)) return;
+    this.on = pressed;
+    this.onChange?.(pressed);
+  }
+
+  /**
+   * Flip a lever that was shot
+   */
+  hit(): void {
+    if (this.kind !== 'lever' || this.hitCooldown > 0 || (this.once && this.on)) return;
+    this.hitCooldown = this.HIT_COOLDOWN;
+    this.on = !this.on;
+    this.onChange?.(this.on);
+  }
+
+  /**
+   * Render a plate sunk when pressed, or a lever leaning the way it's flipped
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+    const color = this.on ? '#4AE290' : '#E74C3C';
+
+    if (this.kind === 'plate') {
+      const sink = this.on ? this.size.y / 2 : 0;
+      ctx.fillStyle = '#566573';
+      ctx.fillRect(x - 2, y + this.size.y - 2, this.size.x + 4, 2);
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y + sink, this.size.x, this.size.y - sink - 2);
+      return;
+    }
+
+    // Base
+    ctx.fillStyle = '#566573';
+    ctx.fillRect(x, y + this.size.y - 8, this.size.x, 8);
+
+    // Handle
+    const baseX = x + this.size.x / 2;
+    const baseY = y + this.size.y - 8;
+    const lean = this.on ? 8 : -8;
+    ctx.strokeStyle = '#BDC3C7';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(baseX, baseY);
+    ctx.lineTo(baseX + lean, y + 4);
+    ctx.stroke();
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(baseX + lean, y + 4, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
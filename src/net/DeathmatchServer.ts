@@ -0,0 +1,241 @@
+import { DeathmatchSimulation } from './DeathmatchSimulation';
+import {
+  ClientMessage,
+  LobbyPlayer,
+  MAX_NAME_LENGTH,
+  SNAPSHOT_INTERVAL,
+  ServerMessage,
+  decodeClientMessage,
+  encodeMessage,
+} from './Protocol';
+import { getLevel } from '../data/levels';
+
+/**
+ * A connected client
+ */
+interface Connection {
+  id: number;
+  send: (data: string) => void;
+  name: string | null; // Null until the client says hello
+  ready: boolean;
+  seat: number | null; // Seat in the running match
+}
+
+/**
+ * DeathmatchServer runs the lobby and the match for every connected client.
+ * It doesn't know about sockets: the host passes each client's messages in and gives
+ * it a function to send replies, and calls update() once per fixed tick
+ * (see scripts/deathmatch-server.mjs).
+ *
+ * Clients join the lobby with a name. A match starts once at least two players are
+ * ready and everyone in the lobby is; players who ready up during a match drop straight
+ * in. When someone reaches the frag limit everyone goes back to the lobby.
+ */
+export class DeathmatchServer {
+  static readonly MIN_PLAYERS = 2;
+
+  private levelIndex: number;
+  private connections: Map<number, Connection> = new Map();
+  private nextConnectionId: number = 1;
+  private match: DeathmatchSimulation | null = null;
+  private seed: number;
+
+  /**
+   * @param levelIndex - Level every match is played on
+   * @param seed - Seed for the first match; each match after uses the next one
+   * @throws If there is no such level
+   */
+  constructor(levelIndex: number, seed: number = 1) {
+    if (!getLevel(levelIndex)) {
+      throw new Error(`[DeathmatchServer] Unknown level ${levelIndex}`);
+    }
+    this.levelIndex = levelIndex;
+    this.seed = seed;
+  }
+
+  /**
+   * Register a new client
+   * @param send - Sends a text message to the client
+   * @returns The connection ID to pass to receive() and disconnect()
+   */
+  connect(send: (data: string) => void): number {
+    const id = this.nextConnectionId++;
+    this.connections.set(id, { id, send, name: null, ready: false, seat: null });
+    return id;
+  }
+
+  /**
+   * Handle a message from a client; invalid messages are answered with an error
+   */
+  receive(connectionId: number, data: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    let message: ClientMessage;
+    try {
+      message = decodeClientMessage(data);
+    } catch (e) {
+      this.send(connection, { type: 'error', message: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        connection.name = message.name.trim().slice(0, MAX_NAME_LENGTH) || `Player ${connection.id}`;
+        this.send(connection, {
+          type: 'welcome',
+          id: connection.id,
+          levelIndex: this.levelIndex,
+          fragLimit: DeathmatchSimulation.FRAG_LIMIT,
+        });
+        this.broadcastLobby();
+        break;
+
+      case 'ready':
+        if (!connection.name) return;
+        connection.ready = message.ready;
+        if (this.match && message.ready && connection.seat === null) {
+          this.joinMatch(connection);
+        }
+        this.broadcastLobby();
+        this.startMatchIfReady();
+        break;
+
+      case 'input':
+        if (this.match && connection.seat !== null) {
+          this.match.queueInput(connection.seat, message.command);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Forget a client, taking them out of the match
+   */
+  disconnect(connectionId: number): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    this.connections.delete(connectionId);
+    if (this.match && connection.seat !== null) {
+      this.match.removePlayer(connection.seat);
+      if (this.match.getPlayerCount() === 0) {
+        this.endMatch();
+      }
+    }
+    this.broadcastLobby();
+  }
+
+  /**
+   * Advance the match by one fixed tick, sending snapshots and ending it at the frag limit
+   */
+  update(): void {
+    const match = this.match;
+    if (!match) return;
+
+    match.step();
+
+    if (match.isMatchOver()) {
+      this.broadcast({ type: 'matchOver', winner: match.getWinner() ?? '', scores: match.getScores() });
+      this.endMatch();
+      return;
+    }
+
+    if (match.getTick() % SNAPSHOT_INTERVAL === 0) {
+      this.broadcastToMatch({ type: 'snapshot', ...match.getSnapshot() });
+    }
+  }
+
+  /**
+   * Check whether a match is running
+   */
+  isMatchRunning(): boolean {
+    return this.match !== null;
+  }
+
+  /**
+   * Get the number of connected clients
+   */
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Start a match when enough players are ready and nobody is holding it up
+   */
+  private startMatchIfReady(): void {
+    if (this.match) return;
+
+    const joined = [...this.connections.values()].filter(c => c.name !== null);
+    if (joined.length < DeathmatchServer.MIN_PLAYERS || !joined.every(c => c.ready)) return;
+
+    const level = getLevel(this.levelIndex)!; // Checked in the constructor
+    this.match = new DeathmatchSimulation(level, this.seed++);
+    for (const connection of joined) {
+      this.joinMatch(connection);
+    }
+    this.broadcastLobby();
+  }
+
+  /**
+   * Give a client a seat in the running match
+   */
+  private joinMatch(connection: Connection): void {
+    if (!this.match || !connection.name) return;
+
+    try {
+      connection.seat = this.match.addPlayer(connection.name);
+    } catch (e) {
+      connection.ready = false;
+      this.send(connection, { type: 'error', message: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    this.send(connection, {
+      type: 'matchStart',
+      seat: connection.seat,
+      levelIndex: this.levelIndex,
+      tick: this.match.getTick(),
+    });
+  }
+
+  /**
+   * Stop the match and send everyone back to the lobby
+   */
+  private endMatch(): void {
+    this.match?.destroy();
+    this.match = null;
+    for (const connection of this.connections.values()) {
+      connection.seat = null;
+      connection.ready = false;
+    }
+    this.broadcastLobby();
+  }
+
+  /**
+   * Send everyone the lobby's current state
+   */
+  private broadcastLobby(): void {
+    const players: LobbyPlayer[] = [...this.connections.values()]
+      .filter(c => c.name !== null)
+      .map(c => ({ id: c.id, name: c.name!, ready: c.ready, playing: c.seat !== null }));
+    this.broadcast({ type: 'lobby', players, inProgress: this.match !== null });
+  }
+
+  private send(connection: Connection, message: ServerMessage): void {
+    connection.send(encodeMessage(message));
+  }
+
+  private broadcast(message: ServerMessage): void {
+    const data = encodeMessage(message);
+    for (const connection of this.connections.values()) {
+      if (connection.name !== null) connection.send(data);
+    }
+  }
+
+  private broadcastToMatch(message: ServerMessage): void {
+    const data = encodeMessage(message);
+    for (const connection of this.connections.values()) {
+      if (connection.seat !== null) connection.send(data);
+    }
+  }
+}
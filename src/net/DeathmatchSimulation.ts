@@ -0,0 +1,380 @@
+import { Engine } from '../engine/Engine';
+import { Player } from '../entities/Player';
+import { Pickup } from '../entities/Pickup';
+import { Projectile } from '../entities/Projectile';
+import { Level, EntityID } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { GAME_MODE_VERSUS } from '../data/gameModes';
+import { PLAYER_STARTING_WEAPONS } from '../data/weapons';
+import { InputCommand, MatchScore, NET_ACTIONS, PlayerSnapshot, ProjectileSnapshot } from './Protocol';
+
+/**
+ * A player taking part in the match
+ */
+interface Seat {
+  name: string;
+  player: Player | null; // Null while waiting to respawn
+  commands: InputCommand[]; // Received but not yet applied, oldest first
+  lastSeq: number;
+  aim: number;
+  respawnTimer: number;
+  frags: number;
+  deaths: number;
+}
+
+/**
+ * Get the points a level's deathmatch players can spawn at: its deathmatch spawns,
+ * or else the player spawn and every enemy spawn
+ */
+export function getDeathmatchSpawns(level: Level): Vec2[] {
+  const spawns = level.deathmatchSpawns ?? [level.playerSpawn, ...level.enemySpawns];
+  return spawns.map(spawn => new Vec2(spawn.x, spawn.y));
+}
+
+/**
+ * DeathmatchSimulation is the authoritative free-for-all match run by the server.
+ * It steps a headless Engine on the same fixed tick as the client, applying one
+ * input command per player per tick, and keeps frags and respawns.
+ * Each player is on their own team, and there are no enemies, barrels or level elements (movers, doors, switches, triggers).
+ */
+export class DeathmatchSimulation {
+  static readonly MAX_PLAYERS = 4;
+  static readonly FRAG_LIMIT = 10;
+  static readonly FIXED_TIMESTEP = 1 / 60; // Matches GameLoop
+  static readonly RESPAWN_INVULNERABILITY = 1.5; // seconds of protection after respawning
+
+  readonly engine: Engine;
+  readonly level: Level;
+
+  private seats: (Seat | null)[] = [];
+  private spawns: Vec2[];
+  private pickups: Pickup[] = [];
+  private seatsByEntity: Map<EntityID, number> = new Map(); // Every player entity spawned, for kill credit
+  private winner: number | null = null;
+  private readonly RESPAWN_DELAY = 2.0; // seconds between death and respawn
+  private readonly PICKUP_RESPAWN_TIME = 20; // seconds, for level pickups that don't set their own
+  private readonly MAX_QUEUED_COMMANDS = 10; // Older commands are dropped if a client runs ahead
+
+  constructor(level: Level, seed?: number) {
+    this.level = level;
+    this.spawns = getDeathmatchSpawns(level);
+    if (this.spawns.length === 0) {
+      throw new Error(`[DeathmatchSimulation] Level "${level.name}" has no spawn points`);
+    }
+
+    this.engine = new Engine(null, { seed, domInput: false });
+    this.engine.setGameMode(GAME_MODE_VERSUS);
+    this.engine.inputManager.setPlayerCount(DeathmatchSimulation.MAX_PLAYERS);
+    this.engine.physicsSystem.setPlatforms(level.platforms);
+    this.engine.camera.setBounds(level.bounds.width, level.bounds.height);
+
+    for (const data of level.pickups ?? []) {
+      const pickup = new Pickup(
+        0, // ID will be assigned by engine
+        new Vec2(data.x, data.y),
+        data.type,
+        data.amount,
+        data.weapon,
+        data.respawnTime ?? this.PICKUP_RESPAWN_TIME
+      );
+      this.pickups.push(pickup);
+      this.engine.spawn(pickup);
+    }
+
+    this.engine.events.on('playerKilled', ({ player, source }) => this.handleKill(player.id, source.ownerId));
+  }
+
+  /**
+   * Add a player, spawning them straight away
+   * @returns The player's seat
+   * @throws If the match is full
+   */
+  addPlayer(name: string): number {
+    let seat = this.seats.findIndex(s => s === null);
+    if (seat === -1) seat = this.seats.length;
+    if (seat >= DeathmatchSimulation.MAX_PLAYERS) {
+      throw new Error(`[DeathmatchSimulation] Match is full (${DeathmatchSimulation.MAX_PLAYERS} players)`);
+    }
+
+    this.seats[seat] = {
+      name,
+      player: null,
+      commands: [],
+      lastSeq: -1,
+      aim: 0,
+      respawnTimer: 0,
+      frags: 0,
+      deaths: 0,
+    };
+    this.spawnPlayer(seat);
+    return seat;
+  }
+
+  /**
+   * Remove a player and their character
+   */
+  removePlayer(seat: number): void {
+    const player = this.seats[seat]?.player;
+    if (player) {
+      this.engine.weaponSystem.unregisterWeapon(player.id);
+      this.engine.despawn(player.id);
+    }
+    this.seats[seat] = null;
+    this.clearInput(seat);
+
+    // Forget their characters so shots still in flight don't credit the seat's next occupant
+    for (const [entityId, entitySeat] of this.seatsByEntity) {
+      if (entitySeat === seat) this.seatsByEntity.delete(entityId);
+    }
+  }
+
+  /**
+   * Queue a player's input command for the next tick it hasn't been applied to
+   */
+  queueInput(seat: number, command: InputCommand): void {
+    const state = this.seats[seat];
+    if (!state || command.seq <= state.lastSeq) return; // Stale or duplicate
+
+    state.commands.push(command);
+    if (state.commands.length > this.MAX_QUEUED_COMMANDS) {
+      state.commands.shift();
+    }
+  }
+
+  /**
+   * Advance the match by one fixed tick
+   */
+  step(): void {
+    if (this.winner !== null) return;
+
+    const dt = DeathmatchSimulation.FIXED_TIMESTEP;
+    this.seats.forEach((state, seat) => {
+      if (!state) return;
+
+      // Without a new command the player keeps doing what they were doing
+      const command = state.commands.shift();
+      if (command) {
+        this.applyInput(seat, state, command);
+      }
+
+      if (!state.player) {
+        state.respawnTimer -= dt;
+        if (state.respawnTimer <= 0) {
+          this.spawnPlayer(seat);
+        }
+      }
+    });
+
+    this.engine.update(dt);
+  }
+
+  /**
+   * Hold a command's actions in the seat's input slot
+   */
+  private applyInput(seat: number, state: Seat, command: InputCommand): void {
+    const input = this.engine.inputManager;
+    for (const action of NET_ACTIONS) {
+      input.setActionState(action, command.actions.includes(action), seat);
+    }
+    input.setStickAim(new Vec2(Math.cos(command.aim), Math.sin(command.aim)), seat);
+    state.aim = command.aim;
+    state.lastSeq = command.seq;
+  }
+
+  /**
+   * Release everything a seat was holding
+   */
+  private clearInput(seat: number): void {
+    for (const action of NET_ACTIONS) {
+      this.engine.inputManager.setActionState(action, false, seat);
+    }
+  }
+
+  /**
+   * Spawn a seat's player at the spawn point furthest from everyone else
+   */
+  private spawnPlayer(seat: number): void {
+    const state = this.seats[seat];
+    if (!state) return;
+
+    const player = new Player(
+      0, // ID will be assigned by engine
+      this.pickSpawn(),
+      this.engine.inputManager,
+      this.engine.weaponSystem,
+      [...PLAYER_STARTING_WEAPONS], // Copy - pickups add to the player's list
+      seat
+    );
+    player.team = `player${seat + 1}`; // Free-for-all: everyone can hurt everyone
+    player.setCamera(this.engine.camera);
+    player.setOnShootCallback((projectiles) => {
+      for (const proj of projectiles) {
+        this.engine.spawnProjectile({ ...proj, owner: player.id });
+      }
+    });
+
+    this.engine.spawn(player);
+    this.engine.weaponSystem.registerWeapon(player.id, PLAYER_STARTING_WEAPONS[0]!);
+    player.makeInvulnerable(DeathmatchSimulation.RESPAWN_INVULNERABILITY);
+
+    this.seatsByEntity.set(player.id, seat);
+    state.player = player;
+    state.respawnTimer = 0;
+  }
+
+  /**
+   * Pick the spawn point whose nearest living player is furthest away
+   */
+  private pickSpawn(): Vec2 {
+    const others = this.seats
+      .map(state => state?.player)
+      .filter((player): player is Player => !!player && player.active)
+      .map(player => player.position);
+
+    let best = this.spawns[0]!;
+    let bestDistance = -1;
+    for (const spawn of this.spawns) {
+      const nearest = Math.min(...others.map(position => position.distance(spawn)));
+      if (nearest > bestDistance) {
+        best = spawn;
+        bestDistance = nearest;
+      }
+    }
+    return best.clone();
+  }
+
+  /**
+   * Score a kill: a frag for the killer, or one taken away for killing yourself
+   */
+  private handleKill(victimId: EntityID, killerId: EntityID): void {
+    const victimSeat = this.seatsByEntity.get(victimId);
+    const victim = victimSeat !== undefined ? this.seats[victimSeat] : null;
+    if (!victim) return;
+
+    victim.deaths++;
+    victim.player = null;
+    victim.respawnTimer = this.RESPAWN_DELAY;
+    this.engine.weaponSystem.unregisterWeapon(victimId);
+
+    const killerSeat = this.seatsByEntity.get(killerId);
+    const killer = killerSeat !== undefined ? this.seats[killerSeat] : null;
+    if (!killer || killerSeat === undefined) return;
+
+    if (killerSeat === victimSeat) {
+      killer.frags--;
+    } else {
+      killer.frags++;
+      if (killer.frags >= DeathmatchSimulation.FRAG_LIMIT) {
+        this.winner = killerSeat;
+      }
+    }
+  }
+
+  /**
+   * Check whether someone has reached the frag limit
+   */
+  isMatchOver(): boolean {
+    return this.winner !== null;
+  }
+
+  /**
+   * Get the winner's name (null until the match is over)
+   */
+  getWinner(): string | null {
+    return this.winner !== null ? this.seats[this.winner]?.name ?? null : null;
+  }
+
+  /**
+   * Get every player's frags and deaths, best first
+   */
+  getScores(): MatchScore[] {
+    return this.seats
+      .filter((state): state is Seat => state !== null)
+      .map(({ name, frags, deaths }) => ({ name, frags, deaths }))
+      .sort((a, b) => b.frags - a.frags || a.deaths - b.deaths);
+  }
+
+  /**
+   * Get the number of players in the match
+   */
+  getPlayerCount(): number {
+    return this.seats.filter(state => state !== null).length;
+  }
+
+  /**
+   * Get the number of ticks simulated so far
+   */
+  getTick(): number {
+    return this.engine.getTick();
+  }
+
+  /**
+   * Capture the state clients need: players, projectiles in flight and which pickups are up
+   */
+  getSnapshot(): { tick: number; players: PlayerSnapshot[]; projectiles: ProjectileSnapshot[]; pickups: number[] } {
+    const players: PlayerSnapshot[] = [];
+    this.seats.forEach((state, seat) => {
+      if (!state) return;
+      const player = state.player;
+      const weapon = player ? this.engine.weaponSystem.getWeaponState(player.id) : undefined;
+
+      players.push({
+        seat,
+        name: state.name,
+        alive: player !== null,
+        x: round(player?.position.x ?? 0),
+        y: round(player?.position.y ?? 0),
+        vx: round(player?.velocity.x ?? 0),
+        vy: round(player?.velocity.y ?? 0),
+        aim: round(player?.aimAngle ?? state.aim, 1000),
+        health: Math.ceil(player?.health ?? 0),
+        armor: Math.ceil(player?.armor ?? 0),
+        weapon: weapon?.weapon.name ?? '',
+        ammo: weapon?.currentAmmo ?? 0,
+        reserveAmmo: weapon?.reserveAmmo ?? 0,
+        reloading: weapon?.isReloading ?? false,
+        invulnerable: player?.isInvulnerable() ?? false,
+        respawn: round(Math.max(0, state.respawnTimer)),
+        frags: state.frags,
+        deaths: state.deaths,
+        lastSeq: state.lastSeq,
+      });
+    });
+
+    const projectiles: ProjectileSnapshot[] = this.engine
+      .queryEntities(entity => entity instanceof Projectile)
+      .map(entity => {
+        const projectile = entity as Projectile;
+        return {
+          id: projectile.id,
+          weapon: projectile.weapon?.name ?? '',
+          x: round(projectile.position.x),
+          y: round(projectile.position.y),
+          vx: round(projectile.velocity.x),
+          vy: round(projectile.velocity.y),
+          ...(projectile.beamEnd ? { end: [round(projectile.beamEnd.x), round(projectile.beamEnd.y)] as [number, number] } : {}),
+        };
+      });
+
+    return {
+      tick: this.getTick(),
+      players,
+      projectiles,
+      pickups: this.pickups.map(pickup => (pickup.active && pickup.available ? 1 : 0)),
+    };
+  }
+
+  /**
+   * Release the engine
+   */
+  destroy(): void {
+    this.engine.destroy();
+  }
+}
+
+/**
+ * Round for the wire (to a tenth by default) to keep snapshots small
+ */
+function round(value: number, scale: number = 10): number {
+  return Math.round(value * scale) / scale;
+}
@@ -0,0 +1,157 @@
+import {
+  ClientMessage,
+  LobbyPlayer,
+  ServerMessage,
+  decodeServerMessage,
+  encodeMessage,
+} from './Protocol';
+
+/**
+ * What the server told a client when it joined
+ */
+export interface ServerInfo {
+  id: number; // This client's connection ID
+  levelIndex: number;
+  fragLimit: number;
+}
+
+/**
+ * Current state of the server's lobby
+ */
+export interface LobbyState {
+  players: LobbyPlayer[];
+  inProgress: boolean;
+}
+
+/**
+ * NetClient is the browser end of a deathmatch server connection.
+ * Screens subscribe to the messages they care about; the latest lobby state is
+ * kept so a screen opened later can show it straight away.
+ */
+export class NetClient {
+  private socket: WebSocket;
+  private info: ServerInfo;
+  private lobby: LobbyState = { players: [], inProgress: false };
+  private messageListeners: Set<(message: ServerMessage) => void> = new Set();
+  private closeListeners: Set<() => void> = new Set();
+
+  private constructor(socket: WebSocket, info: ServerInfo) {
+    this.socket = socket;
+    this.info = info;
+
+    socket.addEventListener('message', (event) => this.handleMessage(event.data));
+    socket.addEventListener('close', () => {
+      for (const listener of [...this.closeListeners]) listener();
+    });
+  }
+
+  /**
+   * Connect to a server and join its lobby
+   * @param url - WebSocket URL, e.g. ws://localhost:8787
+   * @param name - Name shown to other players
+   * @returns The client once the server has welcomed it
+   */
+  static connect(url: string, name: string): Promise<NetClient> {
+    return new Promise((resolve, reject) => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url);
+      } catch {
+        reject(new Error(`[NetClient] Invalid server address "${url}"`));
+        return;
+      }
+
+      const fail = () => reject(new Error(`[NetClient] Could not connect to ${url}`));
+      socket.addEventListener('error', fail);
+      socket.addEventListener('close', fail);
+      socket.addEventListener('open', () => socket.send(encodeMessage({ type: 'hello', name })));
+
+      // Messages before the welcome (there shouldn't be any) are dropped
+      const onWelcome = (event: MessageEvent) => {
+        let message: ServerMessage;
+        try {
+          message = decodeServerMessage(String(event.data));
+        } catch {
+          return;
+        }
+        if (message.type !== 'welcome') return;
+
+        socket.removeEventListener('message', onWelcome);
+        socket.removeEventListener('error', fail);
+        socket.removeEventListener('close', fail);
+        resolve(new NetClient(socket, { id: message.id, levelIndex: message.levelIndex, fragLimit: message.fragLimit }));
+      };
+      socket.addEventListener('message', onWelcome);
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: ServerMessage;
+    try {
+      message = decodeServerMessage(String(data));
+    } catch (e) {
+      console.warn('[NetClient] Ignoring message:', e);
+      return;
+    }
+
+    if (message.type === 'lobby') {
+      this.lobby = { players: message.players, inProgress: message.inProgress };
+    }
+    for (const listener of [...this.messageListeners]) listener(message);
+  }
+
+  /**
+   * Listen for messages from the server
+   * @returns Function that removes the listener
+   */
+  onMessage(listener: (message: ServerMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  /**
+   * Listen for the connection closing
+   * @returns Function that removes the listener
+   */
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  /**
+   * Send a message if the connection is open
+   */
+  send(message: ClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeMessage(message));
+    }
+  }
+
+  /**
+   * Get what the server said when this client joined
+   */
+  getServerInfo(): ServerInfo {
+    return this.info;
+  }
+
+  /**
+   * Get the last lobby state the server sent
+   */
+  getLobby(): LobbyState {
+    return this.lobby;
+  }
+
+  /**
+   * Check whether the connection is still open
+   */
+  isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Leave the server
+   */
+  close(): void {
+    this.socket.close();
+  }
+}
@@ -0,0 +1,392 @@
+import { Engine } from '../engine/Engine';
+import { Player } from '../entities/Player';
+import { Pickup } from '../entities/Pickup';
+import { RemotePlayer } from '../entities/RemotePlayer';
+import { RemoteProjectile } from '../entities/RemoteProjectile';
+import { ControlBindings, CollisionLayer, Level } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { getLevel } from '../data/levels';
+import { PLAYER_STARTING_WEAPONS, getWeaponByName } from '../data/weapons';
+import { NetClient } from './NetClient';
+import { DeathmatchSimulation } from './DeathmatchSimulation';
+import { MatchScore, NET_ACTIONS, PlayerSnapshot, ProjectileSnapshot, SNAPSHOT_INTERVAL, ServerMessage } from './Protocol';
+
+/**
+ * Local player's predicted state after one input command
+ */
+interface PredictedState {
+  seq: number;
+  position: Vec2;
+  velocity: Vec2;
+}
+
+/**
+ * Result of a finished match
+ */
+export interface MatchResult {
+  winner: string;
+  scores: MatchScore[];
+}
+
+/**
+ * NetGame is the client side of an online deathmatch.
+ *
+ * The local Player is predicted: it moves on input straight away, and every input
+ * command is sent to the server with a sequence number. Snapshots say which command
+ * the server applied last; the prediction made for that command is compared with the
+ * server's state and any difference is added to the current state. With the same
+ * deterministic movement on both sides this is the same as rewinding to the server
+ * state and replaying the unacknowledged commands. Shots, damage, pickups and frags
+ * are only ever decided by the server.
+ *
+ * Remote players are interpolated between snapshots INTERPOLATION_DELAY ticks
+ * behind the newest one (see RemotePlayer).
+ */
+export class NetGame {
+  static readonly INTERPOLATION_DELAY = SNAPSHOT_INTERVAL * 3; // ticks
+  static readonly RECONCILE_THRESHOLD = 0.5; // pixels of error worth correcting
+
+  readonly engine: Engine;
+  readonly level: Level;
+  readonly seat: number;
+
+  private client: NetClient;
+  private localPlayer: Player | null = null;
+  private pending: PredictedState[] = []; // Oldest first, not yet acknowledged
+  private nextSeq: number = 0;
+  private remotePlayers: Map<number, RemotePlayer> = new Map(); // By seat
+  private projectiles: Map<number, RemoteProjectile> = new Map(); // By server entity ID
+  private pickups: Pickup[] = [];
+  private players: PlayerSnapshot[] = []; // Latest snapshot
+  private playbackTick: number | null = null; // Server tick remote players are shown at
+  private result: MatchResult | null = null;
+  private menuRequested: boolean = false;
+  private unsubscribe: () => void;
+  private readonly MAX_CLOCK_DRIFT = 15; // ticks the playback clock may drift before it jumps
+  private readonly SNAP_DISTANCE = 100; // pixels of unexplained error before snapping to the server
+  private readonly MAX_PENDING = 120; // predictions kept while waiting for acknowledgement
+
+  /**
+   * @param seat - The local player's seat, from the server's matchStart
+   * @throws If the level is unknown
+   */
+  constructor(canvas: HTMLCanvasElement, client: NetClient, seat: number, levelIndex: number, bindings: ControlBindings) {
+    const level = getLevel(levelIndex);
+    if (!level) {
+      throw new Error(`[NetGame] Server is running unknown level ${levelIndex}`);
+    }
+    this.level = level;
+    this.seat = seat;
+    this.client = client;
+
+    this.engine = new Engine(canvas, { pausable: false });
+    this.engine.inputManager.setBindings(bindings);
+    this.engine.physicsSystem.setPlatforms(level.platforms);
+    this.engine.tileMapRenderer.setTileMap(level.tiles ?? null);
+    this.engine.camera.setBounds(level.bounds.width, level.bounds.height);
+    this.engine.camera.centerOn(new Vec2(level.playerSpawn.x, level.playerSpawn.y));
+    this.engine.camera.savePreviousState();
+
+    // Pickups are drawn here but collected on the server
+    for (const data of level.pickups ?? []) {
+      const pickup = new Pickup(0, new Vec2(data.x, data.y), data.type, data.amount, data.weapon);
+      pickup.removeTag('physics');
+      pickup.collisionMask = CollisionLayer.NONE;
+      this.pickups.push(pickup);
+      this.engine.spawn(pickup);
+    }
+
+    this.unsubscribe = client.onMessage((message) => this.handleMessage(message));
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    if (message.type === 'snapshot') {
+      this.applySnapshot(message.tick, message.players, message.projectiles, message.pickups);
+    } else if (message.type === 'matchOver') {
+      this.result = { winner: message.winner, scores: message.scores };
+    }
+  }
+
+  /**
+   * Advance one fixed tick: predict the local player and send this tick's input
+   */
+  update(dt: number): void {
+    if (this.result) return;
+
+    if (this.playbackTick !== null) {
+      this.playbackTick++;
+      for (const remote of this.remotePlayers.values()) {
+        remote.setPlaybackTick(this.playbackTick);
+      }
+    }
+
+    // Online matches can't pause; the pause action opens the leave menu instead
+    if (this.engine.inputManager.isActionPressed('pause')) {
+      this.menuRequested = true;
+    }
+
+    this.engine.update(dt);
+
+    const input = this.engine.inputManager;
+    const player = this.localPlayer;
+    const command = {
+      seq: this.nextSeq++,
+      actions: input.getHeldActions().filter(action => NET_ACTIONS.includes(action)),
+      aim: player?.aimAngle ?? 0,
+    };
+    this.client.send({ type: 'input', command });
+
+    if (player) {
+      this.pending.push({ seq: command.seq, position: player.position.clone(), velocity: player.velocity.clone() });
+      if (this.pending.length > this.MAX_PENDING) {
+        this.pending.shift(); // The server has stopped acknowledging - don't grow forever
+      }
+      this.engine.camera.follow(player);
+    }
+  }
+
+  /**
+   * Render the current state
+   */
+  render(alpha: number): void {
+    this.engine.render(alpha);
+  }
+
+  /**
+   * Bring everything in line with a server snapshot
+   */
+  private applySnapshot(
+    tick: number,
+    players: PlayerSnapshot[],
+    projectiles: ProjectileSnapshot[],
+    pickups: number[]
+  ): void {
+    this.players = players;
+
+    // Keep remote players INTERPOLATION_DELAY ticks behind the server
+    const target = tick - NetGame.INTERPOLATION_DELAY;
+    if (this.playbackTick === null || Math.abs(this.playbackTick - target) > this.MAX_CLOCK_DRIFT) {
+      this.playbackTick = target;
+    }
+
+    for (const state of players) {
+      if (state.seat === this.seat) {
+        this.applyLocalState(state);
+      } else {
+        this.applyRemoteState(tick, state);
+      }
+    }
+
+    // Players who left
+    for (const [seat, remote] of this.remotePlayers) {
+      if (!players.some(state => state.seat === seat)) {
+        this.removeRemotePlayer(seat, remote);
+      }
+    }
+
+    this.applyProjectiles(projectiles);
+
+    pickups.forEach((available, index) => {
+      const pickup = this.pickups[index];
+      if (pickup) pickup.available = available === 1;
+    });
+  }
+
+  /**
+   * Reconcile the predicted local player with the server's state
+   */
+  private applyLocalState(state: PlayerSnapshot): void {
+    if (!state.alive) {
+      if (this.localPlayer) {
+        this.engine.particleSystem.spawnExplosion(this.localPlayer.getBounds().center, 40);
+        this.engine.despawn(this.localPlayer.id);
+        this.localPlayer = null;
+      }
+      this.pending = [];
+      return;
+    }
+
+    const position = new Vec2(state.x, state.y);
+    let player = this.localPlayer;
+    if (!player) {
+      player = this.spawnLocalPlayer(position);
+      this.pending = [];
+    }
+
+    // Server-only state is simply taken
+    player.health = state.health;
+    player.armor = state.armor;
+    this.syncWeapon(player, state.weapon);
+
+    // Forget commands the server has applied, keeping the prediction for the last one
+    let acknowledged: PredictedState | undefined;
+    while (this.pending.length > 0 && this.pending[0]!.seq <= state.lastSeq) {
+      acknowledged = this.pending.shift();
+    }
+
+    if (!acknowledged || acknowledged.seq !== state.lastSeq) {
+      // Nothing to compare against: only snap if the prediction is far off
+      if (player.position.distance(position) > this.SNAP_DISTANCE) {
+        player.position = position;
+        player.velocity = new Vec2(state.vx, state.vy);
+        player.savePreviousState(); // Jump there rather than sliding
+        this.pending = [];
+      }
+      return;
+    }
+
+    const positionError = position.subtract(acknowledged.position);
+    const velocityError = new Vec2(state.vx, state.vy).subtract(acknowledged.velocity);
+    if (positionError.length() < NetGame.RECONCILE_THRESHOLD && velocityError.length() < NetGame.RECONCILE_THRESHOLD) {
+      return;
+    }
+
+    // Shift the present, and the predictions still in flight, by the error
+    player.position = player.position.add(positionError);
+    player.velocity = player.velocity.add(velocityError);
+    for (const predicted of this.pending) {
+      predicted.position = predicted.position.add(positionError);
+      predicted.velocity = predicted.velocity.add(velocityError);
+    }
+  }
+
+  /**
+   * Create the predicted local player
+   */
+  private spawnLocalPlayer(position: Vec2): Player {
+    const player = new Player(
+      0, // ID will be assigned by engine
+      position,
+      this.engine.inputManager,
+      this.engine.weaponSystem,
+      [...PLAYER_STARTING_WEAPONS],
+      0
+    );
+    player.setCamera(this.engine.camera);
+    player.collisionMask = CollisionLayer.NONE; // Hits and pickups come from the server
+    this.engine.spawn(player);
+    this.engine.weaponSystem.registerWeapon(player.id, PLAYER_STARTING_WEAPONS[0]!);
+    player.makeInvulnerable(DeathmatchSimulation.RESPAWN_INVULNERABILITY); // Flicker as the server protects them
+    this.engine.camera.centerOn(position);
+    this.engine.camera.savePreviousState(); // Cut to the spawn rather than panning
+
+    this.localPlayer = player;
+    return player;
+  }
+
+  /**
+   * Show the weapon the server says the local player is holding
+   */
+  private syncWeapon(player: Player, weaponName: string): void {
+    if (player.getCurrentWeapon()?.name === weaponName) return;
+
+    const weapon = getWeaponByName(weaponName);
+    if (weapon) {
+      player.weapons = [weapon];
+      player.currentWeaponIndex = 0;
+      this.engine.weaponSystem.switchWeapon(player.id, weapon);
+    }
+  }
+
+  /**
+   * Add a snapshot to a remote player, creating or removing them as they spawn and die
+   */
+  private applyRemoteState(tick: number, state: PlayerSnapshot): void {
+    let remote = this.remotePlayers.get(state.seat);
+
+    if (!state.alive) {
+      if (remote) this.removeRemotePlayer(state.seat, remote);
+      return;
+    }
+
+    if (!remote) {
+      remote = new RemotePlayer(state.seat, state.name);
+      remote.setPlaybackTick(this.playbackTick ?? tick);
+      this.remotePlayers.set(state.seat, remote);
+      this.engine.spawn(remote);
+    }
+    remote.pushState(tick, state);
+  }
+
+  private removeRemotePlayer(seat: number, remote: RemotePlayer): void {
+    this.engine.particleSystem.spawnExplosion(remote.getBounds().center, 40);
+    this.engine.despawn(remote.id);
+    this.remotePlayers.delete(seat);
+  }
+
+  /**
+   * Create, correct and remove projectiles to match the server
+   */
+  private applyProjectiles(projectiles: ProjectileSnapshot[]): void {
+    const seen = new Set<number>();
+
+    for (const state of projectiles) {
+      seen.add(state.id);
+      const existing = this.projectiles.get(state.id);
+      if (existing) {
+        existing.sync(state);
+      } else {
+        const projectile = new RemoteProjectile(state);
+        this.projectiles.set(state.id, projectile);
+        this.engine.spawn(projectile);
+      }
+    }
+
+    for (const [id, projectile] of this.projectiles) {
+      if (seen.has(id)) continue;
+
+      // Gone on the server: it hit something or exploded
+      const splash = projectile.weapon?.splash;
+      if (splash) {
+        this.engine.particleSystem.spawnExplosion(projectile.getBounds().center, splash.radius);
+      }
+      this.engine.despawn(projectile.id);
+      this.projectiles.delete(id);
+    }
+  }
+
+  /**
+   * Get the local player's latest state from the server (null before the first snapshot)
+   */
+  getLocalState(): PlayerSnapshot | null {
+    return this.players.find(state => state.seat === this.seat) ?? null;
+  }
+
+  /**
+   * Get every player's latest state, most frags first
+   */
+  getScoreboard(): PlayerSnapshot[] {
+    return [...this.players].sort((a, b) => b.frags - a.frags || a.deaths - b.deaths);
+  }
+
+  /**
+   * Check whether the player asked for the menu since the last call
+   */
+  consumeMenuRequest(): boolean {
+    const requested = this.menuRequested;
+    this.menuRequested = false;
+    return requested;
+  }
+
+  /**
+   * Get the result once the match is over
+   */
+  getResult(): MatchResult | null {
+    return this.result;
+  }
+
+  /**
+   * Set the camera viewport size in CSS pixels
+   */
+  setViewportSize(width: number, height: number): void {
+    this.engine.camera.setViewportSize(width, height);
+  }
+
+  /**
+   * Stop listening to the server and release the engine
+   */
+  destroy(): void {
+    this.unsubscribe();
+    this.engine.destroy();
+  }
+}
@@ -0,0 +1,169 @@
+import type { GameAction } from '../types';
+
+/**
+ * Messages exchanged between deathmatch clients and the authoritative server.
+ * Everything is JSON text over a WebSocket; the server simulates at the same fixed
+ * 60 Hz tick as the client and sends a snapshot every SNAPSHOT_INTERVAL ticks.
+ */
+
+export const DEFAULT_SERVER_PORT = 8787;
+export const DEFAULT_SERVER_URL = `ws://localhost:${DEFAULT_SERVER_PORT}`;
+export const SNAPSHOT_INTERVAL = 2; // Ticks between snapshots (30 per second)
+export const MAX_NAME_LENGTH = 16;
+
+/**
+ * Actions a client may send; pause and the debug overlay stay local
+ */
+export const NET_ACTIONS: GameAction[] = ['moveLeft', 'moveRight', 'jump', 'fire', 'swapWeapon', 'reload'];
+
+/**
+ * One tick of a client's input
+ */
+export interface InputCommand {
+  seq: number; // Increases by one per client tick, acknowledged in snapshots
+  actions: GameAction[]; // Actions held this tick
+  aim: number; // Aim angle in radians
+}
+
+/**
+ * A player in the lobby
+ */
+export interface LobbyPlayer {
+  id: number; // Connection ID
+  name: string;
+  ready: boolean;
+  playing: boolean; // In the running match
+}
+
+/**
+ * A player's authoritative state in a snapshot
+ */
+export interface PlayerSnapshot {
+  seat: number; // Player slot in the match, 0-based
+  name: string;
+  alive: boolean;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  aim: number;
+  health: number;
+  armor: number;
+  weapon: string;
+  ammo: number;
+  reserveAmmo: number;
+  reloading: boolean;
+  invulnerable: boolean;
+  respawn: number; // Seconds until respawn, 0 while alive
+  frags: number;
+  deaths: number;
+  lastSeq: number; // Last input command the server applied for this player
+}
+
+/**
+ * A projectile in flight
+ */
+export interface ProjectileSnapshot {
+  id: number;
+  weapon: string; // Name of the weapon that fired it ('' if unknown)
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  end?: [number, number]; // Beam end point
+}
+
+/**
+ * Final standing of one player
+ */
+export interface MatchScore {
+  name: string;
+  frags: number;
+  deaths: number;
+}
+
+export type ClientMessage =
+  | { type: 'hello'; name: string }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'input'; command: InputCommand };
+
+export type ServerMessage =
+  | { type: 'welcome'; id: number; levelIndex: number; fragLimit: number }
+  | { type: 'lobby'; players: LobbyPlayer[]; inProgress: boolean }
+  | { type: 'matchStart'; seat: number; levelIndex: number; tick: number }
+  | { type: 'snapshot'; tick: number; players: PlayerSnapshot[]; projectiles: ProjectileSnapshot[]; pickups: number[] }
+  | { type: 'matchOver'; winner: string; scores: MatchScore[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Serialise a message for sending
+ */
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Parse a message from a client, checking it is one the server understands
+ * @throws If the data isn't a valid client message
+ */
+export function decodeClientMessage(data: string): ClientMessage {
+  const message = parseObject(data);
+
+  switch (message.type) {
+    case 'hello':
+      if (typeof message.name !== 'string') throw new Error('[Protocol] "hello" needs a name');
+      return { type: 'hello', name: message.name };
+
+    case 'ready':
+      if (typeof message.ready !== 'boolean') throw new Error('[Protocol] "ready" needs a boolean');
+      return { type: 'ready', ready: message.ready };
+
+    case 'input': {
+      const command = message.command as Partial<InputCommand> | null;
+      if (
+        !command ||
+        typeof command.seq !== 'number' ||
+        typeof command.aim !== 'number' ||
+        !Number.isFinite(command.aim) ||
+        !Array.isArray(command.actions)
+      ) {
+        throw new Error('[Protocol] Invalid input command');
+      }
+      const actions = command.actions.filter((action): action is GameAction => NET_ACTIONS.includes(action));
+      return { type: 'input', command: { seq: command.seq, aim: command.aim, actions } };
+    }
+
+    default:
+      throw new Error(`[Protocol] Unknown message type "${String(message.type)}"`);
+  }
+}
+
+/**
+ * Parse a message from the server
+ * @throws If the data isn't a server message
+ */
+export function decodeServerMessage(data: string): ServerMessage {
+  const message = parseObject(data);
+  const types: ServerMessage['type'][] = ['welcome', 'lobby', 'matchStart', 'snapshot', 'matchOver', 'error'];
+  if (!types.includes(message.type as ServerMessage['type'])) {
+    throw new Error(`[Protocol] Unknown message type "${String(message.type)}"`);
+  }
+  // The server is trusted to send well-formed messages of each type
+  return message as unknown as ServerMessage;
+}
+
+/**
+ * Parse JSON that must be an object with a type
+ */
+function parseObject(data: string): Record<string, unknown> {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new Error('[Protocol] Message is not valid JSON');
+  }
+  if (!message || typeof message !== 'object' || typeof (message as { type?: unknown }).type !== 'string') {
+    throw new Error('[Protocol] Message has no type');
+  }
+  return message as Record<string, unknown>;
+}
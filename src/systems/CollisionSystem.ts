@@ -1,4 +1,6 @@
 import { Entity } from '../entities/Entity';
+import { CollisionLayer } from '../types';
+import { SpatialHash } from './SpatialHash';
 
 /**
  * Collision callback function type
@@ -7,25 +9,35 @@ export type CollisionCallback = (entityA: Entity, entityB: Entity) => void;
 
 /**
  * CollisionSystem handles entity-to-entity collision detection and response.
- * Uses AABB (Axis-Aligned Bounding Box) collision detection with callbacks.
+ * A spatial hash finds nearby pairs, collision layers filter them, and an AABB test
+ * confirms the overlap before callbacks run.
  */
 export class CollisionSystem {
-  private collisionCallbacks: Map<string, CollisionCallback[]> = new Map();
+  private readonly CELL_SIZE = 128; // pixels - a few character widths
+
+  // Callbacks keyed by first tag, then second tag, in the order they were registered
+  private collisionCallbacks: Map<string, Map<string, CollisionCallback[]>> = new Map();
+  private spatialHash: SpatialHash<number> = new SpatialHash(this.CELL_SIZE);
 
   /**
    * Register a collision callback for specific tag pairs
    * @param tagA - First entity tag to check
    * @param tagB - Second entity tag to check
-   * @param callback - Function to call when collision occurs
+   * @param callback - Function to call when collision occurs, with the tagA entity first
    */
   onCollision(tagA: string, tagB: string, callback: CollisionCallback): void {
-    const key = this.getCollisionKey(tagA, tagB);
-    
-    if (!this.collisionCallbacks.has(key)) {
-      this.collisionCallbacks.set(key, []);
+    let byTagB = this.collisionCallbacks.get(tagA);
+    if (!byTagB) {
+      byTagB = new Map();
+      this.collisionCallbacks.set(tagA, byTagB);
+    }
+
+    const callbacks = byTagB.get(tagB);
+    if (callbacks) {
+      callbacks.push(callback);
+    } else {
+      byTagB.set(tagB, [callback]);
     }
-    
-    this.collisionCallbacks.get(key)!.push(callback);
   }
 
   /**
@@ -33,65 +45,77 @@ export class CollisionSystem {
    * @param entities - Array of entities to check for collisions
    */
   detectCollisions(entities: Entity[]): void {
-    // Broad-phase: check all entity pairs
+    // Broad phase: bucket entities that collide with anything into the grid
+    this.spatialHash.clear();
+    for (let i = 0; i < entities.length; i++) {
+      const entity = entities[i];
+      if (!entity || !entity.active || entity.collisionMask === CollisionLayer.NONE) continue;
+      this.spatialHash.insert(i, entity.getBounds());
+    }
+
     for (let i = 0; i < entities.length; i++) {
       const entityA = entities[i];
-      if (!entityA || !entityA.active) continue;
+      if (!entityA || !entityA.active || entityA.collisionMask === CollisionLayer.NONE) continue;
+
+      const boundsA = entityA.getBounds();
+
+      for (const j of this.spatialHash.query(boundsA)) {
+        // Each pair once, in array order
+        if (j <= i) continue;
 
-      for (let j = i + 1; j < entities.length; j++) {
         const entityB = entities[j];
         if (!entityB || !entityB.active) continue;
+        if (!this.canCollide(entityA, entityB)) continue;
 
-        // AABB collision test
-        const boundsA = entityA.getBounds();
-        const boundsB = entityB.getBounds();
-
-        if (boundsA.intersects(boundsB)) {
+        // Narrow phase: AABB collision test
+        if (boundsA.intersects(entityB.getBounds())) {
           // Collision detected - trigger callbacks
           this.handleCollision(entityA, entityB);
         }
+
+        // A callback may have removed entity A (e.g. a projectile that hit something)
+        if (!entityA.active) break;
       }
     }
   }
 
   /**
-   * Handle collision between two entities by invoking registered callbacks
+   * Check whether two entities' layers and masks allow them to collide
    */
-  private handleCollision(entityA: Entity, entityB: Entity): void {
-    // Check all tag combinations and invoke matching callbacks
-    for (const tagA of entityA.tags) {
-      for (const tagB of entityB.tags) {
-        // Check both orderings (A-B and B-A)
-        const keyAB = this.getCollisionKey(tagA, tagB);
-        const keyBA = this.getCollisionKey(tagB, tagA);
-
-        // Invoke callbacks for A-B ordering
-        const callbacksAB = this.collisionCallbacks.get(keyAB);
-        if (callbacksAB) {
-          for (const callback of callbacksAB) {
-            callback(entityA, entityB);
-          }
-        }
+  private canCollide(entityA: Entity, entityB: Entity): boolean {
+    return (
+      (entityA.collisionLayer & entityB.collisionMask) !== 0 &&
+      (entityB.collisionLayer & entityA.collisionMask) !== 0
+    );
+  }
 
-        // Invoke callbacks for B-A ordering (if different)
-        if (keyAB !== keyBA) {
-          const callbacksBA = this.collisionCallbacks.get(keyBA);
-          if (callbacksBA) {
-            for (const callback of callbacksBA) {
-              callback(entityB, entityA);
-            }
-          }
-        }
-      }
-    }
+  /**
+   * Handle collision between two entities by invoking registered callbacks.
+   * Callbacks always receive entities in the order their tags were registered.
+   */
+  private handleCollision(entityA: Entity, entityB: Entity): void {
+    this.invokeCallbacks(entityA, entityB);
+    this.invokeCallbacks(entityB, entityA);
   }
 
   /**
-   * Generate a unique key for a tag pair
+   * Invoke callbacks registered as (tag of first, tag of second)
    */
-  private getCollisionKey(tagA: string, tagB: string): string {
-    // Sort tags alphabetically for consistent key generation
-    return tagA < tagB ? `${tagA}:${tagB}` : `${tagB}:${tagA}`;
+  private invokeCallbacks(first: Entity, second: Entity): void {
+    for (const tagA of first.tags) {
+      const byTagB = this.collisionCallbacks.get(tagA);
+      if (!byTagB) continue;
+
+      for (const tagB of second.tags) {
+        const callbacks = byTagB.get(tagB);
+        if (!callbacks) continue;
+
+        for (const callback of callbacks) {
+          if (!first.active || !second.active) return;
+          callback(first, second);
+        }
+      }
+    }
   }
 
   /**
@@ -102,10 +126,10 @@ export class CollisionSystem {
   }
 
   /**
-   * Remove callbacks for a specific tag pair
+   * Remove callbacks for a specific tag pair (in either order)
    */
   removeCallbacks(tagA: string, tagB: string): void {
-    const key = this.getCollisionKey(tagA, tagB);
-    this.collisionCallbacks.delete(key);
+    this.collisionCallbacks.get(tagA)?.delete(tagB);
+    this.collisionCallbacks.get(tagB)?.delete(tagA);
   }
 }
@@ -1,5 +1,6 @@
 import { Entity } from '../entities/Entity';
 import { PhysicsSystem } from './PhysicsSystem';
+import { NavigationSystem } from './NavigationSystem';
 
 export class DebugRenderer {
   private enabled: boolean = false;
@@ -66,7 +67,7 @@ export class DebugRenderer {
   renderPhysicsDebug(ctx: CanvasRenderingContext2D, physicsSystem: PhysicsSystem): void {
     if (!this.enabled) return;
 
-    const platforms = physicsSystem.getPlatforms();
+    const platforms = [...physicsSystem.getPlatforms(), ...physicsSystem.getMovingPlatforms()];
 
     ctx.save();
 
@@ -95,12 +96,39 @@ export class DebugRenderer {
     ctx.restore();
   }
 
+  renderNavigationDebug(ctx: CanvasRenderingContext2D, navigationSystem: NavigationSystem): void {
+    if (!this.enabled) return;
+
+    const colors = {
+      walk: '#00FF00',
+      drop: '#FFA500',
+      dropThrough: '#FF00FF',
+      jump: '#00FFFF',
+    };
+
+    ctx.save();
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = 0.5;
+
+    for (const node of navigationSystem.getNodes()) {
+      for (const edge of node.edges) {
+        ctx.strokeStyle = colors[edge.type];
+        ctx.beginPath();
+        ctx.moveTo(edge.takeoffX, edge.from.y);
+        ctx.lineTo(edge.landingX, edge.to.y);
+        ctx.stroke();
+      }
+    }
+
+    ctx.restore();
+  }
+
   renderDebugInfo(ctx: CanvasRenderingContext2D, info: any): void {
     if (!this.enabled) return;
 
     ctx.save();
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(10, 10, 250, 120);
+    ctx.fillRect(10, 10, 250, 160);
 
     ctx.fillStyle = '#00FF00';
     ctx.font = '12px monospace';
@@ -116,7 +144,11 @@ export class DebugRenderer {
     y += 20;
     ctx.fillText(`Grounded: ${info.playerGrounded ? 'YES' : 'NO'}`, 20, y);
     y += 20;
+    ctx.fillText(`Interpolation: ${info.interpolation ? 'ON' : 'OFF'} (alpha ${(info.alpha || 0).toFixed(2)})`, 20, y);
+    y += 20;
     ctx.fillText(`Press G to toggle debug`, 20, y);
+    y += 20;
+    ctx.fillText(`Press I to toggle interpolation`, 20, y);
 
     ctx.restore();
   }
@@ -0,0 +1,147 @@
+import { Entity } from '../entities/Entity';
+import { Vec2 } from '../types/Vec2';
+import { Rect } from '../types/Rect';
+import { DamageSource } from '../types';
+import type { Engine } from '../engine/Engine';
+
+/**
+ * Description of a single explosion
+ */
+export interface Explosion {
+  position: Vec2;
+  radius: number; // pixels
+  damage: number; // at the center, falling off to 0 at the radius
+  knockback: number; // impulse at the center (pixels per second)
+  source: DamageSource; // Who caused it, for friendly fire and kill credit
+  ignore?: Entity[]; // Entities the blast should not touch (e.g. already hit directly)
+}
+
+/**
+ * Effect of an explosion on one entity
+ */
+export interface ExplosionHit {
+  target: Entity;
+  distance: number; // From the center to the nearest point of the target's bounds
+  damage: number;
+  knockback: number;
+  direction: Vec2; // Normalized, away from the center
+}
+
+/**
+ * ExplosionSystem applies area damage for grenades, rockets and explosive barrels.
+ * Targets are found with Engine.queryEntities, shielded by platforms the way shots are, and take
+ * damage and knockback that fall off linearly with distance.
+ */
+export class ExplosionSystem {
+  private readonly DAMAGEABLE_TAGS = ['player', 'enemy', 'explosive', 'objective', 'switch'];
+  private readonly SHAKE_PER_RADIUS = 0.1; // pixels of shake per pixel of blast radius
+  private readonly SHAKE_DURATION = 0.35; // seconds
+  private readonly UPWARD_BIAS = 0.4; // Lifts knockback so targets are thrown rather than slid
+
+  private engine: Engine;
+
+  constructor(engine: Engine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Work out which entities an explosion reaches and how hard.
+   * Has no side effects, so results are repeatable for the same entity layout.
+   * @param explosion - The explosion to evaluate
+   * @returns Hits ordered from nearest to furthest
+   */
+  getHits(explosion: Explosion): ExplosionHit[] {
+    const { position, radius } = explosion;
+    const ignore = new Set(explosion.ignore ?? []);
+    const hits: ExplosionHit[] = [];
+
+    const candidates = this.engine.queryEntities(
+      e => !ignore.has(e) && this.DAMAGEABLE_TAGS.some(tag => e.hasTag(tag))
+    );
+
+    for (const target of candidates) {
+      const bounds = target.getBounds();
+      const distance = this.distanceToBounds(position, bounds);
+      if (distance > radius || !this.isExposed(position, bounds)) continue;
+
+      const scale = 1 - distance / radius;
+      const away = bounds.center.subtract(position).normalize();
+      const direction = new Vec2(away.x, away.y - this.UPWARD_BIAS).normalize();
+
+      hits.push({
+        target,
+        distance,
+        damage: explosion.damage * scale,
+        knockback: explosion.knockback * scale,
+        direction,
+      });
+    }
+
+    // Stable order: nearest first, entity ID breaks ties
+    hits.sort((a, b) => a.distance - b.distance || a.target.id - b.target.id);
+    return hits;
+  }
+
+  /**
+   * Detonate an explosion: damage and knock back everything in range
+   * (subject to the game mode's friendly-fire rules),
+   * then shake the camera and spawn the blast effect
+   * @param explosion - The explosion to detonate
+   * @returns The hits that were applied
+   */
+  explode(explosion: Explosion): ExplosionHit[] {
+    const hits = this.getHits(explosion);
+
+    for (const hit of hits) {
+      this.engine.damageEntity(
+        hit.target,
+        explosion.source,
+        hit.damage,
+        hit.direction,
+        hit.knockback,
+        false
+      );
+    }
+
+    this.shakeCamera(explosion);
+    this.engine.particleSystem.spawnExplosion(explosion.position, explosion.radius);
+    this.engine.soundManager.playPlaceholder('explosion');
+
+    return hits;
+  }
+
+  /**
+   * Shake the camera, weaker for explosions further from the middle of the screen
+   */
+  private shakeCamera(explosion: Explosion): void {
+    const camera = this.engine.camera;
+    const view = camera.getViewSize(); // Visible world area, which grows as the co-op camera zooms out
+    const screenCenter = camera.position.add(new Vec2(view.width / 2, view.height / 2));
+    const proximity = 1 - explosion.position.distance(screenCenter) / view.width;
+    if (proximity <= 0) return;
+
+    camera.shake(explosion.radius * this.SHAKE_PER_RADIUS * proximity, this.SHAKE_DURATION);
+  }
+
+  /**
+   * Distance from a point to the nearest point of a rectangle (0 if inside)
+   */
+  private distanceToBounds(point: Vec2, bounds: Rect): number {
+    const nearestX = Math.max(bounds.left, Math.min(point.x, bounds.right));
+    const nearestY = Math.max(bounds.top, Math.min(point.y, bounds.bottom));
+    return point.distance(new Vec2(nearestX, nearestY));
+  }
+
+  /**
+   * Check whether any of the target's center, head or feet can be seen from the blast
+   */
+  private isExposed(position: Vec2, bounds: Rect): boolean {
+    const center = bounds.center;
+    const points = [
+      center,
+      new Vec2(center.x, bounds.top + 2),
+      new Vec2(center.x, bounds.bottom - 2),
+    ];
+    return points.some(point => this.engine.physicsSystem.hasLineOfSight(position, point));
+  }
+}
@@ -1,190 +1,542 @@
-import { Level } from '../types';
+import { Level, EnemySpawnData, PickupSpawnData, EnemyArchetype } from '../types';
 import { Vec2 } from '../types/Vec2';
 import { Player } from '../entities/Player';
 import { Enemy } from '../entities/Enemy';
+import { Pickup } from '../entities/Pickup';
+import { ExplosiveBarrel } from '../entities/ExplosiveBarrel';
 import { Engine } from '../engine/Engine';
 import { PhysicsSystem } from './PhysicsSystem';
+import { NavigationSystem } from './NavigationSystem';
 import { WeaponSystem } from './WeaponSystem';
 import { InputManager } from '../engine/InputManager';
-import { WEAPON_PISTOL } from '../data/weapons';
-import { ALL_WEAPONS } from '../data/weapons';
+import { PLAYER_STARTING_WEAPONS } from '../data/weapons';
+import { getEnemyArchetype } from '../data/enemies';
+import { formatLevelIssue, validateLevel } from '../data/levelValidation';
+import { LevelResult } from './ScoreSystem';
+import { ObjectiveProgress, ObjectiveSystem } from './ObjectiveSystem';
+import { SurvivalResult, WaveStatus, WaveSystem } from './WaveSystem';
+import { TriggerSystem } from './TriggerSystem';
 
 /**
  * LevelManager handles level loading, entity spawning, and level transitions.
+ * In co-op it spawns one Player per local player. Lives are a shared pool: each
+ * death costs one, and a player who dies with none left sits out until the level ends.
+ * The game is over once every player is out, or a defended objective is destroyed.
+ * The level is complete once its objectives (see ObjectiveSystem) are met.
+ * In wave survival the level's enemies and objectives are replaced by endless
+ * waves (see WaveSystem) and the run lasts until the players are out.
+ * Movers, doors, switches and triggers are run by TriggerSystem in every mode.
  */
 export class LevelManager {
   private currentLevel: Level | null = null;
   private currentLevelIndex: number = 0;
   private engine: Engine;
   private physicsSystem: PhysicsSystem;
+  private navigationSystem: NavigationSystem;
   private weaponSystem: WeaponSystem;
   private inputManager: InputManager;
-  private player: Player | null = null;
+  private objectiveSystem: ObjectiveSystem;
+  private waveSystem: WaveSystem;
+  private triggerSystem: TriggerSystem;
+  private survival: boolean = false;
+  private players: Player[] = [];
+  private playerCount: number = 1;
   private enemies: Enemy[] = [];
-  private onLevelComplete?: () => void;
+  private pickups: Pickup[] = [];
+  private onLevelComplete?: (result: LevelResult) => void;
   private onPlayerDeath?: () => void;
+  private onLifeLost?: (livesRemaining: number) => void;
+  private lives: number = 1;
+  private respawnTimers: number[] = []; // Per player, seconds until respawn (0 = not respawning)
+  private eliminated: boolean[] = []; // Per player, died with no lives left
+  private readonly RESPAWN_DELAY = 3.0; // seconds between death and respawn
+  private readonly PLAYER_SPACING = 48; // pixels between co-op players at the spawn point
+  private readonly RESPAWN_INVULNERABILITY = 2.0; // seconds of protection after respawning
+  private levelEnded: boolean = false; // Ensures end-of-level callbacks fire once
 
   constructor(
     engine: Engine,
     physicsSystem: PhysicsSystem,
+    navigationSystem: NavigationSystem,
     weaponSystem: WeaponSystem,
     inputManager: InputManager
   ) {
     this.engine = engine;
     this.physicsSystem = physicsSystem;
+    this.navigationSystem = navigationSystem;
     this.weaponSystem = weaponSystem;
     this.inputManager = inputManager;
+    this.objectiveSystem = new ObjectiveSystem(engine);
+    this.waveSystem = new WaveSystem(engine, {
+      spawnEnemy: (archetype, position) => this.spawnEnemy(archetype, position),
+      spawnPickup: (data) => this.spawnPickup(data),
+    });
+    this.triggerSystem = new TriggerSystem(engine, {
+      spawnEnemy: (archetype, position, patrolPoints) => this.spawnEnemy(archetype, position, patrolPoints),
+    });
+
+    // Roll enemy loot drops, and drop the dead enemy's weapons (survival spawns enemies endlessly)
+    this.engine.events.on('enemyKilled', ({ enemy }) => {
+      if (enemy instanceof Enemy) {
+        this.spawnEnemyDrops(enemy);
+        this.weaponSystem.unregisterWeapon(enemy.id);
+      }
+    });
   }
 
   /**
    * Load a level by index
    */
   loadLevel(level: Level, levelIndex: number): void {
+    // Reject bad level data before touching the current level
+    this.validateLevel(level);
+
     // Clear previous level
     this.unloadLevel();
 
     this.currentLevel = level;
     this.currentLevelIndex = levelIndex;
+    this.levelEnded = false;
+    this.respawnTimers = [];
+    this.eliminated = [];
 
-    // Set up platforms in physics system
+    // Start tracking score for this level
+    this.engine.scoreSystem.startLevel(levelIndex);
+
+    // Set up platforms in physics system, and the tiles drawn over them
     this.physicsSystem.setPlatforms(level.platforms);
+    this.engine.tileMapRenderer.setTileMap(level.tiles ?? null);
+
+    // Build the AI navigation graph from the same platforms
+    this.navigationSystem.build(level.platforms, Enemy.JUMP, this.physicsSystem.getGravity());
+
+    // Spawn players
+    for (let index = 0; index < this.playerCount; index++) {
+      this.spawnPlayer(this.getSpawnPoint(index), index);
+      this.respawnTimers.push(0);
+      this.eliminated.push(false);
+    }
+
+    // Spawn enemies, or start sending waves
+    if (this.survival) {
+      this.waveSystem.start(level);
+    } else {
+      this.spawnEnemies(level.enemySpawns);
+    }
+
+    // Spawn pickups
+    for (const pickup of level.pickups ?? []) {
+      this.spawnPickup(pickup);
+    }
 
-    // Spawn player
-    this.spawnPlayer(new Vec2(level.playerSpawn.x, level.playerSpawn.y));
+    // Spawn explosive barrels
+    for (const barrel of level.barrels ?? []) {
+      this.engine.spawn(new ExplosiveBarrel(0, new Vec2(barrel.x, barrel.y)));
+    }
+
+    // Build movers, doors, switches and triggers
+    this.triggerSystem.start(level);
+
+    // Track objectives (spawns defend targets and exit zones)
+    if (this.survival) {
+      this.objectiveSystem.clear();
+    } else {
+      this.objectiveSystem.start(level, this.enemies);
+    }
+  }
+
+  /**
+   * Validate level data, throwing on anything that cannot be spawned
+   */
+  private validateLevel(level: Level): void {
+    const errors = validateLevel(level).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`[LevelManager] Invalid level "${level.name}":\n  ${errors.map(formatLevelIssue).join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Swap in an edited version of the current level without restarting it: platforms,
+   * level elements, enemies, pickups and barrels are rebuilt from the new data while players
+   * keep their position, health, weapons and lives. Used for level file hot reload.
+   * A survival run keeps its wave going and only takes the new spawn zones.
+   */
+  reloadLevel(level: Level): void {
+    if (!this.currentLevel) return;
+    this.validateLevel(level);
+    if (this.survival) {
+      this.waveSystem.setLevel(level);
+    }
+    this.currentLevel = level;
+
+    this.physicsSystem.setPlatforms(level.platforms);
+    this.engine.tileMapRenderer.setTileMap(level.tiles ?? null);
+    this.navigationSystem.build(level.platforms, Enemy.JUMP, this.physicsSystem.getGravity());
+    this.triggerSystem.start(level);
+    if (this.survival) return;
+
+    for (const enemy of this.enemies) {
+      this.weaponSystem.unregisterWeapon(enemy.id);
+      this.engine.despawn(enemy.id);
+    }
+    for (const pickup of this.pickups) {
+      this.engine.despawn(pickup.id);
+    }
+    for (const barrel of this.engine.queryEntities(entity => entity instanceof ExplosiveBarrel)) {
+      this.engine.despawn(barrel.id);
+    }
+    this.enemies = [];
+    this.pickups = [];
 
-    // Spawn enemies
     this.spawnEnemies(level.enemySpawns);
+    for (const pickup of level.pickups ?? []) {
+      this.spawnPickup(pickup);
+    }
+    for (const barrel of level.barrels ?? []) {
+      this.engine.spawn(new ExplosiveBarrel(0, new Vec2(barrel.x, barrel.y)));
+    }
+    this.objectiveSystem.start(level, this.enemies);
   }
 
   /**
    * Unload current level and clean up entities
    */
   unloadLevel(): void {
-    // Clear all entities
+    // Clear all entities, and the weapons they carried
     this.engine.clear();
+    this.weaponSystem.clear();
     
     // Clear physics platforms
     this.physicsSystem.clearPlatforms();
+    this.engine.tileMapRenderer.setTileMap(null);
+    this.navigationSystem.clear();
     
     // Clear references
-    this.player = null;
+    this.players = [];
     this.enemies = [];
+    this.pickups = [];
     this.currentLevel = null;
   }
 
   /**
-   * Spawn the player at a position
+   * Get where a player spawns: the level's spawn point, with co-op players side by side
+   */
+  private getSpawnPoint(index: number): Vec2 {
+    const spawn = this.currentLevel?.playerSpawn ?? { x: 0, y: 0 };
+    return new Vec2(spawn.x + index * this.PLAYER_SPACING, spawn.y);
+  }
+
+  /**
+   * Spawn a player at a position
+   * @param index - Local player number (selects their input)
    */
-  private spawnPlayer(position: Vec2): void {
-    this.player = new Player(
+  private spawnPlayer(position: Vec2, index: number): void {
+    const player = new Player(
       0, // ID will be assigned by engine
       position,
       this.inputManager,
       this.weaponSystem,
-      ALL_WEAPONS // Give player all weapons
+      [...PLAYER_STARTING_WEAPONS], // Copy - pickups add to the player's list
+      index
     );
+    this.players[index] = player;
     
     // Set camera for world coordinate conversion
-    this.player.setCamera(this.engine.camera);
+    player.setCamera(this.engine.camera);
     
     // Set shoot callback to spawn projectiles
-    this.player.setOnShootCallback((projectiles) => {
+    player.setOnShootCallback((projectiles) => {
       for (const proj of projectiles) {
-        this.engine.spawnProjectile({ ...proj, owner: this.player!.id });
+        this.engine.spawnProjectile({ ...proj, owner: player.id });
       }
     });
     
     // Spawn assigns the real ID
-    this.engine.spawn(this.player);
+    this.engine.spawn(player);
     
-    // Re-register weapon with the real ID after spawn
-    if (this.player.weapons.length > 0 && this.player.weapons[0]) {
-      this.weaponSystem.registerWeapon(this.player.id, this.player.weapons[0]);
+    // Register the starting weapon under the real ID
+    if (player.weapons.length > 0 && player.weapons[0]) {
+      this.weaponSystem.registerWeapon(player.id, player.weapons[0]);
     }
   }
 
   /**
    * Spawn enemies from spawn data
    */
-  private spawnEnemies(spawns: any[]): void {
+  private spawnEnemies(spawns: EnemySpawnData[]): void {
     for (const spawn of spawns) {
-      const enemy = new Enemy(
-        0, // ID will be assigned by engine
+      const archetype = getEnemyArchetype(spawn.type);
+      if (!archetype) continue; // Rejected by validateLevel
+      
+      this.spawnEnemy(
+        archetype,
         new Vec2(spawn.x, spawn.y),
-        this.weaponSystem,
-        WEAPON_PISTOL, // Enemies use pistol
-        spawn.patrolPoints?.map((p: any) => new Vec2(p.x, p.y)) || []
+        spawn.patrolPoints?.map((p) => new Vec2(p.x, p.y)) || []
       );
-      
-      // Set shoot callback to spawn projectiles
-      enemy.setOnShootCallback((projectiles) => {
-        for (const proj of projectiles) {
-          this.engine.spawnProjectile({ ...proj, owner: enemy.id });
-        }
+    }
+  }
+
+  /**
+   * Spawn one enemy
+   */
+  private spawnEnemy(archetype: EnemyArchetype, position: Vec2, patrolPoints: Vec2[] = []): Enemy {
+    const enemy = new Enemy(
+      0, // ID will be assigned by engine
+      position,
+      this.weaponSystem,
+      this.physicsSystem,
+      this.navigationSystem,
+      archetype,
+      patrolPoints
+    );
+    
+    // Set shoot callback to spawn projectiles
+    enemy.setOnShootCallback((projectiles) => {
+      for (const proj of projectiles) {
+        this.engine.spawnProjectile({ ...proj, owner: enemy.id });
+      }
+    });
+    
+    this.enemies.push(enemy);
+    
+    // Spawn assigns the real ID
+    this.engine.spawn(enemy);
+    
+    // Register the weapon under the real ID (enemies never run out of reserve ammo)
+    this.weaponSystem.registerWeapon(enemy.id, archetype.weapon, Infinity);
+    return enemy;
+  }
+
+  /**
+   * Spawn a pickup from level or drop data
+   */
+  private spawnPickup(data: PickupSpawnData): Pickup {
+    const pickup = new Pickup(
+      0, // ID will be assigned by engine
+      new Vec2(data.x, data.y),
+      data.type,
+      data.amount,
+      data.weapon,
+      data.respawnTime
+    );
+
+    this.pickups.push(pickup);
+    this.engine.spawn(pickup);
+    return pickup;
+  }
+
+  /**
+   * Roll an enemy's drop table and spawn any pickups at its position
+   */
+  private spawnEnemyDrops(enemy: Enemy): void {
+    const center = enemy.getBounds().center;
+
+    for (const drop of enemy.archetype.drops ?? []) {
+      if (this.engine.random.next() >= drop.chance) continue;
+
+      const pickup = this.spawnPickup({
+        x: center.x - 10,
+        y: center.y - 10,
+        type: drop.type,
+        amount: drop.amount,
+        weapon: drop.weapon,
       });
-      
-      this.enemies.push(enemy);
-      
-      // Spawn assigns the real ID
-      this.engine.spawn(enemy);
-      
-      // Re-register weapon with the real ID after spawn
-      this.weaponSystem.registerWeapon(enemy.id, WEAPON_PISTOL);
+
+      // Pop the drop up and sideways so multiple drops don't stack
+      pickup.velocity.set((this.engine.random.next() - 0.5) * 200, -250);
     }
   }
 
   /**
-   * Respawn the player at the spawn point
+   * Respawn a player at the spawn point
+   * @param index - Local player number
    */
-  respawnPlayer(): void {
+  respawnPlayer(index: number = 0): void {
     if (!this.currentLevel) return;
 
     // Remove old player if exists
-    if (this.player) {
-      this.engine.despawn(this.player.id);
+    const old = this.players[index];
+    if (old) {
+      this.weaponSystem.unregisterWeapon(old.id);
+      this.engine.despawn(old.id);
     }
 
+    // Teammates still fighting keep the camera and the enemies' attention
+    const alone = this.getActivePlayers().length === 0;
+
     // Spawn new player
-    this.spawnPlayer(new Vec2(
-      this.currentLevel.playerSpawn.x,
-      this.currentLevel.playerSpawn.y
-    ));
+    const spawn = this.getSpawnPoint(index);
+    this.spawnPlayer(spawn, index);
+    this.players[index]?.makeInvulnerable(this.RESPAWN_INVULNERABILITY);
+
+    if (alone) {
+      this.engine.camera.centerOn(spawn);
+      this.engine.camera.savePreviousState(); // Cut to the spawn rather than panning
+
+      // Enemies lose track of the old player and go looking
+      for (const enemy of this.enemies) {
+        if (enemy.active) {
+          enemy.loseTrackOfPlayer();
+        }
+      }
+    }
   }
 
   /**
    * Update level state (check win/lose conditions)
    */
   update(dt: number): void {
-    // Update enemy AI
-    if (this.player && this.player.active) {
+    // Update enemy AI, going after the players and anything they defend
+    const activePlayers = this.getActivePlayers();
+    if (activePlayers.length > 0) {
+      const targets = [...activePlayers, ...this.objectiveSystem.getDefendTargets()];
       for (const enemy of this.enemies) {
         if (enemy.active) {
-          enemy.updateAI(dt, this.player);
+          enemy.updateAI(dt, targets);
+        }
+      }
+    }
+
+    // Level elements keep running after the level ends, like the enemies
+    this.triggerSystem.update(dt);
+
+    // Forget pickups that were collected for good, so drops don't pile up over a long run
+    this.pickups = this.pickups.filter(pickup => pickup.active);
+
+    if (this.levelEnded) return;
+
+    this.players.forEach((player, index) => {
+      // Count down to respawn
+      const timer = this.respawnTimers[index] ?? 0;
+      if (timer > 0) {
+        this.respawnTimers[index] = Math.max(0, timer - dt);
+        if (timer - dt <= 0) {
+          this.respawnPlayer(index);
         }
+        return;
+      }
+
+      // Check if the player died
+      if (!player.active && !this.eliminated[index]) {
+        this.lives = Math.max(0, this.lives - 1);
+        if (this.onLifeLost) {
+          this.onLifeLost(this.lives);
+        }
+
+        if (this.lives > 0) {
+          this.respawnTimers[index] = this.RESPAWN_DELAY;
+        } else {
+          this.eliminated[index] = true; // Out of lives
+        }
+      }
+    });
+
+    // Everyone is out of lives
+    if (this.players.length > 0 && this.eliminated.every(out => out)) {
+      this.levelEnded = true;
+      if (this.onPlayerDeath) {
+        this.onPlayerDeath();
       }
+      return;
     }
 
-    // Check if player died
-    if (this.player && !this.player.active) {
+    // Survival runs until everyone is out
+    if (this.survival) {
+      this.waveSystem.update(dt, this.getActivePlayers());
+      this.enemies = this.enemies.filter(enemy => enemy.active);
+      return;
+    }
+
+    this.objectiveSystem.update(dt, this.getActivePlayers());
+
+    // A defended target was destroyed
+    if (this.objectiveSystem.isFailed()) {
+      this.levelEnded = true;
       if (this.onPlayerDeath) {
         this.onPlayerDeath();
       }
+      return;
     }
 
-    // Check if all enemies are dead (level complete)
-    const allEnemiesDead = this.enemies.every(enemy => !enemy.active);
-    if (allEnemiesDead && this.enemies.length > 0) {
+    // Check if the objectives are met (level complete) while someone is still standing
+    if (this.getActivePlayers().length > 0 && this.isLevelComplete()) {
+      this.levelEnded = true;
       if (this.onLevelComplete) {
-        this.onLevelComplete();
+        this.onLevelComplete(this.engine.scoreSystem.getLevelResult(this.objectiveSystem.getProgress()));
       }
     }
   }
 
   /**
-   * Get the current player
+   * Get player 1
    */
   getPlayer(): Player | null {
-    return this.player;
+    return this.players[0] ?? null;
+  }
+
+  /**
+   * Get every local player (including dead ones awaiting respawn)
+   */
+  getPlayers(): Player[] {
+    return this.players;
+  }
+
+  /**
+   * Get the players currently alive
+   */
+  getActivePlayers(): Player[] {
+    return this.players.filter(player => player.active);
+  }
+
+  /**
+   * Set the number of local players (1, or 2 for co-op); applies from the next loadLevel
+   */
+  setPlayerCount(count: number): void {
+    this.playerCount = count;
+    this.inputManager.setPlayerCount(count);
+  }
+
+  /**
+   * Play levels as wave survival arenas instead of their own enemies and objectives;
+   * applies from the next loadLevel
+   */
+  setSurvival(enabled: boolean): void {
+    this.survival = enabled;
+  }
+
+  /**
+   * Check whether levels are played as wave survival arenas
+   */
+  isSurvival(): boolean {
+    return this.survival;
+  }
+
+  /**
+   * Get the survival run's wave state (null outside survival)
+   */
+  getWaveStatus(): WaveStatus | null {
+    return this.survival ? this.waveSystem.getStatus() : null;
+  }
+
+  /**
+   * Get the survival run's result so far (null outside survival)
+   */
+  getSurvivalResult(): SurvivalResult | null {
+    return this.survival ? this.waveSystem.getResult() : null;
+  }
+
+  /**
+   * Get the number of local players
+   */
+  getPlayerCount(): number {
+    return this.playerCount;
+  }
+
+  /**
+   * Check whether a player died with no lives left and is out until the level ends
+   */
+  isPlayerEliminated(index: number): boolean {
+    return this.eliminated[index] ?? false;
   }
 
   /**
@@ -194,6 +546,13 @@ export class LevelManager {
     return this.enemies;
   }
 
+  /**
+   * Get the pickups still in the level (respawning ones included)
+   */
+  getPickups(): Pickup[] {
+    return this.pickups;
+  }
+
   /**
    * Get current level
    */
@@ -211,22 +570,58 @@ export class LevelManager {
   /**
    * Set level complete callback
    */
-  setOnLevelComplete(callback: () => void): void {
+  setOnLevelComplete(callback: (result: LevelResult) => void): void {
     this.onLevelComplete = callback;
   }
 
   /**
-   * Set player death callback
+   * Set game over callback (called when the last life is lost and no player is left standing,
+   * or a defended objective is destroyed)
    */
   setOnPlayerDeath(callback: () => void): void {
     this.onPlayerDeath = callback;
   }
 
   /**
-   * Check if level is complete
+   * Set life lost callback (receives lives remaining)
+   */
+  setOnLifeLost(callback: (livesRemaining: number) => void): void {
+    this.onLifeLost = callback;
+  }
+
+  /**
+   * Set the number of lives available
+   */
+  setLives(lives: number): void {
+    this.lives = lives;
+  }
+
+  /**
+   * Get the number of lives remaining
+   */
+  getLives(): number {
+    return this.lives;
+  }
+
+  /**
+   * Get seconds until a player respawns (0 when not respawning)
+   */
+  getRespawnCountdown(index: number = 0): number {
+    return this.respawnTimers[index] ?? 0;
+  }
+
+  /**
+   * Check if every required objective is met
    */
   isLevelComplete(): boolean {
-    return this.enemies.every(enemy => !enemy.active) && this.enemies.length > 0;
+    return !this.survival && this.objectiveSystem.isComplete();
+  }
+
+  /**
+   * Get progress on the level's objectives, for the HUD
+   */
+  getObjectiveProgress(): ObjectiveProgress[] {
+    return this.objectiveSystem.getProgress();
   }
 
   /**
@@ -0,0 +1,370 @@
+import { Platform } from './PhysicsSystem';
+
+/**
+ * Jump physics used when deciding which platforms can be reached
+ */
+export interface JumpProfile {
+  jumpForce: number; // Initial upward velocity (pixels per second)
+  holdAcceleration: number; // Extra upward acceleration while jump is held (pixels per second squared)
+  holdTime: number; // Maximum time the jump can be held (seconds)
+}
+
+/**
+ * Walkable surface on top of a platform
+ */
+export interface NavNode {
+  id: number;
+  platform: Platform;
+  left: number;
+  right: number;
+  y: number; // Top of the platform
+  edges: NavEdge[];
+}
+
+/**
+ * How an agent moves from one surface to another
+ * - walk: step across onto an adjacent surface at the same height
+ * - drop: walk off a ledge and fall onto a surface below
+ * - dropThrough: fall through a one-way platform onto the surface below it
+ * - jump: jump from the takeoff point onto a surface (usually above)
+ */
+export type NavEdgeType = 'walk' | 'drop' | 'dropThrough' | 'jump';
+
+/**
+ * Directed connection between two surfaces
+ */
+export interface NavEdge {
+  type: NavEdgeType;
+  from: NavNode;
+  to: NavNode;
+  takeoffX: number; // Agent center x to start the traversal from
+  landingX: number; // Agent center x to aim for while airborne
+  requiredSpeed: number; // Minimum horizontal speed needed to make the traversal
+  cost: number;
+}
+
+/**
+ * NavigationSystem builds a platform navigation graph from level geometry
+ * and finds paths across it for AI agents.
+ */
+export class NavigationSystem {
+  private readonly AGENT_WIDTH = 32; // Clearance used for takeoff and landing points
+  private readonly SPEED_MARGIN = 0.85; // Safety factor on horizontal speed (air friction, timing)
+  private readonly SIMULATION_STEP = 1 / 60; // Matches the fixed game timestep
+  private readonly EDGE_BASE_COST = 40; // Discourages needless jumps and drops
+
+  private nodes: NavNode[] = [];
+
+  /**
+   * Build the navigation graph for a set of platforms
+   * @param platforms - Level platforms
+   * @param jump - Jump physics of the agents that will use the graph
+   * @param gravity - Gravity applied by the physics system
+   */
+  build(platforms: Platform[], jump: JumpProfile, gravity: number): void {
+    this.nodes = platforms.map((platform, id) => ({
+      id,
+      platform,
+      left: platform.x,
+      right: platform.x + platform.width,
+      y: platform.y,
+      edges: [],
+    }));
+
+    const trajectory = this.simulateJump(jump, gravity);
+
+    for (const from of this.nodes) {
+      this.addWalkEdges(from);
+      this.addDropEdges(from, gravity);
+      this.addJumpEdges(from, trajectory);
+    }
+  }
+
+  /**
+   * Remove the current graph
+   */
+  clear(): void {
+    this.nodes = [];
+  }
+
+  /**
+   * Get all nodes in the graph
+   */
+  getNodes(): NavNode[] {
+    return this.nodes;
+  }
+
+  /**
+   * Find the surface an agent is standing on
+   * @param x - Agent center x
+   * @param feetY - Bottom of the agent's bounds
+   */
+  findNodeAt(x: number, feetY: number): NavNode | null {
+    for (const node of this.nodes) {
+      if (x >= node.left && x <= node.right && Math.abs(node.y - feetY) <= 4) {
+        return node;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the first surface at or below a point
+   */
+  findNodeBelow(x: number, y: number): NavNode | null {
+    let best: NavNode | null = null;
+    for (const node of this.nodes) {
+      if (x < node.left || x > node.right || node.y < y - 4) continue;
+      if (!best || node.y < best.y) {
+        best = node;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Find the cheapest sequence of edges between two surfaces
+   * @param start - Surface the agent is on
+   * @param goal - Surface the agent wants to reach
+   * @param moveSpeed - Agent horizontal speed, used to filter out jumps it cannot make
+   * @returns Edges to traverse in order, or an empty array if unreachable
+   */
+  findPath(start: NavNode, goal: NavNode, moveSpeed: number): NavEdge[] {
+    if (start === goal) return [];
+
+    // Dijkstra - level graphs only have a few dozen nodes
+    const costs = new Map<NavNode, number>([[start, 0]]);
+    const previous = new Map<NavNode, NavEdge>();
+    const open = new Set<NavNode>([start]);
+    const closed = new Set<NavNode>();
+
+    while (open.size > 0) {
+      let current: NavNode | null = null;
+      for (const node of open) {
+        if (!current || costs.get(node)! < costs.get(current)!) {
+          current = node;
+        }
+      }
+      if (!current) break;
+
+      if (current === goal) {
+        const path: NavEdge[] = [];
+        let node = goal;
+        while (node !== start) {
+          const edge = previous.get(node)!;
+          path.unshift(edge);
+          node = edge.from;
+        }
+        return path;
+      }
+
+      open.delete(current);
+      closed.add(current);
+
+      for (const edge of current.edges) {
+        if (closed.has(edge.to) || edge.requiredSpeed > moveSpeed) continue;
+
+        const cost = costs.get(current)! + edge.cost;
+        if (cost < (costs.get(edge.to) ?? Infinity)) {
+          costs.set(edge.to, cost);
+          previous.set(edge.to, edge);
+          open.add(edge.to);
+        }
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Connect surfaces that touch at the same height
+   */
+  private addWalkEdges(from: NavNode): void {
+    for (const to of this.nodes) {
+      if (to === from || to.y !== from.y) continue;
+
+      if (Math.abs(to.left - from.right) <= 1) {
+        this.addEdge('walk', from, to, from.right - 4, to.left + this.AGENT_WIDTH / 2, 0);
+      } else if (Math.abs(from.left - to.right) <= 1) {
+        this.addEdge('walk', from, to, from.left + 4, to.right - this.AGENT_WIDTH / 2, 0);
+      }
+    }
+  }
+
+  /**
+   * Connect surfaces reachable by walking off a ledge or dropping through a one-way platform
+   */
+  private addDropEdges(from: NavNode, gravity: number): void {
+    const halfWidth = this.AGENT_WIDTH / 2;
+
+    // Walk off either ledge
+    for (const side of [-1, 1]) {
+      const edgeX = side < 0 ? from.left : from.right;
+      const landingX = edgeX + side * (halfWidth + 4);
+      const to = this.findFirstSurfaceBelow(landingX, from.y);
+      if (!to || this.isBlockedBySolid(landingX, from.y)) continue;
+
+      const fallTime = Math.sqrt((2 * (to.y - from.y)) / gravity);
+      const requiredSpeed = (halfWidth + 4) / Math.max(fallTime, this.SIMULATION_STEP);
+      this.addEdge('drop', from, to, edgeX - side * halfWidth, landingX, requiredSpeed);
+    }
+
+    // Drop through one-way platforms onto each surface directly below
+    if (!from.platform.oneWay) return;
+
+    const seen = new Set<NavNode>();
+    for (const candidate of this.nodes) {
+      if (candidate.y <= from.y) continue;
+
+      const overlapLeft = Math.max(from.left, candidate.left) + halfWidth;
+      const overlapRight = Math.min(from.right, candidate.right) - halfWidth;
+      if (overlapLeft > overlapRight) continue;
+
+      const x = (overlapLeft + overlapRight) / 2;
+      const to = this.findFirstSurfaceBelow(x, from.y);
+      if (!to || seen.has(to)) continue;
+
+      seen.add(to);
+      this.addEdge('dropThrough', from, to, x, x, 0);
+    }
+  }
+
+  /**
+   * Connect surfaces reachable with a jump
+   */
+  private addJumpEdges(from: NavNode, trajectory: number[]): void {
+    const halfWidth = this.AGENT_WIDTH / 2;
+    const apex = Math.max(...trajectory);
+
+    for (const to of this.nodes) {
+      if (to === from) continue;
+
+      const rise = from.y - to.y; // Positive when the target is higher
+      if (rise > apex - 8) continue;
+
+      let takeoffX: number;
+      let landingX: number;
+
+      if (to.left >= from.right) {
+        // Target is to the right
+        takeoffX = from.right - halfWidth;
+        landingX = to.left + halfWidth + 4;
+      } else if (to.right <= from.left) {
+        // Target is to the left
+        takeoffX = from.left + halfWidth;
+        landingX = to.right - halfWidth - 4;
+      } else if (rise > 0 && to.platform.oneWay) {
+        // Directly above - jump straight up through it
+        const overlapLeft = Math.max(from.left, to.left) + halfWidth;
+        const overlapRight = Math.min(from.right, to.right) - halfWidth;
+        if (overlapLeft > overlapRight) continue;
+        takeoffX = landingX = (overlapLeft + overlapRight) / 2;
+      } else {
+        continue;
+      }
+
+      // Lower targets that can simply be dropped onto don't need a jump
+      if (rise <= 0 && from.edges.some(e => e.to === to && e.type === 'drop')) continue;
+
+      const airTime = this.getLandingTime(trajectory, rise);
+      if (airTime === null) continue;
+
+      const requiredSpeed = Math.abs(landingX - takeoffX) / (airTime * this.SPEED_MARGIN);
+      this.addEdge('jump', from, to, takeoffX, landingX, requiredSpeed);
+    }
+  }
+
+  /**
+   * Add an edge between two nodes with a cost based on distance travelled
+   */
+  private addEdge(
+    type: NavEdgeType,
+    from: NavNode,
+    to: NavNode,
+    takeoffX: number,
+    landingX: number,
+    requiredSpeed: number
+  ): void {
+    const cost =
+      this.EDGE_BASE_COST +
+      Math.abs(landingX - takeoffX) +
+      Math.abs(to.y - from.y) +
+      Math.abs(takeoffX - (from.left + from.right) / 2);
+
+    from.edges.push({ type, from, to, takeoffX, landingX, requiredSpeed, cost });
+  }
+
+  /**
+   * Find the first surface strictly below a height at a given x
+   */
+  private findFirstSurfaceBelow(x: number, y: number): NavNode | null {
+    let best: NavNode | null = null;
+    for (const node of this.nodes) {
+      if (x < node.left || x > node.right || node.y <= y) continue;
+      if (!best || node.y < best.y) {
+        best = node;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Check whether a solid platform occupies the space just above a surface at x
+   */
+  private isBlockedBySolid(x: number, surfaceY: number): boolean {
+    return this.nodes.some(
+      node =>
+        !node.platform.oneWay &&
+        x > node.left &&
+        x < node.right &&
+        node.y < surfaceY &&
+        node.y + node.platform.height > surfaceY - 1
+    );
+  }
+
+  /**
+   * Simulate a fully held jump and record height above the takeoff point at each step
+   */
+  private simulateJump(jump: JumpProfile, gravity: number): number[] {
+    const heights: number[] = [];
+    let velocityY = -jump.jumpForce;
+    let height = 0;
+    let holdTimer = 0;
+
+    // Stop once the agent has fallen well below the takeoff height
+    while (height > -1000 && heights.length < 600) {
+      if (holdTimer < jump.holdTime) {
+        holdTimer += this.SIMULATION_STEP;
+        velocityY -= jump.holdAcceleration * this.SIMULATION_STEP;
+      }
+      velocityY += gravity * this.SIMULATION_STEP;
+      height -= velocityY * this.SIMULATION_STEP;
+      heights.push(height);
+    }
+
+    return heights;
+  }
+
+  /**
+   * Get the time at which a jump trajectory comes down onto a surface at the given rise
+   * @returns Air time in seconds, or null if the jump can't reach that height
+   */
+  private getLandingTime(trajectory: number[], rise: number): number | null {
+    let apexReached = false;
+    let lastAbove: number | null = null;
+
+    for (let i = 0; i < trajectory.length; i++) {
+      const height = trajectory[i]!;
+      const previous = i > 0 ? trajectory[i - 1]! : 0;
+      if (height < previous) apexReached = true;
+
+      if (height >= rise) {
+        lastAbove = i;
+      } else if (apexReached && lastAbove !== null) {
+        break;
+      }
+    }
+
+    return lastAbove === null ? null : (lastAbove + 1) * this.SIMULATION_STEP;
+  }
+}
@@ -0,0 +1,279 @@
+import { Level, ObjectiveData, PickupType } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { Entity } from '../entities/Entity';
+import { Enemy } from '../entities/Enemy';
+import { Pickup } from '../entities/Pickup';
+import { DefendTarget } from '../entities/DefendTarget';
+import { ExitZone } from '../entities/ExitZone';
+import { Engine } from '../engine/Engine';
+
+export type ObjectiveState = 'pending' | 'met' | 'failed';
+
+/**
+ * One line of objective progress, for the HUD and the level complete screen
+ */
+export interface ObjectiveProgress {
+  label: string;
+  detail: string; // e.g. "3 / 5" or "42s left"; empty when there's nothing to count
+  state: ObjectiveState;
+  depth: number; // Nesting inside all/any groups (0 = top level)
+  bonus: boolean;
+  points: number; // Score for a met bonus objective (0 for required ones)
+}
+
+// Live state of one objective, mirroring the shape of the level's objective tree
+interface ObjectiveNode {
+  data: ObjectiveData;
+  state: ObjectiveState;
+  detail: string;
+  children: ObjectiveNode[];
+  entity?: DefendTarget | ExitZone; // Spawned for defend and reachExit objectives
+}
+
+/**
+ * ObjectiveSystem tracks what a level asks of the players. Levels list required
+ * objectives (all must be met; kill every enemy when none are given) and optional
+ * bonus objectives that add to the score. Objectives can be combined with
+ * all/any groups. Defend objectives fail once their target is destroyed, which
+ * loses the level; the others stay met once reached.
+ */
+export class ObjectiveSystem {
+  static readonly DEFAULT_BONUS_POINTS = 500;
+
+  private engine: Engine;
+  private required: ObjectiveNode[] = [];
+  private bonus: ObjectiveNode[] = [];
+  private enemies: Enemy[] = [];
+  private time: number = 0;
+  private collected: number = 0;
+  private collectedByType = new Map<PickupType, number>();
+
+  /**
+   * Create an objective system counting collected pickups
+   * @param engine - The engine objective entities are spawned into
+   */
+  constructor(engine: Engine) {
+    this.engine = engine;
+
+    this.engine.events.on('pickupCollected', ({ pickup }) => {
+      if (!(pickup instanceof Pickup)) return;
+      this.collected++;
+      this.collectedByType.set(pickup.type, (this.collectedByType.get(pickup.type) ?? 0) + 1);
+    });
+  }
+
+  /**
+   * Start tracking a level's objectives, spawning their targets and exit zones
+   * @param enemies - The level's enemies, in enemySpawns order (for killAll and killTarget)
+   */
+  start(level: Level, enemies: Enemy[]): void {
+    this.clear();
+
+    this.enemies = enemies;
+    this.time = 0;
+    this.collected = 0;
+    this.collectedByType.clear();
+
+    const required = level.objectives && level.objectives.length > 0
+      ? level.objectives
+      : [{ type: 'killAll' } as const];
+    this.required = required.map(data => this.createNode(data));
+    this.bonus = (level.bonusObjectives ?? []).map(data => this.createNode(data));
+  }
+
+  /**
+   * Stop tracking objectives, removing the entities spawned for them
+   */
+  clear(): void {
+    for (const node of [...this.required, ...this.bonus]) {
+      this.despawnEntities(node);
+    }
+    this.required = [];
+    this.bonus = [];
+  }
+
+  /**
+   * Build the node for an objective, spawning the entity it needs
+   */
+  private createNode(data: ObjectiveData): ObjectiveNode {
+    const node: ObjectiveNode = { data, state: 'pending', detail: '', children: [] };
+
+    switch (data.type) {
+      case 'all':
+      case 'any':
+        node.children = data.objectives.map(child => this.createNode(child));
+        break;
+      case 'defend': {
+        const target = new DefendTarget(0, new Vec2(data.target.x, data.target.y), data.target.health);
+        this.engine.spawn(target);
+        node.entity = target;
+        break;
+      }
+      case 'reachExit': {
+        const { x, y, width, height } = data.zone;
+        const zone = new ExitZone(0, new Vec2(x, y), new Vec2(width, height));
+        this.engine.spawn(zone);
+        node.entity = zone;
+        break;
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Remove the entities spawned for an objective and its children
+   */
+  private despawnEntities(node: ObjectiveNode): void {
+    if (node.entity) {
+      this.engine.despawn(node.entity.id);
+    }
+    node.children.forEach(child => this.despawnEntities(child));
+  }
+
+  /**
+   * Advance timers and re-evaluate every objective
+   * @param players - The players currently alive (for reachExit)
+   */
+  update(dt: number, players: Entity[]): void {
+    this.time += dt;
+    for (const node of [...this.required, ...this.bonus]) {
+      this.evaluate(node, players);
+    }
+  }
+
+  /**
+   * Update an objective's state and progress detail
+   */
+  private evaluate(node: ObjectiveNode, players: Entity[]): void {
+    const { data } = node;
+
+    if (data.type === 'all' || data.type === 'any') {
+      node.children.forEach(child => this.evaluate(child, players));
+      const states = node.children.map(child => child.state);
+      const metCount = states.filter(state => state === 'met').length;
+      node.detail = `${metCount} / ${states.length}`;
+      if (data.type === 'all') {
+        node.state = states.includes('failed') ? 'failed' : metCount === states.length ? 'met' : 'pending';
+      } else {
+        node.state = metCount > 0 ? 'met' : states.every(state => state === 'failed') ? 'failed' : 'pending';
+      }
+      return;
+    }
+
+    if (data.type === 'defend') {
+      const target = node.entity as DefendTarget;
+      node.state = target.active ? 'met' : 'failed';
+      node.detail = `${Math.ceil((target.health / target.maxHealth) * 100)}%`;
+      return;
+    }
+
+    // Everything else stays met once reached
+    if (node.state === 'met') return;
+
+    let met = false;
+    switch (data.type) {
+      case 'killAll': {
+        const dead = this.enemies.filter(enemy => !enemy.active).length;
+        met = dead === this.enemies.length;
+        node.detail = `${dead} / ${this.enemies.length}`;
+        break;
+      }
+      case 'reachExit': {
+        const zone = (node.entity as ExitZone).getBounds();
+        met = players.some(player => player.getBounds().overlaps(zone));
+        break;
+      }
+      case 'survive':
+        met = this.time >= data.seconds;
+        node.detail = met ? '' : `${Math.ceil(data.seconds - this.time)}s left`;
+        break;
+      case 'collect': {
+        const count = data.pickupType ? (this.collectedByType.get(data.pickupType) ?? 0) : this.collected;
+        met = count >= data.count;
+        node.detail = `${Math.min(count, data.count)} / ${data.count}`;
+        break;
+      }
+      case 'killTarget': {
+        const enemy = this.enemies[data.enemy];
+        met = !enemy || !enemy.active;
+        node.detail = enemy && !met ? `${Math.ceil((enemy.health / enemy.maxHealth) * 100)}%` : '';
+        break;
+      }
+    }
+    node.state = met ? 'met' : 'pending';
+  }
+
+  /**
+   * Check whether every required objective is met
+   */
+  isComplete(): boolean {
+    return this.required.every(node => node.state === 'met');
+  }
+
+  /**
+   * Check whether a required objective can no longer be met (a defended target was destroyed)
+   */
+  isFailed(): boolean {
+    return this.required.some(node => node.state === 'failed');
+  }
+
+  /**
+   * Get the targets enemies should attack alongside the players
+   */
+  getDefendTargets(): DefendTarget[] {
+    const targets: DefendTarget[] = [];
+    const collect = (node: ObjectiveNode): void => {
+      if (node.entity instanceof DefendTarget && node.entity.active) {
+        targets.push(node.entity);
+      }
+      node.children.forEach(collect);
+    };
+    [...this.required, ...this.bonus].forEach(collect);
+    return targets;
+  }
+
+  /**
+   * Get every objective's progress, required ones first, with groups flattened after their header
+   */
+  getProgress(): ObjectiveProgress[] {
+    const lines: ObjectiveProgress[] = [];
+    const add = (node: ObjectiveNode, depth: number, bonus: boolean): void => {
+      lines.push({
+        label: node.data.label ?? this.describe(node.data),
+        detail: node.detail,
+        state: node.state,
+        depth,
+        bonus,
+        points: bonus && depth === 0 ? node.data.points ?? ObjectiveSystem.DEFAULT_BONUS_POINTS : 0,
+      });
+      node.children.forEach(child => add(child, depth + 1, bonus));
+    };
+    this.required.forEach(node => add(node, 0, false));
+    this.bonus.forEach(node => add(node, 0, true));
+    return lines;
+  }
+
+  /**
+   * Default description of an objective
+   */
+  private describe(data: ObjectiveData): string {
+    switch (data.type) {
+      case 'killAll':
+        return 'Eliminate all enemies';
+      case 'reachExit':
+        return 'Reach the exit';
+      case 'survive':
+        return `Survive ${data.seconds} seconds`;
+      case 'defend':
+        return 'Defend the generator';
+      case 'collect':
+        return `Collect ${data.count} ${data.pickupType ? `${data.pickupType} pickup` : 'pickup'}${data.count === 1 ? '' : 's'}`;
+      case 'killTarget':
+        return `Kill the ${this.enemies[data.enemy]?.archetype.name ?? 'target'}`;
+      case 'all':
+        return 'Complete all of';
+      case 'any':
+        return 'Complete any of';
+    }
+  }
+}
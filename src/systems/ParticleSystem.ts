@@ -1,4 +1,5 @@
 import { Vec2 } from '../types/Vec2';
+import { Random } from '../engine/Random';
 
 /**
  * Particle class representing a single particle
@@ -85,9 +86,14 @@ class Particle {
  */
 export class ParticleSystem {
   private particles: Particle[] = [];
-  private readonly POOL_SIZE = 200;
+  private readonly POOL_SIZE = 400;
+  private random: Random;
 
-  constructor() {
+  /**
+   * @param random - Generator for particle spread (shared with the engine for determinism)
+   */
+  constructor(random: Random = new Random()) {
+    this.random = random;
     // Pre-allocate particle pool
     for (let i = 0; i < this.POOL_SIZE; i++) {
       this.particles.push(new Particle());
@@ -102,8 +108,8 @@ export class ParticleSystem {
     const baseAngle = Math.atan2(direction.y, direction.x);
 
     for (let i = 0; i < particleCount; i++) {
-      const angle = baseAngle + (Math.random() - 0.5) * Math.PI / 3;
-      const speed = 100 + Math.random() * 100;
+      const angle = baseAngle + (this.random.next() - 0.5) * Math.PI / 3;
+      const speed = 100 + this.random.next() * 100;
       const velocity = new Vec2(
         Math.cos(angle) * speed,
         Math.sin(angle) * speed
@@ -114,7 +120,7 @@ export class ParticleSystem {
         velocity,
         0.2, // Short lifetime
         '#FFA500', // Orange
-        3 + Math.random() * 2
+        3 + this.random.next() * 2
       );
     }
   }
@@ -127,8 +133,8 @@ export class ParticleSystem {
     const baseAngle = Math.atan2(direction.y, direction.x) + Math.PI; // Opposite direction
 
     for (let i = 0; i < particleCount; i++) {
-      const angle = baseAngle + (Math.random() - 0.5) * Math.PI;
-      const speed = 150 + Math.random() * 150;
+      const angle = baseAngle + (this.random.next() - 0.5) * Math.PI;
+      const speed = 150 + this.random.next() * 150;
       const velocity = new Vec2(
         Math.cos(angle) * speed,
         Math.sin(angle) * speed
@@ -136,14 +142,14 @@ export class ParticleSystem {
 
       // Random colors for sparks
       const colors = ['#FFFF00', '#FFA500', '#FF6600', '#FFFFFF'];
-      const color = colors[Math.floor(Math.random() * colors.length)] || '#FFFFFF';
+      const color = this.random.pick(colors) || '#FFFFFF';
 
       this.spawnParticle(
         position,
         velocity,
-        0.3 + Math.random() * 0.2,
+        0.3 + this.random.next() * 0.2,
         color,
-        2 + Math.random() * 2
+        2 + this.random.next() * 2
       );
     }
   }
@@ -155,8 +161,8 @@ export class ParticleSystem {
     const particleCount = 6;
 
     for (let i = 0; i < particleCount; i++) {
-      const angle = -Math.PI / 2 + (Math.random() - 0.5) * Math.PI / 2; // Upward spread
-      const speed = 50 + Math.random() * 50;
+      const angle = -Math.PI / 2 + (this.random.next() - 0.5) * Math.PI / 2; // Upward spread
+      const speed = 50 + this.random.next() * 50;
       const velocity = new Vec2(
         Math.cos(angle) * speed,
         Math.sin(angle) * speed
@@ -165,9 +171,55 @@ export class ParticleSystem {
       this.spawnParticle(
         position,
         velocity,
-        0.5 + Math.random() * 0.3,
+        0.5 + this.random.next() * 0.3,
         '#8B7355', // Brown dust color
-        2 + Math.random() * 2
+        2 + this.random.next() * 2
+      );
+    }
+  }
+
+  /**
+   * Spawn an explosion burst of fire and smoke
+   * @param position - Center of the explosion
+   * @param radius - Blast radius, which scales how far particles fly
+   */
+  spawnExplosion(position: Vec2, radius: number): void {
+    const particleCount = Math.round(radius / 3);
+    const colors = ['#FFFF66', '#FFAA00', '#FF5500', '#CC2200'];
+
+    for (let i = 0; i < particleCount; i++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const speed = radius * (1 + this.random.next() * 2);
+      const velocity = new Vec2(
+        Math.cos(angle) * speed,
+        Math.sin(angle) * speed
+      );
+      const color = this.random.pick(colors) || '#FFAA00';
+
+      this.spawnParticle(
+        position,
+        velocity,
+        0.3 + this.random.next() * 0.3,
+        color,
+        3 + this.random.next() * 4
+      );
+    }
+
+    // Lingering smoke
+    for (let i = 0; i < 10; i++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const speed = 20 + this.random.next() * 40;
+      const velocity = new Vec2(
+        Math.cos(angle) * speed,
+        Math.sin(angle) * speed - 30
+      );
+
+      this.spawnParticle(
+        position,
+        velocity,
+        0.8 + this.random.next() * 0.4,
+        '#555555',
+        6 + this.random.next() * 4
       );
     }
   }
@@ -1,5 +1,7 @@
 import { Entity } from '../entities/Entity';
 import { Rect } from '../types/Rect';
+import { Vec2 } from '../types/Vec2';
+import { SpatialHash, HashBounds } from './SpatialHash';
 
 /**
  * Platform data structure for collision detection
@@ -12,6 +14,23 @@ export interface Platform {
   oneWay?: boolean; // Can jump through from below
 }
 
+/**
+ * Result of sweeping a segment against level geometry
+ */
+export interface PlatformHit {
+  platform: Platform;
+  point: Vec2; // Contact point along the swept segment
+  normal: Vec2; // Surface normal of the face that was hit
+  time: number; // Fraction of the segment travelled before contact (0-1)
+}
+
+/**
+ * Projectile that struck a platform during this physics step
+ */
+export interface ProjectileImpact extends PlatformHit {
+  entity: Entity;
+}
+
 /**
  * PhysicsSystem handles gravity, velocity integration, and platform collisions.
  * Applies realistic physics to entities with proper collision resolution.
@@ -20,8 +39,13 @@ export class PhysicsSystem {
   private readonly GRAVITY = 980; // pixels per second squared (roughly Earth gravity scaled)
   private readonly GROUND_FRICTION = 0.85; // Friction coefficient when on ground
   private readonly AIR_FRICTION = 0.98; // Minimal air resistance
+  private readonly CELL_SIZE = 128; // Spatial hash cell size for platform lookups
   
+  private readonly RIDE_TOLERANCE = 1; // pixels between an entity's feet and a moving platform's top that still count as riding it
+
   private platforms: Platform[] = [];
+  private platformHash: SpatialHash<number> = new SpatialHash(this.CELL_SIZE); // Indices into platforms
+  private movingPlatforms: Platform[] = []; // Movers and doors, checked without the hash since they change position
 
   /**
    * Set the platforms for collision detection
@@ -29,6 +53,8 @@ export class PhysicsSystem {
    */
   setPlatforms(platforms: Platform[]): void {
     this.platforms = platforms;
+    this.platformHash.clear();
+    platforms.forEach((platform, index) => this.platformHash.insert(index, platform));
   }
 
   /**
@@ -37,13 +63,89 @@ export class PhysicsSystem {
    */
   addPlatform(platform: Platform): void {
     this.platforms.push(platform);
+    this.platformHash.insert(this.platforms.length - 1, platform);
   }
 
   /**
-   * Clear all platforms
+   * Clear all platforms, static and moving
    */
   clearPlatforms(): void {
     this.platforms = [];
+    this.platformHash.clear();
+    this.movingPlatforms = [];
+  }
+
+  /**
+   * Add a platform that moves with movePlatform (collided with like any other,
+   * but left out of getPlatforms so navigation only plans over static geometry)
+   * @param platform - Platform to add
+   */
+  addMovingPlatform(platform: Platform): void {
+    this.movingPlatforms.push(platform);
+  }
+
+  /**
+   * Remove a moving platform
+   * @param platform - Platform to remove
+   */
+  removeMovingPlatform(platform: Platform): void {
+    this.movingPlatforms = this.movingPlatforms.filter(other => other !== platform);
+  }
+
+  /**
+   * Move a moving platform, carrying the entities standing on it
+   * @param platform - Platform added with addMovingPlatform
+   * @param delta - Displacement in pixels
+   * @param entities - Entities that may be riding it
+   */
+  movePlatform(platform: Platform, delta: Vec2, entities: Entity[]): void {
+    if (delta.x === 0 && delta.y === 0) return;
+
+    for (const entity of entities) {
+      if (this.isRiding(entity, platform)) {
+        entity.position.x += delta.x;
+        entity.position.y += delta.y;
+      }
+    }
+
+    platform.x += delta.x;
+    platform.y += delta.y;
+  }
+
+  /**
+   * Check whether a grounded physics entity is standing on top of a platform
+   */
+  isRiding(entity: Entity, platform: Platform): boolean {
+    if (!entity.active || !entity.hasTag('physics') || !entity.hasTag('grounded')) return false;
+
+    const bottom = entity.position.y + entity.size.y;
+    return Math.abs(bottom - platform.y) <= this.RIDE_TOLERANCE &&
+      entity.position.x < platform.x + platform.width &&
+      entity.position.x + entity.size.x > platform.x;
+  }
+
+  /**
+   * Get platforms that may overlap an area: static ones in level order, then moving ones
+   * @param bounds - Area to search
+   */
+  getPlatformsNear(bounds: HashBounds): Platform[] {
+    const indices = this.platformHash.query(bounds).sort((a, b) => a - b);
+    const platforms: Platform[] = [];
+    for (const index of indices) {
+      const platform = this.platforms[index];
+      if (platform) platforms.push(platform);
+    }
+    for (const platform of this.movingPlatforms) {
+      if (
+        platform.x <= bounds.x + bounds.width &&
+        platform.x + platform.width >= bounds.x &&
+        platform.y <= bounds.y + bounds.height &&
+        platform.y + platform.height >= bounds.y
+      ) {
+        platforms.push(platform);
+      }
+    }
+    return platforms;
   }
 
   /**
@@ -79,7 +181,7 @@ export class PhysicsSystem {
       // Check collisions with platforms
       let grounded = false;
       
-      for (const platform of this.platforms) {
+      for (const platform of this.getPlatformsNear(entityBounds)) {
         const platformBounds = new Rect(
           platform.x,
           platform.y,
@@ -93,8 +195,8 @@ export class PhysicsSystem {
           if (platform.oneWay) {
             // Check if entity was above platform before movement
             const wasAbove = oldY + entityBounds.height <= platform.y;
-            // Only collide if moving downward and was above
-            if (wasAbove && entity.velocity.y >= 0) {
+            // Only collide if moving downward and was above (unless dropping through)
+            if (wasAbove && entity.velocity.y >= 0 && !entity.hasTag('dropThrough')) {
               // Resolve collision: place entity on top of platform
               entity.position.y = platform.y - entityBounds.height;
               entity.velocity.y = 0;
@@ -121,6 +223,169 @@ export class PhysicsSystem {
     }
   }
 
+  /**
+   * Move projectiles along their velocity and stop them on level geometry.
+   * The movement is swept so fast projectiles cannot tunnel through thin platforms.
+   * @param entities - Array of entities to process (only 'projectile' tagged are moved)
+   * @param dt - Delta time in seconds
+   * @returns Impacts for projectiles that hit a platform this step
+   */
+  updateProjectiles(entities: Entity[], dt: number): ProjectileImpact[] {
+    const impacts: ProjectileImpact[] = [];
+
+    for (const entity of entities) {
+      if (!entity.active || !entity.hasTag('projectile')) continue;
+
+      const halfSize = entity.size.multiply(0.5);
+      const center = entity.position.add(halfSize);
+      const delta = entity.velocity.multiply(dt);
+      if (delta.x === 0 && delta.y === 0) continue;
+
+      const hit = this.sweepSegment(center, delta, Math.max(halfSize.x, halfSize.y));
+      if (hit) {
+        // Stop at the contact point
+        entity.position = hit.point.subtract(halfSize);
+        impacts.push({ ...hit, entity });
+      } else {
+        entity.position.x += delta.x;
+        entity.position.y += delta.y;
+      }
+    }
+
+    return impacts;
+  }
+
+  /**
+   * Sweep a segment against all platforms and return the earliest hit.
+   * One-way platforms only block segments entering through their top face.
+   * @param start - Segment start point
+   * @param delta - Segment displacement (end = start + delta)
+   * @param padding - Radius to inflate platforms by (for sweeping small boxes)
+   * @param includeOneWay - Whether one-way platforms can block the segment
+   */
+  sweepSegment(
+    start: Vec2,
+    delta: Vec2,
+    padding: number = 0,
+    includeOneWay: boolean = true
+  ): PlatformHit | null {
+    let closest: PlatformHit | null = null;
+
+    // Only platforms near the swept box can be hit
+    const nearby = this.getPlatformsNear({
+      x: Math.min(start.x, start.x + delta.x) - padding,
+      y: Math.min(start.y, start.y + delta.y) - padding,
+      width: Math.abs(delta.x) + padding * 2,
+      height: Math.abs(delta.y) + padding * 2,
+    });
+
+    for (const platform of nearby) {
+      if (platform.oneWay && !includeOneWay) continue;
+
+      const hit = this.sweepAgainstPlatform(start, delta, platform, padding);
+      if (hit && (!closest || hit.time < closest.time)) {
+        closest = hit;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Cast a ray between two points against platforms, with the same rule as projectiles:
+   * one-way platforms block rays coming down onto their top face, but not rays from below.
+   * @param from - Ray origin
+   * @param to - Ray target
+   * @returns The first platform hit, or null if the path is clear
+   */
+  raycast(from: Vec2, to: Vec2): PlatformHit | null {
+    return this.sweepSegment(from, to.subtract(from));
+  }
+
+  /**
+   * Find where a segment first enters a rectangle
+   * @param start - Segment start point
+   * @param delta - Segment displacement (end = start + delta)
+   * @param rect - Rectangle to test against (e.g. entity bounds)
+   * @returns Fraction along the segment (0-1) of the first contact, or null if it misses
+   */
+  intersectSegment(start: Vec2, delta: Vec2, rect: Rect): number | null {
+    const box = { x: rect.x, y: rect.y, width: rect.width, height: rect.height, oneWay: false };
+    return this.sweepAgainstPlatform(start, delta, box, 0)?.time ?? null;
+  }
+
+  /**
+   * Check whether a shot from one point could reach the other past the platforms
+   */
+  hasLineOfSight(from: Vec2, to: Vec2): boolean {
+    return this.raycast(from, to) === null;
+  }
+
+  /**
+   * Segment vs AABB slab test against a single platform
+   */
+  private sweepAgainstPlatform(
+    start: Vec2,
+    delta: Vec2,
+    platform: Platform,
+    padding: number
+  ): PlatformHit | null {
+    const min = new Vec2(platform.x - padding, platform.y - padding);
+    const max = new Vec2(platform.x + platform.width + padding, platform.y + platform.height + padding);
+
+    let tEnter = 0;
+    let tExit = 1;
+    const normal = new Vec2(0, 0);
+
+    // X axis slab
+    if (delta.x === 0) {
+      if (start.x < min.x || start.x > max.x) return null;
+    } else {
+      let t1 = (min.x - start.x) / delta.x;
+      let t2 = (max.x - start.x) / delta.x;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      if (t1 > tEnter) {
+        tEnter = t1;
+        normal.set(delta.x > 0 ? -1 : 1, 0);
+      }
+      tExit = Math.min(tExit, t2);
+      if (tEnter > tExit) return null;
+    }
+
+    // Y axis slab
+    if (delta.y === 0) {
+      if (start.y < min.y || start.y > max.y) return null;
+    } else {
+      let t1 = (min.y - start.y) / delta.y;
+      let t2 = (max.y - start.y) / delta.y;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      if (t1 > tEnter) {
+        tEnter = t1;
+        normal.set(0, delta.y > 0 ? -1 : 1);
+      }
+      tExit = Math.min(tExit, t2);
+      if (tEnter > tExit) return null;
+    }
+
+    const startedInside = normal.x === 0 && normal.y === 0;
+
+    if (platform.oneWay) {
+      // Only block when entering through the top face while moving down
+      if (startedInside || normal.y !== -1) return null;
+    } else if (startedInside) {
+      // Segment began inside solid geometry - stop immediately
+      const back = delta.normalize().multiply(-1);
+      normal.set(back.x, back.y);
+    }
+
+    return {
+      platform,
+      point: start.add(delta.multiply(tEnter)),
+      normal,
+      time: tEnter,
+    };
+  }
+
   /**
    * Resolve collision between entity and platform
    * Uses AABB collision resolution to push entity out of platform
@@ -166,9 +431,23 @@ export class PhysicsSystem {
   }
 
   /**
-   * Get all platforms
+   * Get gravity acceleration in pixels per second squared
+   */
+  getGravity(): number {
+    return this.GRAVITY;
+  }
+
+  /**
+   * Get all static platforms
    */
   getPlatforms(): Platform[] {
     return this.platforms;
   }
+
+  /**
+   * Get the moving platforms (movers and doors)
+   */
+  getMovingPlatforms(): Platform[] {
+    return this.movingPlatforms;
+  }
 }
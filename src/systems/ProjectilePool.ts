@@ -1,6 +1,6 @@
 import { Projectile } from '../entities/Projectile';
 import { Vec2 } from '../types/Vec2';
-import { EntityID } from '../types';
+import { EntityID, Team, WeaponDef } from '../types';
 
 /**
  * ProjectilePool manages a pool of pre-allocated projectiles for performance.
@@ -46,6 +46,8 @@ export class ProjectilePool {
    * @param damage - Damage to deal on hit
    * @param speed - Speed in pixels per second
    * @param lifetime - Lifetime in seconds
+   * @param weapon - Weapon that fired the projectile (decides its behaviour)
+   * @param team - Team of the shooter, for friendly-fire rules
    * @returns A projectile instance, or null if pool is exhausted
    */
   acquire(
@@ -54,7 +56,9 @@ export class ProjectilePool {
     owner: EntityID,
     damage: number,
     speed: number,
-    lifetime: number = 3.0
+    lifetime: number = 3.0,
+    weapon: WeaponDef | null = null,
+    team: Team = 'neutral'
   ): Projectile | null {
     let projectile: Projectile | undefined;
 
@@ -77,7 +81,7 @@ export class ProjectilePool {
     if (!projectile) return null;
 
     // Reset and activate the projectile
-    projectile.reset(position, direction, owner, damage, speed, lifetime);
+    projectile.reset(position, direction, owner, damage, speed, lifetime, weapon, team);
     this.activeProjectiles.add(projectile);
 
     return projectile;
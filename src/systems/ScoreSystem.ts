@@ -0,0 +1,169 @@
+import { EventBus } from '../engine/EventBus';
+import type { EntityID } from '../types';
+import type { ObjectiveProgress } from './ObjectiveSystem';
+
+/**
+ * A single line of the score breakdown
+ */
+export interface ScoreLine {
+  label: string;
+  points: number;
+}
+
+/**
+ * Final statistics and score for a completed level
+ */
+export interface LevelResult {
+  levelIndex: number;
+  kills: number;
+  headshots: number;
+  multiKills: number;
+  shotsFired: number;
+  shotsHit: number;
+  accuracy: number; // 0-1
+  damageTaken: number;
+  time: number; // seconds
+  objectives: ObjectiveProgress[]; // Required and bonus objectives as they stood at the end
+  breakdown: ScoreLine[];
+  total: number;
+}
+
+/**
+ * ScoreSystem tracks the player's kills, accuracy, damage and time for the current level
+ * by listening to gameplay events, and turns them into a score breakdown.
+ */
+export class ScoreSystem {
+  private readonly KILL_POINTS = 100;
+  private readonly HEADSHOT_BONUS = 50;
+  private readonly MULTI_KILL_BONUS = 150; // per extra kill in a chain
+  private readonly MULTI_KILL_WINDOW = 1.5; // seconds between kills to chain them
+  private readonly DAMAGE_PENALTY = 2; // points lost per point of damage taken
+  private readonly CLEAR_BONUS = 1000;
+  private readonly PAR_TIME = 120; // seconds
+  private readonly TIME_BONUS_PER_SECOND = 10; // per second under par
+  private readonly ACCURACY_BONUS = 500; // at 100% accuracy
+
+  private levelIndex: number = 0;
+  private kills: number = 0;
+  private headshots: number = 0;
+  private multiKills: number = 0;
+  private shotsFired: number = 0;
+  private shotsHit: number = 0;
+  private hitProjectiles: Set<EntityID> = new Set(); // Piercing shots only count their first hit
+  private damageTaken: number = 0;
+  private time: number = 0;
+  private timeSinceLastKill: number = Infinity;
+
+  /**
+   * Create a score system listening to gameplay events
+   * @param events - The engine event bus
+   */
+  constructor(events: EventBus) {
+    events.on('shotFired', ({ shooter, projectileCount }) => {
+      if (shooter?.hasTag('player')) {
+        this.shotsFired += projectileCount;
+      }
+    });
+
+    events.on('projectileHit', ({ shooter, target, projectileId }) => {
+      if (shooter?.hasTag('player') && target.hasTag('enemy') && !this.hitProjectiles.has(projectileId)) {
+        this.hitProjectiles.add(projectileId);
+        this.shotsHit++;
+      }
+    });
+
+    events.on('enemyKilled', ({ killer, headshot }) => {
+      if (!killer?.hasTag('player')) return;
+
+      this.kills++;
+      if (headshot) this.headshots++;
+      if (this.timeSinceLastKill <= this.MULTI_KILL_WINDOW) this.multiKills++;
+      this.timeSinceLastKill = 0;
+    });
+
+    events.on('playerDamaged', ({ amount }) => {
+      this.damageTaken += amount;
+    });
+  }
+
+  /**
+   * Reset statistics for a new level
+   * @param levelIndex - Index of the level being played
+   */
+  startLevel(levelIndex: number): void {
+    this.levelIndex = levelIndex;
+    this.kills = 0;
+    this.headshots = 0;
+    this.multiKills = 0;
+    this.shotsFired = 0;
+    this.shotsHit = 0;
+    this.hitProjectiles.clear();
+    this.damageTaken = 0;
+    this.time = 0;
+    this.timeSinceLastKill = Infinity;
+  }
+
+  /**
+   * Advance the level timer
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    this.time += dt;
+    this.timeSinceLastKill += dt;
+  }
+
+  /**
+   * Get the score earned so far this level (excludes end-of-level bonuses)
+   */
+  getCurrentScore(): number {
+    return Math.max(0, this.getCombatLines().reduce((sum, line) => sum + line.points, 0));
+  }
+
+  /**
+   * Build the final result for the level, including clear, time, accuracy and bonus objective points
+   * @param objectives - Objective progress at the end of the level
+   */
+  getLevelResult(objectives: ObjectiveProgress[] = []): LevelResult {
+    const accuracy = this.shotsFired > 0 ? this.shotsHit / this.shotsFired : 0;
+
+    const breakdown: ScoreLine[] = [
+      ...this.getCombatLines(),
+      { label: 'Level clear', points: this.CLEAR_BONUS },
+      {
+        label: 'Time bonus',
+        points: Math.round(Math.max(0, this.PAR_TIME - this.time) * this.TIME_BONUS_PER_SECOND),
+      },
+      { label: 'Accuracy bonus', points: Math.round(accuracy * this.ACCURACY_BONUS) },
+      ...objectives
+        .filter(objective => objective.bonus && objective.state === 'met' && objective.points > 0)
+        .map(objective => ({ label: `Bonus: ${objective.label}`, points: objective.points })),
+    ];
+
+    return {
+      levelIndex: this.levelIndex,
+      kills: this.kills,
+      headshots: this.headshots,
+      multiKills: this.multiKills,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+      accuracy,
+      damageTaken: this.damageTaken,
+      time: this.time,
+      objectives,
+      breakdown,
+      total: Math.max(0, breakdown.reduce((sum, line) => sum + line.points, 0)),
+    };
+  }
+
+  /**
+   * Score lines earned during combat
+   */
+  private getCombatLines(): ScoreLine[] {
+    return [
+      { label: 'Kills', points: this.kills * this.KILL_POINTS },
+      { label: 'Headshots', points: this.headshots * this.HEADSHOT_BONUS },
+      { label: 'Multi-kills', points: this.multiKills * this.MULTI_KILL_BONUS },
+      { label: 'Damage taken', points: -Math.round(this.damageTaken * this.DAMAGE_PENALTY) },
+    ];
+  }
+}
@@ -1,15 +1,22 @@
 /**
  * SoundManager handles audio playback using Web Audio API.
  * Supports loading, caching, and playing sound effects with volume control.
+ * A disabled SoundManager has no audio backend and silently ignores every call.
  */
 export class SoundManager {
   private audioContext: AudioContext | null = null;
   private sounds: Map<string, AudioBuffer> = new Map();
   private masterVolume: number = 0.5;
+  private muted: boolean = false;
 
-  constructor() {
+  /**
+   * @param enabled - Set to false for a silent backend (headless simulation)
+   */
+  constructor(enabled: boolean = true) {
     // Initialize AudioContext lazily (requires user interaction)
-    this.initAudioContext();
+    if (enabled) {
+      this.initAudioContext();
+    }
   }
 
   /**
@@ -32,6 +39,16 @@ export class SoundManager {
     }
   }
 
+  /**
+   * Release the audio context (browsers only allow a few at once)
+   */
+  close(): void {
+    if (this.audioContext) {
+      void this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
+
   /**
    * Load a sound from a URL
    * @param name - Identifier for the sound
@@ -56,7 +73,7 @@ export class SoundManager {
    * @param volume - Volume multiplier (0-1), defaults to 1
    */
   play(name: string, volume: number = 1.0): void {
-    if (!this.audioContext) return;
+    if (!this.audioContext || this.muted) return;
 
     const buffer = this.sounds.get(name);
     if (!buffer) {
@@ -95,6 +112,20 @@ export class SoundManager {
     return this.masterVolume;
   }
 
+  /**
+   * Silence all sounds without changing the volume (e.g. while a replay fast-forwards)
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+  }
+
+  /**
+   * Check if sounds are muted
+   */
+  isMuted(): boolean {
+    return this.muted;
+  }
+
   /**
    * Check if a sound is loaded
    */
@@ -106,7 +137,7 @@ export class SoundManager {
    * Generate a simple beep sound (for testing without audio files)
    */
   playBeep(frequency: number = 440, duration: number = 0.1): void {
-    if (!this.audioContext) return;
+    if (!this.audioContext || this.muted) return;
 
     const oscillator = this.audioContext.createOscillator();
     const gainNode = this.audioContext.createGain();
@@ -128,9 +159,11 @@ export class SoundManager {
    * Create placeholder sounds using oscillators (for development)
    */
   createPlaceholderSounds(): void {
+    if (!this.audioContext) return;
+
     // Since we don't have actual audio files, we'll use the beep method
     // This is just to register the sound names
-    const soundNames = ['shoot', 'jump', 'hit', 'death'];
+    const soundNames = ['shoot', 'jump', 'hit', 'death', 'pickup', 'explosion'];
     soundNames.forEach(name => {
       // Mark as "loaded" even though we'll use beeps
       this.sounds.set(name, new AudioBuffer({ length: 1, sampleRate: 44100 }));
@@ -154,6 +187,15 @@ export class SoundManager {
       case 'death':
         this.playBeep(100, 0.3);
         break;
+      case 'pickup':
+        this.playBeep(1200, 0.08);
+        break;
+      case 'explosion':
+        this.playBeep(60, 0.4);
+        break;
+      case 'switch':
+        this.playBeep(600, 0.06);
+        break;
       default:
         this.playBeep(440, 0.1);
     }
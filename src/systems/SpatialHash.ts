@@ -0,0 +1,109 @@
+/**
+ * Axis-aligned box accepted by the spatial hash (Rect, Platform, or a plain object)
+ */
+export interface HashBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * SpatialHash buckets items into a uniform grid so nearby items can be found
+ * without testing everything against everything.
+ * Items covering several cells are stored in each of them; queries return each item once.
+ */
+export class SpatialHash<T> {
+  private readonly cellSize: number;
+  private cells: Map<number, T[]> = new Map();
+
+  /**
+   * Create a spatial hash
+   * @param cellSize - Width and height of each grid cell in pixels
+   */
+  constructor(cellSize: number) {
+    if (cellSize <= 0) {
+      throw new Error(`[SpatialHash] Cell size must be positive, got ${cellSize}`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this.cells.clear();
+  }
+
+  /**
+   * Add an item covering the given bounds
+   */
+  insert(item: T, bounds: HashBounds): void {
+    const { minX, minY, maxX, maxY } = this.getCellRange(bounds);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const key = this.getKey(cx, cy);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(item);
+        } else {
+          this.cells.set(key, [item]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Find items whose cells overlap the given bounds.
+   * This is a broad phase - callers still need an exact overlap test.
+   * @param bounds - Area to search
+   * @returns Each candidate item once
+   */
+  query(bounds: HashBounds): T[] {
+    const { minX, minY, maxX, maxY } = this.getCellRange(bounds);
+
+    // Single cell - no duplicates possible
+    if (minX === maxX && minY === maxY) {
+      return [...(this.cells.get(this.getKey(minX, minY)) ?? [])];
+    }
+
+    const found = new Set<T>();
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = this.cells.get(this.getKey(cx, cy));
+        if (!cell) continue;
+        for (const item of cell) {
+          found.add(item);
+        }
+      }
+    }
+    return [...found];
+  }
+
+  /**
+   * Get the size of each grid cell
+   */
+  getCellSize(): number {
+    return this.cellSize;
+  }
+
+  /**
+   * Get the range of cells covered by a box
+   */
+  private getCellRange(bounds: HashBounds): { minX: number; minY: number; maxX: number; maxY: number } {
+    return {
+      minX: Math.floor(bounds.x / this.cellSize),
+      minY: Math.floor(bounds.y / this.cellSize),
+      maxX: Math.floor((bounds.x + bounds.width) / this.cellSize),
+      maxY: Math.floor((bounds.y + bounds.height) / this.cellSize),
+    };
+  }
+
+  /**
+   * Pack cell coordinates into a single number (cells within ±32768 of the origin)
+   */
+  private getKey(cx: number, cy: number): number {
+    return (cx + 32768) * 65536 + (cy + 32768);
+  }
+}
@@ -1,10 +1,14 @@
-import { SaveData } from '../types';
+import { ControlBindings, GameAction, SaveData, SurvivalScore } from '../types';
+import { DEFAULT_BINDINGS, isInputBinding } from '../data/controls';
 
 /**
- * StorageManager handles game progress persistence using localStorage.
+ * StorageManager handles game progress, survival high scores and control binding persistence using localStorage.
  */
 export class StorageManager {
   private readonly STORAGE_KEY = 'armor_mayhem_save';
+  private readonly BINDINGS_KEY = 'armor_mayhem_controls';
+  private readonly SURVIVAL_KEY = 'armor_mayhem_survival';
+  private readonly SURVIVAL_TABLE_SIZE = 10; // entries kept per arena
 
   /**
    * Save progress to localStorage
@@ -74,10 +78,89 @@ export class StorageManager {
     return data?.bestScores[level] || 0;
   }
 
+  /**
+   * Get an arena's survival high-score table, best first
+   * @param arena - Level name of the arena
+   */
+  getSurvivalScores(arena: string): SurvivalScore[] {
+    return this.loadSurvivalTables()[arena] ?? [];
+  }
+
+  /**
+   * Add a survival run to its arena's high-score table
+   * @param arena - Level name of the arena
+   * @returns The run's place in the table (0 = best), or -1 if it didn't make the table
+   */
+  addSurvivalScore(arena: string, entry: SurvivalScore): number {
+    const tables = this.loadSurvivalTables();
+    const table = [...(tables[arena] ?? []), entry]
+      .sort((a, b) => b.score - a.score || b.wave - a.wave)
+      .slice(0, this.SURVIVAL_TABLE_SIZE);
+    const place = table.indexOf(entry);
+    if (place < 0) return -1;
+
+    tables[arena] = table;
+    try {
+      localStorage.setItem(this.SURVIVAL_KEY, JSON.stringify(tables));
+    } catch (e) {
+      console.warn('Failed to save survival scores', e);
+    }
+    return place;
+  }
+
+  /**
+   * Load every arena's survival high-score table
+   */
+  private loadSurvivalTables(): Record<string, SurvivalScore[]> {
+    try {
+      const json = localStorage.getItem(this.SURVIVAL_KEY);
+      if (!json) return {};
+      return JSON.parse(json) as Record<string, SurvivalScore[]>;
+    } catch (e) {
+      console.warn('Failed to load survival scores', e);
+      return {};
+    }
+  }
+
+  /**
+   * Save control bindings to localStorage
+   */
+  saveBindings(bindings: ControlBindings): void {
+    try {
+      localStorage.setItem(this.BINDINGS_KEY, JSON.stringify(bindings));
+    } catch (e) {
+      console.warn('Failed to save controls', e);
+    }
+  }
+
+  /**
+   * Load control bindings from localStorage.
+   * Actions missing or invalid in the saved data keep their default binding.
+   */
+  loadBindings(): ControlBindings {
+    const bindings = { ...DEFAULT_BINDINGS };
+    try {
+      const json = localStorage.getItem(this.BINDINGS_KEY);
+      if (!json) return bindings;
+
+      const saved = JSON.parse(json) as Partial<Record<GameAction, unknown>>;
+      for (const action of Object.keys(bindings) as GameAction[]) {
+        const binding = saved[action];
+        if (isInputBinding(binding)) {
+          bindings[action] = binding;
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to load controls', e);
+    }
+    return bindings;
+  }
+
   /**
    * Clear all saved data
    */
   clearProgress(): void {
     localStorage.removeItem(this.STORAGE_KEY);
+    localStorage.removeItem(this.SURVIVAL_KEY);
   }
 }
@@ -0,0 +1,120 @@
+import { TileMapData, TilesetData } from '../types';
+import { Rect } from '../types/Rect';
+
+// Tiled's flip flags in the top bits of a tile ID
+const FLIP_HORIZONTAL = 0x80000000;
+const FLIP_VERTICAL = 0x40000000;
+const FLIP_DIAGONAL = 0x20000000;
+const GID_MASK = 0x0fffffff;
+
+/**
+ * TileMapRenderer draws a level's tile layers, only the tiles in view. Tileset images
+ * load the first time they are drawn; until then (or if one fails to load) its tiles
+ * are drawn as flat blocks in the solid platform colour.
+ */
+export class TileMapRenderer {
+  private tileMap: TileMapData | null = null;
+  private tilesets: TilesetData[] = []; // Highest firstGid first, for lookup
+  private images: Map<string, HTMLImageElement> = new Map();
+
+  /**
+   * Set the tile map to draw, or null for none
+   */
+  setTileMap(tileMap: TileMapData | null): void {
+    this.tileMap = tileMap;
+    this.tilesets = tileMap ? [...tileMap.tilesets].sort((a, b) => b.firstGid - a.firstGid) : [];
+  }
+
+  /**
+   * Check whether there is a tile map to draw
+   */
+  hasTileMap(): boolean {
+    return this.tileMap !== null;
+  }
+
+  /**
+   * Draw the tile layers that overlap the view
+   * @param view - Visible world area
+   */
+  render(ctx: CanvasRenderingContext2D, view: Rect): void {
+    const tileMap = this.tileMap;
+    if (!tileMap) return;
+
+    const { tileWidth, tileHeight } = tileMap;
+
+    for (const layer of tileMap.layers) {
+      // Tiles can be taller than the grid, so look one row further down
+      const firstColumn = Math.max(0, Math.floor((view.x - layer.offsetX) / tileWidth));
+      const lastColumn = Math.min(layer.width - 1, Math.floor((view.x + view.width - layer.offsetX) / tileWidth));
+      const firstRow = Math.max(0, Math.floor((view.y - layer.offsetY) / tileHeight));
+      const lastRow = Math.min(layer.height - 1, Math.floor((view.y + view.height - layer.offsetY) / tileHeight) + 1);
+
+      ctx.save();
+      ctx.globalAlpha = layer.opacity;
+
+      for (let row = firstRow; row <= lastRow; row++) {
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          const gid = layer.gids[row * layer.width + column] ?? 0;
+          if ((gid & GID_MASK) === 0) continue;
+          this.renderTile(ctx, gid, layer.offsetX + column * tileWidth, layer.offsetY + row * tileHeight, tileWidth, tileHeight);
+        }
+      }
+
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Draw one tile in the grid cell at (x, y). Tiles bigger than the grid hang up from
+   * the cell's bottom-left corner, as in Tiled.
+   */
+  private renderTile(ctx: CanvasRenderingContext2D, gid: number, x: number, y: number, cellWidth: number, cellHeight: number): void {
+    const id = gid & GID_MASK;
+    const tileset = this.tilesets.find(candidate => candidate.firstGid <= id);
+    const image = tileset ? this.getImage(tileset.image) : null;
+
+    if (!tileset || !image) {
+      ctx.fillStyle = '#2A2A4A'; // Solid platform colour
+      ctx.fillRect(x, y, cellWidth, cellHeight);
+      return;
+    }
+
+    const index = id - tileset.firstGid;
+    const sourceX = tileset.margin + (index % tileset.columns) * (tileset.tileWidth + tileset.spacing);
+    const sourceY = tileset.margin + Math.floor(index / tileset.columns) * (tileset.tileHeight + tileset.spacing);
+    const { tileWidth: width, tileHeight: height } = tileset;
+    const top = y + cellHeight - height;
+
+    const flipH = (gid & FLIP_HORIZONTAL) !== 0;
+    const flipV = (gid & FLIP_VERTICAL) !== 0;
+    const flipD = (gid & FLIP_DIAGONAL) !== 0;
+    if (!flipH && !flipV && !flipD) {
+      ctx.drawImage(image, sourceX, sourceY, width, height, x, top, width, height);
+      return;
+    }
+
+    // Flip about the tile's centre: diagonal (swap axes) first, then horizontal and vertical
+    ctx.save();
+    ctx.translate(x + width / 2, top + height / 2);
+    ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1);
+    if (flipD) {
+      ctx.transform(0, 1, 1, 0, 0, 0);
+    }
+    ctx.drawImage(image, sourceX, sourceY, width, height, -width / 2, -height / 2, width, height);
+    ctx.restore();
+  }
+
+  /**
+   * Get a loaded tileset image, starting the load on first use
+   * @returns The image, or null while loading or if it failed
+   */
+  private getImage(url: string): HTMLImageElement | null {
+    let image = this.images.get(url);
+    if (!image) {
+      image = new Image();
+      image.src = url;
+      this.images.set(url, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  }
+}
@@ -0,0 +1,237 @@
+import { EnemyArchetype, Level, LevelAction, TriggerData } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { Rect } from '../types/Rect';
+import { Entity } from '../entities/Entity';
+import { Enemy } from '../entities/Enemy';
+import { MovingPlatform } from '../entities/MovingPlatform';
+import { Switch } from '../entities/Switch';
+import { Engine } from '../engine/Engine';
+import { getEnemyArchetype } from '../data/enemies';
+
+/**
+ * How TriggerSystem gets enemies into the level (LevelManager wires it up)
+ */
+export interface TriggerSpawner {
+  spawnEnemy(archetype: EnemyArchetype, position: Vec2, patrolPoints: Vec2[]): Enemy;
+}
+
+// Live state of one trigger volume
+interface TriggerState {
+  data: TriggerData;
+  zone: Rect;
+  inside: boolean; // Something that sets it off was inside last tick
+  spent: boolean; // A once trigger that has fired
+}
+
+/**
+ * TriggerSystem runs a level's interactive elements: movers (moving platforms and
+ * elevators) and doors, which are moving platforms in PhysicsSystem that carry whatever
+ * stands on them; pressure plates and levers; and invisible trigger volumes. Switches
+ * and triggers fire level actions: opening doors, starting movers, spawning enemy
+ * groups and panning the camera.
+ */
+export class TriggerSystem {
+  private readonly DEFAULT_MOVER_SPEED = 100; // pixels per second
+  private readonly DEFAULT_MOVER_WAIT = 1; // seconds
+  private readonly DEFAULT_DOOR_SPEED = 200; // pixels per second
+  private readonly DEFAULT_PAN_DURATION = 1; // seconds each way
+  private readonly DEFAULT_PAN_HOLD = 2; // seconds
+
+  private engine: Engine;
+  private spawner: TriggerSpawner;
+  private movers: MovingPlatform[] = []; // Doors included
+  private moversById = new Map<string, MovingPlatform>();
+  private doorsById = new Map<string, MovingPlatform>();
+  private switches: Switch[] = [];
+  private triggers: TriggerState[] = [];
+
+  /**
+   * Create a trigger system
+   * @param engine - The engine level elements are spawned into
+   * @param spawner - Spawns enemies for spawnEnemies actions
+   */
+  constructor(engine: Engine, spawner: TriggerSpawner) {
+    this.engine = engine;
+    this.spawner = spawner;
+  }
+
+  /**
+   * Build a level's movers, doors, switches and triggers, replacing the last level's
+   */
+  start(level: Level): void {
+    this.clear();
+
+    for (const data of level.movers ?? []) {
+      const mover = this.addMover(new MovingPlatform(0, new Vec2(data.width, data.height), {
+        stops: [data, ...data.path].map(stop => new Vec2(stop.x, stop.y)),
+        startAt: 0,
+        speed: data.speed ?? this.DEFAULT_MOVER_SPEED,
+        wait: data.wait ?? this.DEFAULT_MOVER_WAIT,
+        loop: data.loop ?? false,
+        activation: data.activation ?? 'auto',
+        oneWay: data.oneWay ?? false,
+        door: false,
+      }));
+      if (data.id) {
+        this.moversById.set(data.id, mover);
+      }
+    }
+
+    for (const data of level.doors ?? []) {
+      const open = data.open ?? { x: data.x, y: data.y - data.height };
+      const door = this.addMover(new MovingPlatform(0, new Vec2(data.width, data.height), {
+        stops: [new Vec2(data.x, data.y), new Vec2(open.x, open.y)],
+        startAt: data.startOpen ? 1 : 0,
+        speed: data.speed ?? this.DEFAULT_DOOR_SPEED,
+        wait: 0,
+        loop: false,
+        activation: 'trigger',
+        oneWay: false,
+        door: true,
+      }));
+      this.doorsById.set(data.id, door);
+    }
+
+    for (const data of level.switches ?? []) {
+      const position = new Vec2(data.x, data.y);
+      const lever = new Switch(0, position, data.kind, data.once ?? false);
+      lever.setOnChange(on => {
+        this.engine.soundManager.playPlaceholder('switch');
+        this.runActions(on ? data.actions : data.releaseActions ?? [], lever.getBounds().center);
+      });
+      this.engine.spawn(lever);
+      this.switches.push(lever);
+    }
+
+    this.triggers = (level.triggers ?? []).map(data => ({
+      data,
+      zone: new Rect(data.x, data.y, data.width, data.height),
+      inside: false,
+      spent: false,
+    }));
+  }
+
+  /**
+   * Register a mover's platform with physics and spawn it
+   */
+  private addMover(mover: MovingPlatform): MovingPlatform {
+    this.engine.physicsSystem.addMovingPlatform(mover.platform);
+    this.engine.spawn(mover);
+    this.movers.push(mover);
+    return mover;
+  }
+
+  /**
+   * Remove every level element, and cancel any camera pan they started
+   */
+  clear(): void {
+    for (const mover of this.movers) {
+      this.engine.physicsSystem.removeMovingPlatform(mover.platform);
+      this.engine.despawn(mover.id);
+    }
+    for (const lever of this.switches) {
+      this.engine.despawn(lever.id);
+    }
+    this.movers = [];
+    this.moversById.clear();
+    this.doorsById.clear();
+    this.switches = [];
+    this.triggers = [];
+    this.engine.camera.stopPan();
+  }
+
+  /**
+   * Move platforms and their riders, then check plates and trigger volumes
+   */
+  update(dt: number): void {
+    if (this.movers.length === 0 && this.switches.length === 0 && this.triggers.length === 0) return;
+
+    const physics = this.engine.physicsSystem;
+    const bodies = this.engine.queryEntities(entity => entity.hasTag('physics'));
+    const players = bodies.filter(entity => entity.hasTag('player'));
+
+    for (const mover of this.movers) {
+      const ridden = players.some(player => physics.isRiding(player, mover.platform));
+      physics.movePlatform(mover.platform, mover.advance(dt, ridden), bodies);
+      mover.syncPosition();
+    }
+
+    for (const plate of this.switches) {
+      if (plate.kind !== 'plate') continue;
+      const bounds = plate.getBounds();
+      plate.setPressed(bodies.some(body => body.getBounds().overlaps(bounds)));
+    }
+
+    for (const trigger of this.triggers) {
+      if (trigger.spent) continue;
+
+      const by = trigger.data.by ?? 'player';
+      const activator = bodies.find(body => this.canActivate(body, by) && body.getBounds().overlaps(trigger.zone));
+      if (activator && !trigger.inside) {
+        this.runActions(trigger.data.actions, activator.getBounds().center);
+        trigger.spent = trigger.data.once ?? true;
+      }
+      trigger.inside = activator !== undefined;
+    }
+  }
+
+  /**
+   * Check whether an entity sets off triggers of a kind
+   */
+  private canActivate(entity: Entity, by: 'player' | 'enemy' | 'any'): boolean {
+    const isPlayer = entity.hasTag('player');
+    const isEnemy = entity.hasTag('enemy');
+    return by === 'any' ? isPlayer || isEnemy : by === 'player' ? isPlayer : isEnemy;
+  }
+
+  /**
+   * Run a switch's or trigger's actions
+   * @param origin - Where they were set off; spawned enemies come looking there
+   */
+  private runActions(actions: LevelAction[], origin: Vec2): void {
+    for (const action of actions) {
+      switch (action.type) {
+        case 'open':
+          this.doorsById.get(action.target)?.open();
+          break;
+        case 'close':
+          this.doorsById.get(action.target)?.close();
+          break;
+        case 'toggle': {
+          const door = this.doorsById.get(action.target);
+          if (door?.isOpen()) {
+            door.close();
+          } else {
+            door?.open();
+          }
+          break;
+        }
+        case 'start':
+          this.moversById.get(action.target)?.start();
+          break;
+        case 'stop':
+          this.moversById.get(action.target)?.stop();
+          break;
+        case 'spawnEnemies':
+          for (const spawn of action.enemies) {
+            const archetype = getEnemyArchetype(spawn.type);
+            if (!archetype) continue; // Rejected by validateLevel
+            const enemy = this.spawner.spawnEnemy(
+              archetype,
+              new Vec2(spawn.x, spawn.y),
+              spawn.patrolPoints?.map(point => new Vec2(point.x, point.y)) ?? []
+            );
+            enemy.investigate(origin);
+          }
+          break;
+        case 'cameraPan':
+          this.engine.camera.panTo(
+            new Vec2(action.x, action.y),
+            action.duration ?? this.DEFAULT_PAN_DURATION,
+            action.hold ?? this.DEFAULT_PAN_HOLD
+          );
+          break;
+      }
+    }
+  }
+}
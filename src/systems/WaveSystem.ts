@@ -0,0 +1,338 @@
+import { EnemyArchetype, Level, PickupSpawnData, ZoneData } from '../types';
+import { Vec2 } from '../types/Vec2';
+import { Entity } from '../entities/Entity';
+import { Enemy } from '../entities/Enemy';
+import { Pickup } from '../entities/Pickup';
+import { Engine } from '../engine/Engine';
+import { getEnemyArchetype } from '../data/enemies';
+import { BOSS_TYPE, BOSS_WAVE_INTERVAL, WAVE_ENEMIES, getSupplyDrop } from '../data/waves';
+
+export type WavePhase = 'intermission' | 'spawning' | 'fighting';
+
+/**
+ * Wave survival state, for the HUD
+ */
+export interface WaveStatus {
+  wave: number; // Current wave, or the next one during an intermission
+  phase: WavePhase;
+  enemiesRemaining: number; // Still to spawn or alive this wave
+  intermissionTimeLeft: number; // Seconds until the next wave (0 outside intermissions)
+  wavesCleared: number;
+  bonus: number; // Points earned for clearing waves
+}
+
+/**
+ * How a wave survival run ended, for the game over screen and the high-score table
+ */
+export interface SurvivalResult {
+  arena: string; // Level name
+  wave: number; // Wave reached
+  wavesCleared: number;
+  kills: number;
+  time: number; // seconds
+  score: number;
+}
+
+/**
+ * How WaveSystem gets enemies and pickups into the level (LevelManager wires them up)
+ */
+export interface WaveSpawner {
+  spawnEnemy(archetype: EnemyArchetype, position: Vec2): Enemy;
+  spawnPickup(data: PickupSpawnData): Pickup;
+}
+
+/**
+ * WaveSystem runs wave survival: the level's enemySpawns are ignored and enemies arrive
+ * in escalating waves from its spawnZones. Each wave is bigger and tougher than the last,
+ * and clearing one drops supplies and starts an intermission before the next.
+ * Runs until every player is out of lives; all randomness comes from the engine's seeded
+ * Random, so runs replay exactly.
+ */
+export class WaveSystem {
+  private readonly FIRST_WAVE_DELAY = 3; // seconds before wave 1
+  private readonly INTERMISSION_TIME = 10; // seconds between waves
+  private readonly BASE_WAVE_SIZE = 4;
+  private readonly WAVE_SIZE_GROWTH = 2; // extra enemies per wave
+  private readonly MAX_WAVE_SIZE = 40;
+  private readonly MAX_ALIVE = 8; // enemies on the field at once; the rest wait their turn
+  private readonly SPAWN_INTERVAL = 0.8; // seconds between spawns
+  private readonly HEALTH_GROWTH = 0.12; // enemy health multiplier gained per wave
+  private readonly DAMAGE_GROWTH = 0.06; // enemy weapon damage multiplier gained per wave
+  private readonly SPEED_GROWTH = 0.02; // enemy move speed multiplier gained per wave
+  private readonly MAX_SPEED_SCALE = 1.3;
+  private readonly MIN_SPAWN_DISTANCE = 300; // pixels from the nearest player, when a zone allows it
+  private readonly HUNT_INTERVAL = 2; // seconds between sending idle enemies after the players
+  private readonly WAVE_CLEAR_POINTS = 100; // per wave number cleared
+
+  private engine: Engine;
+  private spawner: WaveSpawner;
+  private zones: ZoneData[] = [];
+  private arena: string = '';
+  private wave: number = 0;
+  private phase: WavePhase = 'intermission';
+  private phaseTimer: number = 0; // Intermission countdown, or time until the next spawn
+  private queue: string[] = []; // Enemy types still to spawn this wave
+  private alive: Enemy[] = [];
+  private supplies: Pickup[] = []; // Last supply drop, removed when the next one lands
+  private huntTimer: number = 0;
+  private wavesCleared: number = 0;
+  private bonus: number = 0;
+
+  /**
+   * Create a wave system
+   * @param engine - The engine supplying randomness and the score
+   * @param spawner - Spawns enemies and pickups into the level
+   */
+  constructor(engine: Engine, spawner: WaveSpawner) {
+    this.engine = engine;
+    this.spawner = spawner;
+  }
+
+  /**
+   * Start a run in a level, with the first wave after a short countdown
+   * @throws If the level has no spawn zones
+   */
+  start(level: Level): void {
+    this.setLevel(level);
+    this.arena = level.name;
+    this.wave = 0;
+    this.queue = [];
+    this.alive = [];
+    this.supplies = [];
+    this.huntTimer = 0;
+    this.wavesCleared = 0;
+    this.bonus = 0;
+    this.startIntermission(this.FIRST_WAVE_DELAY);
+  }
+
+  /**
+   * Take spawn zones from an edited version of the level (hot reload), keeping the run going
+   * @throws If the level has no spawn zones
+   */
+  setLevel(level: Level): void {
+    if (!level.spawnZones || level.spawnZones.length === 0) {
+      throw new Error(`[WaveSystem] Level "${level.name}" has no spawnZones to send waves from`);
+    }
+    this.zones = level.spawnZones;
+  }
+
+  /**
+   * Advance intermissions and spawning, and check whether the wave is cleared
+   * @param players - The players currently alive
+   */
+  update(dt: number, players: Entity[]): void {
+    this.alive = this.alive.filter(enemy => enemy.active);
+
+    switch (this.phase) {
+      case 'intermission':
+        this.phaseTimer -= dt;
+        if (this.phaseTimer <= 0) {
+          this.startWave();
+        }
+        return;
+
+      case 'spawning':
+        this.phaseTimer -= dt;
+        if (this.phaseTimer <= 0 && this.alive.length < this.MAX_ALIVE) {
+          this.spawnNext(players);
+          this.phaseTimer = this.SPAWN_INTERVAL;
+          if (this.queue.length === 0) {
+            this.phase = 'fighting';
+          }
+        }
+        break;
+
+      case 'fighting':
+        if (this.alive.length === 0) {
+          this.clearWave(players);
+          return;
+        }
+        break;
+    }
+
+    // Enemies that spawned out of sight or gave up searching go after the nearest player
+    this.huntTimer -= dt;
+    if (this.huntTimer <= 0 && players.length > 0) {
+      this.huntTimer = this.HUNT_INTERVAL;
+      for (const enemy of this.alive) {
+        const nearest = this.findNearest(enemy.position, players);
+        if (nearest) {
+          enemy.investigate(nearest.getBounds().center);
+        }
+      }
+    }
+  }
+
+  /**
+   * Begin the next wave, rolling its enemies
+   */
+  private startWave(): void {
+    this.wave++;
+    this.queue = this.rollWave(this.wave);
+    this.phase = 'spawning';
+    this.phaseTimer = 0;
+    this.huntTimer = 0;
+  }
+
+  /**
+   * Pick the enemy types of a wave: bosses first on boss waves, then weighted picks
+   * from the types unlocked by this wave
+   */
+  private rollWave(wave: number): string[] {
+    const size = Math.min(this.MAX_WAVE_SIZE, this.BASE_WAVE_SIZE + (wave - 1) * this.WAVE_SIZE_GROWTH);
+    const types: string[] = [];
+
+    const bosses = wave % BOSS_WAVE_INTERVAL === 0 ? wave / BOSS_WAVE_INTERVAL : 0;
+    for (let i = 0; i < bosses && types.length < size; i++) {
+      types.push(BOSS_TYPE);
+    }
+
+    const pool = WAVE_ENEMIES.filter(entry => entry.firstWave <= wave);
+    const totalWeight = pool.reduce((sum, entry) => sum + entry.weight, 0);
+    while (types.length < size) {
+      let roll = this.engine.random.next() * totalWeight;
+      let picked = pool[pool.length - 1];
+      for (const entry of pool) {
+        roll -= entry.weight;
+        if (roll < 0) {
+          picked = entry;
+          break;
+        }
+      }
+      if (!picked) break;
+      types.push(picked.type);
+    }
+    return types;
+  }
+
+  /**
+   * Spawn the next queued enemy, scaled for the wave, in a zone away from the players
+   */
+  private spawnNext(players: Entity[]): void {
+    const type = this.queue.shift();
+    const base = type ? getEnemyArchetype(type) : undefined;
+    if (!base) return;
+
+    const archetype = this.scaleArchetype(base, this.wave);
+    const zone = this.pickZone(players);
+    const maxX = Math.max(zone.x, zone.x + zone.width - archetype.size.width);
+    const position = new Vec2(
+      zone.x + this.engine.random.next() * (maxX - zone.x),
+      zone.y + zone.height - archetype.size.height
+    );
+
+    this.alive.push(this.spawner.spawnEnemy(archetype, position));
+  }
+
+  /**
+   * Make a tougher copy of an archetype for a wave
+   */
+  private scaleArchetype(archetype: EnemyArchetype, wave: number): EnemyArchetype {
+    const level = wave - 1;
+    return {
+      ...archetype,
+      health: Math.round(archetype.health * (1 + level * this.HEALTH_GROWTH)),
+      moveSpeed: archetype.moveSpeed * Math.min(this.MAX_SPEED_SCALE, 1 + level * this.SPEED_GROWTH),
+      weapon: { ...archetype.weapon, damage: archetype.weapon.damage * (1 + level * this.DAMAGE_GROWTH) },
+    };
+  }
+
+  /**
+   * Pick a random spawn zone, preferring ones away from every player
+   */
+  private pickZone(players: Entity[]): ZoneData {
+    const distant = this.zones.filter(zone => {
+      const center = new Vec2(zone.x + zone.width / 2, zone.y + zone.height / 2);
+      return players.every(player => player.position.distance(center) >= this.MIN_SPAWN_DISTANCE);
+    });
+    const candidates = distant.length > 0 ? distant : this.zones;
+    return candidates[Math.floor(this.engine.random.next() * candidates.length)] ?? this.zones[0]!;
+  }
+
+  /**
+   * Score the cleared wave, drop supplies and start the intermission
+   */
+  private clearWave(players: Entity[]): void {
+    this.wavesCleared++;
+    this.bonus += this.wave * this.WAVE_CLEAR_POINTS;
+    this.dropSupplies(players);
+    this.startIntermission(this.INTERMISSION_TIME);
+  }
+
+  /**
+   * Drop the wave's supplies by a random player, replacing any left from the last drop
+   */
+  private dropSupplies(players: Entity[]): void {
+    for (const pickup of this.supplies) {
+      if (pickup.active) {
+        this.engine.despawn(pickup.id);
+      }
+    }
+    this.supplies = [];
+
+    const player = players[Math.floor(this.engine.random.next() * players.length)];
+    if (!player) return;
+    const center = player.getBounds().center;
+
+    for (const data of getSupplyDrop(this.wave)) {
+      const pickup = this.spawner.spawnPickup({ ...data, x: center.x - 10, y: center.y - 40 });
+      // Scatter the drop so it doesn't land in one pile
+      pickup.velocity.set((this.engine.random.next() - 0.5) * 300, -300);
+      this.supplies.push(pickup);
+    }
+  }
+
+  /**
+   * Wait before the next wave
+   */
+  private startIntermission(seconds: number): void {
+    this.phase = 'intermission';
+    this.phaseTimer = seconds;
+  }
+
+  /**
+   * Find the player closest to a position
+   */
+  private findNearest(position: Vec2, players: Entity[]): Entity | null {
+    let nearest: Entity | null = null;
+    let nearestDistance = Infinity;
+    for (const player of players) {
+      const distance = position.distance(player.position);
+      if (distance < nearestDistance) {
+        nearest = player;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Get the run's state for the HUD
+   */
+  getStatus(): WaveStatus {
+    const intermission = this.phase === 'intermission';
+    return {
+      wave: intermission ? this.wave + 1 : this.wave,
+      phase: this.phase,
+      enemiesRemaining: intermission ? 0 : this.queue.length + this.alive.length,
+      intermissionTimeLeft: intermission ? Math.max(0, this.phaseTimer) : 0,
+      wavesCleared: this.wavesCleared,
+      bonus: this.bonus,
+    };
+  }
+
+  /**
+   * Get the run's result so far: combat score plus wave clear points
+   */
+  getResult(): SurvivalResult {
+    const { kills, time } = this.engine.scoreSystem.getLevelResult();
+    return {
+      arena: this.arena,
+      wave: Math.max(1, this.wave),
+      wavesCleared: this.wavesCleared,
+      kills,
+      time,
+      score: this.engine.scoreSystem.getCurrentScore() + this.bonus,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { WeaponDef } from '../types';
 import { Vec2 } from '../types/Vec2';
+import { Random } from '../engine/Random';
 
 /**
  * Weapon state for tracking ammo, cooldown, and reload
@@ -7,9 +8,37 @@ import { Vec2 } from '../types/Vec2';
 export interface WeaponState {
   weapon: WeaponDef;
   currentAmmo: number;
+  reserveAmmo: number;
   isReloading: boolean;
   reloadTimer: number;
   fireCooldown: number;
+  burstRemaining: number; // Shots left in the current burst
+  isCharging: boolean;
+  chargeTimer: number; // Seconds the trigger has been held for a charge shot
+}
+
+/**
+ * Trigger input for one update
+ * - pressed: went down this update
+ * - held: still down
+ * - released: came up this update
+ * - up: not touched (still lets a burst in progress finish)
+ */
+export type TriggerState = 'pressed' | 'held' | 'released' | 'up';
+
+/**
+ * Fallbacks for weapons that pick a fire mode without tuning it
+ */
+const DEFAULT_BURST = { count: 3, interval: 0.08 };
+const DEFAULT_CHARGE = { time: 1.0, minMultiplier: 0.25 };
+
+/**
+ * Weapons carried by an entity. Each weapon keeps its own state so
+ * swapping away and back doesn't refill the magazine or finish a reload.
+ */
+interface WeaponInventory {
+  states: Map<string, WeaponState>;
+  current: WeaponState;
 }
 
 /**
@@ -20,48 +49,94 @@ export interface ProjectileSpawnData {
   direction: Vec2;
   damage: number;
   speed: number;
+  weapon: WeaponDef;
 }
 
 /**
  * WeaponSystem manages weapon mechanics including firing, reloading, and ammo tracking.
  */
 export class WeaponSystem {
-  private weaponStates: Map<number, WeaponState> = new Map();
+  private inventories: Map<number, WeaponInventory> = new Map();
+  private random: Random;
+
+  /**
+   * @param random - Generator for weapon spread (shared with the engine for determinism)
+   */
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
 
   /**
-   * Register a weapon for an entity
+   * Give an entity a weapon and equip it. Weapons the entity already carries keep their ammo.
    * @param entityId - The entity ID that owns this weapon
    * @param weapon - The weapon definition
+   * @param reserveAmmo - Spare rounds to start with (Infinity for weapons that never run dry)
    */
-  registerWeapon(entityId: number, weapon: WeaponDef): void {
-    this.weaponStates.set(entityId, {
-      weapon,
-      currentAmmo: weapon.magazineSize,
-      isReloading: false,
-      reloadTimer: 0,
-      fireCooldown: 0,
-    });
+  registerWeapon(
+    entityId: number,
+    weapon: WeaponDef,
+    reserveAmmo: number = weapon.startingReserveAmmo
+  ): void {
+    let inventory = this.inventories.get(entityId);
+    let state = inventory?.states.get(weapon.name);
+
+    if (!state) {
+      state = {
+        weapon,
+        currentAmmo: weapon.magazineSize,
+        reserveAmmo,
+        isReloading: false,
+        reloadTimer: 0,
+        fireCooldown: 0,
+        burstRemaining: 0,
+        isCharging: false,
+        chargeTimer: 0,
+      };
+    }
+
+    if (!inventory) {
+      inventory = { states: new Map(), current: state };
+      this.inventories.set(entityId, inventory);
+    }
+
+    // Putting a weapon away drops any burst or charge in progress
+    if (inventory.current !== state) {
+      inventory.current.burstRemaining = 0;
+      inventory.current.isCharging = false;
+      inventory.current.chargeTimer = 0;
+    }
+
+    inventory.states.set(weapon.name, state);
+    inventory.current = state;
   }
 
   /**
-   * Update all weapon states (cooldowns and reload timers)
+   * Update equipped weapon states (cooldowns and reload timers).
+   * Holstered weapons are paused, so a swap keeps reload progress where it was.
    * @param dt - Delta time in seconds
    */
   update(dt: number): void {
-    for (const state of this.weaponStates.values()) {
+    for (const { current: state } of this.inventories.values()) {
       // Update fire cooldown
       if (state.fireCooldown > 0) {
         state.fireCooldown -= dt;
         if (state.fireCooldown < 0) state.fireCooldown = 0;
       }
 
+      // Build up charge while the trigger is held
+      if (state.isCharging) {
+        state.chargeTimer += dt;
+      }
+
       // Update reload timer
       if (state.isReloading) {
         state.reloadTimer -= dt;
         if (state.reloadTimer <= 0) {
-          // Reload complete
+          // Reload complete - refill the magazine from the reserve
+          const loaded = Math.min(state.weapon.magazineSize - state.currentAmmo, state.reserveAmmo);
+          state.currentAmmo += loaded;
+          state.reserveAmmo -= loaded;
           state.isReloading = false;
-          state.currentAmmo = state.weapon.magazineSize;
           state.reloadTimer = 0;
         }
       }
@@ -69,22 +144,91 @@ export class WeaponSystem {
   }
 
   /**
-   * Attempt to fire a weapon
+   * Attempt to fire a weapon according to its fire mode.
+   * Call every update with the trigger state so bursts and charge shots can play out.
    * @param entityId - The entity ID firing the weapon
    * @param position - The position to spawn projectiles from
    * @param direction - The direction to fire (normalized)
-   * @returns Array of projectile spawn data, or empty array if can't fire
+   * @param trigger - Trigger input this update (defaults to a single pull)
+   * @returns Array of projectile spawn data, or empty array if nothing was fired
    */
   fire(
     entityId: number,
     position: Vec2,
-    direction: Vec2
+    direction: Vec2,
+    trigger: TriggerState = 'pressed'
   ): ProjectileSpawnData[] {
-    const state = this.weaponStates.get(entityId);
+    const state = this.inventories.get(entityId)?.current;
     if (!state) return [];
 
+    const weapon = state.weapon;
+
+    switch (weapon.fireMode) {
+      case 'semi':
+        if (trigger !== 'pressed') return [];
+        return this.fireShot(state, position, direction, 1);
+
+      case 'auto':
+        if (trigger !== 'pressed' && trigger !== 'held') return [];
+        return this.fireShot(state, position, direction, 1);
+
+      case 'burst': {
+        const burst = weapon.burst ?? DEFAULT_BURST;
+        if (trigger === 'pressed' && state.burstRemaining === 0 && this.isReady(state)) {
+          state.burstRemaining = burst.count;
+        }
+        if (state.burstRemaining === 0) return [];
+
+        const projectiles = this.fireShot(state, position, direction, 1);
+        if (projectiles.length === 0) {
+          // Ran dry mid-burst - otherwise just waiting on the interval
+          if (state.isReloading || state.currentAmmo <= 0) state.burstRemaining = 0;
+          return [];
+        }
+
+        // An auto-reload on the last round already ended the burst
+        state.burstRemaining = Math.max(0, state.burstRemaining - 1);
+        if (state.burstRemaining > 0) {
+          state.fireCooldown = burst.interval;
+        }
+        return projectiles;
+      }
+
+      case 'charge': {
+        const charge = weapon.charge ?? DEFAULT_CHARGE;
+        if (trigger === 'pressed' || trigger === 'held') {
+          if (!state.isCharging && this.isReady(state)) {
+            state.isCharging = true;
+            state.chargeTimer = 0;
+          }
+          return [];
+        }
+
+        if (!state.isCharging) return [];
+        state.isCharging = false;
+
+        // Trigger lost without a release (e.g. focus change) - cancel the shot
+        if (trigger === 'up') return [];
+
+        const ratio = Math.min(1, state.chargeTimer / charge.time);
+        state.chargeTimer = 0;
+        return this.fireShot(state, position, direction, charge.minMultiplier + (1 - charge.minMultiplier) * ratio);
+      }
+    }
+  }
+
+  /**
+   * Fire a single shot, consuming ammo and starting the cooldown
+   * @param damageMultiplier - Scales the weapon's damage (charge shots)
+   */
+  private fireShot(
+    state: WeaponState,
+    position: Vec2,
+    direction: Vec2,
+    damageMultiplier: number
+  ): ProjectileSpawnData[] {
     // Check if can fire
-    if (state.isReloading || state.fireCooldown > 0 || state.currentAmmo <= 0) {
+    if (!this.isReady(state)) {
       return [];
     }
 
@@ -94,9 +238,9 @@ export class WeaponSystem {
     // Set fire cooldown
     state.fireCooldown = 1 / state.weapon.fireRate;
 
-    // Auto-reload if magazine empty
+    // Auto-reload if magazine empty (does nothing when the reserve is dry)
     if (state.currentAmmo === 0) {
-      this.startReload(entityId);
+      this.startReloadState(state);
     }
 
     // Generate projectiles based on weapon
@@ -113,7 +257,7 @@ export class WeaponSystem {
       } else {
         // Single projectile with random spread
         const spreadRange = weapon.spread * (Math.PI / 180);
-        spreadAngle = (Math.random() - 0.5) * spreadRange;
+        spreadAngle = (this.random.next() - 0.5) * spreadRange;
       }
 
       // Calculate projectile direction with spread
@@ -123,55 +267,102 @@ export class WeaponSystem {
       projectiles.push({
         position: position.clone(),
         direction: projectileDir,
-        damage: weapon.damage,
+        damage: weapon.damage * damageMultiplier,
         speed: weapon.projectileSpeed,
+        weapon,
       });
     }
 
     return projectiles;
   }
 
+  /**
+   * Check whether a weapon state is able to fire right now
+   */
+  private isReady(state: WeaponState): boolean {
+    return !state.isReloading && state.fireCooldown <= 0 && state.currentAmmo > 0;
+  }
+
   /**
    * Start reloading a weapon
    * @param entityId - The entity ID reloading
-   * @returns True if reload started, false if already reloading or magazine full
+   * @returns True if reload started, false if already reloading, magazine full or out of reserve ammo
    */
   startReload(entityId: number): boolean {
-    const state = this.weaponStates.get(entityId);
+    const state = this.inventories.get(entityId)?.current;
     if (!state) return false;
 
-    // Can't reload if already reloading or magazine is full
-    if (state.isReloading || state.currentAmmo === state.weapon.magazineSize) {
+    return this.startReloadState(state);
+  }
+
+  /**
+   * Start reloading a specific weapon state
+   */
+  private startReloadState(state: WeaponState): boolean {
+    // Can't reload if already reloading, magazine is full or there's nothing to load
+    if (
+      state.isReloading ||
+      state.currentAmmo === state.weapon.magazineSize ||
+      state.reserveAmmo <= 0
+    ) {
       return false;
     }
 
     state.isReloading = true;
     state.reloadTimer = state.weapon.reloadTime;
+    state.burstRemaining = 0;
+    state.isCharging = false;
     return true;
   }
 
   /**
-   * Switch weapon for an entity
+   * Switch weapon for an entity, keeping the state of the weapon being put away
    * @param entityId - The entity ID
    * @param newWeapon - The new weapon definition
    */
   switchWeapon(entityId: number, newWeapon: WeaponDef): void {
-    // Replace weapon state (cancels any ongoing reload)
-    this.weaponStates.set(entityId, {
-      weapon: newWeapon,
-      currentAmmo: newWeapon.magazineSize,
-      isReloading: false,
-      reloadTimer: 0,
-      fireCooldown: 0,
-    });
+    this.registerWeapon(entityId, newWeapon);
   }
 
   /**
-   * Get weapon state for an entity
+   * Add reserve rounds to one of an entity's weapons
+   * @param entityId - The entity ID
+   * @param amount - Number of rounds to add
+   * @param weaponName - Weapon to add rounds to (defaults to the equipped weapon)
+   * @returns Number of rounds actually added
+   */
+  addAmmo(entityId: number, amount: number, weaponName?: string): number {
+    const inventory = this.inventories.get(entityId);
+    if (!inventory) return 0;
+
+    const state = weaponName ? inventory.states.get(weaponName) : inventory.current;
+    if (!state) return 0;
+
+    const added = Math.max(0, Math.min(amount, state.weapon.maxReserveAmmo - state.reserveAmmo));
+    state.reserveAmmo += added;
+
+    // Reload straight away if the magazine ran dry with nothing to reload from
+    if (added > 0 && state === inventory.current && state.currentAmmo === 0) {
+      this.startReload(entityId);
+    }
+    return added;
+  }
+
+  /**
+   * Get the equipped weapon state for an entity
    * @param entityId - The entity ID
    */
   getWeaponState(entityId: number): WeaponState | undefined {
-    return this.weaponStates.get(entityId);
+    return this.inventories.get(entityId)?.current;
+  }
+
+  /**
+   * Get the state of every weapon an entity carries
+   * @param entityId - The entity ID
+   */
+  getInventory(entityId: number): WeaponState[] {
+    const inventory = this.inventories.get(entityId);
+    return inventory ? [...inventory.states.values()] : [];
   }
 
   /**
@@ -179,23 +370,34 @@ export class WeaponSystem {
    * @param entityId - The entity ID
    */
   canFire(entityId: number): boolean {
-    const state = this.weaponStates.get(entityId);
+    const state = this.inventories.get(entityId)?.current;
     if (!state) return false;
-    return !state.isReloading && state.fireCooldown <= 0 && state.currentAmmo > 0;
+    return this.isReady(state);
+  }
+
+  /**
+   * Get how far a charge shot has charged
+   * @param entityId - The entity ID
+   * @returns Charge from 0 to 1, or 0 if not charging
+   */
+  getChargeRatio(entityId: number): number {
+    const state = this.inventories.get(entityId)?.current;
+    if (!state?.isCharging) return 0;
+    return Math.min(1, state.chargeTimer / (state.weapon.charge ?? DEFAULT_CHARGE).time);
   }
 
   /**
-   * Remove weapon state for an entity
+   * Remove all weapon states for an entity
    * @param entityId - The entity ID
    */
   unregisterWeapon(entityId: number): void {
-    this.weaponStates.delete(entityId);
+    this.inventories.delete(entityId);
   }
 
   /**
    * Clear all weapon states
    */
   clear(): void {
-    this.weaponStates.clear();
+    this.inventories.clear();
   }
 }
@@ -50,6 +50,13 @@ export class Vec2 {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
+  /**
+   * Get the point a fraction t of the way from this vector to another
+   */
+  lerp(other: Vec2, t: number): Vec2 {
+    return new Vec2(this.x + (other.x - this.x) * t, this.y + (other.y - this.y) * t);
+  }
+
   /**
    * Create a copy of this vector
    */
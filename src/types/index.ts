@@ -5,6 +5,44 @@
 // Unique identifier for entities
 export type EntityID = number;
 
+// Team/faction an entity fights for. Versus modes can use any other name (e.g. 'red', 'blue').
+// Neutral entities (barrels, pickups) can be damaged by everyone and their hazards hurt everyone.
+export type Team = 'player' | 'enemy' | 'neutral' | (string & {});
+
+// Who dealt a piece of damage
+export interface DamageSource {
+  ownerId: EntityID; // Entity credited with the hit (0 for none)
+  team: Team;
+}
+
+// Friendly-fire rules for a game mode
+export interface FriendlyFirePolicy {
+  enabled: boolean; // Teammates can hurt each other
+  damageScale: number; // Multiplier for damage between teammates when enabled
+  selfDamage: boolean; // Entities can be hurt by their own explosions
+}
+
+// Rules that differ between game modes
+export interface GameMode {
+  name: string;
+  friendlyFire: FriendlyFirePolicy;
+}
+
+// Collision layer bit flags. Two entities are only tested against each other when
+// each one's layer is in the other's mask.
+export enum CollisionLayer {
+  NONE = 0,
+  DEFAULT = 1 << 0,
+  PLAYER = 1 << 1,
+  ENEMY = 1 << 2,
+  PROJECTILE = 1 << 3,
+  PICKUP = 1 << 4,
+  EXPLOSIVE = 1 << 5,
+  OBJECTIVE = 1 << 6, // Things to defend
+  SWITCH = 1 << 7, // Levers flipped by shooting them
+  ALL = 0xffff,
+}
+
 // Game state enum
 export enum GameState {
   MENU = 'menu',
@@ -20,18 +58,62 @@ export enum AIState {
   PATROL = 'patrol',
   CHASE = 'chase',
   ATTACK = 'attack',
+  SEARCH = 'search',
 }
 
+// How a weapon responds to the trigger
+// - semi: one shot per trigger pull
+// - auto: fires continuously while held
+// - burst: one trigger pull fires a fixed burst of shots
+// - charge: hold to charge, release to fire with damage scaled by charge
+export type FireMode = 'semi' | 'auto' | 'burst' | 'charge';
+
+// What a weapon shoots
+// - bullet: straight-flying round
+// - grenade: arcs under gravity, bounces and explodes when its fuse runs out
+// - rocket: straight-flying round that explodes on impact
+// - rail: passes through several targets
+// - beam: instant continuous ray up to the weapon's range
+export type ProjectileKind = 'bullet' | 'grenade' | 'rocket' | 'rail' | 'beam';
+
 // Weapon definition interface
 export interface WeaponDef {
   name: string;
   damage: number;
   fireRate: number; // shots per second
   magazineSize: number;
+  startingReserveAmmo: number; // spare rounds carried when the weapon is picked up
+  maxReserveAmmo: number;
   reloadTime: number; // seconds
   projectileSpeed: number;
   spread: number; // degrees
   projectileCount: number; // for shotgun
+  fireMode: FireMode;
+  projectileKind: ProjectileKind;
+  burst?: { count: number; interval: number }; // burst mode: shots per pull, seconds between shots
+  charge?: { time: number; minMultiplier: number }; // charge mode: seconds to full charge, damage multiplier at no charge
+  falloff?: { start: number; end: number; minMultiplier: number }; // damage multiplier drops between these distances (pixels)
+  knockback?: number; // impulse applied to targets hit (pixels per second)
+  gravityScale?: number; // fraction of world gravity applied to projectiles
+  bounciness?: number; // fraction of velocity kept when bouncing off platforms (grenades)
+  fuseTime?: number; // seconds before a grenade explodes
+  splash?: { radius: number; damage: number }; // explosion on impact (rockets) or fuse (grenades)
+  pierce?: number; // extra targets a rail passes through
+  range?: number; // pixels (beams)
+}
+
+// Enemy archetype definition interface
+export interface EnemyArchetype {
+  name: string;
+  health: number;
+  size: { width: number; height: number };
+  moveSpeed: number; // pixels per second
+  sightRadius: number; // pixels
+  attackRange: number; // pixels
+  weapon: WeaponDef;
+  attackCooldown: number; // seconds between attacks
+  colors: { body: string; outline: string };
+  drops?: EnemyDropData[]; // Rolled independently on death
 }
 
 // Level data structure
@@ -39,8 +121,129 @@ export interface Level {
   name: string;
   platforms: PlatformData[];
   enemySpawns: EnemySpawnData[];
+  pickups?: PickupSpawnData[];
+  barrels?: { x: number; y: number }[]; // Explosive barrels
   playerSpawn: { x: number; y: number };
+  deathmatchSpawns?: { x: number; y: number }[]; // Online deathmatch spawns (player and enemy spawns if omitted)
   bounds: { width: number; height: number };
+  objectives?: ObjectiveData[]; // All must be met to complete the level (default: kill every enemy)
+  bonusObjectives?: ObjectiveData[]; // Optional, scoring their points if met when the level completes
+  spawnZones?: ZoneData[]; // Where wave survival enemies arrive, standing on the zone's bottom edge (levels with zones are survival arenas)
+  movers?: MoverData[]; // Moving platforms and elevators
+  doors?: DoorData[];
+  switches?: SwitchData[]; // Pressure plates and levers
+  triggers?: TriggerData[]; // Invisible volumes that fire actions when entered
+  tiles?: TileMapData; // Drawn instead of the platform rectangles (maps imported from Tiled)
+  properties?: Record<string, LevelPropertyValue>; // Custom map properties carried over from Tiled
+}
+
+export type LevelPropertyValue = string | number | boolean;
+
+// Area of the level, e.g. an exit
+export interface ZoneData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Something to achieve in a level (see systems/ObjectiveSystem.ts)
+export type ObjectiveData = (
+  | { type: 'killAll' } // Every enemy dead
+  | { type: 'reachExit'; zone: ZoneData } // A player touches the zone
+  | { type: 'survive'; seconds: number } // The level has lasted this long
+  | { type: 'defend'; target: { x: number; y: number; health?: number } } // Met while the target stands, failed once destroyed
+  | { type: 'collect'; count: number; pickupType?: PickupType } // Pickups collected (of any type if omitted)
+  | { type: 'killTarget'; enemy: number } // The enemySpawns entry at this index (a boss) is dead
+  | { type: 'all' | 'any'; objectives: ObjectiveData[] } // Every one, or at least one, of the group
+) & {
+  label?: string; // Shown instead of the default description
+  points?: number; // Score for a bonus objective
+};
+
+// Solid platform moving through a list of stops (see systems/TriggerSystem.ts)
+export interface MoverData {
+  id?: string; // Name that start/stop actions refer to
+  x: number; // Rectangle at the first stop
+  y: number;
+  width: number;
+  height: number;
+  path: { x: number; y: number }[]; // Further stops (top-left corner)
+  speed?: number; // Pixels per second (default 100)
+  wait?: number; // Seconds paused at each stop (default 1)
+  loop?: boolean; // Carry on from the last stop to the first, instead of turning back
+  activation?: 'auto' | 'ride' | 'trigger'; // Always running (default), leaves a stop once a player rides it, or leaves on a start action
+  oneWay?: boolean;
+}
+
+// Solid gate that slides open and shut on actions
+export interface DoorData {
+  id: string;
+  x: number; // Closed rectangle
+  y: number;
+  width: number;
+  height: number;
+  open?: { x: number; y: number }; // Top-left corner when open (default: raised by its height)
+  speed?: number; // Pixels per second (default 200)
+  startOpen?: boolean;
+}
+
+// Pressure plate (pressed while something stands on it) or lever (flipped by shooting it)
+export interface SwitchData {
+  id?: string;
+  kind: 'plate' | 'lever';
+  x: number; // Top-left corner; plates sit on the floor below
+  y: number;
+  actions: LevelAction[]; // Run when pressed or flipped on
+  releaseActions?: LevelAction[]; // Run when released or flipped off
+  once?: boolean; // Stays pressed/on after the first time
+}
+
+// Invisible volume firing actions when something enters it
+export interface TriggerData extends ZoneData {
+  actions: LevelAction[];
+  by?: 'player' | 'enemy' | 'any'; // What sets it off (default player)
+  once?: boolean; // Fire only the first time (default true); otherwise every time it's entered
+}
+
+// Level event fired by switches and triggers
+export type LevelAction =
+  | { type: 'open' | 'close' | 'toggle'; target: string } // A door's id
+  | { type: 'start' | 'stop'; target: string } // A mover's id
+  | { type: 'spawnEnemies'; enemies: EnemySpawnData[] }
+  | { type: 'cameraPan'; x: number; y: number; duration?: number; hold?: number }; // Show a point of the level: seconds travelling each way (default 1) and staying (default 2)
+
+// Tile layers drawn in place of the flat platform rectangles
+export interface TileMapData {
+  tileWidth: number;
+  tileHeight: number;
+  tilesets: TilesetData[];
+  layers: TileLayerData[]; // Back to front
+}
+
+// Tileset image cut into a grid of tiles
+export interface TilesetData {
+  firstGid: number; // Global tile ID of the first tile
+  image: string; // URL
+  imageWidth: number;
+  imageHeight: number;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  tileCount: number;
+  margin: number; // Pixels around the grid
+  spacing: number; // Pixels between tiles
+}
+
+// Grid of tiles drawn at a pixel offset
+export interface TileLayerData {
+  name: string;
+  width: number; // Tiles
+  height: number;
+  offsetX: number; // Pixels
+  offsetY: number;
+  opacity: number;
+  gids: number[]; // Row by row, 0 = empty; the top bits are Tiled's flip flags
 }
 
 // Platform data
@@ -56,16 +259,66 @@ export interface PlatformData {
 export interface EnemySpawnData {
   x: number;
   y: number;
-  type: string;
+  type: string; // Enemy archetype key (see data/enemies.ts)
   patrolPoints?: { x: number; y: number }[];
 }
 
+// Pickup kinds
+export type PickupType = 'health' | 'ammo' | 'weapon' | 'armor' | 'item'; // Items only count towards collect objectives
+
+// Pickup spawn data
+export interface PickupSpawnData {
+  x: number;
+  y: number;
+  type: PickupType;
+  amount?: number; // Health/armor points or rounds of ammo (defaults per type)
+  weapon?: string; // Weapon name for 'weapon' pickups (see data/weapons.ts)
+  respawnTime?: number; // Seconds until it reappears after collection (omit for one-shot)
+}
+
+// Pickup dropped by an enemy on death
+export interface EnemyDropData {
+  chance: number; // 0-1
+  type: PickupType;
+  amount?: number;
+  weapon?: string;
+}
+
+// Player-facing actions that input is bound to
+export type GameAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'jump'
+  | 'fire'
+  | 'swapWeapon'
+  | 'reload'
+  | 'pause'
+  | 'toggleDebug'
+  | 'toggleInterpolation';
+
+// A key (KeyboardEvent.key, lowercase) or mouse button an action is bound to
+export type InputBinding =
+  | { type: 'key'; key: string }
+  | { type: 'mouse'; button: number };
+
+// One binding per action
+export type ControlBindings = Record<GameAction, InputBinding>;
+
 // Save data structure
 export interface SaveData {
   unlockedLevels: number[];
   bestScores: Record<number, number>;
 }
 
+// One entry in a survival arena's high-score table
+export interface SurvivalScore {
+  score: number;
+  wave: number; // Wave reached
+  kills: number;
+  players: number; // 2 for a co-op run
+  date: string; // ISO date the run ended
+}
+
 // Re-export Vec2 and Rect
 export { Vec2 } from './Vec2';
 export { Rect } from './Rect';